@@ -9,13 +9,16 @@ interface Environment {
   CORS_ORIGIN: string;
   RATE_LIMIT_WINDOW_MS: number;
   RATE_LIMIT_MAX_REQUESTS: number;
+  PUBLIC_URL: string;
   
   // GitHub App Configuration
   GITHUB_APP_ID?: number | undefined;
   GITHUB_PRIVATE_KEY?: string | undefined;
   GITHUB_WEBHOOK_SECRET?: string | undefined;
+  GITHUB_WEBHOOK_SECRETS: string[];
   GITHUB_CLIENT_ID?: string | undefined;
   GITHUB_CLIENT_SECRET?: string | undefined;
+  GITHUB_API_URL?: string | undefined;
   
   // GitHub App Features
   GITHUB_TOKEN_CACHE_TTL: number;
@@ -27,8 +30,30 @@ interface Environment {
   // Webhook Configuration
   WEBHOOK_QUEUE_MAX_SIZE: number;
   WEBHOOK_QUEUE_MAX_RETRIES: number;
+  WEBHOOK_QUEUE_POLL_INTERVAL: number;
+  WEBHOOK_QUEUE_VISIBILITY_TIMEOUT: number;
+  WEBHOOK_QUEUE_BATCH_SIZE: number;
   WEBHOOK_DEDUPLICATION_TTL: number;
   WEBHOOK_DEDUPLICATION_MAX_ENTRIES: number;
+  
+  // Scheduler Configuration
+  SCHEDULER_ENABLED: boolean;
+  SCHEDULER_TICK_INTERVAL: number;
+  SCHEDULER_CATCH_UP_POLICY: 'skip' | 'run_once' | 'run_all';
+  SCHEDULER_MAX_CATCH_UP_RUNS: number;
+  
+  // Workflow Chaining Configuration
+  WORKFLOW_MAX_CHAIN_DEPTH: number;
+  
+  // Secrets Configuration
+  SECRETS_MASTER_KEY?: string | undefined;
+  
+  // Admin API Configuration
+  ADMIN_API_TOKENS: string[];
+  
+  // Repository Workflow Sync Configuration
+  WORKFLOW_SYNC_ENABLED: boolean;
+  WORKFLOW_SYNC_PATH: string;
 }
 
 const environment: Environment = {
@@ -38,13 +63,20 @@ const environment: Environment = {
   CORS_ORIGIN: process.env.CORS_ORIGIN || '*',
   RATE_LIMIT_WINDOW_MS: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10), // 15 minutes
   RATE_LIMIT_MAX_REQUESTS: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
+  PUBLIC_URL: (process.env.PUBLIC_URL || `http://localhost:${process.env.PORT || '3000'}`).replace(/\/+$/, ''),
   
   // GitHub App Configuration
   GITHUB_APP_ID: process.env.GITHUB_APP_ID ? parseInt(process.env.GITHUB_APP_ID, 10) : undefined,
   GITHUB_PRIVATE_KEY: process.env.GITHUB_PRIVATE_KEY,
   GITHUB_WEBHOOK_SECRET: process.env.GITHUB_WEBHOOK_SECRET,
+  // Active secrets while rotating, current first; defaults to GITHUB_WEBHOOK_SECRET
+  GITHUB_WEBHOOK_SECRETS: (process.env.GITHUB_WEBHOOK_SECRETS || process.env.GITHUB_WEBHOOK_SECRET || '')
+    .split(',')
+    .map(secret => secret.trim())
+    .filter(Boolean),
   GITHUB_CLIENT_ID: process.env.GITHUB_CLIENT_ID,
   GITHUB_CLIENT_SECRET: process.env.GITHUB_CLIENT_SECRET,
+  GITHUB_API_URL: process.env.GITHUB_API_URL,
   
   // GitHub App Features
   GITHUB_TOKEN_CACHE_TTL: parseInt(process.env.GITHUB_TOKEN_CACHE_TTL || '3300', 10), // 55 minutes
@@ -56,8 +88,34 @@ const environment: Environment = {
   // Webhook Configuration
   WEBHOOK_QUEUE_MAX_SIZE: parseInt(process.env.WEBHOOK_QUEUE_MAX_SIZE || '1000', 10),
   WEBHOOK_QUEUE_MAX_RETRIES: parseInt(process.env.WEBHOOK_QUEUE_MAX_RETRIES || '3', 10),
+  WEBHOOK_QUEUE_POLL_INTERVAL: parseInt(process.env.WEBHOOK_QUEUE_POLL_INTERVAL || '1000', 10), // 1 second
+  WEBHOOK_QUEUE_VISIBILITY_TIMEOUT: parseInt(process.env.WEBHOOK_QUEUE_VISIBILITY_TIMEOUT || '300000', 10), // 5 minutes
+  WEBHOOK_QUEUE_BATCH_SIZE: parseInt(process.env.WEBHOOK_QUEUE_BATCH_SIZE || '10', 10),
   WEBHOOK_DEDUPLICATION_TTL: parseInt(process.env.WEBHOOK_DEDUPLICATION_TTL || '300000', 10), // 5 minutes
-  WEBHOOK_DEDUPLICATION_MAX_ENTRIES: parseInt(process.env.WEBHOOK_DEDUPLICATION_MAX_ENTRIES || '10000', 10)
+  WEBHOOK_DEDUPLICATION_MAX_ENTRIES: parseInt(process.env.WEBHOOK_DEDUPLICATION_MAX_ENTRIES || '10000', 10),
+  
+  // Scheduler Configuration
+  SCHEDULER_ENABLED: process.env.SCHEDULER_ENABLED !== 'false',
+  SCHEDULER_TICK_INTERVAL: parseInt(process.env.SCHEDULER_TICK_INTERVAL || '15000', 10), // 15 seconds
+  SCHEDULER_CATCH_UP_POLICY: (process.env.SCHEDULER_CATCH_UP_POLICY || 'run_once') as 'skip' | 'run_once' | 'run_all',
+  SCHEDULER_MAX_CATCH_UP_RUNS: parseInt(process.env.SCHEDULER_MAX_CATCH_UP_RUNS || '10', 10),
+  
+  // Workflow Chaining Configuration
+  WORKFLOW_MAX_CHAIN_DEPTH: parseInt(process.env.WORKFLOW_MAX_CHAIN_DEPTH || '5', 10),
+  
+  // Secrets Configuration
+  SECRETS_MASTER_KEY: process.env.SECRETS_MASTER_KEY, // 32 bytes, base64 or hex encoded
+  
+  // Admin API Configuration
+  // Comma-separated "name:token" pairs; the name is recorded as the caller
+  ADMIN_API_TOKENS: (process.env.ADMIN_API_TOKENS || '')
+    .split(',')
+    .map(token => token.trim())
+    .filter(Boolean),
+  
+  // Repository Workflow Sync Configuration
+  WORKFLOW_SYNC_ENABLED: process.env.WORKFLOW_SYNC_ENABLED === 'true',
+  WORKFLOW_SYNC_PATH: (process.env.WORKFLOW_SYNC_PATH || '.github/automation').replace(/^\/+|\/+$/g, '')
 };
 
 export default environment;
\ No newline at end of file
@@ -0,0 +1,202 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  EventQueue,
+  eventQueue,
+  DeadLetterFilter,
+  DeadLetterQuery,
+  DeadLetterReason,
+  DEAD_LETTER_REASONS,
+  QueueFullError
+} from '../services/eventQueue';
+import { createError } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+export class DeadLetterController {
+  constructor(private readonly queue: EventQueue) {}
+
+  /**
+   * GET /admin/webhook/dead-letters?eventType=&reason=&before=&limit=&offset= - list dead-lettered events
+   */
+  public async listDeadLetters(req: Request, res: Response, next: NextFunction): Promise<void> {
+    let query: DeadLetterQuery;
+    try {
+      query = {
+        ...this.parseFilter(req.query),
+        limit: DEFAULT_PAGE_SIZE,
+        offset: 0
+      };
+      if (req.query.limit !== undefined) {
+        query.limit = Math.min(this.parseNonNegativeInt(req.query.limit, 'limit'), MAX_PAGE_SIZE);
+      }
+      if (req.query.offset !== undefined) {
+        query.offset = this.parseNonNegativeInt(req.query.offset, 'offset');
+      }
+    } catch (error) {
+      return next(error);
+    }
+
+    const { events, total } = await this.queue.listDeadLetters(query);
+
+    res.json({
+      success: true,
+      data: events,
+      pagination: {
+        total,
+        limit: query.limit,
+        offset: query.offset
+      }
+    });
+  }
+
+  /**
+   * GET /admin/webhook/dead-letters/:id - a dead-lettered event with its payload and attempt history
+   */
+  public async getDeadLetter(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const id = req.params.id!;
+
+    const event = await this.queue.getDeadLetter(id);
+    if (!event) {
+      return next(createError(`Dead-lettered event not found: ${id}`, 404));
+    }
+
+    res.json({
+      success: true,
+      data: event
+    });
+  }
+
+  /**
+   * POST /admin/webhook/dead-letters/:id/replay - put one event back in the queue
+   */
+  public async replayDeadLetter(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const id = req.params.id!;
+
+    let replayed: number;
+    try {
+      replayed = await this.queue.replayDeadLetters({ ids: [id] });
+    } catch (error) {
+      return next(this.toHttpError(error));
+    }
+
+    if (replayed === 0) {
+      return next(createError(`Dead-lettered event not found: ${id}`, 404));
+    }
+
+    logger.info('Dead-lettered event replayed via API', { id });
+
+    res.status(202).json({
+      success: true,
+      data: { id, status: 'pending' }
+    });
+  }
+
+  /**
+   * POST /admin/webhook/dead-letters/replay - put every event matching the body's
+   * `ids`, `eventType`, `reason` and `before` back in the queue
+   */
+  public async replayDeadLetters(req: Request, res: Response, next: NextFunction): Promise<void> {
+    let replayed: number;
+    try {
+      replayed = await this.queue.replayDeadLetters(this.parseFilter(req.body));
+    } catch (error) {
+      return next(this.toHttpError(error));
+    }
+
+    res.status(202).json({
+      success: true,
+      data: { replayed }
+    });
+  }
+
+  /**
+   * DELETE /admin/webhook/dead-letters/:id - discard one event
+   */
+  public async purgeDeadLetter(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const id = req.params.id!;
+
+    const purged = await this.queue.purgeDeadLetters({ ids: [id] });
+    if (purged === 0) {
+      return next(createError(`Dead-lettered event not found: ${id}`, 404));
+    }
+
+    res.json({
+      success: true,
+      data: { purged }
+    });
+  }
+
+  /**
+   * DELETE /admin/webhook/dead-letters?eventType=&reason=&before= - discard every matching event
+   */
+  public async purgeDeadLetters(req: Request, res: Response, next: NextFunction): Promise<void> {
+    let filter: DeadLetterFilter;
+    try {
+      filter = this.parseFilter(req.query);
+    } catch (error) {
+      return next(error);
+    }
+
+    const purged = await this.queue.purgeDeadLetters(filter);
+
+    logger.info('Dead-lettered events purged via API', { purged, filter });
+
+    res.json({
+      success: true,
+      data: { purged }
+    });
+  }
+
+  /**
+   * Read the dead-letter filters from a query string or request body
+   */
+  private parseFilter(source: Record<string, unknown> = {}): DeadLetterFilter {
+    const { ids, eventType, reason, before } = source;
+    const filter: DeadLetterFilter = {};
+
+    if (ids !== undefined) {
+      if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string')) {
+        throw createError('"ids" must be an array of event IDs', 400);
+      }
+      filter.ids = ids;
+    }
+
+    if (typeof eventType === 'string' && eventType) {
+      filter.eventType = eventType;
+    }
+
+    if (reason !== undefined) {
+      if (!DEAD_LETTER_REASONS.includes(reason as DeadLetterReason)) {
+        throw createError(`Invalid reason: ${String(reason)}. Expected one of: ${DEAD_LETTER_REASONS.join(', ')}`, 400);
+      }
+      filter.reason = reason as DeadLetterReason;
+    }
+
+    if (before !== undefined) {
+      const date = typeof before === 'string' ? new Date(before) : new Date(NaN);
+      if (isNaN(date.getTime())) {
+        throw createError(`Invalid "before" date: ${String(before)}`, 400);
+      }
+      filter.before = date;
+    }
+
+    return filter;
+  }
+
+  private parseNonNegativeInt(value: unknown, name: string): number {
+    const parsed = typeof value === 'string' && /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+    if (isNaN(parsed)) {
+      throw createError(`"${name}" must be a non-negative integer`, 400);
+    }
+    return parsed;
+  }
+
+  private toHttpError(error: unknown): unknown {
+    return error instanceof QueueFullError ? createError(error.message, 503) : error;
+  }
+}
+
+// Create singleton instance
+export const deadLetterController = new DeadLetterController(eventQueue);
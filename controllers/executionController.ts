@@ -0,0 +1,308 @@
+import { Request, Response, NextFunction } from 'express';
+import { WorkflowService, workflowService } from '../services/workflow-service';
+import { ExecutionQuery } from '../engine/execution-history';
+import { createError } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+
+const EXECUTION_STATUSES = ['running', 'completed', 'failed', 'cancelled', 'timeout'];
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+export class ExecutionController {
+  constructor(private readonly service: WorkflowService) {}
+
+  /**
+   * GET /executions?workflow=&parent=&resumedFrom=&status=a,b&from=&to=&limit=&offset= - list executions
+   */
+  public async listExecutions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    let query: ExecutionQuery;
+    try {
+      query = this.parseQuery(req);
+    } catch (error) {
+      return next(error);
+    }
+
+    const [executions, total] = await Promise.all([
+      this.service.getExecutionHistory(query),
+      this.service.countExecutions(query)
+    ]);
+
+    res.json({
+      success: true,
+      data: executions,
+      pagination: {
+        total,
+        limit: query.limit,
+        offset: query.offset
+      }
+    });
+  }
+
+  /**
+   * GET /executions/:id - a single execution with its per-action results
+   */
+  public async getExecution(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const executionId = req.params.id!;
+
+    // Queued executions have no history yet
+    const queued = this.service.getQueuedExecution(executionId);
+    if (queued) {
+      res.json({
+        success: true,
+        data: {
+          executionId,
+          workflowName: queued.workflowName,
+          status: 'queued',
+          actionResults: [],
+          ...(queued.parentExecutionId && { parentExecutionId: queued.parentExecutionId }),
+          ...(queued.resume && { resumedFromExecutionId: queued.resume.executionId })
+        }
+      });
+      return;
+    }
+
+    const execution = await this.service.getExecution(executionId);
+    if (!execution) {
+      return next(createError(`Execution not found: ${executionId}`, 404));
+    }
+
+    res.json({
+      success: true,
+      data: execution
+    });
+  }
+
+  /**
+   * POST /executions/:id/cancel - cancel a queued or running execution
+   */
+  public async cancelExecution(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const executionId = req.params.id!;
+
+    const cancelled = await this.service.cancelExecution(executionId);
+    if (!cancelled) {
+      const execution = await this.service.getExecution(executionId);
+      if (!execution) {
+        return next(createError(`Execution not found: ${executionId}`, 404));
+      }
+      return next(createError(`Execution is not running (status: ${execution.status})`, 409));
+    }
+
+    logger.info('Execution cancelled via API', { executionId });
+
+    res.json({
+      success: true,
+      data: {
+        executionId,
+        status: 'cancelled'
+      }
+    });
+  }
+
+  /**
+   * POST /executions/:id/resume - run a failed execution again from its checkpoint,
+   * taking over its completed and skipped actions. Queued unless `wait` is set.
+   */
+  public async resumeExecution(req: Request, res: Response, next: NextFunction): Promise<void> {
+    await this.startResumption(req, res, next);
+  }
+
+  /**
+   * POST /executions/:id/actions/:actionId/retry - run just one action of an
+   * execution again, taking over the results of all its other actions
+   */
+  public async retryAction(req: Request, res: Response, next: NextFunction): Promise<void> {
+    await this.startResumption(req, res, next, req.params.actionId!);
+  }
+
+  /**
+   * Start a new execution that continues the given one, linked to it by ID
+   */
+  private async startResumption(req: Request, res: Response, next: NextFunction, actionId?: string): Promise<void> {
+    const executionId = req.params.id!;
+    const { wait = false } = req.body || {};
+
+    const execution = await this.service.getExecution(executionId);
+    if (!execution) {
+      return next(createError(`Execution not found: ${executionId}`, 404));
+    }
+    if (execution.status === 'running') {
+      return next(createError('Execution is still running', 409));
+    }
+    if (!execution.checkpoint) {
+      return next(createError('Execution has no checkpoint to resume from', 409));
+    }
+    if (execution.actionResults.some(result => result.compensates)) {
+      return next(createError('Execution was rolled back and cannot be resumed', 409));
+    }
+    if (!actionId && execution.status === 'completed' && !execution.actionResults.some(result => result.status === 'failed')) {
+      return next(createError('Execution completed without failures', 409));
+    }
+
+    // The checkpoint only lines up with the definition the execution ran
+    const workflow = await this.service.getWorkflowDefinition(execution.workflowName, execution.workflowVersion);
+    if (!workflow) {
+      const version = execution.workflowVersion !== undefined ? `Version ${execution.workflowVersion} of workflow` : 'Workflow';
+      return next(createError(`${version} not found: ${execution.workflowName}`, 404));
+    }
+    if (workflow.enabled === false) {
+      return next(createError(`Workflow is disabled: ${workflow.name}`, 409));
+    }
+    if (actionId && !workflow.actions.some(action => action.id === actionId)) {
+      return next(createError(`Action not found: ${actionId}`, 404));
+    }
+
+    const request = await this.service.createResumeRequest(execution, actionId);
+    if (!request) {
+      return next(createError('Execution has no stored trigger to resume from', 409));
+    }
+
+    logger.info(actionId ? 'Action retry requested' : 'Execution resume requested', {
+      executionId,
+      workflowName: workflow.name,
+      ...(actionId && { actionId }),
+      wait
+    });
+
+    try {
+      if (wait) {
+        const result = await this.service.executeWorkflow(request);
+
+        res.json({
+          success: true,
+          data: { ...result, resumedFromExecutionId: executionId }
+        });
+        return;
+      }
+
+      const resumedExecutionId = await this.service.queueWorkflowExecution(request);
+
+      res.status(202).json({
+        success: true,
+        data: {
+          executionId: resumedExecutionId,
+          status: 'queued',
+          resumedFromExecutionId: executionId
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /executions/export?format=json|csv - download executions matching the list filters
+   */
+  public async exportExecutions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const format = req.query.format || 'json';
+    if (format !== 'json' && format !== 'csv') {
+      return next(createError(`Unsupported export format: ${format}`, 400));
+    }
+
+    let query: ExecutionQuery;
+    try {
+      query = this.parseQuery(req);
+    } catch (error) {
+      return next(error);
+    }
+
+    const content = await this.service.exportExecutions(query, format);
+    const filename = `executions-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`;
+
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(content);
+  }
+
+  /**
+   * GET /executions/aggregation?workflow=&from=&to= - execution statistics
+   */
+  public async getAggregation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    let query: ExecutionQuery;
+    try {
+      query = this.parseQuery(req);
+    } catch (error) {
+      return next(error);
+    }
+
+    const aggregation = await this.service.getExecutionAggregation(query.startTimeRange, query.workflowName);
+
+    res.json({
+      success: true,
+      data: aggregation
+    });
+  }
+
+  /**
+   * Translate query string parameters into an ExecutionQuery
+   */
+  private parseQuery(req: Request): ExecutionQuery {
+    const { workflow, parent, resumedFrom, status, from, to, limit, offset, includeActions } = req.query;
+    const query: ExecutionQuery = {
+      limit: DEFAULT_PAGE_SIZE,
+      offset: 0
+    };
+
+    if (typeof workflow === 'string' && workflow) {
+      query.workflowName = workflow;
+    }
+
+    if (typeof parent === 'string' && parent) {
+      query.parentExecutionId = parent;
+    }
+
+    if (typeof resumedFrom === 'string' && resumedFrom) {
+      query.resumedFromExecutionId = resumedFrom;
+    }
+
+    if (typeof status === 'string' && status) {
+      const statuses = status.split(',').map(s => s.trim().toLowerCase()).filter(Boolean);
+      const invalid = statuses.filter(s => !EXECUTION_STATUSES.includes(s));
+      if (invalid.length > 0) {
+        throw createError(`Invalid status: ${invalid.join(', ')}. Expected one of: ${EXECUTION_STATUSES.join(', ')}`, 400);
+      }
+      query.status = statuses;
+    }
+
+    if (from !== undefined || to !== undefined) {
+      const fromDate = from !== undefined ? this.parseDate(from, 'from') : new Date(0);
+      const toDate = to !== undefined ? this.parseDate(to, 'to') : new Date();
+      if (fromDate.getTime() > toDate.getTime()) {
+        throw createError('"from" must be before "to"', 400);
+      }
+      query.startTimeRange = { from: fromDate, to: toDate };
+    }
+
+    if (limit !== undefined) {
+      query.limit = Math.min(this.parseNonNegativeInt(limit, 'limit'), MAX_PAGE_SIZE);
+    }
+
+    if (offset !== undefined) {
+      query.offset = this.parseNonNegativeInt(offset, 'offset');
+    }
+
+    if (includeActions === 'true') {
+      query.includeActions = true;
+    }
+
+    return query;
+  }
+
+  private parseDate(value: unknown, name: string): Date {
+    const date = typeof value === 'string' ? new Date(value) : new Date(NaN);
+    if (isNaN(date.getTime())) {
+      throw createError(`Invalid "${name}" date: ${String(value)}`, 400);
+    }
+    return date;
+  }
+
+  private parseNonNegativeInt(value: unknown, name: string): number {
+    const parsed = typeof value === 'string' && /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+    if (isNaN(parsed)) {
+      throw createError(`"${name}" must be a non-negative integer`, 400);
+    }
+    return parsed;
+  }
+}
+
+// Create singleton instance
+export const executionController = new ExecutionController(workflowService);
@@ -0,0 +1,125 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  SecretsService,
+  secretsService,
+  SecretQuery,
+  SecretRef,
+  SecretScope,
+  SECRET_NAME_PATTERN,
+  SECRET_SCOPES
+} from '../services/secretsService';
+import { createError } from '../middleware/errorHandler';
+
+// Large enough for certificates and private keys
+const MAX_SECRET_LENGTH = 64 * 1024;
+
+export class SecretController {
+  constructor(private readonly secrets: SecretsService) {}
+
+  /**
+   * GET /secrets?scope=&target= - secret names and metadata; values are never returned
+   */
+  public async listSecrets(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const query: SecretQuery = {};
+    const { scope, target } = req.query;
+
+    if (scope !== undefined) {
+      if (!SECRET_SCOPES.includes(scope as SecretScope)) {
+        return next(createError(`Invalid scope: ${String(scope)}. Expected one of: ${SECRET_SCOPES.join(', ')}`, 400));
+      }
+      query.scope = scope as SecretScope;
+    }
+    if (typeof target === 'string' && target) {
+      query.target = target;
+    }
+
+    const secrets = await this.secrets.listSecrets(query);
+
+    res.json({
+      success: true,
+      data: secrets
+    });
+  }
+
+  /**
+   * PUT /secrets/{global | workflows/:workflow | repositories/:owner/:repo}/:name -
+   * create or replace a secret from the body's `value` and optional `description`
+   */
+  public async setSecret(req: Request, res: Response, next: NextFunction): Promise<void> {
+    if (!this.secrets.enabled) {
+      return next(this.unavailable());
+    }
+
+    const { value, description } = req.body ?? {};
+    let ref: SecretRef;
+    try {
+      ref = this.parseRef(req);
+      if (typeof value !== 'string' || value.length === 0) {
+        throw createError('"value" must be a non-empty string', 400);
+      }
+      if (value.length > MAX_SECRET_LENGTH) {
+        throw createError(`"value" must be at most ${MAX_SECRET_LENGTH} characters`, 400);
+      }
+      if (description !== undefined && typeof description !== 'string') {
+        throw createError('"description" must be a string', 400);
+      }
+    } catch (error) {
+      return next(error);
+    }
+
+    const { secret, created } = await this.secrets.setSecret(ref, value, description);
+
+    res.status(created ? 201 : 200).json({
+      success: true,
+      data: secret
+    });
+  }
+
+  /**
+   * DELETE /secrets/{global | workflows/:workflow | repositories/:owner/:repo}/:name
+   */
+  public async deleteSecret(req: Request, res: Response, next: NextFunction): Promise<void> {
+    let ref: SecretRef;
+    try {
+      ref = this.parseRef(req);
+    } catch (error) {
+      return next(error);
+    }
+
+    const deleted = await this.secrets.deleteSecret(ref);
+    if (!deleted) {
+      return next(createError(`Secret not found: ${ref.name}`, 404));
+    }
+
+    res.json({
+      success: true,
+      message: `Secret ${ref.name} deleted`
+    });
+  }
+
+  /**
+   * The secret a route refers to; the scope comes from which route matched
+   */
+  private parseRef(req: Request): SecretRef {
+    const { name, workflow, owner, repo } = req.params;
+
+    if (!name || !SECRET_NAME_PATTERN.test(name)) {
+      throw createError(`Invalid secret name: ${name}. Use letters, digits and underscores, not starting with a digit`, 400);
+    }
+
+    if (workflow) {
+      return { scope: 'workflow', target: workflow, name };
+    }
+    if (owner && repo) {
+      return { scope: 'repository', target: `${owner}/${repo}`, name };
+    }
+    return { scope: 'global', name };
+  }
+
+  private unavailable(): Error {
+    return createError('Secrets are unavailable: SECRETS_MASTER_KEY is not configured', 503);
+  }
+}
+
+// Create singleton instance
+export const secretController = new SecretController(secretsService);
@@ -1,22 +1,16 @@
 import { Request, Response } from 'express';
-import { isSignatureValid } from '../utils/webhookSecurity';
+import { WebhookSignatureVerifier, webhookSignatureVerifier } from '../utils/webhookSecurity';
+import { RawBodyRequest } from '../middleware/rawBody';
 import { deduplicationService } from '../services/deduplicationService';
 import { eventQueue } from '../services/eventQueue';
+import { webhookDeliveryService } from '../services/webhookDeliveryService';
 import { GitHubWebhookEvent, GitHubWebhookHeaders } from '../types/github';
 import logger from '../utils/logger';
 
 export class WebhookController {
-  private readonly webhookSecret: string;
+  constructor(private readonly verifier: WebhookSignatureVerifier) {}
 
-  constructor(webhookSecret?: string) {
-    this.webhookSecret = webhookSecret || process.env.GITHUB_WEBHOOK_SECRET || '';
-    
-    if (!this.webhookSecret) {
-      logger.warn('No webhook secret configured. Webhook signature validation will fail.');
-    }
-  }
-
-  public async handleWebhook(req: Request, res: Response): Promise<void> {
+  public async handleWebhook(req: RawBodyRequest, res: Response): Promise<void> {
     try {
       // Extract headers
       const eventType = req.headers['x-github-event'] as string;
@@ -36,21 +30,20 @@ export class WebhookController {
         return;
       }
 
-      // Get raw body for signature validation
-      const rawBody = JSON.stringify(req.body);
-
-      // Validate webhook signature
-      if (this.webhookSecret && !isSignatureValid(rawBody, signature, this.webhookSecret)) {
+      // Validate webhook signature over the bytes GitHub signed
+      const verification = this.verifier.enabled ? this.verifier.verify(req.rawBody, signature) : undefined;
+      if (verification && !verification.valid) {
         logger.error('Webhook signature validation failed', {
           deliveryId,
           eventType,
-          hasSignature: !!signature,
-          hasSecret: !!this.webhookSecret
+          reason: verification.reason
         });
         res.status(401).json({ error: 'Invalid signature' });
         return;
       }
 
+      const rawBody = req.rawBody ? req.rawBody.toString('utf8') : JSON.stringify(req.body);
+
       // Check for duplicate delivery
       if (deduplicationService.isDuplicate(rawBody, deliveryId)) {
         logger.info('Duplicate webhook delivery detected', {
@@ -78,17 +71,23 @@ export class WebhookController {
       };
 
       // Queue event for processing
-      await eventQueue.enqueue(
+      const queuedEvent = await eventQueue.enqueue(
         eventType,
         req.body,
         webhookEvent.headers,
         deliveryId
       );
+      // Only a queued delivery counts as seen; GitHub may redeliver one that failed to queue
+      deduplicationService.markSeen(rawBody, deliveryId);
+      await webhookDeliveryService.recordDelivery(queuedEvent);
+
+      const queueSize = await eventQueue.getQueueSize();
 
       logger.info('Webhook event queued successfully', {
         deliveryId,
         eventType,
-        queueSize: eventQueue.getQueueSize()
+        queueSize,
+        ...(verification && { keyId: verification.keyId })
       });
 
       // Respond quickly to GitHub
@@ -96,7 +95,7 @@ export class WebhookController {
         message: 'Webhook received and queued for processing',
         deliveryId,
         eventType,
-        queueSize: eventQueue.getQueueSize()
+        queueSize
       });
 
     } catch (error) {
@@ -119,12 +118,17 @@ export class WebhookController {
 
   public async getWebhookStats(req: Request, res: Response): Promise<void> {
     try {
-      const queueStats = eventQueue.getQueueStats();
+      const [queueStats, deadLetterStats] = await Promise.all([
+        eventQueue.getQueueStats(),
+        eventQueue.getDeadLetterStats()
+      ]);
       const deduplicationStats = deduplicationService.getStats();
 
       res.json({
         queue: queueStats,
+        deadLetter: deadLetterStats,
         deduplication: deduplicationStats,
+        signatures: this.verifier.getStats(),
         timestamp: new Date().toISOString()
       });
     } catch (error) {
@@ -135,7 +139,7 @@ export class WebhookController {
 
   public async healthCheck(req: Request, res: Response): Promise<void> {
     try {
-      const queueStats = eventQueue.getQueueStats();
+      const queueStats = await eventQueue.getQueueStats();
       const isHealthy = queueStats.size < queueStats.maxSize * 0.9; // Consider unhealthy if queue is 90% full
 
       res.status(isHealthy ? 200 : 503).json({
@@ -155,4 +159,4 @@ export class WebhookController {
 }
 
 // Create singleton instance
-export const webhookController = new WebhookController();
\ No newline at end of file
+export const webhookController = new WebhookController(webhookSignatureVerifier);
\ No newline at end of file
@@ -0,0 +1,162 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  WebhookDeliveryService,
+  WebhookDeliveryQuery,
+  webhookDeliveryService
+} from '../services/webhookDeliveryService';
+import { WorkflowService, workflowService } from '../services/workflow-service';
+import { createError } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+export class WebhookDeliveryController {
+  constructor(
+    private readonly deliveries: WebhookDeliveryService,
+    private readonly workflows: WorkflowService
+  ) {}
+
+  /**
+   * GET /admin/webhook/deliveries?repository=&event=&installation=&deliveryId=&from=&to=&limit=&offset= - list deliveries
+   */
+  public async listDeliveries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    let query: WebhookDeliveryQuery;
+    try {
+      query = this.parseQuery(req);
+    } catch (error) {
+      return next(error);
+    }
+
+    const { deliveries, total } = await this.deliveries.listDeliveries(query);
+
+    res.json({
+      success: true,
+      data: deliveries,
+      pagination: {
+        total,
+        limit: query.limit,
+        offset: query.offset
+      }
+    });
+  }
+
+  /**
+   * GET /admin/webhook/deliveries/:id - a delivery with its payload and the executions it started
+   */
+  public async getDelivery(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const id = req.params.id!;
+
+    const delivery = await this.deliveries.getDelivery(id);
+    if (!delivery) {
+      return next(createError(`Webhook delivery not found: ${id}`, 404));
+    }
+
+    res.json({
+      success: true,
+      data: delivery
+    });
+  }
+
+  /**
+   * POST /admin/webhook/deliveries/:id/rerun - dispatch the delivery again to the
+   * current workflows, or only to `workflow` from the body
+   */
+  public async rerunDelivery(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const id = req.params.id!;
+    const { workflow } = req.body || {};
+
+    if (workflow !== undefined && (typeof workflow !== 'string' || !workflow)) {
+      return next(createError('"workflow" must be a workflow name', 400));
+    }
+    if (workflow && !this.workflows.getWorkflow(workflow)) {
+      return next(createError(`Workflow not found: ${workflow}`, 404));
+    }
+
+    const result = await this.deliveries.rerunDelivery(id, workflow);
+    if (!result) {
+      return next(createError(`Webhook delivery not found: ${id}`, 404));
+    }
+
+    logger.info('Webhook delivery re-run via API', { id, workflow, dispatched: result.dispatched.length });
+
+    res.status(202).json({
+      success: true,
+      data: {
+        id,
+        events: result.events,
+        dispatched: result.dispatched
+      }
+    });
+  }
+
+  /**
+   * Translate query string parameters into a WebhookDeliveryQuery
+   */
+  private parseQuery(req: Request): WebhookDeliveryQuery {
+    const { repository, event, installation, deliveryId, from, to, limit, offset } = req.query;
+    const query: WebhookDeliveryQuery = {
+      limit: DEFAULT_PAGE_SIZE,
+      offset: 0
+    };
+
+    if (typeof repository === 'string' && repository) {
+      query.repository = repository;
+    }
+
+    // Either an event type ("issues") or an event type and action ("issues.opened")
+    if (typeof event === 'string' && event) {
+      const [eventType, action] = event.split('.', 2);
+      query.eventType = eventType!;
+      if (action) {
+        query.action = action;
+      }
+    }
+
+    if (installation !== undefined) {
+      query.installationId = this.parseNonNegativeInt(installation, 'installation');
+    }
+
+    if (typeof deliveryId === 'string' && deliveryId) {
+      query.deliveryId = deliveryId;
+    }
+
+    if (from !== undefined || to !== undefined) {
+      const fromDate = from !== undefined ? this.parseDate(from, 'from') : new Date(0);
+      const toDate = to !== undefined ? this.parseDate(to, 'to') : new Date();
+      if (fromDate.getTime() > toDate.getTime()) {
+        throw createError('"from" must be before "to"', 400);
+      }
+      query.receivedRange = { from: fromDate, to: toDate };
+    }
+
+    if (limit !== undefined) {
+      query.limit = Math.min(this.parseNonNegativeInt(limit, 'limit'), MAX_PAGE_SIZE);
+    }
+
+    if (offset !== undefined) {
+      query.offset = this.parseNonNegativeInt(offset, 'offset');
+    }
+
+    return query;
+  }
+
+  private parseDate(value: unknown, name: string): Date {
+    const date = typeof value === 'string' ? new Date(value) : new Date(NaN);
+    if (isNaN(date.getTime())) {
+      throw createError(`Invalid "${name}" date: ${String(value)}`, 400);
+    }
+    return date;
+  }
+
+  private parseNonNegativeInt(value: unknown, name: string): number {
+    const parsed = typeof value === 'string' && /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+    if (isNaN(parsed)) {
+      throw createError(`"${name}" must be a non-negative integer`, 400);
+    }
+    return parsed;
+  }
+}
+
+// Create singleton instance
+export const webhookDeliveryController = new WebhookDeliveryController(webhookDeliveryService, workflowService);
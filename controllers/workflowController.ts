@@ -0,0 +1,673 @@
+import { Request, Response, NextFunction } from 'express';
+import { WorkflowService, WorkflowExecutionRequest, workflowService } from '../services/workflow-service';
+import { WorkflowVersionService, workflowVersionService } from '../services/workflowVersionService';
+import { WorkflowDefinition, WORKFLOW_JSON_SCHEMA } from '../types/workflow-schema';
+import { workflowValidator } from '../utils/workflow-validator';
+import { diffWorkflows } from '../utils/workflow-diff';
+import { YamlDocument, YamlSyntaxError, parseYaml, locateValidationErrors, documentAt } from '../utils/workflow-yaml';
+import { ExecutionPlan, renderExecutionPlan } from '../engine/execution-plan';
+import { WorkflowTestHarness, workflowTestHarness } from '../engine/workflow-test-harness';
+import { GITHUB_PAYLOAD_FIXTURES } from '../engine/github-payload-fixtures';
+import { secretRedactor } from '../utils/redaction';
+import { createError } from '../middleware/errorHandler';
+import { AdminRequest } from '../middleware/adminAuth';
+import logger from '../utils/logger';
+
+interface RequestDefinition {
+  body: any;
+  document?: YamlDocument; // Set for YAML bodies, to locate validation errors
+}
+
+type RunRequest = Omit<WorkflowExecutionRequest, 'workflowName'>;
+
+export class WorkflowController {
+  constructor(
+    private readonly service: WorkflowService,
+    private readonly versions: WorkflowVersionService,
+    private readonly harness: WorkflowTestHarness
+  ) {}
+
+  /**
+   * GET /workflows - list registered workflows
+   */
+  public async listWorkflows(req: Request, res: Response): Promise<void> {
+    const { enabled, trigger } = req.query;
+
+    const workflows = this.service.listWorkflows().filter(workflow => {
+      if (enabled !== undefined && (workflow.enabled !== false) !== (enabled === 'true')) {
+        return false;
+      }
+      return !trigger || workflow.trigger.type === trigger;
+    });
+
+    res.json({
+      success: true,
+      data: workflows,
+      count: workflows.length
+    });
+  }
+
+  /**
+   * GET /workflows/:name - get a single workflow with its statistics
+   */
+  public async getWorkflow(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const workflow = this.service.getWorkflow(req.params.name!);
+    if (!workflow) {
+      return next(createError(`Workflow not found: ${req.params.name}`, 404));
+    }
+
+    const status = await this.service.getWorkflowStatus(workflow.name);
+
+    res.json({
+      success: true,
+      data: {
+        workflow,
+        status,
+        source: this.service.getWorkflowSource(workflow.name)
+      }
+    });
+  }
+
+  /**
+   * POST /workflows - register a new workflow
+   */
+  public async createWorkflow(req: Request, res: Response, next: NextFunction): Promise<void> {
+    let definition: RequestDefinition;
+    try {
+      definition = this.readDefinition(req);
+    } catch (error) {
+      return next(error);
+    }
+
+    const workflow = definition.body as WorkflowDefinition;
+
+    if (!this.validateOrRespond(workflow, res, definition.document)) {
+      return;
+    }
+
+    if (this.service.getWorkflow(workflow.name)) {
+      return next(createError(`Workflow already exists: ${workflow.name}`, 409));
+    }
+
+    try {
+      await this.service.registerWorkflow(workflow, this.getAuthor(req));
+
+      res.status(201).json({
+        success: true,
+        data: workflow
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /workflows/:name - replace a workflow definition
+   */
+  public async updateWorkflow(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const name = req.params.name!;
+
+    if (!this.service.getWorkflow(name)) {
+      return next(createError(`Workflow not found: ${name}`, 404));
+    }
+
+    const readOnly = this.rejectIfSynced(name);
+    if (readOnly) {
+      return next(readOnly);
+    }
+
+    let definition: RequestDefinition;
+    try {
+      definition = this.readDefinition(req);
+    } catch (error) {
+      return next(error);
+    }
+
+    // The name identifies the workflow, so it cannot be changed through an update
+    if (definition.body?.name !== undefined && definition.body.name !== name) {
+      return next(createError('Workflow name in body does not match the URL', 400));
+    }
+
+    const workflow: WorkflowDefinition = { ...definition.body, name };
+
+    if (!this.validateOrRespond(workflow, res, definition.document)) {
+      return;
+    }
+
+    try {
+      await this.service.updateWorkflow(workflow, this.getAuthor(req));
+
+      res.json({
+        success: true,
+        data: workflow
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /workflows/:name
+   */
+  public async deleteWorkflow(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const name = req.params.name!;
+
+    if (!this.service.getWorkflow(name)) {
+      return next(createError(`Workflow not found: ${name}`, 404));
+    }
+
+    const readOnly = this.rejectIfSynced(name);
+    if (readOnly) {
+      return next(readOnly);
+    }
+
+    const deleted = await this.service.deleteWorkflow(name, this.getAuthor(req));
+    if (!deleted) {
+      return next(createError(`Failed to delete workflow: ${name}`, 500));
+    }
+
+    res.status(204).send();
+  }
+
+  /**
+   * POST /workflows/:name/enable and /workflows/:name/disable
+   */
+  public setEnabled(enabled: boolean) {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const name = req.params.name!;
+
+      if (!this.service.getWorkflow(name)) {
+        return next(createError(`Workflow not found: ${name}`, 404));
+      }
+
+      const readOnly = this.rejectIfSynced(name);
+      if (readOnly) {
+        return next(readOnly);
+      }
+
+      const updated = await this.service.setWorkflowEnabled(name, enabled, this.getAuthor(req));
+      if (!updated) {
+        return next(createError(`Failed to ${enabled ? 'enable' : 'disable'} workflow: ${name}`, 500));
+      }
+
+      res.json({
+        success: true,
+        data: { name, enabled }
+      });
+    };
+  }
+
+  /**
+   * GET /workflows/:name/versions - stored versions, newest first
+   */
+  public async listVersions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const name = req.params.name!;
+
+    // Deleted workflows have no definition but keep their versions
+    const versions = await this.versions.listVersions(name);
+    if (versions.length === 0 && !this.service.getWorkflow(name)) {
+      return next(createError(`Workflow not found: ${name}`, 404));
+    }
+
+    res.json({
+      success: true,
+      data: versions,
+      count: versions.length
+    });
+  }
+
+  /**
+   * GET /workflows/:name/versions/:version - a stored version with its definition
+   */
+  public async getVersion(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const name = req.params.name!;
+
+    let version: number;
+    try {
+      version = this.parseVersion(req.params.version, 'version');
+    } catch (error) {
+      return next(error);
+    }
+
+    const stored = await this.versions.getVersion(name, version);
+    if (!stored) {
+      return next(createError(`Version ${version} of workflow ${name} not found`, 404));
+    }
+
+    res.json({
+      success: true,
+      data: stored
+    });
+  }
+
+  /**
+   * GET /workflows/:name/versions/diff?from=&to= - structural diff between two
+   * stored versions; `to` defaults to the active version
+   */
+  public async diffVersions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const name = req.params.name!;
+
+    let from: number;
+    let to: number | null;
+    try {
+      from = this.parseVersion(req.query.from, 'from');
+      to = req.query.to !== undefined
+        ? this.parseVersion(req.query.to, 'to')
+        : this.service.getActiveVersion(name);
+    } catch (error) {
+      return next(error);
+    }
+
+    if (to === null) {
+      return next(createError(`Workflow ${name} has no active version`, 404));
+    }
+
+    const [fromVersion, toVersion] = await Promise.all([
+      this.versions.getVersion(name, from),
+      this.versions.getVersion(name, to)
+    ]);
+    if (!fromVersion || !toVersion) {
+      return next(createError(`Version ${fromVersion ? to : from} of workflow ${name} not found`, 404));
+    }
+
+    res.json({
+      success: true,
+      data: {
+        from,
+        to,
+        diff: diffWorkflows(fromVersion.definition, toVersion.definition)
+      }
+    });
+  }
+
+  /**
+   * POST /workflows/:name/rollback - re-activate the stored version given as `version`
+   * in the body; restores the workflow if it was deleted
+   */
+  public async rollbackWorkflow(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const name = req.params.name!;
+
+    const readOnly = this.rejectIfSynced(name);
+    if (readOnly) {
+      return next(readOnly);
+    }
+
+    const { version } = req.body ?? {};
+    if (!Number.isInteger(version) || version < 1) {
+      return next(createError('"version" must be a positive integer', 400));
+    }
+
+    try {
+      const workflow = await this.service.rollbackWorkflow(name, version, this.getAuthor(req));
+      if (!workflow) {
+        return next(createError(`Version ${version} of workflow ${name} not found`, 404));
+      }
+
+      res.json({
+        success: true,
+        data: {
+          version,
+          workflow
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /workflows/validate - validate a definition without registering it
+   */
+  public async validateWorkflow(req: Request, res: Response, next: NextFunction): Promise<void> {
+    let definition: RequestDefinition;
+    try {
+      definition = this.readDefinition(req);
+    } catch (error) {
+      return next(error);
+    }
+
+    const result = workflowValidator.validate(definition.body);
+
+    res.json({
+      success: true,
+      data: definition.document
+        ? { ...result, errors: locateValidationErrors(result.errors, definition.document) }
+        : result
+    });
+  }
+
+  /**
+   * GET /workflows/schema - JSON schema of workflow definitions, for editor completion and validation
+   */
+  public async getSchema(_req: Request, res: Response): Promise<void> {
+    res.setHeader('Content-Type', 'application/schema+json; charset=utf-8');
+    res.send(JSON.stringify(WORKFLOW_JSON_SCHEMA, null, 2));
+  }
+
+  /**
+   * GET /workflows/export?names=a,b&format=json|yaml - export definitions. With a
+   * format they are downloaded as one file that POST /workflows/import accepts.
+   */
+  public async exportWorkflows(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const names = typeof req.query.names === 'string'
+      ? req.query.names.split(',').map(name => name.trim()).filter(Boolean)
+      : undefined;
+    const { format } = req.query;
+
+    if (format === undefined) {
+      const workflows = await this.service.exportWorkflows(names);
+
+      res.json({
+        success: true,
+        data: workflows,
+        count: workflows.length
+      });
+      return;
+    }
+
+    if (format !== 'json' && format !== 'yaml') {
+      return next(createError(`Unsupported export format: ${format}`, 400));
+    }
+
+    const content = await this.service.exportWorkflowBundle(names, format);
+    const filename = `workflows-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`;
+
+    res.setHeader('Content-Type', format === 'yaml' ? 'application/yaml; charset=utf-8' : 'application/json; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(content);
+  }
+
+  /**
+   * POST /workflows/import - register several workflows at once
+   */
+  public async importWorkflows(req: Request, res: Response, next: NextFunction): Promise<void> {
+    let definition: RequestDefinition;
+    try {
+      definition = this.readDefinition(req);
+    } catch (error) {
+      return next(error);
+    }
+
+    const { body } = definition;
+    const workflows = Array.isArray(body) ? body : body?.workflows;
+
+    if (!Array.isArray(workflows)) {
+      return next(createError('Request body must be an array of workflows or { workflows: [...] }', 400));
+    }
+
+    const result = await this.service.importWorkflows(workflows, this.getAuthor(req));
+
+    res.status(result.failed > 0 && result.success === 0 ? 400 : 200).json({
+      success: result.failed === 0,
+      data: result
+    });
+  }
+
+  /**
+   * POST /workflows/:name/run - run a workflow now with a caller-supplied trigger payload.
+   * Runs are queued by default; pass `wait: true` to get the execution result in the response.
+   * With `dryRun: true` the run is planned instead, see planWorkflow.
+   */
+  public async runWorkflow(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const name = req.params.name!;
+    const workflow = this.service.getWorkflow(name);
+
+    if (!workflow) {
+      return next(createError(`Workflow not found: ${name}`, 404));
+    }
+
+    const { wait = false, dryRun = false } = req.body || {};
+
+    if (workflow.enabled === false && !dryRun) {
+      return next(createError(`Workflow is disabled: ${name}`, 409));
+    }
+
+    let run: RunRequest;
+    try {
+      run = this.readRunRequest(req.body);
+    } catch (error) {
+      return next(error);
+    }
+    const request = { workflowName: name, ...run };
+
+    logger.info('Manual workflow run requested', {
+      workflowName: name,
+      event: run.triggerEvent.event,
+      wait,
+      dryRun
+    });
+
+    try {
+      if (dryRun) {
+        this.sendPlan(req, res, await this.service.planWorkflow(workflow, run, true));
+        return;
+      }
+
+      if (wait) {
+        const result = await this.service.executeWorkflow(request);
+
+        // Results and errors can contain resolved secrets, including the ones passed in
+        res.json({
+          success: true,
+          data: secretRedactor.redactWith(Object.values(run.secrets ?? {}), result)
+        });
+        return;
+      }
+
+      const executionId = await this.service.queueWorkflowExecution(request);
+
+      res.status(202).json({
+        success: true,
+        data: {
+          executionId,
+          status: 'queued'
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /workflows/plan - dry run a definition that need not be registered, e.g. one
+   * changed in a pull request. Conditions, templates and ordering are evaluated as in
+   * a real run, but actions report the calls they would make instead of making them.
+   * The body is `{ workflow, event, payload, ... }` like a run; `?format=markdown`
+   * renders the plan for a pull request comment.
+   */
+  public async planWorkflow(req: Request, res: Response, next: NextFunction): Promise<void> {
+    let definition: RequestDefinition;
+    let run: RunRequest;
+    try {
+      definition = this.readDefinition(req);
+      run = this.readRunRequest(definition.body);
+    } catch (error) {
+      return next(error);
+    }
+
+    const workflow = definition.body?.workflow;
+    if (typeof workflow !== 'object' || workflow === null) {
+      return next(createError('workflow must be a workflow definition', 400));
+    }
+
+    const document = definition.document && documentAt(definition.document, 'workflow');
+    if (!this.validateOrRespond(workflow, res, document)) {
+      return;
+    }
+
+    try {
+      const plan = await this.service.planWorkflow(workflow, run);
+      this.sendPlan(req, res, plan);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /workflows/test - run a definition through the test harness: against a
+   * fixture (or supplied) payload, with mocked action results, and checked against
+   * `expect`. Nothing outside the run is changed.
+   */
+  public async testWorkflow(req: Request, res: Response, next: NextFunction): Promise<void> {
+    let definition: RequestDefinition;
+    try {
+      definition = this.readDefinition(req);
+    } catch (error) {
+      return next(error);
+    }
+
+    const { workflow, event, payload, variables, secrets, mocks, expect = {} } = definition.body || {};
+
+    if (typeof workflow !== 'object' || workflow === null) {
+      return next(createError('workflow must be a workflow definition', 400));
+    }
+    if (event !== undefined && !(event in GITHUB_PAYLOAD_FIXTURES)) {
+      return next(createError(`Unknown event: ${event}`, 400));
+    }
+    if (payload !== undefined && (typeof payload !== 'object' || payload === null)) {
+      return next(createError('payload must be an object', 400));
+    }
+
+    const document = definition.document && documentAt(definition.document, 'workflow');
+    if (!this.validateOrRespond(workflow, res, document)) {
+      return;
+    }
+
+    try {
+      const run = await this.harness.run({
+        workflow,
+        ...(event && { event }),
+        ...(payload && { payload }),
+        ...(variables && { variables }),
+        ...(secrets && { secrets }),
+        ...(mocks && { mocks })
+      });
+      const failures = run.check(expect);
+
+      res.json({
+        success: true,
+        data: secretRedactor.redactWith(Object.values(secrets ?? {}), {
+          passed: failures.length === 0,
+          failures,
+          status: run.status,
+          order: run.order,
+          actions: run.actions,
+          ...(run.result.error && { error: run.result.error })
+        })
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Workflows synced from a repository file can only be changed in the repository
+   */
+  private rejectIfSynced(name: string): Error | null {
+    const source = this.service.getWorkflowSource(name);
+    if (!source) {
+      return null;
+    }
+    return createError(`Workflow ${name} is managed in ${source.repository} (${source.path}); change it there`, 409);
+  }
+
+  /**
+   * Who made a change, for the audit log: the name of the caller's admin token,
+   * which every route that changes a workflow requires
+   */
+  private getAuthor(req: AdminRequest): string {
+    return req.principal ?? 'unknown';
+  }
+
+  /**
+   * The request body; YAML bodies arrive as text and are parsed here
+   */
+  private readDefinition(req: Request): RequestDefinition {
+    if (typeof req.body !== 'string') {
+      return { body: req.body };
+    }
+
+    try {
+      const document = parseYaml(req.body);
+      return { body: document.value, document };
+    } catch (error) {
+      if (error instanceof YamlSyntaxError) {
+        throw createError(`Invalid YAML: ${error.message}`, 400);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The trigger event, variables and secrets of a run or plan request body
+   */
+  private readRunRequest(body: any): RunRequest {
+    const { event = 'manual', payload = {}, repository, installationId, variables, secrets } = body || {};
+
+    if (typeof payload !== 'object' || payload === null) {
+      throw createError('payload must be an object', 400);
+    }
+
+    const fullName: string | undefined = repository || payload.repository?.full_name;
+    const [owner, repoName] = fullName ? fullName.split('/') : [];
+    const installation = installationId ?? payload.installation?.id;
+
+    return {
+      triggerEvent: {
+        event,
+        payload,
+        ...(owner && repoName && { repository: { name: repoName, owner, fullName } }),
+        ...(installation && { installation: { id: installation } })
+      },
+      ...(variables && { variables }),
+      ...(secrets && { secrets })
+    };
+  }
+
+  private sendPlan(req: Request, res: Response, plan: ExecutionPlan): void {
+    if (req.query.format === 'markdown') {
+      res.setHeader('Content-Type', 'text/markdown; charset=utf-8');
+      res.send(renderExecutionPlan(plan));
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: plan
+    });
+  }
+
+  private parseVersion(value: unknown, name: string): number {
+    const parsed = typeof value === 'string' && /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+    if (isNaN(parsed) || parsed < 1) {
+      throw createError(`"${name}" must be a positive integer version number`, 400);
+    }
+    return parsed;
+  }
+
+  /**
+   * Respond with the validator's structured errors if the definition is invalid.
+   * Errors in a YAML definition carry the line and column they refer to.
+   */
+  private validateOrRespond(workflow: WorkflowDefinition, res: Response, document?: YamlDocument): boolean {
+    const validation = workflowValidator.validate(workflow);
+
+    if (!validation.valid) {
+      res.status(400).json({
+        success: false,
+        error: {
+          message: 'Workflow validation failed',
+          errors: document ? locateValidationErrors(validation.errors, document) : validation.errors,
+          warnings: validation.warnings
+        },
+        timestamp: new Date().toISOString()
+      });
+      return false;
+    }
+
+    return true;
+  }
+}
+
+// Create singleton instance
+export const workflowController = new WorkflowController(workflowService, workflowVersionService, workflowTestHarness);
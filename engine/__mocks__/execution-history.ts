@@ -0,0 +1,14 @@
+/**
+ * Manual mock of ExecutionHistory for engine tests. Records calls without
+ * touching the database; tests enable it with jest.mock('../execution-history').
+ */
+
+import { EventEmitter } from 'events';
+
+export class ExecutionHistory extends EventEmitter {
+  startExecution = jest.fn(async () => undefined);
+  completeExecution = jest.fn(async () => undefined);
+  updateActionStatus = jest.fn(async () => undefined);
+  updateExecutionStatus = jest.fn(async () => undefined);
+  checkpointActions = jest.fn(async () => undefined);
+}
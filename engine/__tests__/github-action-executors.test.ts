@@ -0,0 +1,338 @@
+/**
+ * Tests for the GitHub action executors against a local stand-in for api.github.com
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { generateKeyPairSync } from 'crypto';
+import {
+  GitHubIssueAssignExecutor,
+  GitHubIssueLabelExecutor,
+  GitHubIssueCommentExecutor,
+  GitHubIssueCloseExecutor,
+  GitHubPRRequestReviewExecutor,
+  GitHubPRMergeExecutor,
+  GitHubPRLabelExecutor,
+  GitHubCreateBranchExecutor,
+  GitHubCreatePRExecutor,
+  GitHubCreateIssueExecutor
+} from '../action-executor';
+import { GitHubAuthService } from '../../services/githubAuth';
+import { ExecutionContext } from '../../types/workflow-schema';
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  authorization?: string | undefined;
+  body: any;
+}
+
+type RouteHandler = (request: RecordedRequest) => { status: number; body: any };
+
+describe('GitHub action executors', () => {
+  let server: http.Server;
+  let requests: RecordedRequest[];
+  let routes: Record<string, RouteHandler>;
+  let authService: GitHubAuthService;
+
+  const route = (method: string, url: string, handler: RouteHandler) => {
+    routes[`${method} ${url}`] = handler;
+  };
+
+  const createContext = (payload: any): ExecutionContext => ({
+    workflow: { id: 'triage', name: 'triage', version: '1.0.0' },
+    trigger: { event: 'issues.opened', timestamp: new Date().toISOString(), payload },
+    repository: { name: 'api', owner: 'org', fullName: 'org/api' },
+    variables: {},
+    secrets: {},
+    execution: { id: 'exec-1', startTime: new Date().toISOString(), previousActions: [] }
+  });
+
+  const issuePayload = { installation: { id: 42 }, issue: { number: 7 } };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        const recorded: RecordedRequest = {
+          method: req.method || 'GET',
+          url: decodeURIComponent(req.url || '/'),
+          authorization: req.headers.authorization,
+          body: raw ? JSON.parse(raw) : undefined
+        };
+        requests.push(recorded);
+
+        const handler = routes[`${recorded.method} ${recorded.url.split('?')[0]}`];
+        const { status, body } = handler ? handler(recorded) : { status: 404, body: { message: 'Not Found' } };
+
+        res.writeHead(status, { 'content-type': 'application/json' });
+        res.end(body === undefined ? '' : JSON.stringify(body));
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    routes = {};
+
+    const { port } = server.address() as AddressInfo;
+    const { privateKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      privateKeyEncoding: { type: 'pkcs1', format: 'pem' },
+      publicKeyEncoding: { type: 'spki', format: 'pem' }
+    });
+
+    authService = new GitHubAuthService({ appId: 1, privateKey, baseUrl: `http://127.0.0.1:${port}` });
+
+    route('POST', '/app/installations/42/access_tokens', () => ({
+      status: 201,
+      body: {
+        token: 'ghs_installation_token',
+        expires_at: new Date(Date.now() + 3600000).toISOString(),
+        permissions: { issues: 'write' },
+        repository_selection: 'all'
+      }
+    }));
+  });
+
+  test('assigns the issue with the installation token and returns the API response', async () => {
+    route('POST', '/repos/org/api/issues/7/assignees', ({ body }) => ({
+      status: 201,
+      body: { number: 7, assignees: body.assignees.map((login: string) => ({ login })) }
+    }));
+
+    const executor = new GitHubIssueAssignExecutor(() => authService);
+    const result = await executor.execute({ assignee: 'octocat' }, createContext(issuePayload));
+
+    expect(result.success).toBe(true);
+    expect(result.result).toEqual({ number: 7, assignees: [{ login: 'octocat' }] });
+
+    const call = requests.find(request => request.url === '/repos/org/api/issues/7/assignees');
+    expect(call?.body).toEqual({ assignees: ['octocat'] });
+    expect(call?.authorization).toBe('token ghs_installation_token');
+  });
+
+  test('reuses the cached installation token across actions', async () => {
+    route('POST', '/repos/org/api/issues/7/labels', ({ body }) => ({
+      status: 200,
+      body: body.labels.map((name: string) => ({ name }))
+    }));
+
+    const executor = new GitHubIssueLabelExecutor(() => authService);
+    await executor.execute({ labels: ['bug'] }, createContext(issuePayload));
+    await executor.execute({ labels: ['triage'] }, createContext(issuePayload));
+
+    const tokenRequests = requests.filter(request => request.url.endsWith('/access_tokens'));
+    expect(tokenRequests).toHaveLength(1);
+  });
+
+  test('applies each label mode through the matching endpoint', async () => {
+    route('POST', '/repos/org/api/issues/7/labels', ({ body }) => ({ status: 200, body: body.labels.map((name: string) => ({ name })) }));
+    route('PUT', '/repos/org/api/issues/7/labels', ({ body }) => ({ status: 200, body: body.labels.map((name: string) => ({ name })) }));
+    route('DELETE', '/repos/org/api/issues/7/labels/stale', () => ({ status: 200, body: [{ name: 'bug' }] }));
+
+    const executor = new GitHubIssueLabelExecutor(() => authService);
+    const context = createContext(issuePayload);
+
+    const added = await executor.execute({ labels: ['bug'], mode: 'add' }, context);
+    const set = await executor.execute({ labels: ['bug', 'p1'], mode: 'set' }, context);
+    const removed = await executor.execute({ labels: ['stale'], mode: 'remove' }, context);
+
+    expect(added.result).toEqual([{ name: 'bug' }]);
+    expect(set.result).toEqual([{ name: 'bug' }, { name: 'p1' }]);
+    expect(removed.result).toEqual([{ name: 'bug' }]);
+  });
+
+  test('creates a comment and returns the real comment id', async () => {
+    route('POST', '/repos/org/api/issues/7/comments', ({ body }) => ({
+      status: 201,
+      body: { id: 1001, body: body.body }
+    }));
+
+    const executor = new GitHubIssueCommentExecutor(() => authService);
+    const result = await executor.execute({ body: 'Thanks for the report!' }, createContext(issuePayload));
+
+    expect(result.success).toBe(true);
+    expect(result.result).toEqual({ id: 1001, body: 'Thanks for the report!' });
+  });
+
+  test('updates the previous workflow comment when update is set', async () => {
+    route('GET', '/repos/org/api/issues/7/comments', () => ({
+      status: 200,
+      body: [
+        { id: 1, body: 'unrelated' },
+        { id: 2, body: 'old status\n\n<!-- workflow:triage -->' }
+      ]
+    }));
+    route('PATCH', '/repos/org/api/issues/comments/2', ({ body }) => ({ status: 200, body: { id: 2, body: body.body } }));
+
+    const executor = new GitHubIssueCommentExecutor(() => authService);
+    const result = await executor.execute({ body: 'new status', update: true }, createContext(issuePayload));
+
+    expect(result.success).toBe(true);
+    expect(result.result).toEqual({ id: 2, body: 'new status\n\n<!-- workflow:triage -->' });
+    expect(result.metadata?.apiCall).toBe('github.issues.updateComment');
+  });
+
+  test('requests reviewers and teams on the pull request', async () => {
+    route('POST', '/repos/org/api/pulls/12/requested_reviewers', ({ body }) => ({
+      status: 201,
+      body: {
+        number: 12,
+        requested_reviewers: body.reviewers.map((login: string) => ({ login })),
+        requested_teams: body.team_reviewers.map((slug: string) => ({ slug }))
+      }
+    }));
+
+    const executor = new GitHubPRRequestReviewExecutor(() => authService);
+    const result = await executor.execute(
+      { reviewers: ['octocat'], teams: ['core'] },
+      createContext({ installation: { id: 42 }, pull_request: { number: 12 } })
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.result).toEqual({
+      number: 12,
+      requested_reviewers: [{ login: 'octocat' }],
+      requested_teams: [{ slug: 'core' }]
+    });
+  });
+
+  test('closes an issue after posting the closing comment', async () => {
+    route('POST', '/repos/org/api/issues/7/comments', ({ body }) => ({ status: 201, body: { id: 5, body: body.body } }));
+    route('PATCH', '/repos/org/api/issues/7', ({ body }) => ({ status: 200, body: { number: 7, ...body } }));
+
+    const executor = new GitHubIssueCloseExecutor(() => authService);
+    const result = await executor.execute({ reason: 'not_planned', comment: 'Duplicate' }, createContext(issuePayload));
+
+    expect(result.success).toBe(true);
+    expect(result.result).toEqual({ number: 7, state: 'closed', state_reason: 'not_planned' });
+    expect(requests.map(request => `${request.method} ${request.url}`).slice(-2)).toEqual([
+      'POST /repos/org/api/issues/7/comments',
+      'PATCH /repos/org/api/issues/7'
+    ]);
+  });
+
+  test('merges the pull request with the requested method', async () => {
+    route('PUT', '/repos/org/api/pulls/12/merge', ({ body }) => ({
+      status: 200,
+      body: { merged: true, sha: 'abc123', message: body.merge_method }
+    }));
+
+    const executor = new GitHubPRMergeExecutor(() => authService);
+    const result = await executor.execute(
+      { merge_method: 'squash', commit_title: 'Release' },
+      createContext({ installation: { id: 42 }, pull_request: { number: 12 } })
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.result).toEqual({ merged: true, sha: 'abc123', message: 'squash' });
+    expect(requests.find(request => request.url === '/repos/org/api/pulls/12/merge')?.body).toEqual({
+      merge_method: 'squash',
+      commit_title: 'Release'
+    });
+  });
+
+  test('labels a pull request through the issue labels endpoint', async () => {
+    route('POST', '/repos/org/api/issues/12/labels', ({ body }) => ({ status: 200, body: body.labels.map((name: string) => ({ name })) }));
+
+    const executor = new GitHubPRLabelExecutor(() => authService);
+    const result = await executor.execute(
+      { labels: 'frontend, needs-review' },
+      createContext({ installation: { id: 42 }, pull_request: { number: 12 } })
+    );
+
+    expect(result.result).toEqual([{ name: 'frontend' }, { name: 'needs-review' }]);
+  });
+
+  test('creates a branch from the default branch head', async () => {
+    route('GET', '/repos/org/api/git/ref/heads/main', () => ({ status: 200, body: { ref: 'refs/heads/main', object: { sha: 'f'.repeat(40) } } }));
+    route('POST', '/repos/org/api/git/refs', ({ body }) => ({ status: 201, body: { ref: body.ref, object: { sha: body.sha } } }));
+
+    const executor = new GitHubCreateBranchExecutor(() => authService);
+    const result = await executor.execute(
+      { name: 'hotfix-7' },
+      createContext({ ...issuePayload, repository: { full_name: 'org/api', default_branch: 'main' } })
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.result).toEqual({ ref: 'refs/heads/hotfix-7', object: { sha: 'f'.repeat(40) } });
+  });
+
+  test('creates a pull request against the repository default branch', async () => {
+    route('GET', '/repos/org/api', () => ({ status: 200, body: { full_name: 'org/api', default_branch: 'develop' } }));
+    route('POST', '/repos/org/api/pulls', ({ body }) => ({ status: 201, body: { number: 13, base: { ref: body.base }, head: { ref: body.head } } }));
+
+    const executor = new GitHubCreatePRExecutor(() => authService);
+    const result = await executor.execute({ title: 'Hotfix', head: 'hotfix-7' }, createContext(issuePayload));
+
+    expect(result.success).toBe(true);
+    expect(result.result).toEqual({ number: 13, base: { ref: 'develop' }, head: { ref: 'hotfix-7' } });
+  });
+
+  test('creates an issue with labels and assignees', async () => {
+    route('POST', '/repos/org/api/issues', ({ body }) => ({ status: 201, body: { number: 99, ...body } }));
+
+    const executor = new GitHubCreateIssueExecutor(() => authService);
+    const result = await executor.execute(
+      { title: 'Security alert', labels: ['security'], assignees: ['@octocat'] },
+      createContext({ installation: { id: 42 } })
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.result).toEqual({ number: 99, title: 'Security alert', labels: ['security'], assignees: ['octocat'] });
+  });
+
+  test('reports GitHub API errors as failed results', async () => {
+    route('POST', '/repos/org/api/issues/7/assignees', () => ({ status: 403, body: { message: 'Resource not accessible by integration' } }));
+
+    const executor = new GitHubIssueAssignExecutor(() => authService);
+    const result = await executor.execute({ assignee: 'octocat' }, createContext(issuePayload));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Resource not accessible by integration');
+  });
+
+  test('aborts requests in flight with the context signal', async () => {
+    const controller = new AbortController();
+    route('POST', '/repos/org/api/issues/7/assignees', () => {
+      controller.abort(new Error('Request aborted')); // e.g. the action timed out while GitHub was answering
+      return { status: 201, body: { number: 7, assignees: [{ login: 'octocat' }] } };
+    });
+
+    const executor = new GitHubIssueAssignExecutor(() => authService);
+    const result = await executor.execute({ assignee: 'octocat' }, { ...createContext(issuePayload), signal: controller.signal });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/abort/i);
+  });
+
+  test('fails when the trigger has no installation', async () => {
+    const executor = new GitHubIssueAssignExecutor(() => authService);
+    const result = await executor.execute({ assignee: 'octocat' }, createContext({ issue: { number: 7 } }));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('No GitHub App installation found in trigger context');
+    expect(requests).toHaveLength(0);
+  });
+
+  test('fails when GitHub is not configured', async () => {
+    const executor = new GitHubIssueAssignExecutor(() => null);
+    const result = await executor.execute({ assignee: 'octocat' }, createContext(issuePayload));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('GitHub integration is not configured');
+  });
+});
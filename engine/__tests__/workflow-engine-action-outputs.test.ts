@@ -0,0 +1,101 @@
+/**
+ * Tests for addressing earlier action results and outputs from templates and conditions
+ */
+
+import { WorkflowEngine } from '../workflow-engine';
+import { BaseActionExecutor, ActionExecutorResult } from '../action-executor';
+import { WorkflowDefinition, ExecutionContext, ActionConfig } from '../../types/workflow-schema';
+
+jest.mock('../execution-history');
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+// Returns its `reply` parameter as the result, or fails with its `fail` parameter
+class EchoExecutor extends BaseActionExecutor {
+  async execute(parameters: any, _context: ExecutionContext): Promise<ActionExecutorResult> {
+    return parameters.fail
+      ? { success: false, error: parameters.fail }
+      : { success: true, result: parameters.reply };
+  }
+}
+
+describe('WorkflowEngine action outputs', () => {
+  let engine: WorkflowEngine;
+
+  const echo = (id: string, parameters: Record<string, any>, extra: Partial<ActionConfig> = {}): ActionConfig => ({
+    id,
+    type: 'audit_log',
+    parameters,
+    ...extra
+  });
+
+  const run = (actions: ActionConfig[], variables: Record<string, any> = {}) => {
+    const workflow: WorkflowDefinition = {
+      name: 'outputs',
+      trigger: { type: 'manual', event: 'manual' },
+      actions
+    };
+    return engine.executeWorkflow(workflow, { event: 'manual', payload: {}, variables });
+  };
+
+  beforeEach(() => {
+    engine = new WorkflowEngine({ enableMetrics: false });
+    engine.registerExecutor('audit_log', new EchoExecutor());
+  });
+
+  test('templates and conditions address earlier actions by ID', async () => {
+    const result = await run([
+      echo('analyze-changes', { reply: { labels: ['bug', 'ui'], confidence: 0.9 } }),
+      echo('label', { reply: 'labels: {{actions.analyze-changes.result.labels}} ({{actions.analyze-changes.status}})' }, {
+        dependsOn: ['analyze-changes'],
+        condition: {
+          operator: 'AND',
+          rules: [{ field: 'actions.analyze-changes.result.confidence', operator: 'greater_than', value: 0.7 }]
+        }
+      })
+    ]);
+
+    expect(result.actionResults[1]).toMatchObject({
+      status: 'completed',
+      result: 'labels: ["bug","ui"] (completed)'
+    });
+  });
+
+  test('failed actions expose their status and error', async () => {
+    const result = await run([
+      echo('call', { fail: 'rate limited' }),
+      echo('report', { reply: '{{actions.call.status}}: {{actions.call.error}}' }, { dependsOn: ['call'] })
+    ]);
+
+    expect(result.actionResults[1]!.result).toBe('failed: rate limited');
+  });
+
+  test('declared outputs are promoted into the variables', async () => {
+    const variables = { team: 'platform' };
+
+    const result = await run([
+      echo('find', { reply: { branches: ['old-1', 'old-2'], total: 2 } }, {
+        outputs: { staleBranches: 'result.branches', findStatus: 'status' }
+      }),
+      echo('report', {
+        reply: '{{variables.team}}: {{variables.staleBranches.length}} via {{actions.find.output.staleBranches[0]}} ({{variables.findStatus}})'
+      }, { dependsOn: ['find'] })
+    ], variables);
+
+    expect(result.actionResults[1]!.result).toBe('platform: 2 via old-1 (completed)');
+    // The caller's variables are left untouched
+    expect(variables).toEqual({ team: 'platform' });
+  });
+
+  test('outputs of failed actions are not promoted', async () => {
+    const result = await run([
+      echo('find', { fail: 'boom' }, { outputs: { found: 'result' } }),
+      echo('report', { reply: 'found={{variables.found}}' }, { dependsOn: ['find'] })
+    ], { found: 'default' });
+
+    expect(result.actionResults[1]!.result).toBe('found=default');
+  });
+});
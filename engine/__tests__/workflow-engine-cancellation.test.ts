@@ -0,0 +1,158 @@
+/**
+ * Tests for cancellation and timeout propagation into running workflow actions
+ */
+
+import { WorkflowEngine } from '../workflow-engine';
+import { BaseActionExecutor, ActionExecutorResult } from '../action-executor';
+import { WorkflowDefinition, ExecutionContext } from '../../types/workflow-schema';
+
+jest.mock('../execution-history');
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+class FailingExecutor extends BaseActionExecutor {
+  public attempts = 0;
+
+  async execute(_parameters: any, _context: ExecutionContext): Promise<ActionExecutorResult> {
+    this.attempts++;
+    return { success: false, error: 'upstream unavailable' };
+  }
+}
+
+class HangingExecutor extends BaseActionExecutor {
+  public signal: AbortSignal | undefined;
+
+  async execute(_parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
+    // Ignores the signal entirely, like a third-party call without abort support
+    this.signal = context.signal;
+    return new Promise(() => undefined);
+  }
+}
+
+const waitFor = async (predicate: () => boolean): Promise<void> => {
+  for (let i = 0; i < 200 && !predicate(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+describe('WorkflowEngine cancellation', () => {
+  let engine: WorkflowEngine;
+
+  const createWorkflow = (overrides: Partial<WorkflowDefinition> = {}): WorkflowDefinition => ({
+    name: 'long-running',
+    trigger: { type: 'manual', event: 'manual' },
+    actions: [
+      { id: 'wait', type: 'delay', parameters: { duration: 60000 } },
+      { id: 'after', type: 'delay', parameters: { duration: 1 }, dependsOn: ['wait'] }
+    ],
+    ...overrides
+  });
+
+  const getHistory = () => jest.mocked(engine.getExecutionHistory());
+
+  beforeEach(() => {
+    engine = new WorkflowEngine({ enableMetrics: false });
+  });
+
+  test('cancelling stops a running delay and does not start later stages', async () => {
+    const startedAt = Date.now();
+    const execution = engine.executeWorkflow(createWorkflow(), { event: 'manual', payload: {} }, 'exec_cancel');
+
+    await waitFor(() => engine.getActiveExecutions().includes('exec_cancel'));
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(await engine.cancelExecution('exec_cancel')).toBe(true);
+
+    const result = await execution;
+
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+    expect(result.status).toBe('cancelled');
+    expect(result.error).toBe('Workflow execution was cancelled');
+    expect(result.actionResults).toEqual([
+      expect.objectContaining({ actionId: 'wait', status: 'cancelled', error: 'Workflow execution was cancelled' })
+    ]);
+    expect(getHistory().updateActionStatus).toHaveBeenCalledWith(
+      'exec_cancel', 'wait', 'cancelled', undefined, 'Workflow execution was cancelled'
+    );
+    expect(getHistory().updateExecutionStatus).toHaveBeenCalledWith('exec_cancel', 'cancelled');
+    expect(engine.getActiveExecutions()).toEqual([]);
+  });
+
+  test('a workflow timeout aborts actions that ignore the signal', async () => {
+    const hanging = new HangingExecutor();
+    engine.registerExecutor('http_request', hanging);
+
+    const result = await engine.executeWorkflow(createWorkflow({
+      timeout: 1,
+      actions: [{ id: 'call', type: 'http_request', parameters: { url: 'https://example.com', method: 'GET' } }]
+    }), { event: 'manual', payload: {} });
+
+    expect(result.status).toBe('timeout');
+    expect(result.error).toBe('Workflow execution timed out after 1s');
+    expect(result.actionResults).toEqual([
+      expect.objectContaining({ actionId: 'call', status: 'cancelled' })
+    ]);
+    expect(hanging.signal?.aborted).toBe(true);
+  });
+
+  test('cancelling interrupts the wait between retries', async () => {
+    const failing = new FailingExecutor();
+    engine.registerExecutor('http_request', failing);
+
+    const execution = engine.executeWorkflow(createWorkflow({
+      actions: [{
+        id: 'flaky',
+        type: 'http_request',
+        parameters: { url: 'https://example.com', method: 'GET' },
+        retryPolicy: { maxAttempts: 5, delay: 60 }
+      }]
+    }), { event: 'manual', payload: {} }, 'exec_retry');
+
+    await waitFor(() => failing.attempts === 1);
+    await engine.cancelExecution('exec_retry');
+    const result = await execution;
+
+    expect(failing.attempts).toBe(1);
+    expect(result.status).toBe('cancelled');
+    expect(result.actionResults[0]).toMatchObject({ actionId: 'flaky', status: 'cancelled', retryCount: 0 });
+  });
+
+  test('an action timeout aborts the attempt before it is retried', async () => {
+    const signals: AbortSignal[] = [];
+    class RecordingExecutor extends BaseActionExecutor {
+      async execute(_parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
+        signals.push(context.signal!);
+        return new Promise(() => undefined);
+      }
+    }
+    engine.registerExecutor('http_request', new RecordingExecutor());
+
+    const result = await engine.executeWorkflow(createWorkflow({
+      actions: [{
+        id: 'slow',
+        type: 'http_request',
+        parameters: { url: 'https://example.com', method: 'POST' },
+        timeout: 1,
+        retryPolicy: { maxAttempts: 2, delay: 0 }
+      }]
+    }), { event: 'manual', payload: {} });
+
+    expect(result.status).toBe('completed');
+    expect(result.actionResults[0]).toMatchObject({ status: 'failed', error: 'Action timeout after 1s', retryCount: 1 });
+    expect(signals).toHaveLength(2);
+    expect(signals.every(signal => signal.aborted)).toBe(true);
+  });
+
+  test('cannot cancel an execution that is not running', async () => {
+    expect(await engine.cancelExecution('exec_unknown')).toBe(false);
+
+    const result = await engine.executeWorkflow(createWorkflow({
+      actions: [{ id: 'quick', type: 'delay', parameters: { duration: 1 } }]
+    }), { event: 'manual', payload: {} }, 'exec_done');
+
+    expect(result.status).toBe('completed');
+    expect(await engine.cancelExecution('exec_done')).toBe(false);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Tests for onSuccess follow-ups: chaining workflows and updating workflow metadata
+ */
+
+import { WorkflowEngine, ChainedWorkflowRequest } from '../workflow-engine';
+import { BaseActionExecutor, ActionExecutorResult } from '../action-executor';
+import { WorkflowDefinition, ExecutionContext, ActionConfig } from '../../types/workflow-schema';
+
+jest.mock('../execution-history');
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+class EchoExecutor extends BaseActionExecutor {
+  async execute(parameters: any, _context: ExecutionContext): Promise<ActionExecutorResult> {
+    return parameters.fail
+      ? { success: false, error: parameters.fail }
+      : { success: true, result: parameters.reply };
+  }
+}
+
+describe('WorkflowEngine onSuccess', () => {
+  let engine: WorkflowEngine;
+  let triggerWorkflow: jest.Mock<Promise<string>, [ChainedWorkflowRequest]>;
+  let updateMetadata: jest.Mock<Promise<void>, [string, Record<string, any>]>;
+
+  const createWorkflow = (actions: ActionConfig[]): WorkflowDefinition => ({
+    name: 'triage',
+    trigger: { type: 'manual', event: 'manual' },
+    actions
+  });
+
+  beforeEach(() => {
+    triggerWorkflow = jest.fn(async (_request: ChainedWorkflowRequest) => 'exec_child');
+    updateMetadata = jest.fn(async (_name: string, _metadata: Record<string, any>) => undefined);
+    engine = new WorkflowEngine({ enableMetrics: false, maxChainDepth: 2 }, { triggerWorkflow, updateMetadata });
+    engine.registerExecutor('audit_log', new EchoExecutor());
+  });
+
+  test('triggers the next workflow with the outputs as its payload', async () => {
+    const result = await engine.executeWorkflow(createWorkflow([
+      { id: 'classify', type: 'audit_log', parameters: { reply: { team: 'payments' } }, outputs: { team: 'result.team' } },
+      {
+        id: 'handoff',
+        type: 'audit_log',
+        parameters: { reply: 'handed off' },
+        dependsOn: ['classify'],
+        onSuccess: { triggerWorkflow: 'route-to-team' }
+      }
+    ]), { event: 'manual', payload: {}, repository: { name: 'api', owner: 'acme', fullName: 'acme/api' } }, 'exec_parent');
+
+    expect(triggerWorkflow).toHaveBeenCalledWith({
+      workflowName: 'route-to-team',
+      parentExecutionId: 'exec_parent',
+      chainDepth: 1,
+      triggerEvent: {
+        event: 'workflow.chained',
+        payload: {
+          parent: { executionId: 'exec_parent', workflow: 'triage', actionId: 'handoff' },
+          outputs: { team: 'payments' },
+          result: 'handed off'
+        },
+        repository: { name: 'api', owner: 'acme', fullName: 'acme/api' }
+      }
+    });
+    expect(result.actionResults[1]).toMatchObject({ status: 'completed', triggeredExecutionId: 'exec_child' });
+  });
+
+  test('chained runs know their parent and depth', async () => {
+    await engine.executeWorkflow(createWorkflow([
+      { id: 'noop', type: 'audit_log', parameters: { reply: 'ok' } }
+    ]), { event: 'workflow.chained', payload: {}, chain: { parentExecutionId: 'exec_parent', chainDepth: 1 } }, 'exec_child');
+
+    const [, , context] = jest.mocked(engine.getExecutionHistory()).startExecution.mock.calls[0]!;
+    expect(context.execution).toMatchObject({ parentExecutionId: 'exec_parent', chainDepth: 1 });
+  });
+
+  test('does not chain beyond the maximum depth', async () => {
+    const result = await engine.executeWorkflow(createWorkflow([
+      { id: 'again', type: 'audit_log', parameters: { reply: 'ok' }, onSuccess: { triggerWorkflow: 'next' } }
+    ]), { event: 'workflow.chained', payload: {}, chain: { parentExecutionId: 'exec_1', chainDepth: 2 } });
+
+    expect(triggerWorkflow).not.toHaveBeenCalled();
+    expect(result.status).toBe('completed');
+    expect(result.actionResults[0]!.triggeredExecutionId).toBeUndefined();
+  });
+
+  test('failed actions run no follow-ups', async () => {
+    await engine.executeWorkflow(createWorkflow([
+      {
+        id: 'broken',
+        type: 'audit_log',
+        parameters: { fail: 'nope' },
+        onSuccess: { triggerWorkflow: 'next', updateMetadata: { lastRun: 'x' } }
+      }
+    ]), { event: 'manual', payload: {} });
+
+    expect(triggerWorkflow).not.toHaveBeenCalled();
+    expect(updateMetadata).not.toHaveBeenCalled();
+  });
+
+  test('updates the workflow metadata with resolved templates', async () => {
+    updateMetadata.mockRejectedValueOnce(new Error('database unavailable'));
+
+    const workflow = createWorkflow([
+      {
+        id: 'release',
+        type: 'audit_log',
+        parameters: { reply: { version: '1.4.0' } },
+        onSuccess: { updateMetadata: { lastReleased: '{{actions.release.result.version}}' } }
+      }
+    ]);
+
+    // A failing update does not fail the action
+    const failed = await engine.executeWorkflow(workflow, { event: 'manual', payload: {} });
+    expect(failed.actionResults[0]!.status).toBe('completed');
+
+    await engine.executeWorkflow(workflow, { event: 'manual', payload: {} });
+    expect(updateMetadata).toHaveBeenLastCalledWith('triage', { lastReleased: '1.4.0' });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Tests for dry runs: actions report the calls they would make instead of making them
+ */
+
+import { Octokit } from '@octokit/rest';
+import { WorkflowEngine } from '../workflow-engine';
+import { GitHubIssueCommentExecutor, GitHubIssueLabelExecutor } from '../action-executor';
+import { buildExecutionPlan, renderExecutionPlan } from '../execution-plan';
+import { GitHubAuthService } from '../../services/githubAuth';
+import { WorkflowDefinition } from '../../types/workflow-schema';
+
+jest.mock('../execution-history');
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+const workflow: WorkflowDefinition = {
+  name: 'triage',
+  trigger: { type: 'webhook', event: 'issues.opened' },
+  actions: [
+    {
+      id: 'label',
+      type: 'github_issue_label',
+      parameters: { labels: ['bug'] },
+      onSuccess: { triggerWorkflow: 'escalate', updateMetadata: { labelled: true } }
+    },
+    {
+      id: 'comment',
+      type: 'github_issue_comment',
+      parameters: { body: 'Status for #{{trigger.payload.issue.number}}', update: true },
+      dependsOn: ['label']
+    },
+    {
+      id: 'notify',
+      type: 'slack_message',
+      parameters: { channel: '#triage', message: 'New bug: {{trigger.payload.issue.title}}' },
+      dependsOn: ['label']
+    },
+    {
+      id: 'page',
+      type: 'slack_message',
+      parameters: { channel: '#oncall', message: 'Urgent' },
+      condition: { operator: 'AND', rules: [{ field: 'trigger.payload.issue.title', operator: 'contains', value: 'outage' }] }
+    }
+  ]
+};
+
+const trigger = {
+  event: 'issues.opened',
+  payload: { installation: { id: 42 }, issue: { number: 7, title: 'Login is broken' } },
+  repository: { name: 'api', owner: 'org', fullName: 'org/api' }
+};
+
+describe('WorkflowEngine dry runs', () => {
+  let engine: WorkflowEngine;
+  let requests: { method: string; url: string }[];
+  let triggerWorkflow: jest.Mock;
+  let updateMetadata: jest.Mock;
+
+  beforeEach(() => {
+    requests = [];
+
+    // Stands in for api.github.com; only the existing comments can be read
+    const fetch = async (url: string, init: { method: string }) => {
+      requests.push({ method: init.method, url });
+      const comments = [{ id: 2, body: 'old status\n\n<!-- workflow:triage -->' }];
+      return url.includes('/issues/7/comments?') && init.method === 'GET'
+        ? new Response(JSON.stringify(comments), { status: 200, headers: { 'content-type': 'application/json' } })
+        : new Response(JSON.stringify({ message: 'Not Found' }), { status: 404, headers: { 'content-type': 'application/json' } });
+    };
+    const octokit = new Octokit({ request: { fetch } });
+    const authService = { getInstallationOctokit: () => octokit } as unknown as GitHubAuthService;
+
+    triggerWorkflow = jest.fn(async () => 'exec_child');
+    updateMetadata = jest.fn(async () => undefined);
+    engine = new WorkflowEngine({ enableMetrics: false }, { triggerWorkflow, updateMetadata });
+
+    engine.registerExecutor('github_issue_label', new GitHubIssueLabelExecutor(() => authService));
+    engine.registerExecutor('github_issue_comment', new GitHubIssueCommentExecutor(() => authService));
+  });
+
+  test('records writes as planned effects while reads still reach GitHub', async () => {
+    const result = await engine.executeWorkflow(workflow, trigger, undefined, { dryRun: true });
+
+    expect(result.status).toBe('completed');
+    expect(requests).toEqual([{ method: 'GET', url: 'https://api.github.com/repos/org/api/issues/7/comments?per_page=100' }]);
+
+    const [label, comment, notify, page] = workflow.actions.map(action =>
+      result.actionResults.find(actionResult => actionResult.actionId === action.id)!
+    );
+    expect(label!.effects).toEqual([{
+      service: 'github',
+      method: 'POST',
+      url: 'https://api.github.com/repos/org/api/issues/7/labels',
+      body: { labels: ['bug'] }
+    }]);
+    expect(comment!.effects).toEqual([expect.objectContaining({
+      method: 'PATCH',
+      url: 'https://api.github.com/repos/org/api/issues/comments/2',
+      body: { body: expect.stringContaining('Status for #7') }
+    })]);
+    expect(notify!.effects).toEqual([{
+      service: 'slack',
+      method: 'POST',
+      url: 'https://slack.com/api/chat.postMessage',
+      body: { channel: '#triage', text: 'New bug: Login is broken' }
+    }]);
+    expect(page!.status).toBe('skipped');
+  });
+
+  test('skips onSuccess follow-ups', async () => {
+    await engine.executeWorkflow(workflow, trigger, undefined, { dryRun: true });
+
+    expect(triggerWorkflow).not.toHaveBeenCalled();
+    expect(updateMetadata).not.toHaveBeenCalled();
+  });
+
+  test('builds a plan report in execution order', async () => {
+    const result = await engine.executeWorkflow(workflow, trigger, 'exec_plan', { dryRun: true });
+    const plan = buildExecutionPlan(result);
+
+    expect(plan).toMatchObject({ workflow: 'triage', executionId: 'exec_plan', status: 'completed', effectCount: 3 });
+    expect(plan.actions.map(action => [action.actionId, action.status])).toEqual([
+      ['label', 'completed'],
+      ['page', 'skipped'],
+      ['comment', 'completed'],
+      ['notify', 'completed']
+    ]);
+
+    const markdown = renderExecutionPlan(plan);
+    expect(markdown).toContain('Status: **completed**. 3 calls would be made.');
+    expect(markdown).toContain('- `label` (github_issue_label): completed\n  - `POST https://api.github.com/repos/org/api/issues/7/labels`');
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Tests for conditional and loop actions running their nested actions through the engine
+ */
+
+import { WorkflowEngine } from '../workflow-engine';
+import { BaseActionExecutor, ActionExecutorResult } from '../action-executor';
+import { WorkflowDefinition, ExecutionContext, ActionConfig } from '../../types/workflow-schema';
+
+jest.mock('../execution-history');
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+class RecordingExecutor extends BaseActionExecutor {
+  public calls: Array<{ parameters: any; previousActions: string[] }> = [];
+
+  async execute(parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
+    this.calls.push({
+      parameters,
+      previousActions: context.execution.previousActions.map(result => result.actionId)
+    });
+    return { success: true, result: { recorded: parameters.message } };
+  }
+}
+
+class FlakyExecutor extends BaseActionExecutor {
+  public attempts = 0;
+
+  async execute(_parameters: any, _context: ExecutionContext): Promise<ActionExecutorResult> {
+    this.attempts++;
+    return this.attempts < 2
+      ? { success: false, error: 'try again' }
+      : { success: true, result: { attempts: this.attempts } };
+  }
+}
+
+class SlowExecutor extends BaseActionExecutor {
+  public running = 0;
+  public maxRunning = 0;
+
+  async execute(parameters: any, _context: ExecutionContext): Promise<ActionExecutorResult> {
+    this.running++;
+    this.maxRunning = Math.max(this.maxRunning, this.running);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    this.running--;
+    return parameters.fail ? { success: false, error: 'bad item' } : { success: true, result: parameters.body };
+  }
+}
+
+describe('WorkflowEngine nested actions', () => {
+  let engine: WorkflowEngine;
+  let recorder: RecordingExecutor;
+
+  const record = (id: string, message: string): ActionConfig => ({
+    id,
+    type: 'audit_log',
+    parameters: { message }
+  });
+
+  const createWorkflow = (onTrue: ActionConfig[], onFalse: ActionConfig[] = []): WorkflowDefinition => ({
+    name: 'triage',
+    trigger: { type: 'manual', event: 'manual' },
+    actions: [
+      record('before', 'start'),
+      {
+        id: 'check',
+        type: 'conditional',
+        dependsOn: ['before'],
+        parameters: {
+          condition: {
+            operator: 'AND',
+            rules: [{ field: 'variables.priority', operator: 'equals', value: 'high' }]
+          },
+          onTrue,
+          onFalse
+        }
+      },
+      { ...record('after', 'done'), dependsOn: ['check'] }
+    ]
+  });
+
+  const run = (workflow: WorkflowDefinition, variables: Record<string, any>) =>
+    engine.executeWorkflow(workflow, { event: 'manual', payload: {}, variables });
+
+  beforeEach(() => {
+    engine = new WorkflowEngine({ enableMetrics: false });
+    recorder = new RecordingExecutor();
+    engine.registerExecutor('audit_log', recorder);
+  });
+
+  test('runs the onTrue branch when the condition matches', async () => {
+    const result = await run(createWorkflow(
+      [record('escalate', 'escalating {{variables.priority}}'), record('notify', 'notified')],
+      [record('ignore', 'ignored')]
+    ), { priority: 'high' });
+
+    expect(result.status).toBe('completed');
+    expect(result.actionResults.map(action => action.actionId)).toEqual(['before', 'check', 'after']);
+
+    const check = result.actionResults[1]!;
+    expect(check).toMatchObject({
+      status: 'completed',
+      result: { condition_result: true, executed_path: 'onTrue', executed_actions: 2 }
+    });
+    expect(check.children).toEqual([
+      expect.objectContaining({ actionId: 'escalate', status: 'completed', result: { recorded: 'escalating high' } }),
+      expect.objectContaining({ actionId: 'notify', status: 'completed' })
+    ]);
+
+    // Nested actions see earlier results; later top-level actions see only their siblings
+    expect(recorder.calls.map(call => call.previousActions)).toEqual([
+      [],
+      ['before'],
+      ['before', 'escalate'],
+      ['before', 'check']
+    ]);
+  });
+
+  test('runs the onFalse branch when the condition does not match', async () => {
+    const result = await run(createWorkflow(
+      [record('escalate', 'escalating')],
+      [record('ignore', 'ignored')]
+    ), { priority: 'low' });
+
+    const check = result.actionResults[1]!;
+    expect(check.result).toMatchObject({ condition_result: false, executed_path: 'onFalse' });
+    expect(check.children!.map(child => child.actionId)).toEqual(['ignore']);
+    expect(recorder.calls.map(call => call.parameters.message)).toEqual(['start', 'ignored', 'done']);
+  });
+
+  test('nested actions get generated IDs and their own retry policy', async () => {
+    const flaky = new FlakyExecutor();
+    engine.registerExecutor('http_request', flaky);
+
+    const result = await run(createWorkflow([
+      {
+        type: 'http_request',
+        parameters: { url: 'https://example.com', method: 'GET' },
+        retryPolicy: { maxAttempts: 2, delay: 0 }
+      }
+    ]), { priority: 'high' });
+
+    expect(result.actionResults[1]!.children).toEqual([
+      expect.objectContaining({ actionId: 'check.onTrue.0', status: 'completed', retryCount: 1 })
+    ]);
+    expect(jest.mocked(engine.getExecutionHistory()).updateActionStatus).toHaveBeenCalledWith(
+      expect.any(String), 'check.onTrue.0', 'completed', { attempts: 2 }, undefined
+    );
+  });
+
+  test('a failed nested action fails the parent and keeps its children', async () => {
+    engine.registerExecutor('http_request', new FlakyExecutor());
+
+    const result = await run(createWorkflow([
+      { id: 'call', type: 'http_request', parameters: { url: 'https://example.com', method: 'GET' } },
+      { ...record('followup', 'never'), dependsOn: ['call'] }
+    ]), { priority: 'high' });
+
+    const check = result.actionResults[1]!;
+    expect(check.status).toBe('failed');
+    expect(check.error).toBe('Nested action(s) failed: call');
+    expect(check.children).toEqual([
+      expect.objectContaining({ actionId: 'call', status: 'failed', error: 'try again' }),
+      expect.objectContaining({ actionId: 'followup', status: 'completed' })
+    ]);
+  });
+
+  describe('loop', () => {
+    const createLoopWorkflow = (parameters: Record<string, any>, after?: ActionConfig): WorkflowDefinition => ({
+      name: 'fan-out',
+      trigger: { type: 'manual', event: 'manual' },
+      actions: [
+        { id: 'each', type: 'loop', parameters },
+        ...(after ? [{ ...after, dependsOn: ['each'] }] : [])
+      ]
+    });
+
+    test('runs the body for every item resolved through the field resolver', async () => {
+      const result = await run(createLoopWorkflow({
+        items: '{{variables.labels[*].name}}',
+        itemVariable: 'label',
+        actions: [
+          record('tag', 'tag {{variables.label}} #{{variables.labelIndex}}'),
+          { ...record('log', 'logged {{variables.label}}'), dependsOn: ['tag'] }
+        ]
+      }, record('summary', 'first: {{execution.previousActions[0].result.iterations[0].results.tag.recorded}}')), {
+        labels: [{ name: 'bug' }, { name: 'urgent' }]
+      });
+
+      expect(result.status).toBe('completed');
+
+      const loop = result.actionResults[0]!;
+      expect(loop.children!.map(child => child.actionId)).toEqual(['tag[0]', 'log[0]', 'tag[1]', 'log[1]']);
+      expect(loop.result).toMatchObject({
+        total_items: 2,
+        processed_items: 2,
+        iterations: [
+          { index: 0, item: 'bug', status: 'completed', results: { tag: { recorded: 'tag bug #0' }, log: { recorded: 'logged bug' } } },
+          { index: 1, item: 'urgent', status: 'completed', results: { tag: { recorded: 'tag urgent #1' } } }
+        ]
+      });
+
+      // Later actions see only the loop; the body's bindings don't leak out
+      expect(recorder.calls.map(call => call.previousActions)).toEqual([[], ['tag[0]'], [], ['tag[1]'], ['each']]);
+      expect(result.actionResults[1]!.result).toEqual({ recorded: 'first: tag bug #0' });
+    });
+
+    test('addresses body actions by their own IDs within an iteration', async () => {
+      const result = await run({
+        name: 'fan-out',
+        trigger: { type: 'manual', event: 'manual' },
+        actions: [
+          record('before', 'start'),
+          {
+            id: 'each',
+            type: 'loop',
+            dependsOn: ['before'],
+            parameters: {
+              items: ['bug', 'urgent'],
+              actions: [
+                { ...record('tag', 'tag {{variables.item}}'), dependsOn: ['before'] },
+                { ...record('log', 'after {{actions.tag.result.recorded}} and {{actions.before.status}}'), dependsOn: ['tag', 'before'] }
+              ]
+            }
+          }
+        ]
+      }, {});
+
+      expect(result.status).toBe('completed');
+      expect(result.actionResults[1]!.children!.map(child => child.actionId)).toEqual(['tag[0]', 'log[0]', 'tag[1]', 'log[1]']);
+      expect(recorder.calls.map(call => call.parameters.message)).toEqual([
+        'start',
+        'tag bug',
+        'after tag bug and completed',
+        'tag urgent',
+        'after tag urgent and completed'
+      ]);
+    });
+
+    test('stops at maxIterations', async () => {
+      const result = await run(createLoopWorkflow({
+        items: [1, 2, 3, 4],
+        maxIterations: 2,
+        actions: [record('tag', 'item {{variables.item}}')]
+      }), {});
+
+      expect(result.actionResults[0]!.result).toMatchObject({ total_items: 4, processed_items: 2, skipped_items: 2 });
+      expect(recorder.calls.map(call => call.parameters.message)).toEqual(['item 1', 'item 2']);
+    });
+
+    test('runs at most `concurrency` iterations at once', async () => {
+      const slow = new SlowExecutor();
+      engine.registerExecutor('http_request', slow);
+
+      const result = await run(createLoopWorkflow({
+        items: '{{variables.ids}}',
+        concurrency: 2,
+        actions: [{ id: 'call', type: 'http_request', parameters: { url: 'https://example.com', method: 'GET', body: '{{variables.item}}' } }]
+      }), { ids: ['a', 'b', 'c', 'd', 'e'] });
+
+      expect(result.actionResults[0]!.status).toBe('completed');
+      expect(slow.maxRunning).toBe(2);
+      expect(result.actionResults[0]!.result.iterations.map((iteration: any) => iteration.results.call))
+        .toEqual(['a', 'b', 'c', 'd', 'e']);
+    });
+
+    test('a failed iteration fails the loop after the rest have run', async () => {
+      engine.registerExecutor('http_request', new SlowExecutor());
+
+      const result = await run(createLoopWorkflow({
+        items: [{}, { fail: true }, {}],
+        actions: [{ id: 'call', type: 'http_request', parameters: { url: 'https://example.com', method: 'GET', fail: '{{variables.item.fail}}' } }]
+      }), {});
+
+      const loop = result.actionResults[0]!;
+      expect(loop.status).toBe('failed');
+      expect(loop.error).toBe('Loop iteration(s) failed: 1');
+      expect(loop.children!.map(child => child.status)).toEqual(['completed', 'failed', 'completed']);
+    });
+
+    test('rejects items that do not resolve to an array', async () => {
+      const result = await run(createLoopWorkflow({
+        items: '{{variables.missing}}',
+        actions: [record('tag', 'never')]
+      }), {});
+
+      expect(result.actionResults[0]).toMatchObject({
+        status: 'failed',
+        error: "Items selector '{{variables.missing}}' did not resolve to an array"
+      });
+      expect(recorder.calls).toEqual([]);
+    });
+  });
+});
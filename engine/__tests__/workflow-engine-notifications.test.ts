@@ -0,0 +1,132 @@
+/**
+ * Tests for error and escalation notifications sent through errorHandling.notifyOnError
+ */
+
+import { WorkflowEngine } from '../workflow-engine';
+import { BaseActionExecutor, ActionExecutorResult } from '../action-executor';
+import { WorkflowDefinition, ExecutionContext, ActionConfig, NotificationConfig } from '../../types/workflow-schema';
+
+jest.mock('../execution-history');
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+// Captures what each communication action was asked to send
+class OutboxExecutor extends BaseActionExecutor {
+  public sent: any[] = [];
+
+  async execute(parameters: any, _context: ExecutionContext): Promise<ActionExecutorResult> {
+    this.sent.push(parameters);
+    return { success: true, result: { delivered: true } };
+  }
+}
+
+class StepExecutor extends BaseActionExecutor {
+  async execute(parameters: any, _context: ExecutionContext): Promise<ActionExecutorResult> {
+    return parameters.fail ? { success: false, error: parameters.fail } : { success: true, result: parameters.step };
+  }
+}
+
+describe('WorkflowEngine error notifications', () => {
+  let engine: WorkflowEngine;
+  let slack: OutboxExecutor;
+  let email: OutboxExecutor;
+
+  const run = (actions: ActionConfig[], notifyOnError: NotificationConfig, overrides: Partial<WorkflowDefinition> = {}) => {
+    const workflow: WorkflowDefinition = {
+      name: 'deploy',
+      trigger: { type: 'manual', event: 'manual' },
+      actions,
+      errorHandling: { onFailure: 'continue', notifyOnError },
+      ...overrides
+    };
+    return engine.executeWorkflow(workflow, { event: 'manual', payload: {} }, 'exec_42');
+  };
+
+  beforeEach(() => {
+    engine = new WorkflowEngine({ enableMetrics: false, executionUrlBase: 'https://flows.example.com/api/v1/executions' });
+    slack = new OutboxExecutor();
+    email = new OutboxExecutor();
+    engine.registerExecutor('audit_log', new StepExecutor());
+    engine.registerExecutor('slack_message', slack);
+    engine.registerExecutor('email_send', email);
+  });
+
+  test('renders the message with the failure details and sends it to each channel', async () => {
+    const result = await run([
+      { id: 'build', type: 'audit_log', parameters: { step: 'build' } },
+      { id: 'release', type: 'audit_log', parameters: { fail: 'registry unavailable' }, dependsOn: ['build'], onError: 'stop' }
+    ], {
+      channels: [
+        { type: 'slack', target: '#deployments' },
+        { type: 'email', target: 'oncall@example.com' }
+      ],
+      message: '{{workflow.name}}: {{error.actionId}} failed with {{error.message}} ({{error.executionUrl}})'
+    });
+
+    expect(result.actionResults[1]!.status).toBe('failed');
+    const message = 'deploy: release failed with registry unavailable (https://flows.example.com/api/v1/executions/exec_42)';
+    expect(slack.sent).toEqual([{ channel: '#deployments', message }]);
+    expect(email.sent).toEqual([{ to: 'oncall@example.com', subject: 'Workflow failed: deploy', body: message }]);
+  });
+
+  test('only sends to channels whose condition matches', async () => {
+    await run([
+      { id: 'release', type: 'audit_log', parameters: { fail: 'registry unavailable' } }
+    ], {
+      channels: [
+        { type: 'slack', target: '#deployments' },
+        {
+          type: 'email',
+          target: 'oncall@example.com',
+          condition: { operator: 'AND', rules: [{ field: 'error.reason', operator: 'equals', value: 'escalation' }] }
+        }
+      ]
+    });
+
+    expect(slack.sent).toHaveLength(1);
+    expect(slack.sent[0].message).toContain("Workflow 'deploy' failed: registry unavailable");
+    expect(email.sent).toEqual([]);
+  });
+
+  test('escalates a failed action right away and carries on', async () => {
+    const result = await run([
+      { id: 'smoke-test', type: 'audit_log', parameters: { fail: '2 checks failed' }, onError: 'escalate' },
+      { id: 'announce', type: 'audit_log', parameters: { step: 'announce' }, dependsOn: ['smoke-test'] }
+    ], {
+      channels: [{ type: 'email', target: 'oncall@example.com' }]
+    });
+
+    expect(result.actionResults.map(action => action.status)).toEqual(['failed', 'completed']);
+    // The escalation is the only notification; the failure is not reported twice
+    expect(email.sent).toEqual([{
+      to: 'oncall@example.com',
+      subject: 'Escalation: deploy / smoke-test',
+      body: "Action 'smoke-test' in workflow 'deploy' failed and was escalated: 2 checks failed\nExecution: https://flows.example.com/api/v1/executions/exec_42"
+    }]);
+  });
+
+  test('notifies when the workflow times out', async () => {
+    const result = await run([
+      { id: 'wait', type: 'delay', parameters: { duration: 60000 } }
+    ], {
+      channels: [{ type: 'slack', target: '#deployments' }],
+      message: '{{error.status}}: {{error.message}}'
+    }, { timeout: 1 });
+
+    expect(result.status).toBe('timeout');
+    expect(slack.sent).toEqual([{ channel: '#deployments', message: 'timeout: Workflow execution timed out after 1s' }]);
+  });
+
+  test('sends nothing when the workflow succeeds', async () => {
+    await run([
+      { id: 'build', type: 'audit_log', parameters: { step: 'build' } }
+    ], {
+      channels: [{ type: 'slack', target: '#deployments' }]
+    });
+
+    expect(slack.sent).toEqual([]);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Tests for resuming failed executions from their checkpoint and retrying single actions
+ */
+
+import { WorkflowEngine } from '../workflow-engine';
+import { BaseActionExecutor, ActionExecutorResult } from '../action-executor';
+import { WorkflowDefinition, ExecutionContext, ActionConfig } from '../../types/workflow-schema';
+
+jest.mock('../execution-history');
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+// Returns its `reply` parameter as the result and records it, failing while the reply is in `failing`
+class EchoExecutor extends BaseActionExecutor {
+  public calls: string[] = [];
+  public failing = new Set<string>();
+
+  async execute(parameters: any, _context: ExecutionContext): Promise<ActionExecutorResult> {
+    const reply = typeof parameters.reply === 'string' ? parameters.reply : JSON.stringify(parameters.reply);
+    this.calls.push(reply);
+    return this.failing.has(reply)
+      ? { success: false, error: `${reply} failed` }
+      : { success: true, result: parameters.reply };
+  }
+}
+
+describe('WorkflowEngine resume', () => {
+  let engine: WorkflowEngine;
+  let executor: EchoExecutor;
+
+  const echo = (id: string, reply: any, extra: Partial<ActionConfig> = {}): ActionConfig => ({
+    id,
+    type: 'audit_log',
+    parameters: { reply },
+    onError: 'stop',
+    ...extra
+  });
+
+  const workflow: WorkflowDefinition = {
+    name: 'release',
+    trigger: { type: 'manual', event: 'manual' },
+    actions: [
+      echo('a', { team: 'auth' }, { outputs: { team: 'result.team' } }),
+      echo('b', 'b', { dependsOn: ['a'] }),
+      echo('c', 'c for {{variables.team}}', { dependsOn: ['b'] }),
+      echo('d', 'd', { dependsOn: ['c'] })
+    ]
+  };
+
+  const trigger = { event: 'manual', payload: {} };
+
+  beforeEach(() => {
+    engine = new WorkflowEngine({ enableMetrics: false });
+    executor = new EchoExecutor();
+    engine.registerExecutor('audit_log', executor);
+  });
+
+  const failOnC = async () => {
+    executor.failing.add('c for auth');
+    const failed = await engine.executeWorkflow(workflow, trigger, 'exec_failed');
+    executor.failing.clear();
+    executor.calls = [];
+    return failed;
+  };
+
+  test('continues from the failed action, taking over completed results and their outputs', async () => {
+    const failed = await failOnC();
+    expect(failed.actionResults.map(result => [result.actionId, result.status])).toEqual([
+      ['a', 'completed'],
+      ['b', 'completed'],
+      ['c', 'failed']
+    ]);
+
+    const result = await engine.executeWorkflow(workflow, trigger, 'exec_resumed', {
+      resume: { executionId: 'exec_failed', checkpoint: failed.actionResults }
+    });
+
+    expect(result.status).toBe('completed');
+    expect(executor.calls).toEqual(['c for auth', 'd']);
+    expect(result.actionResults.map(actionResult => [actionResult.actionId, actionResult.status, actionResult.reusedFrom])).toEqual([
+      ['a', 'completed', 'exec_failed'],
+      ['b', 'completed', 'exec_failed'],
+      ['c', 'completed', undefined],
+      ['d', 'completed', undefined]
+    ]);
+  });
+
+  test('retries just one action and keeps every other result', async () => {
+    const failed = await failOnC();
+
+    const result = await engine.executeWorkflow(workflow, trigger, 'exec_retry', {
+      resume: { executionId: 'exec_failed', checkpoint: failed.actionResults, actionId: 'c' }
+    });
+
+    expect(executor.calls).toEqual(['c for auth']);
+    expect(result.actionResults.map(actionResult => [actionResult.actionId, actionResult.status])).toEqual([
+      ['a', 'completed'],
+      ['b', 'completed'],
+      ['c', 'completed']
+    ]);
+  });
+
+  test('a retry takes over only results that succeeded', async () => {
+    const failed = await failOnC();
+    const checkpoint = failed.actionResults.map(result =>
+      result.actionId === 'b' ? { ...result, status: 'failed' as const, error: 'b failed' } : result
+    );
+
+    const result = await engine.executeWorkflow(workflow, trigger, 'exec_retry', {
+      resume: { executionId: 'exec_failed', checkpoint, actionId: 'c' }
+    });
+
+    expect(executor.calls).toEqual(['c for auth']);
+    expect(result.actionResults.map(actionResult => actionResult.actionId)).toEqual(['a', 'c']);
+  });
+
+  test('checkpoints every stage, including the results taken over', async () => {
+    const failed = await failOnC();
+    const history = jest.mocked(engine.getExecutionHistory());
+    history.checkpointActions.mockClear();
+
+    await engine.executeWorkflow(workflow, trigger, 'exec_resumed', {
+      resume: { executionId: 'exec_failed', checkpoint: failed.actionResults }
+    });
+
+    const checkpointed = history.checkpointActions.mock.calls.map(([executionId, results]: [string, any[]]) =>
+      [executionId, results.map(result => result.actionId)]
+    );
+    expect(checkpointed).toEqual([
+      ['exec_resumed', ['a']],
+      ['exec_resumed', ['b']],
+      ['exec_resumed', ['c']],
+      ['exec_resumed', ['d']]
+    ]);
+    expect(history.startExecution).toHaveBeenLastCalledWith('exec_resumed', workflow, expect.objectContaining({
+      execution: expect.objectContaining({ resumedFromExecutionId: 'exec_failed' })
+    }));
+  });
+});
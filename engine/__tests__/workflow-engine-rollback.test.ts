@@ -0,0 +1,119 @@
+/**
+ * Tests for rolling back completed actions through their compensations
+ */
+
+import { WorkflowEngine } from '../workflow-engine';
+import { BaseActionExecutor, ActionExecutorResult } from '../action-executor';
+import { WorkflowDefinition, ExecutionContext, ActionConfig } from '../../types/workflow-schema';
+
+jest.mock('../execution-history');
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+// Records each `step` it runs; fails when given a `fail` parameter
+class StepExecutor extends BaseActionExecutor {
+  public steps: string[] = [];
+
+  async execute(parameters: any, _context: ExecutionContext): Promise<ActionExecutorResult> {
+    this.steps.push(parameters.step);
+    return parameters.fail
+      ? { success: false, error: parameters.fail }
+      : { success: true, result: { step: parameters.step } };
+  }
+}
+
+describe('WorkflowEngine rollback', () => {
+  let engine: WorkflowEngine;
+  let executor: StepExecutor;
+
+  const step = (id: string, extra: Partial<ActionConfig> = {}): ActionConfig => ({
+    id,
+    type: 'audit_log',
+    parameters: { step: id },
+    compensation: { type: 'audit_log', parameters: { step: `undo ${id}` } },
+    ...extra
+  });
+
+  const run = (actions: ActionConfig[]) => {
+    const workflow: WorkflowDefinition = {
+      name: 'release',
+      trigger: { type: 'manual', event: 'manual' },
+      actions
+    };
+    return engine.executeWorkflow(workflow, { event: 'manual', payload: {} }, 'exec_rollback');
+  };
+
+  beforeEach(() => {
+    engine = new WorkflowEngine({ enableMetrics: false });
+    executor = new StepExecutor();
+    engine.registerExecutor('audit_log', executor);
+  });
+
+  test('compensates completed actions in reverse dependency order', async () => {
+    const result = await run([
+      step('branch'),
+      step('label'),
+      step('pr', { dependsOn: ['branch'] }),
+      step('merge', { dependsOn: ['pr', 'label'], parameters: { step: 'merge', fail: 'conflict' }, onError: 'rollback' }),
+      step('announce', { dependsOn: ['merge'] })
+    ]);
+
+    expect(executor.steps).toEqual(['branch', 'label', 'pr', 'merge', 'undo pr', 'undo label', 'undo branch']);
+    expect(result.status).toBe('failed');
+    expect(result.error).toBe("Action 'merge' failed and 3 action(s) were rolled back");
+    expect(result.actionResults.map(action => [action.actionId, action.status, action.compensates])).toEqual([
+      ['branch', 'completed', undefined],
+      ['label', 'completed', undefined],
+      ['pr', 'completed', undefined],
+      ['merge', 'failed', undefined],
+      ['pr.compensation', 'completed', 'pr'],
+      ['label.compensation', 'completed', 'label'],
+      ['branch.compensation', 'completed', 'branch']
+    ]);
+    expect(jest.mocked(engine.getExecutionHistory()).updateActionStatus).toHaveBeenCalledWith(
+      'exec_rollback', 'pr.compensation', 'completed', { step: 'undo pr' }, undefined
+    );
+  });
+
+  test('compensations can refer to the result of the action they undo', async () => {
+    await run([
+      step('branch', {
+        compensation: { type: 'audit_log', parameters: { step: 'delete {{actions.branch.result.step}}' } }
+      }),
+      step('merge', { dependsOn: ['branch'], parameters: { step: 'merge', fail: 'conflict' }, onError: 'rollback' })
+    ]);
+
+    expect(executor.steps).toEqual(['branch', 'merge', 'delete branch']);
+  });
+
+  test('a failing compensation does not stop the rest of the rollback', async () => {
+    const result = await run([
+      step('branch'),
+      step('pr', {
+        dependsOn: ['branch'],
+        compensation: { type: 'audit_log', parameters: { step: 'undo pr', fail: 'already closed' } }
+      }),
+      step('merge', { dependsOn: ['pr'], parameters: { step: 'merge', fail: 'conflict' }, onError: 'rollback' })
+    ]);
+
+    expect(executor.steps).toEqual(['branch', 'pr', 'merge', 'undo pr', 'undo branch']);
+    expect(result.error).toBe("Action 'merge' failed and rollback was incomplete: pr");
+    expect(result.actionResults.find(action => action.compensates === 'pr')).toMatchObject({
+      status: 'failed',
+      error: 'already closed'
+    });
+  });
+
+  test('other error actions leave completed actions in place', async () => {
+    const result = await run([
+      step('branch'),
+      step('merge', { dependsOn: ['branch'], parameters: { step: 'merge', fail: 'conflict' }, onError: 'stop' })
+    ]);
+
+    expect(executor.steps).toEqual(['branch', 'merge']);
+    expect(result.actionResults.map(action => action.actionId)).toEqual(['branch', 'merge']);
+  });
+});
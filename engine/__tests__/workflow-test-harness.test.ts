@@ -0,0 +1,118 @@
+/**
+ * Tests for the workflow test harness and its fixture payloads
+ */
+
+import { workflowTestHarness } from '../workflow-test-harness';
+import { GITHUB_PAYLOAD_FIXTURES, getPayloadFixture } from '../github-payload-fixtures';
+import { WorkflowDefinition, GitHubEvent } from '../../types/workflow-schema';
+
+jest.mock('../execution-history');
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+const workflow: WorkflowDefinition = {
+  name: 'triage',
+  trigger: { type: 'webhook', event: 'issues.opened' },
+  actions: [
+    {
+      id: 'classify',
+      type: 'http_request',
+      parameters: { url: 'https://classifier.example.com', method: 'POST', body: { title: '{{trigger.payload.issue.title}}' } },
+      outputs: { team: 'result.team' }
+    },
+    {
+      id: 'label',
+      type: 'github_issue_label',
+      parameters: { labels: ['team:{{variables.team}}'] },
+      dependsOn: ['classify']
+    },
+    {
+      id: 'page',
+      type: 'slack_message',
+      parameters: { channel: '#oncall', message: 'Outage: {{trigger.payload.issue.html_url}}' },
+      condition: { operator: 'AND', rules: [{ field: 'trigger.payload.issue.title', operator: 'contains', value: 'outage' }] },
+      dependsOn: ['classify']
+    },
+    {
+      id: 'notify',
+      type: 'slack_message',
+      parameters: { channel: '#{{variables.team}}', message: 'New issue #{{trigger.payload.issue.number}}' },
+      dependsOn: ['label']
+    }
+  ]
+};
+
+describe('WorkflowTestHarness', () => {
+  test('records the order, resolved parameters and skipped actions of a run', async () => {
+    const run = await workflowTestHarness.run({
+      workflow,
+      mocks: { classify: { result: { team: 'auth' } } }
+    });
+
+    expect(run.status).toBe('completed');
+    expect(run.order).toEqual(['classify', 'label', 'notify']);
+    expect(run.skipped('page')).toBe(true);
+    expect(run.ran('page')).toBe(false);
+    expect(run.parameters('classify')).toMatchObject({ body: { title: 'Login fails with a 500 error' } });
+    expect(run.parameters('notify')).toEqual({ channel: '#auth', message: 'New issue #1347' });
+
+    // Unmocked actions report their calls instead of making them
+    expect(run.action('label')?.effects).toEqual([expect.objectContaining({
+      method: 'POST',
+      url: 'https://api.github.com/repos/acme/api/issues/1347/labels',
+      body: { labels: ['team:auth'] }
+    })]);
+    expect(run.action('classify')?.effects).toEqual([]);
+  });
+
+  test('answers successive calls from a list of mocks', async () => {
+    const run = await workflowTestHarness.run({
+      workflow: {
+        ...workflow,
+        actions: [{ ...workflow.actions[0]!, retryPolicy: { maxAttempts: 3, delay: 0 } }]
+      },
+      mocks: { http_request: [{ error: 'Service unavailable' }, { result: { team: 'billing' } }] }
+    });
+
+    expect(run.calls).toHaveLength(2);
+    expect(run.action('classify')).toMatchObject({ status: 'completed', result: { team: 'billing' } });
+  });
+
+  test('checks expectations and describes the ones not met', async () => {
+    const run = await workflowTestHarness.run({
+      workflow,
+      event: 'issues.opened',
+      payload: { ...getPayloadFixture('issues.opened'), issue: { number: 9, title: 'Total outage', html_url: 'https://x/9' } },
+      mocks: { classify: { result: { team: 'auth' } } }
+    });
+
+    expect(run.check({ ran: ['page'], order: ['classify', 'page', 'notify'], parameters: { page: { channel: '#oncall' } } })).toEqual([]);
+    expect(run.check({
+      status: 'failed',
+      skipped: ['page'],
+      order: ['notify', 'label'],
+      parameters: { notify: { channel: '#billing' } }
+    })).toEqual([
+      'Expected status failed, got completed',
+      'Expected page to be skipped',
+      'Expected actions to run in order notify, label, got label, notify',
+      'Expected notify to run with parameters {"channel":"#billing"}, got {"channel":"#auth","message":"New issue #9"}'
+    ]);
+  });
+
+  test('ships a payload fixture for every event', () => {
+    const webhookEvents = Object.keys(GITHUB_PAYLOAD_FIXTURES)
+      .filter(event => !['schedule.weekly', 'manual', 'test_retry', 'deployment', 'error_test'].includes(event)) as GitHubEvent[];
+
+    for (const event of webhookEvents) {
+      expect(getPayloadFixture(event)).toMatchObject({ repository: { full_name: expect.any(String) }, installation: { id: 42 } });
+    }
+    expect(getPayloadFixture('pull_request.merged')).toMatchObject({ action: 'closed', pull_request: { merged: true } });
+
+    // Copies can be changed without affecting later tests
+    getPayloadFixture('issues.opened').issue.title = 'changed';
+    expect(getPayloadFixture('issues.opened').issue.title).toBe('Login fails with a 500 error');
+  });
+});
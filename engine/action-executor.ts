@@ -1,11 +1,49 @@
-import { ActionType, ExecutionContext } from '../types/workflow-schema';
+import { Octokit } from '@octokit/rest';
+import {
+  ActionConfig,
+  ActionResult,
+  ActionType,
+  ConditionGroup,
+  ExecutionContext,
+  LoopIterationResult,
+  MAX_LOOP_CONCURRENCY,
+  MAX_LOOP_ITERATIONS,
+  PlannedEffect
+} from '../types/workflow-schema';
+import { GitHubAuthService } from '../services/githubAuth';
+import { GitHubServiceFactory } from '../services/githubFactory';
 import logger from '../utils/logger';
+import { FieldResolver } from '../utils/field-resolver';
+import { abortable, isAbortError, sleep, throwIfAborted } from './cancellation';
+import { TemplateEngine } from './template-engine';
 
 export interface ActionExecutorResult {
   success: boolean;
   result?: any;
   error?: string;
   metadata?: Record<string, any>;
+  children?: ActionResult[]; // Results of nested actions run by this action
+  effects?: PlannedEffect[]; // Calls the action would have made, in a dry run
+}
+
+/**
+ * Runs nested actions (conditional branches, loop bodies) through the workflow
+ * engine, so they get the same templates, conditions, retries, timeouts and
+ * history tracking as top-level actions
+ */
+export interface NestedActionRunner {
+  evaluateCondition(condition: ConditionGroup, context: ExecutionContext): Promise<boolean>;
+  runActions(actions: ActionConfig[], context: ExecutionContext): Promise<ActionResult[]>;
+}
+
+/**
+ * An action reported failure; carries the results of any nested actions it ran
+ */
+export class ActionExecutionError extends Error {
+  constructor(message: string, public readonly children?: ActionResult[]) {
+    super(message);
+    this.name = 'ActionExecutionError';
+  }
 }
 
 export abstract class BaseActionExecutor {
@@ -19,52 +57,760 @@ export abstract class BaseActionExecutor {
     }
   }
 
-  protected sanitizeParameters(parameters: any): any {
-    // Remove any potentially dangerous parameters
-    const sanitized = { ...parameters };
-    delete sanitized.__proto__;
-    delete sanitized.constructor;
-    return sanitized;
+  protected sanitizeParameters(parameters: any): any {
+    // Remove any potentially dangerous parameters
+    const sanitized = { ...parameters };
+    delete sanitized.__proto__;
+    delete sanitized.constructor;
+    return sanitized;
+  }
+
+  /**
+   * Dry runs: record the call the action would make and succeed without making it
+   */
+  protected plan(context: ExecutionContext, apiCall: string, effect: PlannedEffect): ActionExecutorResult {
+    context.plannedEffects?.push(effect);
+
+    return {
+      success: true,
+      metadata: {
+        apiCall,
+        executionTime: Date.now()
+      }
+    };
+  }
+}
+
+// GitHub Action Executors
+export type GitHubAuthServiceProvider = () => GitHubAuthService | null;
+
+export abstract class GitHubActionExecutor extends BaseActionExecutor {
+  constructor(
+    private readonly authServiceProvider: GitHubAuthServiceProvider = () => GitHubServiceFactory.getGitHubAuthService()
+  ) {
+    super();
+  }
+
+  /**
+   * Get the installation-scoped client for the installation that triggered the workflow.
+   * Its requests are aborted with the context's signal. In a dry run the client
+   * records writes instead of sending them.
+   */
+  protected getOctokit(context: ExecutionContext): Octokit {
+    if (context.dryRun) {
+      return this.getDryRunOctokit(context);
+    }
+
+    const live = this.getInstallationOctokit(context);
+    const signal = context.signal;
+    if (!signal) {
+      return live;
+    }
+
+    const octokit = new Octokit({ baseUrl: live.request.endpoint.DEFAULTS.baseUrl });
+    octokit.hook.wrap('request', async (_request, options) =>
+      // Through the live client's own request hook rather than this one
+      live.request({ ...options, request: { ...live.request.endpoint.DEFAULTS.request, signal } })
+    );
+    return octokit;
+  }
+
+  private getInstallationOctokit(context: ExecutionContext): Octokit {
+    const authService = this.authServiceProvider();
+    if (!authService) {
+      throw new Error('GitHub integration is not configured');
+    }
+
+    const installationId = context.installation?.id ?? context.trigger.payload?.installation?.id;
+    if (!installationId) {
+      throw new Error('No GitHub App installation found in trigger context');
+    }
+
+    return authService.getInstallationOctokit(installationId);
+  }
+
+  /**
+   * A client that records every write in the context's planned effects and answers
+   * it with an empty response. Reads still reach GitHub, as the writes may depend on
+   * them (e.g. the comment `update` edits); without GitHub access only reads fail.
+   */
+  private getDryRunOctokit(context: ExecutionContext): Octokit {
+    let live: Octokit | null = null;
+    let liveError: unknown;
+    try {
+      live = this.getInstallationOctokit(context);
+    } catch (error) {
+      liveError = error;
+    }
+
+    const octokit = new Octokit({ ...(live && { baseUrl: live.request.endpoint.DEFAULTS.baseUrl }) });
+
+    octokit.hook.wrap('request', async (_request, options) => {
+      const { method, url, body } = octokit.request.endpoint(options);
+
+      if (method === 'GET' || method === 'HEAD') {
+        if (!live) {
+          throw liveError;
+        }
+        // Through the live client's own request hook rather than this one
+        return live.request({
+          ...options,
+          request: { ...live.request.endpoint.DEFAULTS.request, ...(context.signal && { signal: context.signal }) }
+        });
+      }
+
+      context.plannedEffects?.push({ service: 'github', method, url, ...(body !== undefined && { body }) });
+      return { status: 200, url, headers: {}, data: {} };
+    });
+
+    return octokit;
+  }
+
+  /** Resolve owner/repo from an explicit "owner/repo" parameter or the trigger repository */
+  protected resolveRepository(repository: string | undefined, context: ExecutionContext): { owner: string; repo: string } {
+    const fullName = repository || context.repository?.fullName || context.trigger.payload?.repository?.full_name;
+    const [owner, repo] = typeof fullName === 'string' ? fullName.split('/') : [];
+
+    if (!owner || !repo) {
+      throw new Error('No repository found in trigger context');
+    }
+
+    return { owner, repo };
+  }
+
+  protected resolveIssueNumber(context: ExecutionContext): number {
+    const issueNumber = context.trigger.payload?.issue?.number;
+
+    if (!issueNumber) {
+      throw new Error('No issue number found in trigger context');
+    }
+
+    return issueNumber;
+  }
+
+  /** Resolve the pull request number, including comments made on a pull request */
+  protected resolvePullRequestNumber(context: ExecutionContext): number {
+    const payload = context.trigger.payload;
+    const prNumber = payload?.pull_request?.number ?? (payload?.issue?.pull_request ? payload.issue.number : undefined);
+
+    if (!prNumber) {
+      throw new Error('No pull request number found in trigger context');
+    }
+
+    return prNumber;
+  }
+
+  /** Normalize a list parameter that may arrive as an array or a comma separated string */
+  protected toList(value: string | string[]): string[] {
+    const items = Array.isArray(value) ? value : String(value).split(',');
+    return items.map(item => String(item).trim()).filter(item => item.length > 0);
+  }
+
+  /** Usernames and team slugs are accepted with or without a leading "@" */
+  protected toLogins(value: string | string[]): string[] {
+    return this.toList(value).map(login => login.replace(/^@/, ''));
+  }
+
+  protected async applyLabels(
+    octokit: Octokit,
+    target: { owner: string; repo: string; issue_number: number },
+    labels: string[],
+    mode: 'add' | 'remove' | 'set'
+  ): Promise<{ status: number; data: any }> {
+    switch (mode) {
+      case 'add':
+        return octokit.rest.issues.addLabels({ ...target, labels });
+      case 'set':
+        return octokit.rest.issues.setLabels({ ...target, labels });
+      case 'remove': {
+        // GitHub removes one label per request; the last response holds the remaining labels
+        let response: { status: number; data: any } = { status: 200, data: [] };
+        for (const name of labels) {
+          response = await octokit.rest.issues.removeLabel({ ...target, name });
+        }
+        return response;
+      }
+      default:
+        throw new Error(`Unsupported label mode: ${mode}`);
+    }
+  }
+
+  protected async getDefaultBranch(octokit: Octokit, owner: string, repo: string, context: ExecutionContext): Promise<string> {
+    const payloadRepository = context.trigger.payload?.repository;
+    if (payloadRepository?.full_name === `${owner}/${repo}` && payloadRepository.default_branch) {
+      return payloadRepository.default_branch;
+    }
+
+    const response = await octokit.rest.repos.get({ owner, repo });
+    return response.data.default_branch;
+  }
+
+  protected apiResult(apiCall: string, response: { status: number; data: any }): ActionExecutorResult {
+    return {
+      success: true,
+      result: response.data,
+      metadata: {
+        apiCall,
+        status: response.status,
+        executionTime: Date.now()
+      }
+    };
+  }
+}
+
+export class GitHubIssueAssignExecutor extends GitHubActionExecutor {
+  async execute(parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
+    this.validateParameters(parameters, ['assignee']);
+    const { assignee, repository } = this.sanitizeParameters(parameters);
+
+    try {
+      const { owner, repo } = this.resolveRepository(repository, context);
+      const issueNumber = this.resolveIssueNumber(context);
+
+      logger.info(`Assigning issue to user`, {
+        repository: `${owner}/${repo}`,
+        issue: issueNumber,
+        assignee
+      });
+
+      const response = await this.getOctokit(context).rest.issues.addAssignees({
+        owner,
+        repo,
+        issue_number: issueNumber,
+        assignees: this.toLogins(assignee)
+      });
+
+      return this.apiResult('github.issues.addAssignees', response);
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
+
+export class GitHubIssueLabelExecutor extends GitHubActionExecutor {
+  async execute(parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
+    this.validateParameters(parameters, ['labels']);
+    const { labels, mode = 'add', repository } = this.sanitizeParameters(parameters);
+
+    try {
+      const { owner, repo } = this.resolveRepository(repository, context);
+      const issueNumber = this.resolveIssueNumber(context);
+
+      logger.info(`Managing issue labels`, {
+        repository: `${owner}/${repo}`,
+        issue: issueNumber,
+        labels,
+        mode
+      });
+
+      const response = await this.applyLabels(
+        this.getOctokit(context),
+        { owner, repo, issue_number: issueNumber },
+        this.toList(labels),
+        mode
+      );
+
+      return this.apiResult(`github.issues.${mode}Labels`, response);
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
+
+export class GitHubIssueCommentExecutor extends GitHubActionExecutor {
+  async execute(parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
+    this.validateParameters(parameters, ['body']);
+    const { body, update = false, repository } = this.sanitizeParameters(parameters);
+
+    try {
+      const { owner, repo } = this.resolveRepository(repository, context);
+      const issueNumber = this.resolveIssueNumber(context);
+
+      logger.info(`Adding comment to issue`, {
+        repository: `${owner}/${repo}`,
+        issue: issueNumber,
+        bodyLength: body.length,
+        update
+      });
+
+      const octokit = this.getOctokit(context);
+
+      if (update) {
+        // Comments posted with `update` carry a hidden marker so later runs can find and edit them
+        const marker = `<!-- workflow:${context.workflow.id} -->`;
+        const markedBody = `${body}\n\n${marker}`;
+        const existing = await octokit.paginate(octokit.rest.issues.listComments, {
+          owner,
+          repo,
+          issue_number: issueNumber,
+          per_page: 100
+        });
+        const previous = existing.find(comment => comment.body?.includes(marker));
+
+        const response = previous
+          ? await octokit.rest.issues.updateComment({ owner, repo, comment_id: previous.id, body: markedBody })
+          : await octokit.rest.issues.createComment({ owner, repo, issue_number: issueNumber, body: markedBody });
+
+        return this.apiResult(previous ? 'github.issues.updateComment' : 'github.issues.createComment', response);
+      }
+
+      const response = await octokit.rest.issues.createComment({
+        owner,
+        repo,
+        issue_number: issueNumber,
+        body
+      });
+
+      return this.apiResult('github.issues.createComment', response);
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
+
+export class GitHubPRRequestReviewExecutor extends GitHubActionExecutor {
+  async execute(parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
+    const { reviewers = [], teams = [], repository } = this.sanitizeParameters(parameters);
+
+    if (reviewers.length === 0 && teams.length === 0) {
+      throw new Error('At least one reviewer or team must be specified');
+    }
+
+    try {
+      const { owner, repo } = this.resolveRepository(repository, context);
+      const prNumber = this.resolvePullRequestNumber(context);
+
+      logger.info(`Requesting PR review`, {
+        repository: `${owner}/${repo}`,
+        pr: prNumber,
+        reviewers,
+        teams
+      });
+
+      const response = await this.getOctokit(context).rest.pulls.requestReviewers({
+        owner,
+        repo,
+        pull_number: prNumber,
+        reviewers: this.toLogins(reviewers),
+        team_reviewers: this.toLogins(teams)
+      });
+
+      return this.apiResult('github.pulls.requestReviewers', response);
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
+
+export class GitHubIssueUnassignExecutor extends GitHubActionExecutor {
+  async execute(parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
+    this.validateParameters(parameters, ['assignee']);
+    const { assignee, repository } = this.sanitizeParameters(parameters);
+
+    try {
+      const { owner, repo } = this.resolveRepository(repository, context);
+      const issueNumber = this.resolveIssueNumber(context);
+
+      logger.info(`Removing issue assignee`, {
+        repository: `${owner}/${repo}`,
+        issue: issueNumber,
+        assignee
+      });
+
+      const response = await this.getOctokit(context).rest.issues.removeAssignees({
+        owner,
+        repo,
+        issue_number: issueNumber,
+        assignees: this.toLogins(assignee)
+      });
+
+      return this.apiResult('github.issues.removeAssignees', response);
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
+
+export class GitHubIssueCloseExecutor extends GitHubActionExecutor {
+  async execute(parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
+    const { reason = 'completed', comment, repository } = this.sanitizeParameters(parameters);
+
+    try {
+      const { owner, repo } = this.resolveRepository(repository, context);
+      const issueNumber = this.resolveIssueNumber(context);
+
+      logger.info(`Closing issue`, {
+        repository: `${owner}/${repo}`,
+        issue: issueNumber,
+        reason,
+        withComment: !!comment
+      });
+
+      const octokit = this.getOctokit(context);
+
+      if (comment) {
+        await octokit.rest.issues.createComment({ owner, repo, issue_number: issueNumber, body: comment });
+      }
+
+      const response = await octokit.rest.issues.update({
+        owner,
+        repo,
+        issue_number: issueNumber,
+        state: 'closed',
+        state_reason: reason
+      });
+
+      return this.apiResult('github.issues.update', response);
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
+
+export class GitHubIssueReopenExecutor extends GitHubActionExecutor {
+  async execute(parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
+    const { comment, repository } = this.sanitizeParameters(parameters);
+
+    try {
+      const { owner, repo } = this.resolveRepository(repository, context);
+      const issueNumber = this.resolveIssueNumber(context);
+
+      logger.info(`Reopening issue`, {
+        repository: `${owner}/${repo}`,
+        issue: issueNumber,
+        withComment: !!comment
+      });
+
+      const octokit = this.getOctokit(context);
+      const response = await octokit.rest.issues.update({
+        owner,
+        repo,
+        issue_number: issueNumber,
+        state: 'open'
+      });
+
+      if (comment) {
+        await octokit.rest.issues.createComment({ owner, repo, issue_number: issueNumber, body: comment });
+      }
+
+      return this.apiResult('github.issues.update', response);
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
+
+export class GitHubPRAssignExecutor extends GitHubActionExecutor {
+  async execute(parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
+    this.validateParameters(parameters, ['assignee']);
+    const { assignee, repository } = this.sanitizeParameters(parameters);
+
+    try {
+      const { owner, repo } = this.resolveRepository(repository, context);
+      const prNumber = this.resolvePullRequestNumber(context);
+
+      logger.info(`Assigning pull request to user`, {
+        repository: `${owner}/${repo}`,
+        pr: prNumber,
+        assignee
+      });
+
+      // Pull requests share assignees with their backing issue
+      const response = await this.getOctokit(context).rest.issues.addAssignees({
+        owner,
+        repo,
+        issue_number: prNumber,
+        assignees: this.toLogins(assignee)
+      });
+
+      return this.apiResult('github.issues.addAssignees', response);
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
+
+export class GitHubPRMergeExecutor extends GitHubActionExecutor {
+  async execute(parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
+    const {
+      merge_method = 'merge',
+      commit_title,
+      commit_message,
+      sha,
+      repository
+    } = this.sanitizeParameters(parameters);
+
+    try {
+      const { owner, repo } = this.resolveRepository(repository, context);
+      const prNumber = this.resolvePullRequestNumber(context);
+
+      logger.info(`Merging pull request`, {
+        repository: `${owner}/${repo}`,
+        pr: prNumber,
+        mergeMethod: merge_method
+      });
+
+      const response = await this.getOctokit(context).rest.pulls.merge({
+        owner,
+        repo,
+        pull_number: prNumber,
+        merge_method,
+        ...(commit_title && { commit_title }),
+        ...(commit_message && { commit_message }),
+        ...(sha && { sha })
+      });
+
+      return this.apiResult('github.pulls.merge', response);
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
+
+export class GitHubPRCommentExecutor extends GitHubActionExecutor {
+  async execute(parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
+    this.validateParameters(parameters, ['body']);
+    const { body, repository } = this.sanitizeParameters(parameters);
+
+    try {
+      const { owner, repo } = this.resolveRepository(repository, context);
+      const prNumber = this.resolvePullRequestNumber(context);
+
+      logger.info(`Adding comment to pull request`, {
+        repository: `${owner}/${repo}`,
+        pr: prNumber,
+        bodyLength: body.length
+      });
+
+      const response = await this.getOctokit(context).rest.issues.createComment({
+        owner,
+        repo,
+        issue_number: prNumber,
+        body
+      });
+
+      return this.apiResult('github.issues.createComment', response);
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
+
+export class GitHubPRApproveExecutor extends GitHubActionExecutor {
+  async execute(parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
+    const { body, repository } = this.sanitizeParameters(parameters);
+
+    try {
+      const { owner, repo } = this.resolveRepository(repository, context);
+      const prNumber = this.resolvePullRequestNumber(context);
+
+      logger.info(`Approving pull request`, {
+        repository: `${owner}/${repo}`,
+        pr: prNumber
+      });
+
+      const response = await this.getOctokit(context).rest.pulls.createReview({
+        owner,
+        repo,
+        pull_number: prNumber,
+        event: 'APPROVE',
+        ...(body && { body })
+      });
+
+      return this.apiResult('github.pulls.createReview', response);
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
+
+export class GitHubPRCloseExecutor extends GitHubActionExecutor {
+  async execute(parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
+    const { comment, repository } = this.sanitizeParameters(parameters);
+
+    try {
+      const { owner, repo } = this.resolveRepository(repository, context);
+      const prNumber = this.resolvePullRequestNumber(context);
+
+      logger.info(`Closing pull request`, {
+        repository: `${owner}/${repo}`,
+        pr: prNumber,
+        withComment: !!comment
+      });
+
+      const octokit = this.getOctokit(context);
+
+      if (comment) {
+        await octokit.rest.issues.createComment({ owner, repo, issue_number: prNumber, body: comment });
+      }
+
+      const response = await octokit.rest.pulls.update({
+        owner,
+        repo,
+        pull_number: prNumber,
+        state: 'closed'
+      });
+
+      return this.apiResult('github.pulls.update', response);
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
+
+export class GitHubPRLabelExecutor extends GitHubActionExecutor {
+  async execute(parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
+    this.validateParameters(parameters, ['labels']);
+    const { labels, mode = 'add', repository } = this.sanitizeParameters(parameters);
+
+    try {
+      const { owner, repo } = this.resolveRepository(repository, context);
+      const prNumber = this.resolvePullRequestNumber(context);
+
+      logger.info(`Managing pull request labels`, {
+        repository: `${owner}/${repo}`,
+        pr: prNumber,
+        labels,
+        mode
+      });
+
+      const response = await this.applyLabels(
+        this.getOctokit(context),
+        { owner, repo, issue_number: prNumber },
+        this.toList(labels),
+        mode
+      );
+
+      return this.apiResult(`github.issues.${mode}Labels`, response);
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
   }
 }
 
-// GitHub Action Executors
-export class GitHubIssueAssignExecutor extends BaseActionExecutor {
+export class GitHubCreateBranchExecutor extends GitHubActionExecutor {
   async execute(parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
-    this.validateParameters(parameters, ['assignee']);
-    const { assignee, repository } = this.sanitizeParameters(parameters);
+    this.validateParameters(parameters, ['name']);
+    const { name, from, repository } = this.sanitizeParameters(parameters);
 
     try {
-      // Simulate GitHub API call
-      const repoName = repository || context.repository?.fullName;
-      const issueNumber = context.trigger.payload?.issue?.number;
+      const { owner, repo } = this.resolveRepository(repository, context);
+      const octokit = this.getOctokit(context);
 
-      if (!issueNumber) {
-        throw new Error('No issue number found in trigger context');
+      // `from` may be a commit SHA or a branch name
+      let sha: string;
+      if (typeof from === 'string' && /^[0-9a-f]{40}$/i.test(from)) {
+        sha = from;
+      } else {
+        const baseBranch = from || await this.getDefaultBranch(octokit, owner, repo, context);
+        const baseRef = await octokit.rest.git.getRef({ owner, repo, ref: `heads/${baseBranch}` });
+        sha = baseRef.data.object.sha;
       }
 
-      logger.info(`Assigning issue to user`, {
-        repository: repoName,
-        issue: issueNumber,
-        assignee
+      logger.info(`Creating branch`, {
+        repository: `${owner}/${repo}`,
+        branch: name,
+        sha
       });
 
-      // In real implementation, this would call GitHub API
-      const result = {
-        assignee,
-        issue: issueNumber,
-        repository: repoName,
-        assigned_at: new Date().toISOString()
-      };
+      const response = await octokit.rest.git.createRef({
+        owner,
+        repo,
+        ref: `refs/heads/${name}`,
+        sha
+      });
+
+      return this.apiResult('github.git.createRef', response);
 
+    } catch (error) {
       return {
-        success: true,
-        result,
-        metadata: {
-          apiCall: 'github.issues.addAssignees',
-          executionTime: Date.now()
-        }
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
       };
+    }
+  }
+}
+
+export class GitHubCreatePRExecutor extends GitHubActionExecutor {
+  async execute(parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
+    this.validateParameters(parameters, ['title', 'head']);
+    const { title, head, base, body, draft = false, repository } = this.sanitizeParameters(parameters);
+
+    try {
+      const { owner, repo } = this.resolveRepository(repository, context);
+      const octokit = this.getOctokit(context);
+      const baseBranch = base || await this.getDefaultBranch(octokit, owner, repo, context);
+
+      logger.info(`Creating pull request`, {
+        repository: `${owner}/${repo}`,
+        head,
+        base: baseBranch,
+        draft
+      });
+
+      const response = await octokit.rest.pulls.create({
+        owner,
+        repo,
+        title,
+        head,
+        base: baseBranch,
+        draft,
+        ...(body && { body })
+      });
+
+      return this.apiResult('github.pulls.create', response);
 
     } catch (error) {
       return {
@@ -75,35 +821,78 @@ export class GitHubIssueAssignExecutor extends BaseActionExecutor {
   }
 }
 
-export class GitHubIssueLabelExecutor extends BaseActionExecutor {
+export class GitHubCreateIssueExecutor extends GitHubActionExecutor {
   async execute(parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
-    this.validateParameters(parameters, ['labels']);
-    const { labels, mode = 'add' } = this.sanitizeParameters(parameters);
+    this.validateParameters(parameters, ['title']);
+    const { title, body, labels, assignees, milestone, repository } = this.sanitizeParameters(parameters);
 
     try {
-      const issueNumber = context.trigger.payload?.issue?.number;
-      if (!issueNumber) {
-        throw new Error('No issue number found in trigger context');
-      }
+      const { owner, repo } = this.resolveRepository(repository, context);
 
-      logger.info(`Managing issue labels`, {
-        issue: issueNumber,
-        labels,
-        mode
+      logger.info(`Creating issue`, {
+        repository: `${owner}/${repo}`,
+        title
+      });
+
+      const response = await this.getOctokit(context).rest.issues.create({
+        owner,
+        repo,
+        title,
+        ...(body && { body }),
+        ...(labels && { labels: this.toList(labels) }),
+        ...(assignees && { assignees: this.toLogins(assignees) }),
+        ...(milestone && { milestone })
+      });
+
+      return this.apiResult('github.issues.create', response);
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
+
+// Communication Action Executors
+export class SlackMessageExecutor extends BaseActionExecutor {
+  async execute(parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
+    this.validateParameters(parameters, ['channel', 'message']);
+    const { channel, message, thread = false, blocks } = this.sanitizeParameters(parameters);
+
+    if (context.dryRun) {
+      return this.plan(context, 'slack.chat.postMessage', {
+        service: 'slack',
+        method: 'POST',
+        url: 'https://slack.com/api/chat.postMessage',
+        body: { channel, text: message, ...(blocks && { blocks }) }
+      });
+    }
+
+    try {
+      logger.info(`Sending Slack message`, {
+        channel,
+        messageLength: message.length,
+        thread,
+        hasBlocks: !!blocks
       });
 
+      // Simulate Slack API call
       const result = {
-        labels,
-        mode,
-        issue: issueNumber,
-        updated_at: new Date().toISOString()
+        channel,
+        message,
+        thread,
+        blocks,
+        message_id: `msg_${Date.now()}`,
+        sent_at: new Date().toISOString()
       };
 
       return {
         success: true,
         result,
         metadata: {
-          apiCall: `github.issues.${mode}Labels`,
+          apiCall: 'slack.chat.postMessage',
           executionTime: Date.now()
         }
       };
@@ -117,35 +906,42 @@ export class GitHubIssueLabelExecutor extends BaseActionExecutor {
   }
 }
 
-export class GitHubIssueCommentExecutor extends BaseActionExecutor {
+export class EmailSendExecutor extends BaseActionExecutor {
   async execute(parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
-    this.validateParameters(parameters, ['body']);
-    const { body, update = false } = this.sanitizeParameters(parameters);
+    this.validateParameters(parameters, ['to', 'subject', 'body']);
+    const { to, subject, body, cc, bcc } = this.sanitizeParameters(parameters);
 
-    try {
-      const issueNumber = context.trigger.payload?.issue?.number;
-      if (!issueNumber) {
-        throw new Error('No issue number found in trigger context');
-      }
+    if (context.dryRun) {
+      return this.plan(context, 'email.send', {
+        service: 'email',
+        method: 'SEND',
+        url: `mailto:${[to].flat().join(',')}`,
+        body: { to, subject, body, ...(cc && { cc }), ...(bcc && { bcc }) }
+      });
+    }
 
-      logger.info(`Adding comment to issue`, {
-        issue: issueNumber,
-        bodyLength: body.length,
-        update
+    try {
+      logger.info(`Sending email`, {
+        to: Array.isArray(to) ? to.length : 1,
+        subject,
+        bodyLength: body.length
       });
 
       const result = {
+        to,
+        subject,
         body,
-        issue: issueNumber,
-        comment_id: `comment_${Date.now()}`,
-        created_at: new Date().toISOString()
+        cc,
+        bcc,
+        message_id: `email_${Date.now()}`,
+        sent_at: new Date().toISOString()
       };
 
       return {
         success: true,
         result,
         metadata: {
-          apiCall: 'github.issues.createComment',
+          apiCall: 'email.send',
           executionTime: Date.now()
         }
       };
@@ -159,38 +955,40 @@ export class GitHubIssueCommentExecutor extends BaseActionExecutor {
   }
 }
 
-export class GitHubPRRequestReviewExecutor extends BaseActionExecutor {
+export class TeamsMessageExecutor extends BaseActionExecutor {
   async execute(parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
-    const { reviewers = [], teams = [] } = this.sanitizeParameters(parameters);
-
-    if (reviewers.length === 0 && teams.length === 0) {
-      throw new Error('At least one reviewer or team must be specified');
+    this.validateParameters(parameters, ['webhookUrl', 'message']);
+    const { webhookUrl, message, title } = this.sanitizeParameters(parameters);
+
+    if (context.dryRun) {
+      return this.plan(context, 'teams.webhook', {
+        service: 'http',
+        method: 'POST',
+        url: webhookUrl,
+        body: { text: message, ...(title && { title }) }
+      });
     }
 
     try {
-      const prNumber = context.trigger.payload?.pull_request?.number;
-      if (!prNumber) {
-        throw new Error('No pull request number found in trigger context');
-      }
-
-      logger.info(`Requesting PR review`, {
-        pr: prNumber,
-        reviewers,
-        teams
+      logger.info(`Sending Teams message`, {
+        messageLength: message.length,
+        hasTitle: !!title
       });
 
+      // Simulate Teams incoming webhook call
       const result = {
-        reviewers,
-        teams,
-        pull_request: prNumber,
-        requested_at: new Date().toISOString()
+        webhookUrl,
+        message,
+        title,
+        message_id: `teams_${Date.now()}`,
+        sent_at: new Date().toISOString()
       };
 
       return {
         success: true,
         result,
         metadata: {
-          apiCall: 'github.pulls.requestReviewers',
+          apiCall: 'teams.webhook',
           executionTime: Date.now()
         }
       };
@@ -204,27 +1002,32 @@ export class GitHubPRRequestReviewExecutor extends BaseActionExecutor {
   }
 }
 
-// Communication Action Executors
-export class SlackMessageExecutor extends BaseActionExecutor {
+export class DiscordMessageExecutor extends BaseActionExecutor {
   async execute(parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
-    this.validateParameters(parameters, ['channel', 'message']);
-    const { channel, message, thread = false, blocks } = this.sanitizeParameters(parameters);
+    this.validateParameters(parameters, ['webhookUrl', 'message']);
+    const { webhookUrl, message, username } = this.sanitizeParameters(parameters);
+
+    if (context.dryRun) {
+      return this.plan(context, 'discord.webhook', {
+        service: 'http',
+        method: 'POST',
+        url: webhookUrl,
+        body: { content: message, ...(username && { username }) }
+      });
+    }
 
     try {
-      logger.info(`Sending Slack message`, {
-        channel,
+      logger.info(`Sending Discord message`, {
         messageLength: message.length,
-        thread,
-        hasBlocks: !!blocks
+        username
       });
 
-      // Simulate Slack API call
+      // Simulate Discord webhook call
       const result = {
-        channel,
+        webhookUrl,
         message,
-        thread,
-        blocks,
-        message_id: `msg_${Date.now()}`,
+        username,
+        message_id: `discord_${Date.now()}`,
         sent_at: new Date().toISOString()
       };
 
@@ -232,7 +1035,7 @@ export class SlackMessageExecutor extends BaseActionExecutor {
         success: true,
         result,
         metadata: {
-          apiCall: 'slack.chat.postMessage',
+          apiCall: 'discord.webhook',
           executionTime: Date.now()
         }
       };
@@ -246,33 +1049,34 @@ export class SlackMessageExecutor extends BaseActionExecutor {
   }
 }
 
-export class EmailSendExecutor extends BaseActionExecutor {
+export class WebhookCallExecutor extends BaseActionExecutor {
   async execute(parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
-    this.validateParameters(parameters, ['to', 'subject', 'body']);
-    const { to, subject, body, cc, bcc } = this.sanitizeParameters(parameters);
+    this.validateParameters(parameters, ['url']);
+    const { url, payload = {}, headers = {} } = this.sanitizeParameters(parameters);
+
+    if (context.dryRun) {
+      return this.plan(context, 'webhook.post', { service: 'http', method: 'POST', url, headers, body: payload });
+    }
 
     try {
-      logger.info(`Sending email`, {
-        to: Array.isArray(to) ? to.length : 1,
-        subject,
-        bodyLength: body.length
+      logger.info(`Calling webhook`, {
+        url,
+        headerCount: Object.keys(headers).length
       });
 
+      // Simulate webhook POST
       const result = {
-        to,
-        subject,
-        body,
-        cc,
-        bcc,
-        message_id: `email_${Date.now()}`,
-        sent_at: new Date().toISOString()
+        url,
+        payload,
+        status: 200,
+        delivered_at: new Date().toISOString()
       };
 
       return {
         success: true,
         result,
         metadata: {
-          apiCall: 'email.send',
+          apiCall: 'webhook.post',
           executionTime: Date.now()
         }
       };
@@ -299,6 +1103,16 @@ export class HttpRequestExecutor extends BaseActionExecutor {
       followRedirects = true 
     } = this.sanitizeParameters(parameters);
 
+    if (context.dryRun) {
+      return this.plan(context, 'http.request', {
+        service: 'http',
+        method: String(method).toUpperCase(),
+        url,
+        headers,
+        ...(body !== undefined && { body })
+      });
+    }
+
     try {
       logger.info(`Making HTTP request`, {
         url,
@@ -348,7 +1162,10 @@ export class DelayExecutor extends BaseActionExecutor {
     try {
       logger.info(`Delaying execution`, { duration: `${duration}ms` });
 
-      await new Promise(resolve => setTimeout(resolve, duration));
+      // Wakes up early if the execution is cancelled or times out. Dry runs don't wait.
+      if (!context.dryRun) {
+        await sleep(duration, context.signal);
+      }
 
       const result = {
         duration,
@@ -365,6 +1182,9 @@ export class DelayExecutor extends BaseActionExecutor {
       };
 
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error'
@@ -374,95 +1194,162 @@ export class DelayExecutor extends BaseActionExecutor {
 }
 
 export class ConditionalExecutor extends BaseActionExecutor {
+  constructor(private readonly runner?: NestedActionRunner) {
+    super();
+  }
+
   async execute(parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
     this.validateParameters(parameters, ['condition', 'onTrue']);
     const { condition, onTrue, onFalse = [] } = this.sanitizeParameters(parameters);
 
-    try {
-      // Evaluate condition (simplified implementation)
-      const conditionResult = this.evaluateCondition(condition, context);
-      
-      logger.info(`Conditional execution`, {
-        conditionResult,
-        onTrueActions: onTrue.length,
-        onFalseActions: onFalse.length
-      });
+    if (!this.runner) {
+      throw new Error('Conditional actions can only run inside the workflow engine');
+    }
 
-      const result = {
-        condition_result: conditionResult,
-        executed_path: conditionResult ? 'onTrue' : 'onFalse',
-        actions_to_execute: conditionResult ? onTrue : onFalse
-      };
+    if (!Array.isArray(onTrue) || !Array.isArray(onFalse)) {
+      throw new Error('onTrue and onFalse must be arrays of actions');
+    }
 
-      return {
-        success: true,
-        result,
-        metadata: {
-          apiCall: 'util.conditional',
-          executionTime: Date.now()
-        }
-      };
+    const conditionResult = await this.runner.evaluateCondition(condition, context);
+    const branch: ActionConfig[] = conditionResult ? onTrue : onFalse;
 
-    } catch (error) {
+    logger.info(`Conditional execution`, {
+      executionId: context.execution.id,
+      conditionResult,
+      onTrueActions: onTrue.length,
+      onFalseActions: onFalse.length
+    });
+
+    const children = await this.runner.runActions(branch, context);
+    const failed = children.filter(child => child.status === 'failed');
+
+    const result = {
+      condition_result: conditionResult,
+      executed_path: conditionResult ? 'onTrue' : 'onFalse',
+      executed_actions: children.length
+    };
+
+    if (failed.length > 0) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: `Nested action(s) failed: ${failed.map(child => child.actionId).join(', ')}`,
+        result,
+        children
       };
     }
-  }
 
-  private evaluateCondition(condition: any, context: ExecutionContext): boolean {
-    // Simplified condition evaluation
-    // In real implementation, this would integrate with the condition engine
-    return true;
+    return {
+      success: true,
+      result,
+      children,
+      metadata: {
+        apiCall: 'util.conditional',
+        executionTime: Date.now()
+      }
+    };
   }
 }
 
 export class LoopExecutor extends BaseActionExecutor {
+  private readonly fieldResolver = new FieldResolver({ graceful: true });
+  private readonly templateEngine = new TemplateEngine();
+
+  constructor(private readonly runner?: NestedActionRunner) {
+    super();
+  }
+
   async execute(parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
     this.validateParameters(parameters, ['items', 'actions']);
     const { 
       items, 
       itemVariable = 'item', 
       actions, 
-      maxIterations = 100 
+      maxIterations = 100,
+      concurrency = 1
     } = this.sanitizeParameters(parameters);
 
+    if (!this.runner) {
+      throw new Error('Loop actions can only run inside the workflow engine');
+    }
+
     try {
-      // Get items array from context using JSONPath-like selector
-      const itemsArray = this.getArrayFromContext(items, context);
+      if (!Array.isArray(actions)) {
+        throw new Error('actions must be an array of actions');
+      }
+
+      if (!Number.isInteger(maxIterations) || maxIterations < 1 || maxIterations > MAX_LOOP_ITERATIONS) {
+        throw new Error(`maxIterations must be an integer between 1 and ${MAX_LOOP_ITERATIONS}`);
+      }
+
+      if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_LOOP_CONCURRENCY) {
+        throw new Error(`concurrency must be an integer between 1 and ${MAX_LOOP_CONCURRENCY}`);
+      }
+
+      const itemsArray = this.resolveItems(items, context);
       
       if (!Array.isArray(itemsArray)) {
         throw new Error(`Items selector '${items}' did not resolve to an array`);
       }
 
-      const iterations = Math.min(itemsArray.length, maxIterations);
+      const iterationItems = itemsArray.slice(0, maxIterations);
       
       logger.info(`Loop execution`, {
+        executionId: context.execution.id,
         totalItems: itemsArray.length,
-        iterations,
-        actionsPerIteration: actions.length
+        iterations: iterationItems.length,
+        actionsPerIteration: actions.length,
+        concurrency
       });
 
-      const results = [];
-      for (let i = 0; i < iterations; i++) {
-        results.push({
-          index: i,
-          item: itemsArray[i],
-          [itemVariable]: itemsArray[i]
+      if (itemsArray.length > maxIterations) {
+        logger.warn(`Loop items exceed maxIterations, skipping the rest`, {
+          executionId: context.execution.id,
+          totalItems: itemsArray.length,
+          maxIterations
         });
       }
 
+      // Run iterations with at most `concurrency` in flight
+      const iterations: LoopIterationResult[] = [];
+      const children: ActionResult[][] = [];
+      let next = 0;
+
+      const worker = async (): Promise<void> => {
+        while (next < iterationItems.length && !context.signal?.aborted) {
+          const index = next++;
+          const iterationResults = await this.runIteration(actions, iterationItems[index], index, itemVariable, context);
+          children[index] = iterationResults;
+          iterations[index] = this.summarizeIteration(iterationItems[index], index, iterationResults);
+        }
+      };
+
+      await Promise.all(Array.from({ length: Math.min(concurrency, iterationItems.length) }, worker));
+      throwIfAborted(context.signal);
+
+      const failed = iterations.filter(iteration => iteration.status === 'failed');
+
       const result = {
         total_items: itemsArray.length,
-        processed_items: iterations,
-        iterations: results,
+        processed_items: iterations.length,
+        skipped_items: itemsArray.length - iterations.length,
+        failed_items: failed.length,
+        iterations,
         actions_per_iteration: actions.length
       };
 
+      if (failed.length > 0) {
+        return {
+          success: false,
+          error: `Loop iteration(s) failed: ${failed.map(iteration => iteration.index).join(', ')}`,
+          result,
+          children: children.flat()
+        };
+      }
+
       return {
         success: true,
         result,
+        children: children.flat(),
         metadata: {
           apiCall: 'util.loop',
           executionTime: Date.now()
@@ -470,6 +1357,10 @@ export class LoopExecutor extends BaseActionExecutor {
       };
 
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error'
@@ -477,18 +1368,86 @@ export class LoopExecutor extends BaseActionExecutor {
     }
   }
 
-  private getArrayFromContext(selector: string, context: ExecutionContext): any[] {
-    // Simplified JSONPath-like selector implementation
-    // In real implementation, this would use a proper JSONPath library
-    if (selector.startsWith('{{') && selector.endsWith('}}')) {
-      const path = selector.slice(2, -2);
-      return this.getValueByPath(context, path) || [];
+  /**
+   * Resolve the items to iterate over: a literal array, or a field path
+   * (optionally wrapped in {{ }}) into the template variables
+   */
+  private resolveItems(items: any, context: ExecutionContext): any {
+    if (Array.isArray(items)) {
+      return items;
+    }
+
+    if (typeof items !== 'string') {
+      return undefined;
+    }
+
+    const path = items.trim().replace(/^\{\{\s*([\s\S]*?)\s*\}\}$/, '$1');
+    return this.fieldResolver.resolve(this.templateEngine.getAvailableVariables(context), path);
+  }
+
+  /**
+   * Run the loop body for one item, with the item bound into the context's variables
+   */
+  private async runIteration(
+    actions: ActionConfig[],
+    item: any,
+    index: number,
+    itemVariable: string,
+    context: ExecutionContext
+  ): Promise<ActionResult[]> {
+    const bodyIds = actions.map((action, position) => action.id || `action-${position}`);
+    const iterationId = (id: string) => `${id}[${index}]`;
+
+    // Each iteration tracks its own previous and finished actions. Within the
+    // iteration, body actions are addressed by their own IDs.
+    const finishedActions: NonNullable<ExecutionContext['actions']> = { ...context.actions };
+    for (const id of bodyIds) {
+      Object.defineProperty(finishedActions, id, {
+        get: () => finishedActions[iterationId(id)],
+        enumerable: true,
+        configurable: true
+      });
     }
-    return [];
+
+    const iterationContext: ExecutionContext = {
+      ...context,
+      variables: {
+        ...context.variables,
+        [itemVariable]: item,
+        [`${itemVariable}Index`]: index
+      },
+      execution: { ...context.execution },
+      actions: finishedActions
+    };
+
+    // Suffix IDs with the iteration so every run has its own history entry. Actions
+    // outside the body finished before the loop started, if the loop depends on them.
+    const iterationActions = actions.map((action, position) => ({
+      ...action,
+      id: iterationId(bodyIds[position]!),
+      ...(action.dependsOn && {
+        dependsOn: action.dependsOn.filter(dependency => bodyIds.includes(dependency)).map(iterationId)
+      })
+    }));
+
+    return this.runner!.runActions(iterationActions, iterationContext);
   }
 
-  private getValueByPath(obj: any, path: string): any {
-    return path.split('.').reduce((current, key) => current?.[key], obj);
+  private summarizeIteration(item: any, index: number, children: ActionResult[]): LoopIterationResult {
+    const suffix = `[${index}]`;
+    const results: Record<string, any> = {};
+
+    for (const child of children) {
+      const actionId = child.actionId.endsWith(suffix) ? child.actionId.slice(0, -suffix.length) : child.actionId;
+      results[actionId] = child.result;
+    }
+
+    return {
+      index,
+      item,
+      status: children.some(child => child.status === 'failed') ? 'failed' : 'completed',
+      results
+    };
   }
 }
 
@@ -496,7 +1455,7 @@ export class LoopExecutor extends BaseActionExecutor {
 export class ActionExecutor {
   private executors: Map<ActionType, BaseActionExecutor> = new Map();
 
-  constructor() {
+  constructor(private readonly nestedRunner?: NestedActionRunner) {
     this.registerExecutors();
   }
 
@@ -505,26 +1464,45 @@ export class ActionExecutor {
     this.executors.set('github_issue_assign', new GitHubIssueAssignExecutor());
     this.executors.set('github_issue_label', new GitHubIssueLabelExecutor());
     this.executors.set('github_issue_comment', new GitHubIssueCommentExecutor());
+    this.executors.set('github_issue_unassign', new GitHubIssueUnassignExecutor());
+    this.executors.set('github_issue_close', new GitHubIssueCloseExecutor());
+    this.executors.set('github_issue_reopen', new GitHubIssueReopenExecutor());
+    this.executors.set('github_pr_assign', new GitHubPRAssignExecutor());
     this.executors.set('github_pr_request_review', new GitHubPRRequestReviewExecutor());
+    this.executors.set('github_pr_merge', new GitHubPRMergeExecutor());
+    this.executors.set('github_pr_comment', new GitHubPRCommentExecutor());
+    this.executors.set('github_pr_approve', new GitHubPRApproveExecutor());
+    this.executors.set('github_pr_close', new GitHubPRCloseExecutor());
+    this.executors.set('github_pr_label', new GitHubPRLabelExecutor());
+    this.executors.set('github_create_branch', new GitHubCreateBranchExecutor());
+    this.executors.set('github_create_pr', new GitHubCreatePRExecutor());
+    this.executors.set('github_create_issue', new GitHubCreateIssueExecutor());
 
     // Communication executors
     this.executors.set('slack_message', new SlackMessageExecutor());
     this.executors.set('email_send', new EmailSendExecutor());
+    this.executors.set('teams_message', new TeamsMessageExecutor());
+    this.executors.set('discord_message', new DiscordMessageExecutor());
+    this.executors.set('webhook_call', new WebhookCallExecutor());
 
     // HTTP executor
     this.executors.set('http_request', new HttpRequestExecutor());
 
     // Utility executors
     this.executors.set('delay', new DelayExecutor());
-    this.executors.set('conditional', new ConditionalExecutor());
-    this.executors.set('loop', new LoopExecutor());
+    this.executors.set('conditional', new ConditionalExecutor(this.nestedRunner));
+    this.executors.set('loop', new LoopExecutor(this.nestedRunner));
   }
 
+  /**
+   * Run an action; resolves with the executor's result on success and rejects
+   * with an ActionExecutionError when the executor reports failure
+   */
   public async execute(
     actionType: ActionType,
     parameters: any,
     context: ExecutionContext
-  ): Promise<any> {
+  ): Promise<ActionExecutorResult> {
     const executor = this.executors.get(actionType);
     
     if (!executor) {
@@ -538,9 +1516,16 @@ export class ActionExecutor {
     });
 
     const startTime = Date.now();
-    
+
+    // In a dry run each action collects the calls it would make separately
+    const effects: PlannedEffect[] = [];
+    const actionContext: ExecutionContext = context.dryRun ? { ...context, plannedEffects: effects } : context;
+
     try {
-      const result = await executor.execute(parameters, context);
+      throwIfAborted(context.signal);
+
+      // Stop waiting for the executor as soon as the execution is aborted
+      const result = await abortable(executor.execute(parameters, actionContext), context.signal);
       const executionTime = Date.now() - startTime;
 
       if (result.success) {
@@ -549,7 +1534,9 @@ export class ActionExecutor {
           executionId: context.execution.id,
           executionTime: `${executionTime}ms`
         });
-        return result.result;
+        return context.dryRun
+          ? { ...result, effects, metadata: { ...result.metadata, dryRun: true } }
+          : result;
       } else {
         logger.warn(`Action execution failed`, {
           actionType,
@@ -557,11 +1544,22 @@ export class ActionExecutor {
           error: result.error,
           executionTime: `${executionTime}ms`
         });
-        throw new Error(result.error || 'Action execution failed');
+        throw new ActionExecutionError(result.error || 'Action execution failed', result.children);
       }
 
     } catch (error) {
       const executionTime = Date.now() - startTime;
+
+      if (isAbortError(error)) {
+        logger.info(`Action execution aborted`, {
+          actionType,
+          executionId: context.execution.id,
+          reason: error.reason,
+          executionTime: `${executionTime}ms`
+        });
+        throw error;
+      }
+
       logger.error(`Action execution error`, {
         actionType,
         executionId: context.execution.id,
@@ -0,0 +1,132 @@
+export type AbortReason = 'cancelled' | 'timeout';
+
+/**
+ * Raised inside a running execution once it has been cancelled or timed out.
+ * Used as the AbortSignal reason so every waiter sees the same error.
+ */
+export class ExecutionAbortedError extends Error {
+  constructor(public readonly reason: AbortReason, message?: string) {
+    super(message || (reason === 'timeout' ? 'Workflow execution timed out' : 'Workflow execution was cancelled'));
+    this.name = 'ExecutionAbortedError';
+  }
+}
+
+/**
+ * Raised when one attempt at an action outlasts the action's timeout. Unlike an
+ * ExecutionAbortedError it only fails that attempt, which may be retried.
+ */
+export class ActionTimeoutError extends Error {
+  constructor(public readonly timeoutSeconds: number) {
+    super(`Action timeout after ${timeoutSeconds}s`);
+    this.name = 'ActionTimeoutError';
+  }
+}
+
+/**
+ * The error describing why a signal was aborted
+ */
+export function getAbortError(signal: AbortSignal): ExecutionAbortedError {
+  return signal.reason instanceof ExecutionAbortedError
+    ? signal.reason
+    : new ExecutionAbortedError('cancelled');
+}
+
+// An attempt's signal is aborted by its timeout or with the execution's error
+function getAbortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof ActionTimeoutError ? signal.reason : getAbortError(signal);
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw getAbortReason(signal);
+  }
+}
+
+/**
+ * The signal for one attempt at an action: aborted along with the execution's
+ * signal, or with an ActionTimeoutError once the timeout elapses. Executors pass
+ * it on to their requests, so the attempt's work stops with it. Call `dispose`
+ * when the attempt is over.
+ */
+export function createAttemptSignal(
+  signal: AbortSignal | undefined,
+  timeoutSeconds: number
+): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal!.reason);
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+  const timer = setTimeout(() => controller.abort(new ActionTimeoutError(timeoutSeconds)), timeoutSeconds * 1000);
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+}
+
+/**
+ * Settle with the promise, or reject as soon as the signal is aborted.
+ * Only work that watches the signal itself is stopped; anything else is just
+ * no longer waited for.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  if (signal.aborted) {
+    // The abandoned promise may still reject later; don't let that go unhandled
+    promise.catch(() => undefined);
+    return Promise.reject(getAbortReason(signal));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(getAbortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Wait for the given time, waking up early with the abort error on abort
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(getAbortReason(signal));
+  }
+
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(getAbortReason(signal!));
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export function isAbortError(error: unknown): error is ExecutionAbortedError {
+  return error instanceof ExecutionAbortedError;
+}
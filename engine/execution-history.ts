@@ -1,7 +1,9 @@
+import { EventEmitter } from 'events';
 import { WorkflowDefinition, ExecutionContext, ActionResult } from '../types/workflow-schema';
 import { ExecutionResult } from './workflow-engine';
 import prisma from '../config/database';
 import logger from '../utils/logger';
+import { maskSecrets, secretRedactor } from '../utils/redaction';
 
 export interface ExecutionSnapshot {
   executionId: string;
@@ -22,10 +24,26 @@ export interface ExecutionSnapshot {
   actionResults: ActionResult[];
   error?: string | undefined;
   metrics?: any;
+  parentExecutionId?: string | undefined; // Set for runs started by onSuccess.triggerWorkflow
+  workflowVersion?: number | undefined; // Stored workflow version the run used
+  resumedFromExecutionId?: string | undefined; // Set for runs that resumed another execution
+  checkpoint?: ActionResult[] | undefined; // Finished top-level actions, saved as they finish so the run can be resumed
+}
+
+/**
+ * What an execution was started with. Stored unredacted, apart from the snapshot's
+ * context, so that a resumed execution gets the same input.
+ */
+export interface ExecutionTrigger extends Pick<ExecutionContext, 'trigger' | 'repository' | 'installation'> {
+  variables?: Record<string, any> | undefined; // Unset for executions stored before resuming existed
+  parentExecutionId?: string | undefined;
+  chainDepth?: number | undefined;
 }
 
 export interface ExecutionQuery {
   workflowName?: string;
+  parentExecutionId?: string;
+  resumedFromExecutionId?: string;
   status?: string[];
   startTimeRange?: { from: Date; to: Date };
   limit?: number;
@@ -45,10 +63,32 @@ export interface ExecutionAggregation {
   actionSuccess: { actionType: string; successRate: number }[];
 }
 
-export class ExecutionHistory {
+export type ActionStatusUpdate = Exclude<ActionResult['status'], 'pending'>;
+
+export interface ActionProgressEvent {
+  executionId: string;
+  workflow: string;
+  actionId: string;
+  status: ActionStatusUpdate;
+  error?: string | undefined;
+  currentAction?: string | undefined;
+  progress: ExecutionSnapshot['progress'];
+}
+
+export interface ExecutionHistoryOptions {
+  persist?: boolean; // Store executions in the database, not only in memory
+}
+
+export class ExecutionHistory extends EventEmitter {
   private activeExecutions: Map<string, ExecutionSnapshot> = new Map();
   private executionCache: Map<string, ExecutionSnapshot> = new Map();
   private readonly maxCacheSize = 1000;
+  private readonly persist: boolean;
+
+  constructor(options: ExecutionHistoryOptions = {}) {
+    super();
+    this.persist = options.persist ?? true;
+  }
 
   /**
    * Start tracking a new workflow execution
@@ -58,6 +98,14 @@ export class ExecutionHistory {
     workflow: WorkflowDefinition,
     context: ExecutionContext
   ): Promise<void> {
+    // The abort signal only matters to the running engine and does not serialize.
+    // Secret values are kept out of everything tracked here; only their names remain.
+    const trackedContext: ExecutionContext = secretRedactor.redact({
+      ...context,
+      secrets: maskSecrets(context.secrets)
+    });
+    delete trackedContext.signal;
+
     const snapshot: ExecutionSnapshot = {
       executionId,
       workflowName: workflow.name,
@@ -70,11 +118,18 @@ export class ExecutionHistory {
         total: workflow.actions.length,
         percentage: 0
       },
-      context,
-      actionResults: []
+      context: trackedContext,
+      actionResults: [],
+      parentExecutionId: context.execution.parentExecutionId,
+      workflowVersion: context.workflow.versionNumber,
+      resumedFromExecutionId: context.execution.resumedFromExecutionId,
+      checkpoint: []
     };
 
     this.activeExecutions.set(executionId, snapshot);
+    if (!this.persist) {
+      return;
+    }
 
     try {
       // Store in database
@@ -83,8 +138,17 @@ export class ExecutionHistory {
           id: executionId,
           workflowId: workflow.name,
           status: 'RUNNING',
-          triggerEvent: context.trigger,
+          triggerEvent: {
+            ...context.trigger,
+            ...(context.repository && { repository: context.repository }),
+            ...(context.installation && { installation: context.installation }),
+            variables: context.variables
+          },
           startedAt: snapshot.startTime,
+          parentExecutionId: context.execution.parentExecutionId ?? null,
+          chainDepth: context.execution.chainDepth ?? 0,
+          workflowVersion: context.workflow.versionNumber ?? null,
+          resumedFromId: context.execution.resumedFromExecutionId ?? null,
           executionSteps: {
             workflow: {
               name: workflow.name,
@@ -95,8 +159,9 @@ export class ExecutionHistory {
                 name: a.name
               }))
             },
-            context: context,
-            progress: snapshot.progress
+            context: trackedContext,
+            progress: snapshot.progress,
+            checkpoint: snapshot.checkpoint
           }
         }
       });
@@ -112,6 +177,8 @@ export class ExecutionHistory {
         executionId,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
+      // An execution that is not stored could neither be found nor resumed
+      throw error;
     }
   }
 
@@ -131,8 +198,8 @@ export class ExecutionHistory {
     snapshot.status = result.status;
     snapshot.endTime = result.endTime;
     snapshot.duration = result.duration;
-    snapshot.actionResults = result.actionResults;
-    snapshot.error = result.error || undefined;
+    snapshot.actionResults = secretRedactor.redact(result.actionResults);
+    snapshot.error = result.error ? secretRedactor.redactString(result.error) : undefined;
     snapshot.metrics = result.metrics;
 
     // Calculate final progress
@@ -142,6 +209,9 @@ export class ExecutionHistory {
     this.executionCache.set(executionId, snapshot);
     this.activeExecutions.delete(executionId);
     this.maintainCacheSize();
+    if (!this.persist) {
+      return;
+    }
 
     try {
       // Update database
@@ -151,17 +221,18 @@ export class ExecutionHistory {
           status: this.mapStatusToDb(result.status),
           completedAt: result.endTime,
           executionSteps: {
-            ...snapshot.context,
+            context: snapshot.context,
             progress: snapshot.progress,
-            actionResults: result.actionResults,
-            metrics: result.metrics
+            actionResults: snapshot.actionResults,
+            metrics: result.metrics,
+            checkpoint: snapshot.checkpoint
           },
-          error: result.error || null
+          error: snapshot.error || null
         }
       });
 
       // Store individual action results for detailed analysis
-      await this.storeActionResults(executionId, result.actionResults);
+      await this.storeActionResults(executionId, snapshot.actionResults);
 
       logger.info(`Execution tracking completed`, {
         executionId,
@@ -182,13 +253,47 @@ export class ExecutionHistory {
     }
   }
 
+  /**
+   * Save finished top-level actions to the execution's checkpoint, from which a
+   * failed execution can be resumed
+   */
+  public async checkpointActions(executionId: string, results: ActionResult[]): Promise<void> {
+    const snapshot = this.activeExecutions.get(executionId);
+    if (!snapshot || results.length === 0) {
+      return;
+    }
+
+    snapshot.checkpoint = [...(snapshot.checkpoint || []), ...secretRedactor.redact(results)];
+    if (!this.persist) {
+      return;
+    }
+
+    try {
+      await prisma.execution.update({
+        where: { id: executionId },
+        data: {
+          executionSteps: {
+            context: snapshot.context,
+            progress: snapshot.progress,
+            checkpoint: snapshot.checkpoint
+          }
+        }
+      });
+    } catch (error) {
+      logger.error(`Failed to save execution checkpoint`, {
+        executionId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   /**
    * Update action status during execution
    */
   public async updateActionStatus(
     executionId: string,
     actionId: string,
-    status: 'running' | 'completed' | 'failed' | 'skipped',
+    status: ActionStatusUpdate,
     result?: any,
     error?: string
   ): Promise<void> {
@@ -206,8 +311,8 @@ export class ExecutionHistory {
       status,
       startTime: new Date().toISOString(),
       ...(endTime && { endTime }),
-      result,
-      ...(error && { error }),
+      result: secretRedactor.redact(result),
+      ...(error && { error: secretRedactor.redactString(error) }),
       retryCount: 0
     };
 
@@ -233,6 +338,17 @@ export class ExecutionHistory {
       status,
       progress: snapshot.progress.percentage
     });
+
+    const progressEvent: ActionProgressEvent = {
+      executionId,
+      workflow: snapshot.workflowName,
+      actionId,
+      status,
+      error: error ? secretRedactor.redactString(error) : undefined,
+      currentAction: snapshot.currentAction,
+      progress: snapshot.progress
+    };
+    this.emit('action:progress', progressEvent);
   }
 
   /**
@@ -246,6 +362,9 @@ export class ExecutionHistory {
     if (snapshot) {
       snapshot.status = status;
     }
+    if (!this.persist) {
+      return;
+    }
 
     try {
       await prisma.execution.update({
@@ -261,6 +380,41 @@ export class ExecutionHistory {
     }
   }
 
+  /**
+   * Mark stored executions that are still running, but not in this process, as
+   * failed. They were cut off by a restart and can be resumed from their checkpoint.
+   */
+  public async markInterruptedExecutions(): Promise<number> {
+    if (!this.persist) {
+      return 0;
+    }
+
+    try {
+      const { count } = await prisma.execution.updateMany({
+        where: {
+          status: 'RUNNING',
+          id: { notIn: Array.from(this.activeExecutions.keys()) }
+        },
+        data: {
+          status: this.mapStatusToDb('failed'),
+          completedAt: new Date(),
+          error: 'Execution was interrupted by a restart'
+        }
+      });
+
+      if (count > 0) {
+        logger.warn(`Marked interrupted executions as failed`, { count });
+      }
+      return count;
+
+    } catch (error) {
+      logger.error(`Failed to mark interrupted executions`, {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return 0;
+    }
+  }
+
   /**
    * Get execution snapshot
    */
@@ -280,27 +434,8 @@ export class ExecutionHistory {
    */
   public async queryExecutions(query: ExecutionQuery = {}): Promise<ExecutionSnapshot[]> {
     try {
-      const whereClause: any = {};
-
-      if (query.workflowName) {
-        whereClause.workflowId = query.workflowName;
-      }
-
-      if (query.status && query.status.length > 0) {
-        whereClause.status = {
-          in: query.status.map(s => this.mapStatusToDb(s))
-        };
-      }
-
-      if (query.startTimeRange) {
-        whereClause.startedAt = {
-          gte: query.startTimeRange.from,
-          lte: query.startTimeRange.to
-        };
-      }
-
       const executions = await prisma.execution.findMany({
-        where: whereClause,
+        where: this.buildWhereClause(query),
         orderBy: { startedAt: 'desc' },
         take: query.limit || 100,
         skip: query.offset || 0,
@@ -320,6 +455,80 @@ export class ExecutionHistory {
     }
   }
 
+  /**
+   * Count executions matching a query, ignoring paging
+   */
+  public async countExecutions(query: ExecutionQuery = {}): Promise<number> {
+    try {
+      return await prisma.execution.count({ where: this.buildWhereClause(query) });
+    } catch (error) {
+      logger.error(`Failed to count executions`, {
+        query,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return 0;
+    }
+  }
+
+  /**
+   * Get an execution from memory or, once it has been evicted, from the database
+   */
+  public async findExecution(executionId: string): Promise<ExecutionSnapshot | null> {
+    const snapshot = this.getExecution(executionId);
+    if (snapshot) {
+      return snapshot;
+    }
+
+    try {
+      const execution = await prisma.execution.findUnique({
+        where: { id: executionId }
+      });
+
+      return execution ? this.mapDbToSnapshot(execution) : null;
+
+    } catch (error) {
+      logger.error(`Failed to load execution`, {
+        executionId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Get the unredacted trigger of a stored execution, to resume it with
+   */
+  public async findExecutionTrigger(executionId: string): Promise<ExecutionTrigger | null> {
+    try {
+      const execution = await prisma.execution.findUnique({
+        where: { id: executionId },
+        select: { triggerEvent: true, parentExecutionId: true, chainDepth: true }
+      });
+      if (!execution) {
+        return null;
+      }
+
+      const { repository, installation, variables, ...trigger } = execution.triggerEvent;
+      return {
+        trigger,
+        ...(repository && { repository }),
+        ...(installation && { installation }),
+        ...(variables && { variables }),
+        ...(execution.parentExecutionId && {
+          parentExecutionId: execution.parentExecutionId,
+          chainDepth: execution.chainDepth
+        })
+      };
+
+    } catch (error) {
+      logger.error(`Failed to load execution trigger`, {
+        executionId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return null;
+    }
+  }
+
   /**
    * Get execution statistics and aggregations
    */
@@ -486,6 +695,7 @@ export class ExecutionHistory {
     const completed = actionResults.filter(r => r.status === 'completed').length;
     const failed = actionResults.filter(r => r.status === 'failed').length;
     const skipped = actionResults.filter(r => r.status === 'skipped').length;
+    const cancelled = actionResults.filter(r => r.status === 'cancelled').length;
     const total = actionResults.length;
 
     return {
@@ -493,7 +703,7 @@ export class ExecutionHistory {
       failed,
       skipped,
       total,
-      percentage: total > 0 ? Math.round(((completed + failed + skipped) / total) * 100) : 0
+      percentage: total > 0 ? Math.round(((completed + failed + skipped + cancelled) / total) * 100) : 0
     };
   }
 
@@ -533,6 +743,40 @@ export class ExecutionHistory {
     }
   }
 
+  /**
+   * Build the Prisma filter for an execution query
+   */
+  private buildWhereClause(query: ExecutionQuery): any {
+    const whereClause: any = {};
+
+    if (query.workflowName) {
+      whereClause.workflowId = query.workflowName;
+    }
+
+    if (query.parentExecutionId) {
+      whereClause.parentExecutionId = query.parentExecutionId;
+    }
+
+    if (query.resumedFromExecutionId) {
+      whereClause.resumedFromId = query.resumedFromExecutionId;
+    }
+
+    if (query.status && query.status.length > 0) {
+      whereClause.status = {
+        in: query.status.map(s => this.mapStatusToDb(s))
+      };
+    }
+
+    if (query.startTimeRange) {
+      whereClause.startedAt = {
+        gte: query.startTimeRange.from,
+        lte: query.startTimeRange.to
+      };
+    }
+
+    return whereClause;
+  }
+
   /**
    * Map execution status to database enum
    */
@@ -572,7 +816,11 @@ export class ExecutionHistory {
       context: dbExecution.executionSteps?.context || {} as ExecutionContext,
       actionResults: dbExecution.executionSteps?.actionResults || [],
       error: dbExecution.error,
-      metrics: dbExecution.executionSteps?.metrics
+      metrics: dbExecution.executionSteps?.metrics,
+      parentExecutionId: dbExecution.parentExecutionId ?? undefined,
+      workflowVersion: dbExecution.workflowVersion ?? undefined,
+      resumedFromExecutionId: dbExecution.resumedFromId ?? undefined,
+      checkpoint: dbExecution.executionSteps?.checkpoint
     };
   }
 
@@ -629,7 +877,16 @@ export class ExecutionHistory {
       exec.error || ''
     ]);
 
-    return [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
+    return [headers, ...rows]
+      .map(row => row.map(value => this.escapeCSV(value)).join(','))
+      .join('\n');
+  }
+
+  /**
+   * Quote a CSV value if it contains a delimiter, quote or line break
+   */
+  private escapeCSV(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
   }
 
   /**
@@ -0,0 +1,86 @@
+import { ActionResult, ActionType, PlannedEffect } from '../types/workflow-schema';
+import { ExecutionResult } from './workflow-engine';
+
+export interface PlannedAction {
+  actionId: string;
+  actionType: ActionType;
+  status: ActionResult['status'];
+  depth: number; // 0 for the workflow's own actions, 1 for their nested actions, ...
+  effects: PlannedEffect[];
+  error?: string;
+}
+
+/**
+ * What a dry run of a workflow would have done, in execution order
+ */
+export interface ExecutionPlan {
+  workflow: string;
+  executionId: string;
+  status: ExecutionResult['status'];
+  actions: PlannedAction[];
+  effectCount: number;
+  error?: string;
+}
+
+/**
+ * Build the plan report for a dry run's result. Nested actions follow the action
+ * that ran them.
+ */
+export function buildExecutionPlan(result: ExecutionResult): ExecutionPlan {
+  const actions: PlannedAction[] = [];
+
+  const visit = (results: ActionResult[], depth: number): void => {
+    for (const action of results) {
+      actions.push({
+        actionId: action.actionId,
+        actionType: action.actionType,
+        status: action.status,
+        depth,
+        effects: action.effects || [],
+        ...(action.error && { error: action.error })
+      });
+      visit(action.children || [], depth + 1);
+    }
+  };
+  visit(result.actionResults, 0);
+
+  return {
+    workflow: result.workflowId,
+    executionId: result.executionId,
+    status: result.status,
+    actions,
+    effectCount: actions.reduce((count, action) => count + action.effects.length, 0),
+    ...(result.error && { error: result.error })
+  };
+}
+
+/**
+ * Render a plan as Markdown, e.g. for a pull request comment
+ */
+export function renderExecutionPlan(plan: ExecutionPlan): string {
+  const lines = [
+    `### Dry run of \`${plan.workflow}\``,
+    '',
+    `Status: **${plan.status}**. ${plan.effectCount} call${plan.effectCount === 1 ? '' : 's'} would be made.`
+  ];
+  if (plan.error) {
+    lines.push('', `> ${plan.error}`);
+  }
+  lines.push('');
+
+  for (const action of plan.actions) {
+    const indent = '  '.repeat(action.depth);
+    lines.push(`${indent}- \`${action.actionId}\` (${action.actionType}): ${action.status}` +
+      (action.error ? ` - ${action.error}` : ''));
+
+    for (const effect of action.effects) {
+      lines.push(`${indent}  - \`${effect.method} ${effect.url}\``);
+      if (effect.body !== undefined) {
+        const body = JSON.stringify(effect.body, null, 2).split('\n');
+        lines.push(`${indent}    \`\`\`json`, ...body.map(line => `${indent}    ${line}`), `${indent}    \`\`\``);
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,272 @@
+import { GitHubEvent } from '../types/workflow-schema';
+
+/**
+ * Realistic webhook payloads for every GitHubEvent, trimmed to the fields workflows
+ * commonly use. All of them come from the same repository, installation and sender,
+ * so fixtures can be combined in one test.
+ */
+
+const sender = {
+  login: 'octocat',
+  id: 583231,
+  type: 'User',
+  html_url: 'https://github.com/octocat'
+};
+
+const owner = {
+  login: 'acme',
+  id: 9919,
+  type: 'Organization',
+  html_url: 'https://github.com/acme'
+};
+
+const repository = {
+  id: 1296269,
+  name: 'api',
+  full_name: 'acme/api',
+  private: false,
+  owner,
+  html_url: 'https://github.com/acme/api',
+  default_branch: 'main',
+  topics: ['backend'],
+  created_at: '2024-01-15T09:30:00Z',
+  pushed_at: '2024-06-03T14:12:45Z'
+};
+
+const installation = { id: 42 };
+const organization = { login: 'acme', id: 9919 };
+
+const envelope = { repository, organization, installation, sender };
+
+const label = (name: string, color: string) => ({ id: name.length * 1000 + 1, name, color, default: false });
+
+const issue = {
+  id: 2001,
+  number: 1347,
+  title: 'Login fails with a 500 error',
+  body: 'Signing in with SSO returns a 500 error since this morning.\n\nSteps: ...',
+  state: 'open',
+  locked: false,
+  user: sender,
+  labels: [label('bug', 'd73a4a')],
+  assignees: [],
+  comments: 0,
+  html_url: 'https://github.com/acme/api/issues/1347',
+  created_at: '2024-06-03T14:10:00Z',
+  updated_at: '2024-06-03T14:10:00Z',
+  closed_at: null
+};
+
+const commit = (sha: string, message: string) => ({
+  id: sha,
+  message,
+  timestamp: '2024-06-03T14:12:40Z',
+  url: `https://github.com/acme/api/commit/${sha}`,
+  author: { name: 'Mona Octocat', email: 'mona@example.com', username: 'octocat' },
+  added: [],
+  removed: [],
+  modified: ['src/auth/sso.ts']
+});
+
+const pullRequest = {
+  id: 3001,
+  number: 88,
+  title: 'Fix SSO login error',
+  body: 'Fixes #1347',
+  state: 'open',
+  draft: false,
+  merged: false,
+  merged_at: null,
+  merge_commit_sha: null,
+  user: sender,
+  labels: [label('bug', 'd73a4a')],
+  assignees: [],
+  requested_reviewers: [],
+  head: { ref: 'fix/sso-login', sha: '6dcb09b5b57875f334f61aebed695e2e4193db5e', repo: repository },
+  base: { ref: 'main', sha: '9049f1265b7d61be4a8904a9a27120d2064dab3b', repo: repository },
+  additions: 42,
+  deletions: 7,
+  changed_files: 3,
+  commits: 2,
+  html_url: 'https://github.com/acme/api/pull/88',
+  created_at: '2024-06-03T15:00:00Z',
+  updated_at: '2024-06-03T15:00:00Z',
+  closed_at: null
+};
+
+const closedPullRequest = {
+  ...pullRequest,
+  state: 'closed',
+  updated_at: '2024-06-04T10:00:00Z',
+  closed_at: '2024-06-04T10:00:00Z'
+};
+
+const workflowRun = {
+  id: 30433642,
+  name: 'CI',
+  run_number: 562,
+  event: 'push',
+  status: 'completed',
+  conclusion: 'failure',
+  head_branch: 'main',
+  head_sha: '6dcb09b5b57875f334f61aebed695e2e4193db5e',
+  html_url: 'https://github.com/acme/api/actions/runs/30433642',
+  created_at: '2024-06-03T14:13:00Z',
+  updated_at: '2024-06-03T14:21:00Z'
+};
+
+export const GITHUB_PAYLOAD_FIXTURES: Record<GitHubEvent, any> = {
+  'issues.opened': { action: 'opened', issue, ...envelope },
+  'issues.closed': {
+    action: 'closed',
+    issue: { ...issue, state: 'closed', state_reason: 'completed', closed_at: '2024-06-05T08:00:00Z' },
+    ...envelope
+  },
+  'issues.labeled': {
+    action: 'labeled',
+    label: label('priority:high', 'b60205'),
+    issue: { ...issue, labels: [...issue.labels, label('priority:high', 'b60205')] },
+    ...envelope
+  },
+  'issues.assigned': {
+    action: 'assigned',
+    assignee: sender,
+    issue: { ...issue, assignees: [sender] },
+    ...envelope
+  },
+  'pull_request.opened': { action: 'opened', number: pullRequest.number, pull_request: pullRequest, ...envelope },
+  'pull_request.closed': { action: 'closed', number: pullRequest.number, pull_request: closedPullRequest, ...envelope },
+  // GitHub sends merges as a closed pull request with merged set
+  'pull_request.merged': {
+    action: 'closed',
+    number: pullRequest.number,
+    pull_request: {
+      ...closedPullRequest,
+      merged: true,
+      merged_at: closedPullRequest.closed_at,
+      merged_by: sender,
+      merge_commit_sha: 'e5bd3914e2e596debea16f433f57875b5b90bcd6'
+    },
+    ...envelope
+  },
+  'pull_request.review_requested': {
+    action: 'review_requested',
+    number: pullRequest.number,
+    requested_reviewer: { login: 'hubot', id: 480938, type: 'User' },
+    pull_request: { ...pullRequest, requested_reviewers: [{ login: 'hubot', id: 480938, type: 'User' }] },
+    ...envelope
+  },
+  'pull_request.synchronize': {
+    action: 'synchronize',
+    number: pullRequest.number,
+    before: pullRequest.head.sha,
+    after: 'c2f4b2a1e9d8c7b6a5f4e3d2c1b0a9f8e7d6c5b4',
+    pull_request: { ...pullRequest, commits: 3, head: { ...pullRequest.head, sha: 'c2f4b2a1e9d8c7b6a5f4e3d2c1b0a9f8e7d6c5b4' } },
+    ...envelope
+  },
+  'push': {
+    ref: 'refs/heads/main',
+    before: '9049f1265b7d61be4a8904a9a27120d2064dab3b',
+    after: '6dcb09b5b57875f334f61aebed695e2e4193db5e',
+    created: false,
+    deleted: false,
+    forced: false,
+    compare: 'https://github.com/acme/api/compare/9049f1265b7d...6dcb09b5b578',
+    commits: [commit('6dcb09b5b57875f334f61aebed695e2e4193db5e', 'Fix SSO login error')],
+    head_commit: commit('6dcb09b5b57875f334f61aebed695e2e4193db5e', 'Fix SSO login error'),
+    pusher: { name: 'octocat', email: 'mona@example.com' },
+    ...envelope
+  },
+  'release.published': {
+    action: 'published',
+    release: {
+      id: 1,
+      tag_name: 'v1.4.0',
+      target_commitish: 'main',
+      name: 'v1.4.0',
+      body: '## Changes\n- Fix SSO login error (#88)',
+      draft: false,
+      prerelease: false,
+      author: sender,
+      html_url: 'https://github.com/acme/api/releases/tag/v1.4.0',
+      created_at: '2024-06-05T12:00:00Z',
+      published_at: '2024-06-05T12:05:00Z'
+    },
+    ...envelope
+  },
+  'workflow_run.completed': {
+    action: 'completed',
+    workflow_run: workflowRun,
+    workflow: { id: 161335, name: 'CI', path: '.github/workflows/ci.yml' },
+    ...envelope
+  },
+  'check_suite.completed': {
+    action: 'completed',
+    check_suite: {
+      id: 118578147,
+      status: 'completed',
+      conclusion: 'success',
+      head_branch: 'fix/sso-login',
+      head_sha: pullRequest.head.sha,
+      app: { id: 15368, slug: 'github-actions', name: 'GitHub Actions' },
+      pull_requests: [{ number: pullRequest.number, head: { ref: 'fix/sso-login' }, base: { ref: 'main' } }]
+    },
+    ...envelope
+  },
+  'deployment_status': {
+    action: 'created',
+    deployment_status: {
+      id: 2001,
+      state: 'failure',
+      description: 'Health checks failed',
+      environment: 'production',
+      target_url: 'https://deploy.example.com/runs/2001',
+      creator: sender
+    },
+    deployment: {
+      id: 1001,
+      sha: '6dcb09b5b57875f334f61aebed695e2e4193db5e',
+      ref: 'main',
+      task: 'deploy',
+      environment: 'production',
+      creator: sender
+    },
+    ...envelope
+  },
+  'repository.created': {
+    action: 'created',
+    ...envelope,
+    repository: { ...repository, id: 1296270, name: 'billing', full_name: 'acme/billing', topics: [] }
+  },
+  'repository_vulnerability_alert': {
+    action: 'create',
+    alert: {
+      id: 91095730,
+      affected_range: '< 4.17.21',
+      affected_package_name: 'lodash',
+      fixed_in: '4.17.21',
+      severity: 'high',
+      external_identifier: 'CVE-2021-23337',
+      external_reference: 'https://nvd.nist.gov/vuln/detail/CVE-2021-23337'
+    },
+    ...envelope
+  },
+  // Scheduled and manual runs are not webhooks; these are the payloads the service builds for them
+  'schedule.weekly': {
+    schedule: { cron: '0 9 * * 1', timezone: 'UTC', scheduledAt: '2024-06-03T09:00:00.000Z' }
+  },
+  'manual': { ...envelope },
+  'test_retry': { ...envelope },
+  'deployment': {
+    deployment: { id: 1001, sha: '6dcb09b5b57875f334f61aebed695e2e4193db5e', ref: 'main', environment: 'production' },
+    ...envelope
+  },
+  'error_test': { ...envelope }
+};
+
+/**
+ * A copy of the fixture payload for an event, safe to change in a test
+ */
+export function getPayloadFixture(event: GitHubEvent): any {
+  return JSON.parse(JSON.stringify(GITHUB_PAYLOAD_FIXTURES[event]));
+}
@@ -0,0 +1,167 @@
+import {
+  ActionType,
+  ConditionGroup,
+  ErrorDetails,
+  ExecutionContext,
+  NotificationChannel,
+  NotificationConfig
+} from '../types/workflow-schema';
+import { ActionExecutor } from './action-executor';
+import { TemplateEngine } from './template-engine';
+import logger from '../utils/logger';
+
+export interface NotificationDelivery {
+  channel: NotificationChannel['type'];
+  target: string;
+  status: 'sent' | 'skipped' | 'failed';
+  error?: string;
+}
+
+export type ChannelConditionEvaluator = (condition: ConditionGroup, context: ExecutionContext) => Promise<boolean>;
+
+// The communication action each channel type is sent through
+const CHANNEL_ACTIONS: Record<NotificationChannel['type'], ActionType> = {
+  slack: 'slack_message',
+  email: 'email_send',
+  teams: 'teams_message',
+  discord: 'discord_message',
+  webhook: 'webhook_call'
+};
+
+// Used when a notification names neither a message nor a template
+export const DEFAULT_NOTIFICATION_TEMPLATES: Record<ErrorDetails['reason'], string> = {
+  failure: "Workflow '{{workflow.name}}' failed: {{error.message}}\nFailed action: {{error.actionId}}\nExecution: {{error.executionUrl}}",
+  escalation: "Action '{{error.actionId}}' in workflow '{{workflow.name}}' failed and was escalated: {{error.message}}\nExecution: {{error.executionUrl}}"
+};
+
+export class NotificationDispatcher {
+  private templates: Map<string, string> = new Map(Object.entries(DEFAULT_NOTIFICATION_TEMPLATES));
+
+  constructor(
+    private readonly actionExecutor: ActionExecutor,
+    private readonly templateEngine: TemplateEngine,
+    private readonly evaluateCondition: ChannelConditionEvaluator
+  ) {}
+
+  /**
+   * Register a named template that notifications can select with `template`
+   */
+  public registerTemplate(name: string, template: string): void {
+    this.templates.set(name, template);
+    logger.debug(`Registered notification template: ${name}`);
+  }
+
+  /**
+   * Render the notification and send it to every channel whose condition matches.
+   * Delivery failures are reported per channel rather than thrown.
+   */
+  public async dispatch(
+    config: NotificationConfig,
+    context: ExecutionContext,
+    error: ErrorDetails
+  ): Promise<NotificationDelivery[]> {
+    // Notifications also go out for timed-out executions, so they must not
+    // be tied to the execution's abort signal
+    const notificationContext: ExecutionContext = { ...context, error };
+    delete notificationContext.signal;
+
+    const message = await this.renderMessage(config, notificationContext);
+    const deliveries: NotificationDelivery[] = [];
+
+    for (const channel of config.channels) {
+      deliveries.push(await this.deliver(channel, message, notificationContext));
+    }
+
+    logger.info(`Error notification dispatched`, {
+      executionId: context.execution.id,
+      reason: error.reason,
+      sent: deliveries.filter(delivery => delivery.status === 'sent').length,
+      failed: deliveries.filter(delivery => delivery.status === 'failed').length
+    });
+
+    return deliveries;
+  }
+
+  /**
+   * Render the inline message, or else the named template, or else the default for the reason
+   */
+  private async renderMessage(config: NotificationConfig, context: ExecutionContext): Promise<string> {
+    let template = config.message;
+
+    if (template === undefined && config.template !== undefined) {
+      template = this.templates.get(config.template);
+      if (template === undefined) {
+        logger.warn(`Unknown notification template, using the default`, {
+          executionId: context.execution.id,
+          template: config.template
+        });
+      }
+    }
+
+    return this.templateEngine.resolveTemplate(template ?? DEFAULT_NOTIFICATION_TEMPLATES[context.error!.reason], context);
+  }
+
+  private async deliver(
+    channel: NotificationChannel,
+    message: string,
+    context: ExecutionContext
+  ): Promise<NotificationDelivery> {
+    const delivery: NotificationDelivery = { channel: channel.type, target: channel.target, status: 'sent' };
+
+    if (channel.condition && !await this.evaluateCondition(channel.condition, context)) {
+      delivery.status = 'skipped';
+      return delivery;
+    }
+
+    try {
+      await this.actionExecutor.execute(
+        CHANNEL_ACTIONS[channel.type],
+        this.buildParameters(channel, message, context),
+        context
+      );
+    } catch (error) {
+      delivery.status = 'failed';
+      delivery.error = error instanceof Error ? error.message : 'Unknown error';
+
+      logger.error(`Failed to send error notification`, {
+        executionId: context.execution.id,
+        channel: channel.type,
+        target: channel.target,
+        error: delivery.error
+      });
+    }
+
+    return delivery;
+  }
+
+  /**
+   * Map a channel onto the parameters of its communication action
+   */
+  private buildParameters(channel: NotificationChannel, message: string, context: ExecutionContext): Record<string, any> {
+    const error = context.error!;
+    const subject = error.reason === 'escalation'
+      ? `Escalation: ${context.workflow.name} / ${error.actionId}`
+      : `Workflow failed: ${context.workflow.name}`;
+
+    switch (channel.type) {
+      case 'slack':
+        return { channel: channel.target, message };
+      case 'email':
+        return { to: channel.target, subject, body: message };
+      case 'teams':
+        return { webhookUrl: channel.target, title: subject, message };
+      case 'discord':
+        return { webhookUrl: channel.target, message };
+      case 'webhook':
+        return {
+          url: channel.target,
+          payload: {
+            workflow: context.workflow.name,
+            executionId: context.execution.id,
+            error,
+            message
+          }
+        };
+    }
+  }
+}
@@ -103,7 +103,9 @@ export class TemplateEngine {
       repository: context.repository,
       execution: context.execution,
       variables: context.variables,
-      // Note: secrets are not included for security
+      actions: context.actions || {},
+      ...(context.error && { error: context.error }),
+      secrets: context.secrets || {},
       ...this.getComputedVariables(context)
     };
   }
@@ -7,20 +7,85 @@ import {
   RetryPolicy,
   BackoffStrategy,
   ErrorAction,
-  ConditionGroup
+  ConditionGroup,
+  ActionType,
+  ActionReference,
+  ErrorDetails,
+  NotificationConfig,
+  NESTED_ACTION_PARAMETERS
 } from '../types/workflow-schema';
-import { ExecutionHistory } from './execution-history';
+import { ExecutionHistory, ActionStatusUpdate } from './execution-history';
 import { DependencyResolver } from './dependency-resolver';
-import { ActionExecutor } from './action-executor';
+import { ActionExecutor, ActionExecutionError, ActionExecutorResult, BaseActionExecutor } from './action-executor';
+import { NotificationDispatcher } from './notification-dispatcher';
 import { TemplateEngine } from './template-engine';
+import {
+  ExecutionAbortedError,
+  abortable,
+  createAttemptSignal,
+  getAbortError,
+  isAbortError,
+  sleep
+} from './cancellation';
 import { ConditionEvaluator, EvaluationContext } from '../utils/condition-evaluator';
+import { FieldResolver } from '../utils/field-resolver';
+import { secretRedactor } from '../utils/redaction';
 import logger from '../utils/logger';
 
 export interface WorkflowExecutionOptions {
   maxConcurrency?: number | undefined;
   defaultTimeout?: number | undefined;
   enableMetrics?: boolean | undefined;
-  dryRun?: boolean | undefined;
+  dryRun?: boolean | undefined; // Plan the calls actions would make without making them
+  maxChainDepth?: number | undefined; // How deep onSuccess.triggerWorkflow runs may nest
+  executionUrlBase?: string | undefined; // Error notifications link to `${executionUrlBase}/${executionId}`
+  persistHistory?: boolean | undefined; // Store executions in the database; off for test runs
+}
+
+/**
+ * Continue a failed execution from its checkpoint: its completed and skipped actions
+ * are taken over and everything else runs again. With `actionId`, only that action
+ * runs again; the other completed and skipped actions are taken over, and actions
+ * that failed or did not run are left out.
+ */
+export interface ExecutionResume {
+  executionId: string;
+  checkpoint: ActionResult[];
+  actionId?: string | undefined;
+}
+
+/**
+ * Options for a single execution
+ */
+export interface ExecutionRunOptions {
+  dryRun?: boolean | undefined; // Overrides the engine's setting
+  resume?: ExecutionResume | undefined;
+}
+
+export interface ChainedWorkflowRequest {
+  workflowName: string;
+  triggerEvent: any;
+  parentExecutionId: string;
+  chainDepth: number;
+}
+
+/**
+ * Callbacks into whatever owns the registered workflows, used by onSuccess
+ */
+export interface WorkflowEngineHooks {
+  // Start a workflow run and resolve with its execution ID
+  triggerWorkflow?: (request: ChainedWorkflowRequest) => Promise<string>;
+  // Merge changes into a workflow's stored metadata
+  updateMetadata?: (workflowName: string, changes: Record<string, any>) => Promise<void>;
+  // Called before each attempt to run an action; a result returned is used
+  // instead of running the action's executor
+  beforeAction?: (call: ActionCall) => Promise<ActionExecutorResult | undefined>;
+}
+
+export interface ActionCall {
+  action: ActionConfig;
+  parameters: any; // Resolved parameters
+  context: ExecutionContext;
 }
 
 export interface ExecutionResult {
@@ -47,48 +112,83 @@ export interface ExecutionMetrics {
   shortestAction: string;
 }
 
+// Parameters the action's executor resolves itself, e.g. a loop's items selector,
+// which must resolve to the array rather than its string form
+const EXECUTOR_RESOLVED_PARAMETERS: Partial<Record<ActionType, string[]>> = {
+  loop: ['items']
+};
+
 export class WorkflowEngine extends EventEmitter {
   private executionHistory: ExecutionHistory;
   private dependencyResolver: DependencyResolver;
   private actionExecutor: ActionExecutor;
   private templateEngine: TemplateEngine;
+  private fieldResolver: FieldResolver;
+  private notificationDispatcher: NotificationDispatcher;
   private activeExecutions: Map<string, ExecutionContext>;
+  private activeWorkflows: Map<string, WorkflowDefinition> = new Map();
+  private abortControllers: Map<string, AbortController> = new Map();
   private options: WorkflowExecutionOptions;
 
-  constructor(options: WorkflowExecutionOptions = {}) {
+  constructor(options: WorkflowExecutionOptions = {}, private readonly hooks: WorkflowEngineHooks = {}) {
     super();
     this.options = {
       maxConcurrency: 10,
       defaultTimeout: 300, // 5 minutes
       enableMetrics: true,
       dryRun: false,
+      maxChainDepth: 5,
+      persistHistory: true,
       ...options
     };
 
-    this.executionHistory = new ExecutionHistory();
+    this.executionHistory = new ExecutionHistory({ persist: this.options.persistHistory! });
     this.dependencyResolver = new DependencyResolver();
-    this.actionExecutor = new ActionExecutor();
+    this.actionExecutor = new ActionExecutor({
+      evaluateCondition: (condition, context) => this.evaluateCondition(condition, context),
+      runActions: (actions, context) => this.executeNestedActions(actions, context)
+    });
     this.templateEngine = new TemplateEngine();
+    this.fieldResolver = new FieldResolver({ graceful: true });
+    this.notificationDispatcher = new NotificationDispatcher(
+      this.actionExecutor,
+      this.templateEngine,
+      (condition, context) => this.evaluateCondition(condition, context)
+    );
     this.activeExecutions = new Map();
 
     this.setupEventHandlers();
   }
 
   /**
-   * Execute a workflow with the given context
+   * Execute a workflow with the given context. `options.dryRun` overrides the
+   * engine's setting for this execution only.
    */
   public async executeWorkflow(
     workflow: WorkflowDefinition,
     triggerContext: any,
-    executionId?: string
+    executionId?: string,
+    options: ExecutionRunOptions = {}
   ): Promise<ExecutionResult> {
     const execId = executionId || this.generateExecutionId();
     const startTime = new Date();
+    const abortController = new AbortController();
+    const dryRun = options.dryRun ?? this.options.dryRun ?? false;
+    let timeoutTimer: NodeJS.Timeout | undefined;
+
+    // Values resolved into action parameters must not reach logs or history
+    // while the execution runs
+    const releaseSecrets = secretRedactor.register(Object.values(triggerContext.secrets || {}));
 
     try {
       // Create execution context
-      const context = await this.createExecutionContext(workflow, triggerContext, execId);
+      const context = await this.createExecutionContext(workflow, triggerContext, execId, abortController.signal, {
+        dryRun,
+        resume: options.resume
+      });
       this.activeExecutions.set(execId, context);
+      this.activeWorkflows.set(execId, workflow);
+      this.abortControllers.set(execId, abortController);
 
       // Start execution tracking
       await this.executionHistory.startExecution(execId, workflow, context);
@@ -97,15 +197,18 @@ export class WorkflowEngine extends EventEmitter {
       logger.info(`Starting workflow execution: ${workflow.name}`, {
         executionId: execId,
         workflowName: workflow.name,
-        trigger: triggerContext
+        trigger: triggerContext,
+        ...(dryRun && { dryRun }),
+        ...(options.resume && { resumedFrom: options.resume.executionId })
       });
 
-      // Check workflow timeout
-      const timeoutPromise = this.createTimeoutPromise(workflow.timeout || this.options.defaultTimeout!);
-      const executionPromise = this.executeWorkflowActions(workflow, context);
+      // Abort the execution when the workflow timeout elapses
+      const timeoutSeconds = workflow.timeout || this.options.defaultTimeout!;
+      timeoutTimer = setTimeout(() => {
+        abortController.abort(new ExecutionAbortedError('timeout', `Workflow execution timed out after ${timeoutSeconds}s`));
+      }, timeoutSeconds * 1000);
 
-      // Race between execution and timeout
-      const result = await Promise.race([executionPromise, timeoutPromise]);
+      const result = await this.executeWorkflowActions(workflow, context, options.resume);
 
       if (result.status === 'timeout') {
         await this.handleExecutionTimeout(execId, workflow);
@@ -129,7 +232,7 @@ export class WorkflowEngine extends EventEmitter {
 
       // Complete execution tracking
       await this.executionHistory.completeExecution(execId, executionResult);
-      this.activeExecutions.delete(execId);
+      await this.notifyExecutionFailure(workflow, context, executionResult);
 
       this.emit('execution:completed', executionResult);
       logger.info(`Workflow execution completed: ${workflow.name}`, {
@@ -158,27 +261,41 @@ export class WorkflowEngine extends EventEmitter {
       };
 
       await this.executionHistory.completeExecution(execId, executionResult);
-      this.activeExecutions.delete(execId);
 
-      this.emit('execution:failed', { executionId: execId, error: errorMessage });
+      const context = this.activeExecutions.get(execId);
+      if (context) {
+        await this.notifyExecutionFailure(workflow, context, executionResult);
+      }
+
+      this.emit('execution:failed', { executionId: execId, workflow: workflow.name, error: errorMessage });
       logger.error(`Workflow execution failed: ${workflow.name}`, {
         executionId: execId,
         error: errorMessage
       });
 
       throw error;
+    } finally {
+      clearTimeout(timeoutTimer);
+      releaseSecrets();
+      this.activeExecutions.delete(execId);
+      this.activeWorkflows.delete(execId);
+      this.abortControllers.delete(execId);
     }
   }
 
   /**
-   * Execute workflow actions with dependency resolution
+   * Execute workflow actions with dependency resolution. When resuming, results taken
+   * over from the checkpoint replace running their actions, in the same stage order.
    */
   private async executeWorkflowActions(
     workflow: WorkflowDefinition,
-    context: ExecutionContext
+    context: ExecutionContext,
+    resume?: ExecutionResume
   ): Promise<{ status: 'completed' | 'failed' | 'cancelled' | 'timeout'; actionResults: ActionResult[]; error?: string }> {
     const actionResults: ActionResult[] = [];
-    
+    const reusable = this.getReusableResults(resume);
+    let rollbackFrom: ActionResult | undefined;
+
     try {
       // Resolve action execution order based on dependencies
       const executionPlan = this.dependencyResolver.resolveExecutionOrder(workflow.actions);
@@ -191,8 +308,19 @@ export class WorkflowEngine extends EventEmitter {
 
       // Execute actions in dependency order
       for (const stage of executionPlan) {
-        const stageResults = await this.executeActionStage(stage, context, actionResults);
+        // Never start a new stage once the execution was cancelled or timed out
+        if (context.signal?.aborted) {
+          break;
+        }
+
+        const reused = this.reuseResults(stage, reusable, context, resume?.executionId);
+        actionResults.push(...reused);
+
+        const pending = stage.filter(action => this.shouldRunOnResume(action, reusable, resume));
+        const stageResults = await this.executeActionStage(pending, context, actionResults);
         actionResults.push(...stageResults);
+        await this.executionHistory.checkpointActions(context.execution.id, [...reused, ...stageResults]);
+        await this.escalateFailures(stageResults, workflow.actions, context);
 
         // Check if any critical action failed and should stop execution
         const criticalFailure = stageResults.find(result => 
@@ -205,10 +333,43 @@ export class WorkflowEngine extends EventEmitter {
             failedAction: criticalFailure.actionId,
             error: criticalFailure.error
           });
+
+          if (workflow.actions.find(a => a.id === criticalFailure.actionId)?.onError === 'rollback') {
+            rollbackFrom = criticalFailure;
+          }
           break;
         }
       }
 
+      if (rollbackFrom && !context.signal?.aborted) {
+        const compensations = await this.compensateActions(workflow.actions, actionResults, context);
+        actionResults.push(...compensations);
+
+        const incomplete = compensations.filter(result => result.status !== 'completed' && result.status !== 'skipped');
+        return {
+          status: 'failed',
+          actionResults,
+          error: incomplete.length > 0
+            ? `Action '${rollbackFrom.actionId}' failed and rollback was incomplete: ${incomplete.map(result => result.compensates).join(', ')}`
+            : `Action '${rollbackFrom.actionId}' failed and ${compensations.length} action(s) were rolled back`
+        };
+      }
+
+      if (context.signal?.aborted) {
+        const abortError = getAbortError(context.signal);
+        logger.warn(`Workflow execution aborted`, {
+          executionId: context.execution.id,
+          reason: abortError.reason,
+          completedActions: actionResults.filter(result => result.status === 'completed').length
+        });
+
+        return {
+          status: abortError.reason,
+          actionResults,
+          error: abortError.message
+        };
+      }
+
       // Determine final status
       const hasFailures = actionResults.some(result => result.status === 'failed');
       const status = hasFailures && workflow.errorHandling?.onFailure === 'stop' ? 'failed' : 'completed';
@@ -234,6 +395,60 @@ export class WorkflowEngine extends EventEmitter {
     }
   }
 
+  /**
+   * Checkpoint results a resumed execution takes over, by action ID
+   */
+  private getReusableResults(resume?: ExecutionResume): Map<string, ActionResult> {
+    const reusable = new Map<string, ActionResult>();
+
+    for (const result of resume?.checkpoint || []) {
+      const succeeded = result.status === 'completed' || result.status === 'skipped';
+      if (succeeded && result.actionId !== resume!.actionId) {
+        reusable.set(result.actionId, result);
+      }
+    }
+
+    return reusable;
+  }
+
+  /**
+   * Take over the checkpoint results of a stage's actions, recording them as if they
+   * had just run so their outputs reach the actions that depend on them
+   */
+  private reuseResults(
+    stage: ActionConfig[],
+    reusable: Map<string, ActionResult>,
+    context: ExecutionContext,
+    resumedFrom?: string
+  ): ActionResult[] {
+    const reused: ActionResult[] = [];
+
+    for (const action of stage) {
+      const previous = action.id ? reusable.get(action.id) : undefined;
+      if (previous && resumedFrom) {
+        const result: ActionResult = { ...previous, reusedFrom: resumedFrom };
+        this.recordActionResult(action, result, context);
+        reused.push(result);
+      }
+    }
+
+    return reused;
+  }
+
+  /**
+   * Whether an action runs in this execution: every action not taken over, or only
+   * the retried action when retrying a single one
+   */
+  private shouldRunOnResume(action: ActionConfig, reusable: Map<string, ActionResult>, resume?: ExecutionResume): boolean {
+    if (!resume) {
+      return true;
+    }
+    if (resume.actionId) {
+      return action.id === resume.actionId;
+    }
+    return !action.id || !reusable.has(action.id);
+  }
+
   /**
    * Execute a stage of actions (actions that can run in parallel)
    */
@@ -257,6 +472,7 @@ export class WorkflowEngine extends EventEmitter {
       } else {
         // Execute synchronously
         const result = await this.executeAction(action, context);
+        this.recordActionResult(action, result, context);
         stageResults.push(result);
         
         // Update context with this result for subsequent actions
@@ -267,14 +483,17 @@ export class WorkflowEngine extends EventEmitter {
     // Wait for all concurrent executions to complete
     if (concurrentExecutions.length > 0) {
       const concurrentResults = await Promise.allSettled(concurrentExecutions);
+      const asyncActions = actions.filter(a => a.runAsync);
       
       concurrentResults.forEach((result, index) => {
+        const action = asyncActions[index]!;
+
         if (result.status === 'fulfilled') {
+          this.recordActionResult(action, result.value, context);
           stageResults.push(result.value);
         } else {
           // Create failed result for rejected promise
-          const action = actions.filter(a => a.runAsync)[index]!;
-          stageResults.push({
+          const failedResult: ActionResult = {
             actionId: action.id || `action-${index}`,
             actionType: action.type,
             status: 'failed',
@@ -282,7 +501,9 @@ export class WorkflowEngine extends EventEmitter {
             endTime: new Date().toISOString(),
             error: result.reason instanceof Error ? result.reason.message : 'Unknown error',
             retryCount: 0
-          });
+          };
+          this.recordActionResult(action, failedResult, context);
+          stageResults.push(failedResult);
         }
       });
     }
@@ -290,6 +511,99 @@ export class WorkflowEngine extends EventEmitter {
     return stageResults;
   }
 
+  /**
+   * Make a finished action addressable as `actions.<id>` in templates and conditions,
+   * and promote its declared outputs into the execution variables
+   */
+  private recordActionResult(action: ActionConfig, result: ActionResult, context: ExecutionContext): void {
+    const reference: ActionReference = {
+      status: result.status,
+      result: result.result,
+      ...(result.error && { error: result.error }),
+      output: {}
+    };
+
+    if (result.status === 'completed' && action.outputs) {
+      for (const [name, path] of Object.entries(action.outputs)) {
+        const value = this.fieldResolver.resolve(reference, path);
+        reference.output[name] = value;
+        context.variables[name] = value;
+      }
+    }
+
+    (context.actions ??= {})[result.actionId] = reference;
+  }
+
+  /**
+   * Undo completed actions by running their compensations, most recent first so
+   * that an action is undone before the actions it depended on. A failing
+   * compensation does not stop the others.
+   */
+  private async compensateActions(
+    actions: ActionConfig[],
+    results: ActionResult[],
+    context: ExecutionContext
+  ): Promise<ActionResult[]> {
+    const compensations: ActionResult[] = [];
+
+    for (const forward of [...results].reverse()) {
+      const compensation = actions.find(a => a.id === forward.actionId)?.compensation;
+      if (forward.status !== 'completed' || !compensation) {
+        continue;
+      }
+
+      logger.info(`Compensating action`, {
+        executionId: context.execution.id,
+        actionId: forward.actionId,
+        compensationType: compensation.type
+      });
+
+      context.execution.previousActions = results;
+      const result = await this.executeAction({ ...compensation, id: `${forward.actionId}.compensation` }, context);
+      result.compensates = forward.actionId;
+      compensations.push(result);
+    }
+
+    return compensations;
+  }
+
+  /**
+   * Run nested actions (e.g. a conditional branch) within the current execution.
+   * Returns their results in order; the caller reports them as children.
+   */
+  private async executeNestedActions(
+    actions: ActionConfig[],
+    context: ExecutionContext
+  ): Promise<ActionResult[]> {
+    const outerResults = context.execution.previousActions;
+    const nestedResults: ActionResult[] = [];
+
+    try {
+      for (const stage of this.dependencyResolver.resolveExecutionOrder(actions)) {
+        if (context.signal?.aborted) {
+          break;
+        }
+
+        const stageResults = await this.executeActionStage(stage, context, [...outerResults, ...nestedResults]);
+        nestedResults.push(...stageResults);
+        await this.escalateFailures(stageResults, actions, context);
+
+        const criticalFailure = stageResults.find(result =>
+          result.status === 'failed' && this.shouldStopOnError(actions.find(a => a.id === result.actionId))
+        );
+
+        if (criticalFailure) {
+          break;
+        }
+      }
+    } finally {
+      // Later actions at the outer level see the parent's siblings, not its children
+      context.execution.previousActions = outerResults;
+    }
+
+    return nestedResults;
+  }
+
   /**
    * Execute a single action with retry logic
    */
@@ -310,6 +624,11 @@ export class WorkflowEngine extends EventEmitter {
       retryCount: 0
     };
 
+    // Don't start actions once the execution was cancelled or timed out
+    if (context.signal?.aborted) {
+      return this.markActionCancelled(result, context, getAbortError(context.signal));
+    }
+
     // Update execution history
     await this.executionHistory.updateActionStatus(context.execution.id, actionId, 'running');
 
@@ -329,7 +648,7 @@ export class WorkflowEngine extends EventEmitter {
       }
 
       // Resolve template variables in action parameters
-      const resolvedParameters = await this.templateEngine.resolveTemplate(action.parameters, context);
+      const resolvedParameters = await this.resolveActionParameters(action, actionId, context);
       
       logger.debug(`Executing action`, {
         executionId: context.execution.id,
@@ -348,23 +667,35 @@ export class WorkflowEngine extends EventEmitter {
         try {
           // Execute the action
           result.status = 'running';
-          const actionResult = await this.executeActionWithTimeout(action, resolvedParameters, context);
+          const outcome = await this.executeActionWithTimeout(action, resolvedParameters, context);
           
           result.status = 'completed';
-          result.result = actionResult;
+          result.result = outcome.result;
+          this.setChildResults(result, outcome.children);
+          if (outcome.effects) {
+            result.effects = outcome.effects;
+          }
           result.endTime = new Date().toISOString();
           
           logger.debug(`Action completed successfully`, {
             executionId: context.execution.id,
             actionId,
             attempt: attempt + 1,
-            result: actionResult
+            result: outcome.result
           });
           
           break; // Success, exit retry loop
           
         } catch (error) {
+          // Cancellation is final; it is neither retried nor recorded as a failure
+          if (isAbortError(error)) {
+            return await this.markActionCancelled(result, context, error);
+          }
+
           lastError = error instanceof Error ? error.message : 'Unknown error';
+          if (error instanceof ActionExecutionError) {
+            this.setChildResults(result, error.children);
+          }
           
           logger.warn(`Action attempt failed`, {
             executionId: context.execution.id,
@@ -383,7 +714,7 @@ export class WorkflowEngine extends EventEmitter {
               delay: `${delay}ms`
             });
             
-            await this.delay(delay);
+            await sleep(delay, context.signal);
           } else {
             // Max attempts reached or shouldn't retry
             result.status = 'failed';
@@ -394,12 +725,16 @@ export class WorkflowEngine extends EventEmitter {
         }
       }
 
+      if (result.status === 'completed' && action.onSuccess) {
+        await this.runSuccessActions(action, result, context);
+      }
+
       // Update execution history (only for final states)
       if (result.status !== 'pending') {
         await this.executionHistory.updateActionStatus(
           context.execution.id,
           actionId,
-          result.status as 'running' | 'completed' | 'failed' | 'skipped',
+          result.status as ActionStatusUpdate,
           result.result,
           result.error
         );
@@ -408,6 +743,11 @@ export class WorkflowEngine extends EventEmitter {
       return result;
 
     } catch (error) {
+      // Aborted while waiting between retries
+      if (isAbortError(error)) {
+        return this.markActionCancelled(result, context, error);
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       
       result.status = 'failed';
@@ -433,21 +773,220 @@ export class WorkflowEngine extends EventEmitter {
   }
 
   /**
-   * Execute action with timeout
+   * Resolve template variables in action parameters. Nested actions are left
+   * as-is, apart from being given stable IDs, and resolve their own templates when run.
+   * Parameters the executor resolves itself are passed through unchanged.
+   */
+  private async resolveActionParameters(
+    action: ActionConfig,
+    actionId: string,
+    context: ExecutionContext
+  ): Promise<any> {
+    const nestedKeys = (NESTED_ACTION_PARAMETERS[action.type] || [])
+      .filter(key => Array.isArray(action.parameters?.[key]));
+    const executorKeys = (EXECUTOR_RESOLVED_PARAMETERS[action.type] || [])
+      .filter(key => action.parameters?.[key] !== undefined);
+
+    if (nestedKeys.length === 0 && executorKeys.length === 0) {
+      return this.templateEngine.resolveTemplate(action.parameters, context);
+    }
+
+    const parameters = { ...action.parameters };
+    [...nestedKeys, ...executorKeys].forEach(key => delete parameters[key]);
+
+    const resolved = await this.templateEngine.resolveTemplate(parameters, context);
+
+    for (const key of executorKeys) {
+      resolved[key] = action.parameters[key];
+    }
+
+    for (const key of nestedKeys) {
+      resolved[key] = (action.parameters[key] as ActionConfig[]).map((nested, index) => ({
+        ...nested,
+        id: nested.id || `${actionId}.${key}.${index}`
+      }));
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Attach the results of nested actions to their parent's result
+   */
+  private setChildResults(result: ActionResult, children?: ActionResult[]): void {
+    if (children) {
+      result.children = children;
+    }
+  }
+
+  /**
+   * Execute one attempt at an action with timeout. The attempt runs with its own
+   * signal, aborted on timeout as well as with the execution, so its requests stop
+   * before a retry starts.
    */
   private async executeActionWithTimeout(
     action: ActionConfig,
     parameters: any,
     context: ExecutionContext
-  ): Promise<any> {
+  ): Promise<ActionExecutorResult> {
     const timeout = action.timeout || this.options.defaultTimeout!;
-    const timeoutPromise = new Promise((_, reject) => {
-      setTimeout(() => reject(new Error(`Action timeout after ${timeout}s`)), timeout * 1000);
+    const attempt = createAttemptSignal(context.signal, timeout);
+
+    try {
+      return await abortable(this.runAction(action, parameters, { ...context, signal: attempt.signal }), attempt.signal);
+    } finally {
+      attempt.dispose();
+    }
+  }
+
+  /**
+   * Run an action's executor, unless the beforeAction hook supplies the result
+   */
+  private async runAction(action: ActionConfig, parameters: any, context: ExecutionContext): Promise<ActionExecutorResult> {
+    const substitute = await this.hooks.beforeAction?.({ action, parameters, context });
+    if (!substitute) {
+      return this.actionExecutor.execute(action.type, parameters, context);
+    }
+
+    if (!substitute.success) {
+      throw new ActionExecutionError(substitute.error || 'Action execution failed', substitute.children);
+    }
+    return substitute;
+  }
+
+  /**
+   * Record an action that was stopped, or never started, because the execution was aborted
+   */
+  private async markActionCancelled(
+    result: ActionResult,
+    context: ExecutionContext,
+    abortError: ExecutionAbortedError
+  ): Promise<ActionResult> {
+    result.status = 'cancelled';
+    result.error = abortError.message;
+    result.endTime = new Date().toISOString();
+
+    logger.info(`Action cancelled`, {
+      executionId: context.execution.id,
+      actionId: result.actionId,
+      reason: abortError.reason
     });
 
-    const executionPromise = this.actionExecutor.execute(action.type, parameters, context);
+    await this.executionHistory.updateActionStatus(
+      context.execution.id,
+      result.actionId,
+      'cancelled',
+      undefined,
+      abortError.message
+    );
+
+    return result;
+  }
+
+  /**
+   * Run an action's onSuccess follow-ups. The action has already succeeded,
+   * so failures here are logged rather than failing it.
+   */
+  private async runSuccessActions(
+    action: ActionConfig,
+    result: ActionResult,
+    context: ExecutionContext
+  ): Promise<void> {
+    const { updateMetadata, triggerWorkflow } = action.onSuccess!;
+
+    // Follow-ups can refer to this action's own result and outputs
+    this.recordActionResult(action, result, context);
+
+    // Both follow-ups change state outside the execution
+    if (context.dryRun) {
+      logger.debug(`Skipping onSuccess follow-ups in dry run`, {
+        executionId: context.execution.id,
+        actionId: result.actionId
+      });
+      return;
+    }
+
+    if (updateMetadata) {
+      try {
+        if (!this.hooks.updateMetadata) {
+          throw new Error('Workflow metadata updates are not available');
+        }
+
+        const changes = await this.templateEngine.resolveTemplate(updateMetadata, context);
+        await this.hooks.updateMetadata(context.workflow.name, changes);
+      } catch (error) {
+        logger.error(`Failed to update workflow metadata`, {
+          executionId: context.execution.id,
+          actionId: result.actionId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
 
-    return Promise.race([executionPromise, timeoutPromise]);
+    if (triggerWorkflow) {
+      try {
+        result.triggeredExecutionId = await this.triggerChainedWorkflow(triggerWorkflow, result, context);
+      } catch (error) {
+        logger.error(`Failed to trigger chained workflow`, {
+          executionId: context.execution.id,
+          actionId: result.actionId,
+          workflowName: triggerWorkflow,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  }
+
+  /**
+   * Start another workflow with this execution's outputs as its trigger payload
+   */
+  private async triggerChainedWorkflow(
+    workflowName: string,
+    result: ActionResult,
+    context: ExecutionContext
+  ): Promise<string> {
+    if (!this.hooks.triggerWorkflow) {
+      throw new Error('Triggering workflows is not available');
+    }
+
+    const chainDepth = (context.execution.chainDepth || 0) + 1;
+    if (chainDepth > this.options.maxChainDepth!) {
+      throw new Error(`Workflow chain depth limit (${this.options.maxChainDepth}) reached`);
+    }
+
+    // Declared outputs of every action that has finished so far
+    const outputs = Object.values(context.actions || {})
+      .reduce((merged, reference) => ({ ...merged, ...reference.output }), {});
+
+    const executionId = await this.hooks.triggerWorkflow({
+      workflowName,
+      parentExecutionId: context.execution.id,
+      chainDepth,
+      triggerEvent: {
+        event: 'workflow.chained',
+        payload: {
+          parent: {
+            executionId: context.execution.id,
+            workflow: context.workflow.name,
+            actionId: result.actionId
+          },
+          outputs,
+          result: result.result
+        },
+        repository: context.repository,
+        ...(context.installation && { installation: context.installation })
+      }
+    });
+
+    logger.info(`Chained workflow triggered`, {
+      executionId: context.execution.id,
+      actionId: result.actionId,
+      workflowName,
+      chainedExecutionId: executionId,
+      chainDepth
+    });
+
+    return executionId;
   }
 
   /**
@@ -497,12 +1036,94 @@ export class WorkflowEngine extends EventEmitter {
     return true;
   }
 
+  /**
+   * Notify the workflow's error channels right away about failed actions with onError 'escalate'
+   */
+  private async escalateFailures(
+    results: ActionResult[],
+    actions: ActionConfig[],
+    context: ExecutionContext
+  ): Promise<void> {
+    const escalated = results.filter(result =>
+      result.status === 'failed' && actions.find(a => a.id === result.actionId)?.onError === 'escalate'
+    );
+    if (escalated.length === 0) {
+      return;
+    }
+
+    const notifyOnError = this.activeWorkflows.get(context.execution.id)?.errorHandling?.notifyOnError;
+    if (!notifyOnError) {
+      logger.warn(`Action escalated without error notification channels`, {
+        executionId: context.execution.id,
+        actions: escalated.map(result => result.actionId)
+      });
+      return;
+    }
+
+    for (const result of escalated) {
+      await this.sendErrorNotification(notifyOnError, context, {
+        reason: 'escalation',
+        message: result.error || 'Action failed',
+        actionId: result.actionId,
+        actionType: result.actionType
+      });
+    }
+  }
+
+  /**
+   * Notify the workflow's error channels when an execution failed or timed out, or
+   * finished with failed actions that were not already escalated
+   */
+  private async notifyExecutionFailure(
+    workflow: WorkflowDefinition,
+    context: ExecutionContext,
+    result: ExecutionResult
+  ): Promise<void> {
+    const notifyOnError = workflow.errorHandling?.notifyOnError;
+    if (!notifyOnError || result.status === 'cancelled') {
+      return;
+    }
+
+    const failedAction = result.actionResults.find(action =>
+      action.status === 'failed' && workflow.actions.find(a => a.id === action.actionId)?.onError !== 'escalate'
+    );
+    if (result.status === 'completed' && !failedAction) {
+      return;
+    }
+
+    await this.sendErrorNotification(notifyOnError, context, {
+      reason: 'failure',
+      message: (result.status === 'timeout' ? result.error : failedAction?.error ?? result.error) || 'Workflow execution failed',
+      status: result.status,
+      ...(failedAction && { actionId: failedAction.actionId, actionType: failedAction.actionType })
+    });
+  }
+
+  private async sendErrorNotification(
+    config: NotificationConfig,
+    context: ExecutionContext,
+    details: ErrorDetails
+  ): Promise<void> {
+    try {
+      await this.notificationDispatcher.dispatch(config, context, {
+        ...details,
+        ...(this.options.executionUrlBase && { executionUrl: `${this.options.executionUrlBase}/${context.execution.id}` })
+      });
+    } catch (error) {
+      logger.error(`Failed to send error notification`, {
+        executionId: context.execution.id,
+        reason: details.reason,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   /**
    * Check if execution should stop on action error
    */
   private shouldStopOnError(action?: ActionConfig): boolean {
     if (!action) return false;
-    return action.onError === 'stop';
+    return action.onError === 'stop' || action.onError === 'rollback';
   }
 
   /**
@@ -511,13 +1132,19 @@ export class WorkflowEngine extends EventEmitter {
   private async createExecutionContext(
     workflow: WorkflowDefinition,
     triggerContext: any,
-    executionId: string
+    executionId: string,
+    signal?: AbortSignal,
+    options: ExecutionRunOptions = {}
   ): Promise<ExecutionContext> {
+    const installationId = triggerContext.installation?.id ?? triggerContext.payload?.installation?.id;
+    const secrets: Record<string, string> = triggerContext.secrets || {};
+
     return {
       workflow: {
         id: workflow.name,
         name: workflow.name,
-        version: workflow.version || '1.0.0'
+        version: workflow.version || '1.0.0',
+        ...(triggerContext.workflowVersion && { versionNumber: triggerContext.workflowVersion })
       },
       trigger: {
         event: triggerContext.event,
@@ -525,13 +1152,22 @@ export class WorkflowEngine extends EventEmitter {
         payload: triggerContext.payload
       },
       repository: triggerContext.repository,
-      variables: triggerContext.variables || {},
-      secrets: triggerContext.secrets || {},
+      ...(installationId && { installation: { id: installationId } }),
+      variables: { ...triggerContext.variables }, // Copied, as action outputs are added to it
+      secrets,
       execution: {
         id: executionId,
         startTime: new Date().toISOString(),
-        previousActions: []
-      }
+        previousActions: [],
+        ...(triggerContext.chain && {
+          parentExecutionId: triggerContext.chain.parentExecutionId,
+          chainDepth: triggerContext.chain.chainDepth
+        }),
+        ...(options.resume && { resumedFromExecutionId: options.resume.executionId })
+      },
+      actions: {},
+      ...(signal && { signal }),
+      ...(options.dryRun && { dryRun: true })
     };
   }
 
@@ -548,6 +1184,8 @@ export class WorkflowEngine extends EventEmitter {
         variables: context.variables,
         secrets: context.secrets,
         execution: context.execution,
+        actions: context.actions || {},
+        ...(context.error && { error: context.error }),
         // Add any additional context data that might be needed
         event: context.trigger.payload,
         sender: context.trigger.payload?.sender,
@@ -567,17 +1205,6 @@ export class WorkflowEngine extends EventEmitter {
     }
   }
 
-  /**
-   * Create timeout promise
-   */
-  private createTimeoutPromise(timeoutSeconds: number): Promise<{ status: 'timeout'; actionResults: ActionResult[] }> {
-    return new Promise(resolve => {
-      setTimeout(() => {
-        resolve({ status: 'timeout', actionResults: [] });
-      }, timeoutSeconds * 1000);
-    });
-  }
-
   /**
    * Handle execution timeout
    */
@@ -587,8 +1214,7 @@ export class WorkflowEngine extends EventEmitter {
       workflowName: workflow.name
     });
 
-    // Cancel any pending actions
-    // This would integrate with action cancellation logic
+    // Running actions were already stopped through the execution's abort signal
     this.emit('execution:timeout', { executionId, workflow: workflow.name });
   }
 
@@ -643,13 +1269,6 @@ export class WorkflowEngine extends EventEmitter {
     return `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  /**
-   * Utility delay function
-   */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   /**
    * Setup event handlers
    */
@@ -669,6 +1288,11 @@ export class WorkflowEngine extends EventEmitter {
     this.on('execution:failed', (data) => {
       logger.error(`Workflow execution failed`, data);
     });
+
+    // Surface per-action progress so it can be streamed to clients
+    this.executionHistory.on('action:progress', (data) => {
+      this.emit('execution:progress', data);
+    });
   }
 
   /**
@@ -683,17 +1307,19 @@ export class WorkflowEngine extends EventEmitter {
    */
   public async cancelExecution(executionId: string): Promise<boolean> {
     const context = this.activeExecutions.get(executionId);
-    if (!context) {
+    const abortController = this.abortControllers.get(executionId);
+    if (!context || !abortController || abortController.signal.aborted) {
       return false;
     }
 
     logger.info(`Cancelling workflow execution`, { executionId });
-    
-    // Mark execution as cancelled
+
+    // Running actions and retry waits stop through the signal; executeWorkflow
+    // then finishes with a 'cancelled' result and cleans up
+    abortController.abort(new ExecutionAbortedError('cancelled'));
     await this.executionHistory.updateExecutionStatus(executionId, 'cancelled');
-    this.activeExecutions.delete(executionId);
     
-    this.emit('execution:cancelled', { executionId });
+    this.emit('execution:cancelled', { executionId, workflow: context.workflow.name });
     return true;
   }
 
@@ -703,4 +1329,18 @@ export class WorkflowEngine extends EventEmitter {
   public getExecutionHistory(): ExecutionHistory {
     return this.executionHistory;
   }
+
+  /**
+   * Run actions of a type with this executor instead of the built-in one
+   */
+  public registerExecutor(actionType: ActionType, executor: BaseActionExecutor): void {
+    this.actionExecutor.registerExecutor(actionType, executor);
+  }
+
+  /**
+   * Register a named template that notifyOnError can select with `template`
+   */
+  public registerNotificationTemplate(name: string, template: string): void {
+    this.notificationDispatcher.registerTemplate(name, template);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,226 @@
+import { ActionResult, ActionType, GitHubEvent, PlannedEffect, WorkflowDefinition } from '../types/workflow-schema';
+import { ActionExecutorResult } from './action-executor';
+import { ActionCall, ExecutionResult, WorkflowEngine } from './workflow-engine';
+import { getPayloadFixture } from './github-payload-fixtures';
+
+/**
+ * What a mocked action returns instead of running its executor
+ */
+export interface ActionMock {
+  result?: any;
+  error?: string; // Fail the action with this error instead
+}
+
+export interface WorkflowTestCase {
+  workflow: WorkflowDefinition;
+  event?: GitHubEvent; // Defaults to the workflow's trigger event
+  payload?: any; // Defaults to the fixture payload for the event
+  variables?: Record<string, any>;
+  secrets?: Record<string, string>;
+  // By action ID (loop iterations also match their action's ID) or action type. A list
+  // answers successive calls, e.g. retries, repeating its last entry.
+  mocks?: Record<string, ActionMock | ActionMock[]>;
+}
+
+export interface RecordedCall {
+  actionId: string;
+  actionType: ActionType;
+  parameters: any; // Resolved parameters
+  mocked: boolean;
+}
+
+export interface RecordedAction {
+  actionId: string;
+  actionType: ActionType;
+  status: ActionResult['status'];
+  depth: number; // 0 for the workflow's own actions, 1 for their nested actions, ...
+  parameters?: any; // Resolved parameters of the last call, for actions that ran
+  result?: any;
+  error?: string;
+  effects: PlannedEffect[];
+}
+
+/**
+ * Expectations on a test run, for callers that cannot assert themselves (e.g. the API)
+ */
+export interface WorkflowTestExpectations {
+  status?: ExecutionResult['status'];
+  ran?: string[];
+  skipped?: string[];
+  order?: string[]; // Action IDs that must have run in this relative order
+  parameters?: Record<string, any>; // Resolved parameters by action ID; objects match if they contain the expected fields
+}
+
+/**
+ * The outcome of running a workflow through the harness
+ */
+export class WorkflowTestRun {
+  public readonly actions: RecordedAction[];
+
+  constructor(
+    public readonly result: ExecutionResult,
+    public readonly calls: RecordedCall[]
+  ) {
+    this.actions = [];
+    this.recordActions(result.actionResults, 0);
+  }
+
+  get status(): ExecutionResult['status'] {
+    return this.result.status;
+  }
+
+  /**
+   * IDs of the actions that ran, in the order they started
+   */
+  get order(): string[] {
+    return Array.from(new Set(this.calls.map(call => call.actionId)));
+  }
+
+  public ran(actionId: string): boolean {
+    return this.calls.some(call => call.actionId === actionId);
+  }
+
+  public skipped(actionId: string): boolean {
+    return this.actions.some(action => action.actionId === actionId && action.status === 'skipped');
+  }
+
+  public action(actionId: string): RecordedAction | undefined {
+    return this.actions.find(action => action.actionId === actionId);
+  }
+
+  /**
+   * Resolved parameters the action last ran with
+   */
+  public parameters(actionId: string): any {
+    return this.calls.filter(call => call.actionId === actionId).pop()?.parameters;
+  }
+
+  /**
+   * Describe every expectation the run does not meet; empty if it meets them all
+   */
+  public check(expectations: WorkflowTestExpectations): string[] {
+    const failures: string[] = [];
+
+    if (expectations.status && expectations.status !== this.status) {
+      failures.push(`Expected status ${expectations.status}, got ${this.status}`);
+    }
+
+    for (const actionId of expectations.ran || []) {
+      if (!this.ran(actionId)) {
+        failures.push(`Expected ${actionId} to run`);
+      }
+    }
+
+    for (const actionId of expectations.skipped || []) {
+      if (!this.skipped(actionId)) {
+        failures.push(`Expected ${actionId} to be skipped`);
+      }
+    }
+
+    if (expectations.order) {
+      const actual = this.order.filter(actionId => expectations.order!.includes(actionId));
+      if (actual.join() !== expectations.order.join()) {
+        failures.push(`Expected actions to run in order ${expectations.order.join(', ')}, got ${actual.join(', ') || 'none'}`);
+      }
+    }
+
+    for (const [actionId, expected] of Object.entries(expectations.parameters || {})) {
+      if (!this.ran(actionId)) {
+        failures.push(`Expected ${actionId} to run with parameters ${JSON.stringify(expected)}, but it did not run`);
+      } else if (!matches(this.parameters(actionId), expected)) {
+        failures.push(`Expected ${actionId} to run with parameters ${JSON.stringify(expected)}, got ${JSON.stringify(this.parameters(actionId))}`);
+      }
+    }
+
+    return failures;
+  }
+
+  private recordActions(results: ActionResult[], depth: number): void {
+    for (const result of results) {
+      const parameters = this.parameters(result.actionId);
+      this.actions.push({
+        actionId: result.actionId,
+        actionType: result.actionType,
+        status: result.status,
+        depth,
+        ...(parameters !== undefined && { parameters }),
+        ...(result.result !== undefined && { result: result.result }),
+        ...(result.error && { error: result.error }),
+        effects: result.effects || []
+      });
+      this.recordActions(result.children || [], depth + 1);
+    }
+  }
+}
+
+/**
+ * Runs workflows against fixture payloads for testing. Every run is a dry run on its
+ * own engine: mocked actions return their mocks, all others report the calls they
+ * would make instead of making them, and nothing is stored.
+ */
+export class WorkflowTestHarness {
+  public async run(testCase: WorkflowTestCase): Promise<WorkflowTestRun> {
+    const event = testCase.event || testCase.workflow.trigger.event;
+    const payload = testCase.payload ?? getPayloadFixture(event);
+    const calls: RecordedCall[] = [];
+    const callCounts = new Map<ActionMock[], number>();
+
+    const beforeAction = async ({ action, parameters }: ActionCall): Promise<ActionExecutorResult | undefined> => {
+      const actionId = action.id || action.type; // Actions without an ID are recorded by type
+      const mocks = this.findMocks(testCase.mocks || {}, actionId, action.type);
+      calls.push({ actionId, actionType: action.type, parameters, mocked: !!mocks });
+
+      if (!mocks) {
+        return undefined;
+      }
+
+      const count = callCounts.get(mocks) || 0;
+      callCounts.set(mocks, count + 1);
+      const mock = mocks[Math.min(count, mocks.length - 1)]!;
+
+      return mock.error !== undefined
+        ? { success: false, error: mock.error }
+        : { success: true, result: mock.result };
+    };
+
+    const engine = new WorkflowEngine({ enableMetrics: false, dryRun: true, persistHistory: false }, { beforeAction });
+    const result = await engine.executeWorkflow(testCase.workflow, {
+      event,
+      payload,
+      repository: payload?.repository ? {
+        name: payload.repository.name,
+        owner: payload.repository.owner?.login,
+        fullName: payload.repository.full_name
+      } : undefined,
+      ...(payload?.installation?.id && { installation: { id: payload.installation.id } }),
+      ...(testCase.variables && { variables: testCase.variables }),
+      ...(testCase.secrets && { secrets: testCase.secrets })
+    });
+
+    return new WorkflowTestRun(result, calls);
+  }
+
+  private findMocks(mocks: Record<string, ActionMock | ActionMock[]>, actionId: string, actionType: ActionType): ActionMock[] | undefined {
+    const mock = mocks[actionId] ?? mocks[actionId.replace(/\[\d+\]$/, '')] ?? mocks[actionType];
+    if (mock === undefined) {
+      return undefined;
+    }
+    return Array.isArray(mock) ? mock : [mock];
+  }
+}
+
+// Whether a value contains everything expected: objects may have more fields, everything else must be equal
+function matches(actual: any, expected: any): boolean {
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual) && actual.length === expected.length &&
+      expected.every((item, index) => matches(actual[index], item));
+  }
+  if (expected !== null && typeof expected === 'object') {
+    return actual !== null && typeof actual === 'object' && !Array.isArray(actual) &&
+      Object.entries(expected).every(([key, value]) => matches(actual[key], value));
+  }
+  return actual === expected;
+}
+
+// Singleton instance
+export const workflowTestHarness = new WorkflowTestHarness();
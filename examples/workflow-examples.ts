@@ -122,6 +122,9 @@ export const prReviewWorkflow: WorkflowDefinition = {
         script: "analyze-pr-changes.js",
         timeout: 60
       },
+      outputs: {
+        analysis: "result"
+      },
       runAsync: false
     },
     {
@@ -129,15 +132,15 @@ export const prReviewWorkflow: WorkflowDefinition = {
       type: "github_pr_request_review",
       name: "Request reviews from experts",
       parameters: {
-        reviewers: "{{analysis.suggested_reviewers}}",
-        teams: "{{analysis.suggested_teams}}"
+        reviewers: "{{variables.analysis.suggested_reviewers}}",
+        teams: "{{variables.analysis.suggested_teams}}"
       },
       dependsOn: ["analyze-changes"],
       condition: {
         operator: "AND",
         rules: [
           {
-            field: "analysis.confidence",
+            field: "variables.analysis.confidence",
             operator: "greater_than",
             value: 0.7
           }
@@ -149,7 +152,7 @@ export const prReviewWorkflow: WorkflowDefinition = {
       type: "github_pr_label",
       name: "Add relevant labels",
       parameters: {
-        labels: "{{analysis.suggested_labels}}",
+        labels: "{{variables.analysis.suggested_labels}}",
         mode: "add"
       },
       dependsOn: ["analyze-changes"],
@@ -160,7 +163,7 @@ export const prReviewWorkflow: WorkflowDefinition = {
       type: "github_pr_comment",
       name: "Welcome comment for author",
       parameters: {
-        body: "## 🎉 Thanks for your contribution!\n\n**Auto-assigned reviewers:** {{analysis.reviewer_rationale}}\n\n**Testing checklist:**\n- [ ] Unit tests pass\n- [ ] Integration tests pass\n- [ ] Documentation updated\n\n*This comment was generated automatically by our PR workflow.*"
+        body: "## 🎉 Thanks for your contribution!\n\n**Auto-assigned reviewers:** {{variables.analysis.reviewer_rationale}}\n\n**Testing checklist:**\n- [ ] Unit tests pass\n- [ ] Integration tests pass\n- [ ] Documentation updated\n\n*This comment was generated automatically by our PR workflow.*"
       },
       dependsOn: ["assign-reviewers"],
       condition: {
@@ -209,6 +212,9 @@ export const weeklyCleanupWorkflow: WorkflowDefinition = {
       parameters: {
         script: "find-stale-branches.js",
         staleDays: 30
+      },
+      outputs: {
+        staleBranches: "result.branches"
       }
     },
     {
@@ -216,22 +222,22 @@ export const weeklyCleanupWorkflow: WorkflowDefinition = {
       type: "loop",
       name: "Notify branch owners",
       parameters: {
-        items: "{{staleBranches}}",
+        items: "{{variables.staleBranches}}",
         itemVariable: "branch",
         maxIterations: 50,
         actions: [
           {
             type: "github_issue_comment",
             parameters: {
-              repository: "{{branch.repository}}",
-              issueNumber: "{{branch.associatedPR}}",
-              body: "⚠️ Branch `{{branch.name}}` appears to be stale ({{branch.daysSinceLastCommit}} days old). Please consider merging or closing this PR."
+              repository: "{{variables.branch.repository}}",
+              issueNumber: "{{variables.branch.associatedPR}}",
+              body: "⚠️ Branch `{{variables.branch.name}}` appears to be stale ({{variables.branch.daysSinceLastCommit}} days old). Please consider merging or closing this PR."
             },
             condition: {
               operator: "AND",
               rules: [
                 {
-                  field: "branch.associatedPR",
+                  field: "variables.branch.associatedPR",
                   operator: "is_not_null"
                 }
               ]
@@ -250,6 +256,9 @@ export const weeklyCleanupWorkflow: WorkflowDefinition = {
         inactiveDays: 90,
         excludeLabels: ["keep-open", "long-term"]
       },
+      outputs: {
+        closedIssues: "result.closed"
+      },
       runAsync: true
     },
     {
@@ -258,7 +267,7 @@ export const weeklyCleanupWorkflow: WorkflowDefinition = {
       name: "Send cleanup report",
       parameters: {
         channel: "#dev-ops",
-        message: "📊 Weekly cleanup completed:\n• {{staleBranches.length}} stale branches found\n• {{closedIssues.length}} inactive issues closed\n• {{notifiedPRs.length}} PR owners notified"
+        message: "📊 Weekly cleanup completed:\n• {{variables.staleBranches.length}} stale branches found\n• {{variables.closedIssues.length}} inactive issues closed\n• {{actions.notify-branch-owners.result.processed_items}} PR owners notified"
       },
       dependsOn: ["notify-branch-owners", "close-inactive-issues"]
     }
@@ -6,11 +6,19 @@ import environment from './config/environment';
 import logger from './utils/logger';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import { requestLogger } from './middleware/requestLogger';
+import { captureRawBody } from './middleware/rawBody';
+import { YAML_CONTENT_TYPES } from './utils/workflow-yaml';
 import healthRoutes from './routes/health';
 import apiRoutes from './routes/api';
 import githubRoutes, { initializeGitHubServices } from './routes/github';
 import { webhookRouter } from './routes/webhook';
+import { adminRouter } from './routes/admin';
 import { GitHubServiceFactory } from './services/githubFactory';
+import { workflowService } from './services/workflow-service';
+import { realtimeGateway } from './services/realtimeGateway';
+import { eventQueue } from './services/eventQueue';
+import { workflowSyncService } from './services/workflowSyncService';
+import { secretsService } from './services/secretsService';
 
 const app = express();
 
@@ -40,6 +48,29 @@ const initializeGitHub = (): void => {
 // Initialize GitHub services
 initializeGitHub();
 
+// Keep stored secret values out of logs from the start
+void secretsService.refreshRedaction();
+
+// Load registered workflows so incoming webhook events can be matched against them,
+// then work through queued events, including ones accepted before a restart.
+// Executions still marked running were cut off by the restart and are failed first.
+// Repository workflow files may have changed while the server was down.
+void Promise.all([
+  workflowService.markInterruptedExecutions(),
+  workflowService.loadWorkflowsFromDatabase().catch((error) => {
+    logger.error('Failed to load workflows on startup', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }),
+]).finally(() => {
+  eventQueue.start();
+  workflowSyncService.syncAll().catch((error) => {
+    logger.error('Failed to sync repository workflows on startup', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  });
+});
+
 // Rate limiting
 const limiter = rateLimit({
   windowMs: environment.RATE_LIMIT_WINDOW_MS,
@@ -62,8 +93,12 @@ app.use(cors({
 }));
 app.use(limiter);
 
-// Body parsing middleware
+// Body parsing middleware. Webhook requests keep their raw body for signature
+// verification; parsed first, they are left alone by the general parser.
+app.use(['/api/v1/webhook', '/api/v1/github/webhooks'], express.json({ limit: '10mb', verify: captureRawBody }));
 app.use(express.json({ limit: '10mb' }));
+// Workflow definitions may also be sent as YAML; the workflow controller parses them
+app.use('/api/v1/workflows', express.text({ type: YAML_CONTENT_TYPES, limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // Request logging
@@ -77,6 +112,9 @@ app.use('/api/v1', apiRoutes);
 app.use('/api/v1', webhookRouter);
 logger.info('Webhook routes enabled');
 
+// Administration routes (require an admin token)
+app.use('/api/v1/admin', adminRouter);
+
 // GitHub routes (only if GitHub is enabled)
 if (GitHubServiceFactory.isGitHubEnabled()) {
   app.use('/api/v1/github', githubRoutes);
@@ -90,6 +128,18 @@ app.use(errorHandler);
 // Graceful shutdown
 const gracefulShutdown = async (signal: string): Promise<void> => {
   logger.info(`Received ${signal}. Starting graceful shutdown...`);
+
+  // Disconnect realtime clients so the HTTP server can close
+  realtimeGateway.close();
+
+  // Finish the webhook events already claimed; the rest stay queued for the next start
+  try {
+    await eventQueue.stop();
+  } catch (error) {
+    logger.error('Error stopping event queue', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
   
   // Cleanup GitHub services
   try {
@@ -118,6 +168,9 @@ const server = app.listen(environment.PORT, () => {
   logger.info(`Server running on port ${environment.PORT} in ${environment.NODE_ENV} mode`);
 });
 
+// Stream execution events to dashboard clients over Socket.IO
+realtimeGateway.attach(server);
+
 // Handle unhandled promise rejections
 process.on('unhandledRejection', (reason: unknown, promise: Promise<unknown>) => {
   logger.error('Unhandled Rejection at:', promise, 'reason:', reason);
@@ -0,0 +1,49 @@
+/**
+ * Tests for bearer-token authentication of the admin API
+ */
+
+import { AdminAuthMiddleware, AdminRequest } from '../adminAuth';
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+const request = (authorization?: string): AdminRequest =>
+  ({
+    method: 'POST',
+    originalUrl: '/api/v1/admin/webhook/dead-letters/replay',
+    get: (header: string) => (header.toLowerCase() === 'authorization' ? authorization : undefined)
+  }) as unknown as AdminRequest;
+
+// Runs the middleware and returns the error it passed on, if any, and the request
+const authenticate = (middleware: AdminAuthMiddleware, authorization?: string) => {
+  const req = request(authorization);
+  const next = jest.fn();
+  middleware.requireAdmin(req, {} as any, next);
+  expect(next).toHaveBeenCalledTimes(1);
+  return { error: next.mock.calls[0][0], principal: req.principal };
+};
+
+describe('AdminAuthMiddleware', () => {
+  const middleware = new AdminAuthMiddleware(['ops:ops-token', 'deploy-bot:bot-token', 'plain-token']);
+
+  test('accepts a configured token and records its name as the principal', () => {
+    expect(authenticate(middleware, 'Bearer ops-token')).toEqual({ error: undefined, principal: 'ops' });
+    expect(authenticate(middleware, 'bearer bot-token')).toEqual({ error: undefined, principal: 'deploy-bot' });
+    expect(authenticate(middleware, 'Bearer plain-token')).toEqual({ error: undefined, principal: 'admin' });
+  });
+
+  test('rejects requests without a valid token', () => {
+    for (const authorization of [undefined, 'ops-token', 'Basic b3BzOm9wcy10b2tlbg==', 'Bearer wrong-token', 'Bearer ops']) {
+      const { error, principal } = authenticate(middleware, authorization);
+      expect(error).toMatchObject({ statusCode: 401 });
+      expect(principal).toBeUndefined();
+    }
+  });
+
+  test('refuses every request when no tokens are configured', () => {
+    const { error } = authenticate(new AdminAuthMiddleware([]), 'Bearer anything');
+    expect(error).toMatchObject({ statusCode: 503, message: 'Admin API is not configured' });
+  });
+});
@@ -0,0 +1,77 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import environment from '../config/environment';
+import { createError } from './errorHandler';
+import logger from '../utils/logger';
+
+export interface AdminRequest extends Request {
+  principal?: string; // Name of the admin token the request authenticated with
+}
+
+interface AdminToken {
+  name: string;
+  digest: Buffer;
+}
+
+const DEFAULT_PRINCIPAL = 'admin';
+
+// Tokens are compared as SHA-256 digests so every comparison has the same length
+function digest(token: string): Buffer {
+  return crypto.createHash('sha256').update(token).digest();
+}
+
+/**
+ * Guards the administration API with bearer tokens. Each token is configured
+ * as "name:token"; the name becomes the request's principal. A token without
+ * a name authenticates as "admin".
+ */
+export class AdminAuthMiddleware {
+  private readonly tokens: AdminToken[];
+
+  constructor(tokens: string[]) {
+    this.tokens = tokens.map(entry => {
+      const separator = entry.indexOf(':');
+      return separator > 0
+        ? { name: entry.slice(0, separator), digest: digest(entry.slice(separator + 1)) }
+        : { name: DEFAULT_PRINCIPAL, digest: digest(entry) };
+    });
+  }
+
+  get enabled(): boolean {
+    return this.tokens.length > 0;
+  }
+
+  // Middleware to require a valid admin token in the Authorization header
+  requireAdmin = (req: AdminRequest, res: Response, next: NextFunction): void => {
+    if (!this.enabled) {
+      return next(createError('Admin API is not configured', 503));
+    }
+
+    const received = this.readBearerToken(req);
+    if (!received) {
+      return next(createError('Missing admin token', 401));
+    }
+
+    const principal = this.authenticate(received);
+    if (!principal) {
+      logger.warn('Rejected admin request with an invalid token', { method: req.method, path: req.originalUrl, ip: req.ip });
+      return next(createError('Invalid admin token', 401));
+    }
+
+    req.principal = principal;
+    next();
+  };
+
+  // The name of a configured token, or undefined if the token is not configured
+  authenticate(received: string): string | undefined {
+    const expected = digest(received);
+    return this.tokens.find(candidate => crypto.timingSafeEqual(candidate.digest, expected))?.name;
+  }
+
+  private readBearerToken(req: AdminRequest): string | undefined {
+    return /^Bearer\s+(\S+)$/i.exec(req.get('Authorization') || '')?.[1];
+  }
+}
+
+// Singleton instance
+export const adminAuth = new AdminAuthMiddleware(environment.ADMIN_API_TOKENS);
@@ -1,10 +1,11 @@
-import { Request, Response, NextFunction } from 'express';
-import crypto from 'crypto';
+import { Response, NextFunction } from 'express';
 import { GitHubAuthService } from '../services/githubAuth';
+import { WebhookSignatureVerifier } from '../utils/webhookSecurity';
+import { RawBodyRequest } from './rawBody';
 import { createError } from './errorHandler';
 import logger from '../utils/logger';
 
-export interface GitHubWebhookRequest extends Request {
+export interface GitHubWebhookRequest extends RawBodyRequest {
   githubPayload?: unknown;
   githubEvent?: string;
   githubDelivery?: string;
@@ -17,36 +18,31 @@ export interface GitHubWebhookRequest extends Request {
 }
 
 export class GitHubAuthMiddleware {
-  constructor(private readonly githubAuth: GitHubAuthService, private readonly webhookSecret?: string) {}
+  constructor(private readonly githubAuth: GitHubAuthService, private readonly verifier: WebhookSignatureVerifier) {}
 
   // Middleware to verify GitHub webhook signatures
   verifyWebhookSignature = (req: GitHubWebhookRequest, res: Response, next: NextFunction): void => {
-    if (!this.webhookSecret) {
+    if (!this.verifier.enabled) {
       logger.warn('Webhook secret not configured, skipping signature verification');
       return next();
     }
 
-    const signature = req.get('X-Hub-Signature-256');
-    if (!signature) {
+    const verification = this.verifier.verify(req.rawBody, req.get('X-Hub-Signature-256'));
+
+    if (verification.reason === 'missing_signature') {
       logger.warn('Missing webhook signature header');
       return next(createError('Missing webhook signature', 401));
     }
 
-    const payload = JSON.stringify(req.body);
-    const expectedSignature = 'sha256=' + crypto
-      .createHmac('sha256', this.webhookSecret)
-      .update(payload, 'utf8')
-      .digest('hex');
-
-    if (!crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expectedSignature))) {
+    if (!verification.valid) {
       logger.error('Invalid webhook signature', {
-        received: signature,
-        expected: expectedSignature.substring(0, 20) + '...',
+        delivery: req.get('X-GitHub-Delivery'),
+        reason: verification.reason,
       });
       return next(createError('Invalid webhook signature', 401));
     }
 
-    logger.debug('Webhook signature verified successfully');
+    logger.debug('Webhook signature verified successfully', { keyId: verification.keyId });
     next();
   };
 
@@ -0,0 +1,14 @@
+import { Request } from 'express';
+import { IncomingMessage, ServerResponse } from 'http';
+
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+/**
+ * `verify` hook for the body parsers that keeps the bytes the body was parsed
+ * from, since webhook signatures are computed over them
+ */
+export const captureRawBody = (req: IncomingMessage, res: ServerResponse, buf: Buffer): void => {
+  (req as RawBodyRequest).rawBody = buf;
+};
@@ -0,0 +1,49 @@
+import { Router } from 'express';
+import { webhookDeliveryController } from '../controllers/webhookDeliveryController';
+import { deadLetterController } from '../controllers/deadLetterController';
+import { adminAuth } from '../middleware/adminAuth';
+
+const router = Router();
+
+// Every administration endpoint requires an admin token
+router.use(adminAuth.requireAdmin);
+
+// Delivery log
+router.get('/webhook/deliveries', async (req, res, next) => {
+  await webhookDeliveryController.listDeliveries(req, res, next);
+});
+
+router.get('/webhook/deliveries/:id', async (req, res, next) => {
+  await webhookDeliveryController.getDelivery(req, res, next);
+});
+
+router.post('/webhook/deliveries/:id/rerun', async (req, res, next) => {
+  await webhookDeliveryController.rerunDelivery(req, res, next);
+});
+
+// Dead-letter queue administration (bulk endpoints registered before /:id)
+router.get('/webhook/dead-letters', async (req, res, next) => {
+  await deadLetterController.listDeadLetters(req, res, next);
+});
+
+router.post('/webhook/dead-letters/replay', async (req, res, next) => {
+  await deadLetterController.replayDeadLetters(req, res, next);
+});
+
+router.delete('/webhook/dead-letters', async (req, res, next) => {
+  await deadLetterController.purgeDeadLetters(req, res, next);
+});
+
+router.get('/webhook/dead-letters/:id', async (req, res, next) => {
+  await deadLetterController.getDeadLetter(req, res, next);
+});
+
+router.post('/webhook/dead-letters/:id/replay', async (req, res, next) => {
+  await deadLetterController.replayDeadLetter(req, res, next);
+});
+
+router.delete('/webhook/dead-letters/:id', async (req, res, next) => {
+  await deadLetterController.purgeDeadLetter(req, res, next);
+});
+
+export { router as adminRouter };
@@ -1,4 +1,7 @@
 import { Router, Request, Response } from 'express';
+import { workflowRouter } from './workflows';
+import { executionRouter } from './executions';
+import { secretRouter } from './secrets';
 
 const router = Router();
 
@@ -11,17 +14,8 @@ router.get('/', (req: Request, res: Response): void => {
   });
 });
 
-router.get('/users', (req: Request, res: Response): void => {
-  const users = [
-    { id: 1, name: 'John Doe', email: 'john@example.com' },
-    { id: 2, name: 'Jane Smith', email: 'jane@example.com' },
-  ];
+router.use('/workflows', workflowRouter);
+router.use('/executions', executionRouter);
+router.use('/secrets', secretRouter);
 
-  res.json({
-    success: true,
-    data: users,
-    count: users.length,
-  });
-});
-
-export default router;
\ No newline at end of file
+export default router;
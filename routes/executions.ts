@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import { executionController } from '../controllers/executionController';
+import { adminAuth } from '../middleware/adminAuth';
+
+const router = Router();
+
+// Collection endpoints (registered before /:id so they are not captured as IDs)
+router.get('/', async (req, res, next) => {
+  await executionController.listExecutions(req, res, next);
+});
+
+router.get('/export', async (req, res, next) => {
+  await executionController.exportExecutions(req, res, next);
+});
+
+router.get('/aggregation', async (req, res, next) => {
+  await executionController.getAggregation(req, res, next);
+});
+
+// Single execution endpoints (changing an execution requires an admin token)
+router.get('/:id', async (req, res, next) => {
+  await executionController.getExecution(req, res, next);
+});
+
+router.post('/:id/cancel', adminAuth.requireAdmin, async (req, res, next) => {
+  await executionController.cancelExecution(req, res, next);
+});
+
+router.post('/:id/resume', adminAuth.requireAdmin, async (req, res, next) => {
+  await executionController.resumeExecution(req, res, next);
+});
+
+router.post('/:id/actions/:actionId/retry', adminAuth.requireAdmin, async (req, res, next) => {
+  await executionController.retryAction(req, res, next);
+});
+
+export { router as executionRouter };
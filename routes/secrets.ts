@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { secretController } from '../controllers/secretController';
+import { adminAuth } from '../middleware/adminAuth';
+
+const router = Router();
+
+// Secrets are managed by administrators only
+router.use(adminAuth.requireAdmin);
+
+router.get('/', async (req, res, next) => {
+  await secretController.listSecrets(req, res, next);
+});
+
+// One route per scope; the path decides where the secret lives
+const scopePaths = ['/global/:name', '/workflows/:workflow/:name', '/repositories/:owner/:repo/:name'];
+
+for (const path of scopePaths) {
+  router.put(path, async (req, res, next) => {
+    await secretController.setSecret(req, res, next);
+  });
+
+  router.delete(path, async (req, res, next) => {
+    await secretController.deleteSecret(req, res, next);
+  });
+}
+
+export { router as secretRouter };
@@ -0,0 +1,81 @@
+import { Router } from 'express';
+import { workflowController } from '../controllers/workflowController';
+import { adminAuth } from '../middleware/adminAuth';
+
+const router = Router();
+
+// Reading and validating are open; every route that changes or runs a workflow
+// requires an admin token, since runs can use stored secrets
+
+// Collection endpoints (registered before /:name so they are not captured as names)
+router.get('/', async (req, res) => {
+  await workflowController.listWorkflows(req, res);
+});
+
+router.post('/', adminAuth.requireAdmin, async (req, res, next) => {
+  await workflowController.createWorkflow(req, res, next);
+});
+
+router.post('/validate', async (req, res, next) => {
+  await workflowController.validateWorkflow(req, res, next);
+});
+
+router.get('/schema', async (req, res) => {
+  await workflowController.getSchema(req, res);
+});
+
+router.get('/export', async (req, res, next) => {
+  await workflowController.exportWorkflows(req, res, next);
+});
+
+router.post('/import', adminAuth.requireAdmin, async (req, res, next) => {
+  await workflowController.importWorkflows(req, res, next);
+});
+
+router.post('/plan', adminAuth.requireAdmin, async (req, res, next) => {
+  await workflowController.planWorkflow(req, res, next);
+});
+
+router.post('/test', adminAuth.requireAdmin, async (req, res, next) => {
+  await workflowController.testWorkflow(req, res, next);
+});
+
+// Single workflow endpoints
+router.get('/:name', async (req, res, next) => {
+  await workflowController.getWorkflow(req, res, next);
+});
+
+router.put('/:name', adminAuth.requireAdmin, async (req, res, next) => {
+  await workflowController.updateWorkflow(req, res, next);
+});
+
+router.delete('/:name', adminAuth.requireAdmin, async (req, res, next) => {
+  await workflowController.deleteWorkflow(req, res, next);
+});
+
+router.post('/:name/enable', adminAuth.requireAdmin, workflowController.setEnabled(true));
+router.post('/:name/disable', adminAuth.requireAdmin, workflowController.setEnabled(false));
+
+// Version history (diff is registered before /:version so it is not captured as a version)
+router.get('/:name/versions', async (req, res, next) => {
+  await workflowController.listVersions(req, res, next);
+});
+
+router.get('/:name/versions/diff', async (req, res, next) => {
+  await workflowController.diffVersions(req, res, next);
+});
+
+router.get('/:name/versions/:version', async (req, res, next) => {
+  await workflowController.getVersion(req, res, next);
+});
+
+router.post('/:name/rollback', adminAuth.requireAdmin, async (req, res, next) => {
+  await workflowController.rollbackWorkflow(req, res, next);
+});
+
+// Run a workflow now with a caller-supplied trigger payload
+router.post('/:name/run', adminAuth.requireAdmin, async (req, res, next) => {
+  await workflowController.runWorkflow(req, res, next);
+});
+
+export { router as workflowRouter };
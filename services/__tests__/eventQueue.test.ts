@@ -0,0 +1,413 @@
+/**
+ * Tests for EventQueue - durable storage, claiming, retries, visibility timeouts
+ * and the dead-letter queue
+ */
+
+import { EventQueue, EventProcessor, QueuedEvent, EventAttempt, QueueFullError } from '../eventQueue';
+
+interface StoredEvent {
+  id: string;
+  eventType: string;
+  deliveryId: string;
+  payload: any;
+  headers: Record<string, string>;
+  status: string;
+  retryCount: number;
+  maxRetries: number;
+  availableAt: Date;
+  lockedBy: string | null;
+  lockedAt: Date | null;
+  lastError: string | null;
+  attempts: EventAttempt[];
+  deadLetterReason: string | null;
+  deadLetteredAt: Date | null;
+  replayCount: number;
+  createdAt: Date;
+}
+
+const mockRows = new Map<string, StoredEvent>();
+let mockNextId = 1;
+
+const matches = (row: StoredEvent, where: Record<string, any> = {}): boolean =>
+  Object.entries(where).every(([key, value]) => {
+    const field = (row as any)[key];
+    if (value && typeof value === 'object' && 'in' in value) {
+      return value.in.includes(field);
+    }
+    if (value && typeof value === 'object' && 'lt' in value) {
+      return field !== null && field < value.lt;
+    }
+    return field === value;
+  });
+
+const mockFilter = (where?: Record<string, any>): StoredEvent[] =>
+  Array.from(mockRows.values()).filter(row => matches(row, where));
+
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: {
+    queuedEvent: {
+      count: jest.fn(async ({ where }) => mockFilter(where).length),
+      create: jest.fn(async ({ data }) => {
+        const row: StoredEvent = {
+          id: `evt_${mockNextId++}`,
+          status: 'pending',
+          retryCount: 0,
+          availableAt: new Date(),
+          lockedBy: null,
+          lockedAt: null,
+          lastError: null,
+          attempts: [],
+          deadLetterReason: null,
+          deadLetteredAt: null,
+          replayCount: 0,
+          createdAt: new Date(),
+          ...data
+        };
+        mockRows.set(row.id, row);
+        return { ...row };
+      }),
+      findFirst: jest.fn(async ({ where }) => mockFilter(where)[0] ?? null),
+      findMany: jest.fn(async ({ where, skip, take }) => mockFilter(where).slice(skip, skip + take)),
+      updateMany: jest.fn(async ({ where, data }) => {
+        const rows = mockFilter(where);
+        rows.forEach(row => {
+          Object.entries(data).forEach(([key, value]: [string, any]) => {
+            (row as any)[key] = value && typeof value === 'object' && 'increment' in value
+              ? (row as any)[key] + value.increment
+              : value;
+          });
+        });
+        return { count: rows.length };
+      }),
+      deleteMany: jest.fn(async ({ where }) => {
+        const rows = mockFilter(where);
+        rows.forEach(row => mockRows.delete(row.id));
+        return { count: rows.length };
+      }),
+      groupBy: jest.fn(async ({ by: [field], where }) => {
+        const counts = new Map<string, number>();
+        mockFilter(where).forEach(row => {
+          const key = (row as any)[field];
+          counts.set(key, (counts.get(key) || 0) + 1);
+        });
+        return Array.from(counts, ([key, count]) => ({ [field]: key, _count: { _all: count } }));
+      }),
+      aggregate: jest.fn(async ({ where }) => {
+        const times = mockFilter(where).map(row => row.deadLetteredAt!.getTime());
+        return { _min: { deadLetteredAt: times.length > 0 ? new Date(Math.min(...times)) : null } };
+      })
+    },
+    // Stands in for the claim query: UPDATE ... WHERE id IN (SELECT ... FOR UPDATE SKIP LOCKED) RETURNING ...
+    $queryRaw: jest.fn(async (
+      _sql: TemplateStringsArray,
+      leaseExpiredError: string,
+      workerId: string,
+      visibilityTimeout: number,
+      batchSize: number
+    ) => {
+      const now = Date.now();
+      const due = Array.from(mockRows.values())
+        .filter(row => ['pending', 'processing'].includes(row.status) && row.availableAt.getTime() <= now)
+        .slice(0, batchSize);
+
+      return due.map(row => {
+        if (row.status === 'processing') {
+          row.attempts = [...row.attempts, {
+            attempt: row.retryCount + 1,
+            error: leaseExpiredError,
+            workerId: row.lockedBy,
+            failedAt: new Date(now).toISOString()
+          }];
+          row.retryCount++;
+        }
+        Object.assign(row, {
+          status: 'processing',
+          lockedBy: workerId,
+          lockedAt: new Date(now),
+          availableAt: new Date(now + visibilityTimeout)
+        });
+        return {
+          id: row.id,
+          event_type: row.eventType,
+          delivery_id: row.deliveryId,
+          payload: row.payload,
+          headers: row.headers,
+          retry_count: row.retryCount,
+          max_retries: row.maxRetries,
+          attempts: row.attempts,
+          created_at: row.createdAt
+        };
+      });
+    })
+  }
+}));
+
+jest.mock('../triggerDispatcher', () => ({ triggerDispatcher: {} }));
+jest.mock('../webhookDeliveryService', () => ({ webhookDeliveryService: {} }));
+jest.mock('../workflowSyncService', () => ({ workflowSyncService: {} }));
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+class RecordingProcessor implements EventProcessor {
+  public processed: QueuedEvent[] = [];
+  public failures = 0;
+
+  async process(event: QueuedEvent): Promise<void> {
+    this.processed.push({ ...event });
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error('dispatch failed');
+    }
+  }
+}
+
+describe('EventQueue', () => {
+  let queue: EventQueue;
+  let processor: RecordingProcessor;
+
+  // Let the poll scheduled by enqueue (or start) run to completion
+  const settle = async (): Promise<void> => {
+    await new Promise(resolve => setImmediate(resolve));
+    await (queue as any).polling;
+  };
+
+  const storeEvent = (overrides: Partial<StoredEvent> & { id: string }): void => {
+    mockRows.set(overrides.id, {
+      eventType: 'issues',
+      deliveryId: `delivery-${overrides.id}`,
+      payload: {},
+      headers: {},
+      status: 'pending',
+      retryCount: 0,
+      maxRetries: 2,
+      availableAt: new Date(),
+      lockedBy: null,
+      lockedAt: null,
+      lastError: null,
+      attempts: [],
+      deadLetterReason: null,
+      deadLetteredAt: null,
+      replayCount: 0,
+      createdAt: new Date(),
+      ...overrides
+    });
+  };
+
+  const makeDue = (): void => {
+    mockRows.forEach(row => { row.availableAt = new Date(Date.now() - 1); });
+  };
+
+  beforeEach(() => {
+    mockRows.clear();
+    queue = new EventQueue({ maxRetries: 2, pollInterval: 60000, visibilityTimeout: 30000 });
+    processor = new RecordingProcessor();
+    queue.registerProcessor('issues', processor);
+  });
+
+  afterEach(async () => {
+    await queue.stop();
+  });
+
+  test('stores events and removes them once processed', async () => {
+    const queued = jest.fn();
+    const processed = jest.fn();
+    queue.on('eventQueued', queued);
+    queue.on('eventProcessed', processed);
+
+    await queue.enqueue('issues', { action: 'opened' }, { 'x-github-event': 'issues' }, 'delivery-1');
+
+    expect(queued).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'issues', deliveryId: 'delivery-1', retryCount: 0 }));
+    expect(mockRows.size).toBe(1);
+    expect(await queue.getQueueSize()).toBe(1);
+
+    // Nothing is processed until the queue is started, e.g. after a restart
+    queue.start();
+    await settle();
+
+    expect(processor.processed).toEqual([expect.objectContaining({ deliveryId: 'delivery-1', payload: { action: 'opened' } })]);
+    expect(processed).toHaveBeenCalledTimes(1);
+    expect(mockRows.size).toBe(0);
+  });
+
+  test('schedules retries in the database instead of in memory', async () => {
+    const retrying = jest.fn();
+    queue.on('eventRetrying', retrying);
+    processor.failures = 1;
+    queue.start();
+
+    await queue.enqueue('issues', {}, {}, 'delivery-1');
+    await settle();
+
+    const row = Array.from(mockRows.values())[0]!;
+    expect(row).toMatchObject({ status: 'pending', retryCount: 1, lockedBy: null, lastError: 'dispatch failed' });
+    expect(row.availableAt.getTime()).toBeGreaterThan(Date.now());
+    expect(retrying).toHaveBeenCalledWith(expect.objectContaining({ retryCount: 1 }), 1000);
+
+    // Not picked up again before it is due
+    (queue as any).poll();
+    await settle();
+    expect(processor.processed).toHaveLength(1);
+
+    makeDue();
+    (queue as any).poll();
+    await settle();
+    expect(processor.processed.map(event => event.retryCount)).toEqual([0, 1]);
+    expect(mockRows.size).toBe(0);
+  });
+
+  // Run an event through its first attempt and every retry
+  const exhaustRetries = async (deliveryId: string): Promise<void> => {
+    processor.failures = 3;
+    await queue.enqueue('issues', {}, {}, deliveryId);
+    await settle();
+    for (let attempt = 0; attempt < 2; attempt++) {
+      makeDue();
+      (queue as any).poll();
+      await settle();
+    }
+  };
+
+  test('dead-letters events once their retries are used up', async () => {
+    const failed = jest.fn();
+    const deadLettered = jest.fn();
+    queue.on('eventFailed', failed);
+    queue.on('eventDeadLettered', deadLettered);
+    queue.start();
+
+    await exhaustRetries('delivery-1');
+
+    expect(processor.processed).toHaveLength(3);
+    const row = Array.from(mockRows.values())[0]!;
+    expect(row).toMatchObject({ status: 'dead_letter', retryCount: 3, deadLetterReason: 'retries_exhausted', lastError: 'dispatch failed' });
+    expect(row.attempts.map(attempt => [attempt.attempt, attempt.error])).toEqual([
+      [1, 'dispatch failed'],
+      [2, 'dispatch failed'],
+      [3, 'dispatch failed']
+    ]);
+    expect(failed).toHaveBeenCalledWith(expect.objectContaining({ deliveryId: 'delivery-1' }), expect.any(Error));
+    expect(deadLettered).toHaveBeenCalledWith(expect.objectContaining({ deliveryId: 'delivery-1' }), 'retries_exhausted');
+    expect(await queue.getQueueStats()).toMatchObject({ size: 0 });
+    expect(await queue.getDeadLetterStats()).toMatchObject({
+      size: 1,
+      byReason: { retries_exhausted: 1, no_processor: 0 },
+      oldestDeadLetteredAt: row.deadLetteredAt!.toISOString()
+    });
+  });
+
+  test('dead-letters events no processor handles', async () => {
+    queue.start();
+
+    await queue.enqueue('gollum', {}, {}, 'delivery-1');
+    await settle();
+
+    expect(processor.processed).toEqual([]);
+    expect(await queue.getDeadLetter(Array.from(mockRows.keys())[0]!)).toMatchObject({
+      deliveryId: 'delivery-1',
+      reason: 'no_processor',
+      lastError: 'No processor registered for event type: gollum',
+      attempts: []
+    });
+  });
+
+  test('replays dead-lettered events with fresh retries and their history', async () => {
+    queue.start();
+    await exhaustRetries('delivery-1');
+    const [id] = Array.from(mockRows.keys());
+
+    expect(await queue.replayDeadLetters({ ids: [id!] })).toBe(1);
+    expect(mockRows.get(id!)).toMatchObject({ status: 'pending', retryCount: 0, deadLetterReason: null, replayCount: 1 });
+    expect(mockRows.get(id!)!.attempts).toHaveLength(3);
+
+    await settle();
+    expect(processor.processed).toHaveLength(4);
+    expect(mockRows.size).toBe(0);
+    expect(await queue.replayDeadLetters({ ids: [id!] })).toBe(0);
+  });
+
+  test('replays and purges dead-lettered events by filter', async () => {
+    queue.start();
+    await exhaustRetries('delivery-1');
+    await queue.enqueue('gollum', {}, {}, 'delivery-2');
+    await queue.enqueue('gollum', {}, {}, 'delivery-3');
+    await settle();
+
+    const { events, total } = await queue.listDeadLetters({ reason: 'no_processor', limit: 1, offset: 0 });
+    expect(total).toBe(2);
+    expect(events).toHaveLength(1);
+    expect(events[0]).not.toHaveProperty('payload');
+
+    expect(await queue.purgeDeadLetters({ eventType: 'gollum' })).toBe(2);
+    expect(await queue.purgeDeadLetters({ before: new Date(0) })).toBe(0);
+
+    processor.failures = 0;
+    expect(await queue.replayDeadLetters({ reason: 'retries_exhausted' })).toBe(1);
+    await settle();
+    expect(mockRows.size).toBe(0);
+  });
+
+  test('does not replay more events than the queue can hold', async () => {
+    const small = new EventQueue({ maxQueueSize: 1 });
+    storeEvent({
+      id: 'evt_dead',
+      status: 'dead_letter',
+      deadLetterReason: 'retries_exhausted',
+      deadLetteredAt: new Date()
+    });
+    await small.enqueue('issues', {}, {}, 'delivery-1');
+
+    await expect(small.replayDeadLetters({})).rejects.toThrow(QueueFullError);
+    expect(mockRows.get('evt_dead')!.status).toBe('dead_letter');
+  });
+
+  test('reclaims events whose worker never finished and counts the attempt', async () => {
+    const failed = jest.fn();
+    queue.on('eventFailed', failed);
+
+    // An event claimed by a worker that crashed before its lease ran out
+    const strandEvent = (retryCount: number): void => {
+      storeEvent({
+        id: 'evt_stuck',
+        deliveryId: 'delivery-stuck',
+        status: 'processing',
+        retryCount,
+        maxRetries: 1,
+        availableAt: new Date(Date.now() - 1),
+        lockedBy: 'crashed-worker',
+        lockedAt: new Date(Date.now() - 30001)
+      });
+    };
+
+    strandEvent(0);
+    queue.start();
+    await settle();
+    expect(processor.processed).toEqual([expect.objectContaining({ deliveryId: 'delivery-stuck', retryCount: 1 })]);
+    expect(mockRows.size).toBe(0);
+
+    // A lease that keeps expiring eventually fails the event without running it again
+    strandEvent(1);
+    (queue as any).poll();
+    await settle();
+
+    expect(processor.processed).toHaveLength(1);
+    expect(mockRows.get('evt_stuck')).toMatchObject({
+      status: 'dead_letter',
+      deadLetterReason: 'retries_exhausted',
+      lastError: 'Event processing did not finish within the visibility timeout'
+    });
+    expect(mockRows.get('evt_stuck')!.attempts).toEqual([
+      expect.objectContaining({ attempt: 2, workerId: 'crashed-worker', error: 'Event processing did not finish within the visibility timeout' })
+    ]);
+    expect(failed).toHaveBeenCalledTimes(1);
+  });
+
+  test('rejects events when the queue is full', async () => {
+    const small = new EventQueue({ maxQueueSize: 1 });
+
+    await small.enqueue('issues', {}, {}, 'delivery-1');
+    await expect(small.enqueue('issues', {}, {}, 'delivery-2')).rejects.toThrow('Queue is full (1 events)');
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Tests for RealtimeGateway - subscription rooms and event fan-out over Socket.IO
+ */
+
+import http from 'http';
+import { EventEmitter } from 'events';
+import { AddressInfo } from 'net';
+import { io as connect, Socket as ClientSocket } from 'socket.io-client';
+import { RealtimeGateway } from '../realtimeGateway';
+import { AdminAuthMiddleware } from '../../middleware/adminAuth';
+import { secretRedactor } from '../../utils/redaction';
+
+jest.mock('../workflow-service', () => ({ workflowService: {} }));
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+describe('RealtimeGateway', () => {
+  let server: http.Server;
+  let source: EventEmitter;
+  let gateway: RealtimeGateway;
+  let clients: ClientSocket[];
+  let url: string;
+
+  const createClient = async (): Promise<ClientSocket> => {
+    const client = connect(url, { transports: ['websocket'], forceNew: true, auth: { token: 'viewer-token' } });
+    clients.push(client);
+    await new Promise<void>(resolve => client.on('connect', () => resolve()));
+    return client;
+  };
+
+  // Resolves with the reason the server refused the connection
+  const connectRejected = (auth?: Record<string, unknown>): Promise<string> => {
+    const client = connect(url, { transports: ['websocket'], forceNew: true, ...(auth && { auth }) });
+    clients.push(client);
+    return new Promise(resolve => client.on('connect_error', (error) => resolve(error.message)));
+  };
+
+  const subscribe = (client: ClientSocket, request: Record<string, unknown>, event = 'subscribe') =>
+    new Promise<any>(resolve => client.emit(event, request, resolve));
+
+  const collect = (client: ClientSocket, event: string): any[] => {
+    const received: any[] = [];
+    client.on(event, (data) => received.push(data));
+    return received;
+  };
+
+  // Round-trip through the server so earlier broadcasts have been delivered
+  const flush = (client: ClientSocket) => subscribe(client, { execution: '__flush__' });
+
+  beforeEach(async () => {
+    source = new EventEmitter();
+    gateway = new RealtimeGateway(source, new AdminAuthMiddleware(['viewer:viewer-token']));
+    clients = [];
+    server = http.createServer();
+    gateway.attach(server);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    clients.forEach(client => client.disconnect());
+    gateway.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('refuses connections without a valid token', async () => {
+    expect(await connectRejected()).toBe('Invalid token');
+    expect(await connectRejected({ token: 'wrong-token' })).toBe('Invalid token');
+    expect(gateway.getConnectionCount()).toBe(0);
+  });
+
+  test('delivers events only to subscribers of the workflow', async () => {
+    const watcher = await createClient();
+    const other = await createClient();
+    const watcherEvents = collect(watcher, 'execution:started');
+    const otherEvents = collect(other, 'execution:started');
+
+    expect(await subscribe(watcher, { workflow: 'triage' })).toEqual({ success: true, rooms: ['workflow:triage'] });
+    await subscribe(other, { workflow: 'deploy' });
+
+    source.emit('execution:started', { executionId: 'exec_1', workflow: 'triage' });
+    await flush(watcher);
+    await flush(other);
+
+    expect(watcherEvents).toEqual([
+      expect.objectContaining({ executionId: 'exec_1', workflowName: 'triage', timestamp: expect.any(String) })
+    ]);
+    expect(otherEvents).toEqual([]);
+  });
+
+  test('streams action progress to subscribers of the execution', async () => {
+    const client = await createClient();
+    const progress = collect(client, 'execution:progress');
+    await subscribe(client, { execution: 'exec_2' });
+
+    source.emit('execution:progress', {
+      executionId: 'exec_2',
+      workflow: 'triage',
+      actionId: 'label',
+      status: 'completed',
+      progress: { completed: 1, failed: 0, skipped: 0, total: 2, percentage: 50 }
+    });
+    source.emit('execution:progress', { executionId: 'exec_3', workflow: 'triage', actionId: 'label', status: 'running' });
+    await flush(client);
+
+    expect(progress).toHaveLength(1);
+    expect(progress[0]).toMatchObject({ executionId: 'exec_2', actionId: 'label', progress: { percentage: 50 } });
+  });
+
+  test('resolves the workflow from execution results', async () => {
+    const client = await createClient();
+    const completed = collect(client, 'execution:completed');
+    await subscribe(client, { workflow: 'triage' });
+
+    source.emit('execution:completed', { executionId: 'exec_4', workflowId: 'triage', status: 'completed' });
+    await flush(client);
+
+    expect(completed).toEqual([expect.objectContaining({ executionId: 'exec_4', workflowName: 'triage' })]);
+  });
+
+  test('redacts secret values from execution results', async () => {
+    const client = await createClient();
+    const failed = collect(client, 'execution:failed');
+    await subscribe(client, { execution: 'exec_5' });
+    const release = secretRedactor.register(['gateway-secret-token']);
+
+    source.emit('execution:failed', { executionId: 'exec_5', workflow: 'triage', error: '401 for gateway-secret-token' });
+    await flush(client);
+    release();
+
+    expect(failed).toEqual([expect.objectContaining({ error: '401 for [REDACTED]' })]);
+  });
+
+  test('an empty subscription receives every execution once', async () => {
+    const client = await createClient();
+    const failed = collect(client, 'execution:failed');
+    await subscribe(client, {});
+    await subscribe(client, { workflow: 'triage' });
+
+    source.emit('execution:failed', { executionId: 'exec_5', workflow: 'triage', error: 'boom' });
+    source.emit('execution:failed', { executionId: 'exec_6', workflow: 'deploy', error: 'boom' });
+    await flush(client);
+
+    expect(failed.map(event => event.executionId)).toEqual(['exec_5', 'exec_6']);
+  });
+
+  test('stops delivering after unsubscribe', async () => {
+    const client = await createClient();
+    const cancelled = collect(client, 'execution:cancelled');
+    await subscribe(client, { workflow: 'triage' });
+    await subscribe(client, { workflow: 'triage' }, 'unsubscribe');
+
+    source.emit('execution:cancelled', { executionId: 'exec_7', workflow: 'triage' });
+    await flush(client);
+
+    expect(cancelled).toEqual([]);
+  });
+
+  test('rejects malformed subscriptions', async () => {
+    const client = await createClient();
+
+    expect(await subscribe(client, { workflow: 42 })).toEqual({
+      success: false,
+      error: 'workflow and execution must be strings'
+    });
+  });
+
+  test('stops listening to the source when closed', async () => {
+    await createClient();
+    expect(gateway.getConnectionCount()).toBe(1);
+
+    gateway.close();
+
+    expect(source.listenerCount('execution:started')).toBe(0);
+    expect(gateway.getConnectionCount()).toBe(0);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Tests for SecretsService - encryption at rest, scope precedence and keeping values out of the API
+ */
+
+import crypto from 'crypto';
+import { SecretsService, decryptSecret, encryptSecret, parseMasterKey } from '../secretsService';
+import { secretRedactor } from '../../utils/redaction';
+import prisma from '../../config/database';
+
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: {
+    secret: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+      delete: jest.fn()
+    },
+    auditLog: {
+      create: jest.fn()
+    }
+  }
+}));
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+const mockPrisma = prisma as any;
+
+// Rows keyed by scope:target:name, standing in for the secrets table
+const mockRows = new Map<string, any>();
+
+const masterKey = crypto.randomBytes(32).toString('base64');
+
+describe('SecretsService', () => {
+  let service: SecretsService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRows.clear();
+    service = new SecretsService(masterKey);
+
+    const rowKey = (where: any) => {
+      const { scope, scopeTarget, name } = where.scope_scopeTarget_name;
+      return `${scope}:${scopeTarget}:${name}`;
+    };
+
+    mockPrisma.secret.findUnique.mockImplementation(async ({ where }: any) => mockRows.get(rowKey(where)) ?? null);
+    mockPrisma.secret.upsert.mockImplementation(async ({ where, create, update }: any) => {
+      const key = rowKey(where);
+      const existing = mockRows.get(key);
+      const now = new Date();
+      const row = existing
+        ? { ...existing, ...update, updatedAt: now }
+        : { id: `secret_${mockRows.size + 1}`, ...create, createdAt: now, updatedAt: now };
+      mockRows.set(key, row);
+      return row;
+    });
+    mockPrisma.secret.delete.mockImplementation(async ({ where }: any) => {
+      for (const [key, row] of mockRows) {
+        if (row.id === where.id) {
+          mockRows.delete(key);
+        }
+      }
+    });
+    mockPrisma.secret.findMany.mockImplementation(async ({ where }: any = {}) => {
+      const rows = Array.from(mockRows.values());
+      if (!where?.OR) {
+        return rows.filter(row =>
+          (!where?.scope || row.scope === where.scope) &&
+          (!where?.scopeTarget || row.scopeTarget === where.scopeTarget));
+      }
+      return rows.filter(row => where.OR.some((clause: any) =>
+        row.scope === clause.scope && (clause.scopeTarget === undefined || row.scopeTarget === clause.scopeTarget)));
+    });
+  });
+
+  test('stores values encrypted and never returns them', async () => {
+    const { secret, created } = await service.setSecret(
+      { scope: 'global', name: 'API_TOKEN' },
+      'token-value-123',
+      'Deploy token'
+    );
+
+    expect(created).toBe(true);
+    expect(secret).toEqual({
+      name: 'API_TOKEN',
+      scope: 'global',
+      target: null,
+      description: 'Deploy token',
+      createdAt: expect.any(Date),
+      updatedAt: expect.any(Date)
+    });
+
+    const stored = mockRows.get('global::API_TOKEN');
+    expect(stored.encryptedValue).toMatch(/^v1:/);
+    expect(stored.encryptedValue).not.toContain('token-value-123');
+
+    const listed = await service.listSecrets();
+    expect(JSON.stringify(listed)).not.toContain('token-value-123');
+    expect(JSON.stringify(mockPrisma.auditLog.create.mock.calls)).not.toContain('token-value-123');
+  });
+
+  test('reports whether a secret was created or replaced', async () => {
+    const ref = { scope: 'workflow' as const, target: 'deploy', name: 'API_TOKEN' };
+    await service.setSecret(ref, 'first-value');
+    const { created } = await service.setSecret(ref, 'second-value');
+
+    expect(created).toBe(false);
+    expect(await service.resolveSecrets('deploy')).toEqual({ API_TOKEN: 'second-value' });
+    expect(mockPrisma.auditLog.create).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({ entityType: 'SECRET', action: 'UPDATED' })
+    });
+  });
+
+  test('workflow secrets override repository secrets, which override global ones', async () => {
+    await service.setSecret({ scope: 'global', name: 'TOKEN' }, 'global-token');
+    await service.setSecret({ scope: 'global', name: 'SHARED' }, 'global-shared');
+    await service.setSecret({ scope: 'repository', target: 'acme/api', name: 'TOKEN' }, 'repo-token');
+    await service.setSecret({ scope: 'repository', target: 'acme/web', name: 'OTHER' }, 'other-repo');
+    await service.setSecret({ scope: 'workflow', target: 'deploy', name: 'SHARED' }, 'workflow-shared');
+
+    expect(await service.resolveSecrets('deploy', 'acme/api')).toEqual({
+      TOKEN: 'repo-token',
+      SHARED: 'workflow-shared'
+    });
+    expect(await service.resolveSecrets('lint')).toEqual({
+      TOKEN: 'global-token',
+      SHARED: 'global-shared'
+    });
+  });
+
+  test('redacts stored values', async () => {
+    await service.setSecret({ scope: 'global', name: 'WEBHOOK_KEY' }, 'super-secret-key');
+
+    expect(secretRedactor.redactString('key=super-secret-key')).toBe('key=[REDACTED]');
+  });
+
+  test('stops redacting values that were replaced or deleted', async () => {
+    await service.setSecret({ scope: 'global', name: 'TOKEN' }, 'first-token');
+    await service.setSecret({ scope: 'global', name: 'OTHER' }, 'other-value');
+    await service.setSecret({ scope: 'global', name: 'TOKEN' }, 'rotated-token');
+
+    expect(secretRedactor.redactString('first-token rotated-token other-value'))
+      .toBe('first-token [REDACTED] [REDACTED]');
+
+    await service.deleteSecret({ scope: 'global', name: 'OTHER' });
+
+    expect(secretRedactor.redactString('rotated-token other-value')).toBe('[REDACTED] other-value');
+  });
+
+  test('skips secrets that no longer decrypt', async () => {
+    await service.setSecret({ scope: 'global', name: 'TOKEN' }, 'token-value');
+    await service.setSecret({ scope: 'global', name: 'OTHER' }, 'other-value');
+
+    // Moving a ciphertext to another name fails authentication
+    mockRows.get('global::OTHER').encryptedValue = mockRows.get('global::TOKEN').encryptedValue;
+
+    expect(await service.resolveSecrets('deploy')).toEqual({ TOKEN: 'token-value' });
+  });
+
+  test('deletes secrets and reports missing ones', async () => {
+    await service.setSecret({ scope: 'global', name: 'TOKEN' }, 'token-value');
+
+    expect(await service.deleteSecret({ scope: 'global', name: 'TOKEN' })).toBe(true);
+    expect(await service.deleteSecret({ scope: 'global', name: 'TOKEN' })).toBe(false);
+    expect(await service.resolveSecrets('deploy')).toEqual({});
+  });
+
+  test('is disabled without a valid master key', async () => {
+    const disabled = new SecretsService('too-short');
+
+    expect(disabled.enabled).toBe(false);
+    expect(await disabled.resolveSecrets('deploy')).toEqual({});
+    await expect(disabled.setSecret({ scope: 'global', name: 'TOKEN' }, 'value')).rejects.toThrow('SECRETS_MASTER_KEY');
+  });
+});
+
+describe('secret encryption', () => {
+  const key = crypto.randomBytes(32);
+
+  test('round-trips values', () => {
+    const encrypted = encryptSecret('p@ss wörd', key, 'global::TOKEN');
+
+    expect(decryptSecret(encrypted, key, 'global::TOKEN')).toBe('p@ss wörd');
+    expect(encryptSecret('p@ss wörd', key, 'global::TOKEN')).not.toBe(encrypted);
+  });
+
+  test('fails with the wrong key or identity', () => {
+    const encrypted = encryptSecret('value', key, 'global::TOKEN');
+
+    expect(() => decryptSecret(encrypted, crypto.randomBytes(32), 'global::TOKEN')).toThrow();
+    expect(() => decryptSecret(encrypted, key, 'workflow:deploy:TOKEN')).toThrow();
+  });
+
+  test('accepts hex and base64 master keys', () => {
+    const raw = crypto.randomBytes(32);
+
+    expect(parseMasterKey(raw.toString('hex'))).toEqual(raw);
+    expect(parseMasterKey(raw.toString('base64'))).toEqual(raw);
+    expect(() => parseMasterKey('abc')).toThrow('32 bytes');
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Tests for TriggerDispatcher - routing webhook events to matching workflows
+ */
+
+import { TriggerDispatcher } from '../triggerDispatcher';
+import { QueuedEvent } from '../eventQueue';
+import { WorkflowDefinition } from '../../types/workflow-schema';
+
+jest.mock('../workflow-service', () => ({ workflowService: {} }));
+jest.mock('../eventQueue', () => ({}));
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+const createWorkflow = (name: string, trigger: Partial<WorkflowDefinition['trigger']>): WorkflowDefinition => ({
+  name,
+  trigger: { type: 'webhook', event: 'issues.labeled', ...trigger },
+  actions: [{ type: 'delay', parameters: { duration: 1 } }]
+});
+
+const createEvent = (eventType: string, payload: any): QueuedEvent => ({
+  id: 'evt-1',
+  eventType,
+  payload,
+  headers: {},
+  deliveryId: 'delivery-1',
+  timestamp: Date.now(),
+  retryCount: 0,
+  maxRetries: 3
+});
+
+describe('TriggerDispatcher', () => {
+  let workflows: WorkflowDefinition[];
+  let startWorkflowExecution: jest.Mock;
+  let getExecution: jest.Mock;
+  let dispatcher: TriggerDispatcher;
+
+  beforeEach(() => {
+    workflows = [];
+    startWorkflowExecution = jest.fn(async ({ workflowName }) => `exec_${workflowName}`);
+    getExecution = jest.fn(async () => null);
+    dispatcher = new TriggerDispatcher({
+      listWorkflows: () => workflows,
+      startWorkflowExecution,
+      getExecution
+    } as any);
+  });
+
+  describe('resolveEventNames', () => {
+    test('combines event type with payload action', () => {
+      expect(dispatcher.resolveEventNames('issues', { action: 'opened' })).toEqual(['issues.opened', 'issues']);
+    });
+
+    test('uses bare event type when there is no action', () => {
+      expect(dispatcher.resolveEventNames('push', { ref: 'refs/heads/main' })).toEqual(['push']);
+    });
+
+    test('reports merged pull requests as pull_request.merged', () => {
+      const payload = { action: 'closed', pull_request: { merged: true } };
+      expect(dispatcher.resolveEventNames('pull_request', payload)).toEqual([
+        'pull_request.merged',
+        'pull_request.closed',
+        'pull_request'
+      ]);
+    });
+  });
+
+  describe('matchesTrigger', () => {
+    const payload = {
+      action: 'labeled',
+      label: { name: 'critical' },
+      repository: { name: 'api', full_name: 'org/api', owner: { login: 'org' } }
+    };
+    const events = ['issues.labeled', 'issues'];
+
+    test('matches on event', () => {
+      expect(dispatcher.matchesTrigger({ type: 'webhook', event: 'issues.labeled' }, events, payload)).toBe(true);
+      expect(dispatcher.matchesTrigger({ type: 'webhook', event: 'issues.opened' }, events, payload)).toBe(false);
+    });
+
+    test('matches repository wildcards', () => {
+      expect(dispatcher.matchesTrigger({ type: 'webhook', event: 'issues.labeled', repository: 'org/*' }, events, payload)).toBe(true);
+      expect(dispatcher.matchesTrigger({ type: 'webhook', event: 'issues.labeled', repository: 'other/*' }, events, payload)).toBe(false);
+      expect(dispatcher.matchesTrigger({ type: 'webhook', event: 'issues.labeled', repository: 'org/api' }, events, payload)).toBe(true);
+    });
+
+    test('matches filters against the payload', () => {
+      const trigger = {
+        type: 'webhook' as const,
+        event: 'issues.labeled' as const,
+        filters: [{ field: 'label.name', operator: 'equals' as const, value: 'critical' }]
+      };
+      expect(dispatcher.matchesTrigger(trigger, events, payload)).toBe(true);
+      expect(dispatcher.matchesTrigger(trigger, events, { ...payload, label: { name: 'bug' } })).toBe(false);
+    });
+
+    test('matches branch for push and pull request events', () => {
+      const push = { ref: 'refs/heads/release/1.2' };
+      expect(dispatcher.matchesTrigger({ type: 'webhook', event: 'push', branch: 'release/*' }, ['push'], push)).toBe(true);
+      expect(dispatcher.matchesTrigger({ type: 'webhook', event: 'push', branch: 'main' }, ['push'], push)).toBe(false);
+
+      const pr = { action: 'opened', pull_request: { base: { ref: 'main' } } };
+      const prEvents = ['pull_request.opened', 'pull_request'];
+      expect(dispatcher.matchesTrigger({ type: 'webhook', event: 'pull_request.opened', branch: 'main' }, prEvents, pr)).toBe(true);
+    });
+
+    test('does not match branch triggers for tag pushes', () => {
+      const push = { ref: 'refs/tags/v1.0.0' };
+      expect(dispatcher.matchesTrigger({ type: 'webhook', event: 'push', branch: '*' }, ['push'], push)).toBe(false);
+    });
+  });
+
+  describe('dispatch', () => {
+    test('queues every enabled matching webhook workflow with trigger context', async () => {
+      workflows = [
+        createWorkflow('matching', { repository: 'org/*' }),
+        createWorkflow('disabled', {}),
+        createWorkflow('other-event', { event: 'issues.opened' }),
+        createWorkflow('scheduled', { type: 'schedule' })
+      ];
+      workflows[1]!.enabled = false;
+
+      const payload = {
+        action: 'labeled',
+        installation: { id: 42 },
+        repository: { name: 'api', full_name: 'org/api', owner: { login: 'org' } }
+      };
+
+      const result = await dispatcher.dispatch(createEvent('issues', payload));
+
+      expect(result.dispatched).toEqual([{ workflowName: 'matching', executionId: 'exec_matching' }]);
+      expect(startWorkflowExecution).toHaveBeenCalledTimes(1);
+      expect(startWorkflowExecution).toHaveBeenCalledWith({
+        workflowName: 'matching',
+        triggerEvent: {
+          event: 'issues.labeled',
+          payload,
+          deliveryId: 'delivery-1',
+          repository: { name: 'api', owner: 'org', fullName: 'org/api' },
+          installation: { id: 42 }
+        },
+        executionId: expect.stringMatching(/^exec_evt_/)
+      });
+    });
+
+    test('skips workflows a retried event already started', async () => {
+      workflows = [createWorkflow('triage', {}), createWorkflow('notify', {})];
+      const event = createEvent('issues', { action: 'labeled' });
+
+      await dispatcher.dispatch(event);
+      const [triageId, notifyId] = startWorkflowExecution.mock.calls.map(([request]) => request.executionId);
+      expect(triageId).not.toEqual(notifyId);
+
+      // The first attempt failed after starting triage
+      startWorkflowExecution.mockClear();
+      getExecution.mockImplementation(async (executionId: string) => (executionId === triageId ? { executionId } : null));
+
+      const result = await dispatcher.dispatch(event);
+
+      expect(startWorkflowExecution).toHaveBeenCalledTimes(1);
+      expect(startWorkflowExecution).toHaveBeenCalledWith(expect.objectContaining({ workflowName: 'notify', executionId: notifyId }));
+      expect(result.dispatched).toEqual([
+        { workflowName: 'triage', executionId: triageId },
+        { workflowName: 'notify', executionId: 'exec_notify' }
+      ]);
+    });
+
+    test('starts new executions when re-running an event', async () => {
+      workflows = [createWorkflow('triage', {})];
+      getExecution.mockResolvedValue({ executionId: 'exec_started' });
+
+      await dispatcher.dispatch(createEvent('issues', { action: 'labeled' }), { rerun: true });
+
+      expect(getExecution).not.toHaveBeenCalled();
+      expect(startWorkflowExecution.mock.calls[0][0]).not.toHaveProperty('executionId');
+    });
+
+    test('returns an empty dispatch when nothing matches', async () => {
+      workflows = [createWorkflow('other-event', { event: 'issues.opened' })];
+
+      const result = await dispatcher.dispatch(createEvent('issues', { action: 'closed' }));
+
+      expect(result.dispatched).toEqual([]);
+      expect(startWorkflowExecution).not.toHaveBeenCalled();
+    });
+
+    test('fails the dispatch when an execution cannot start, so the event is retried', async () => {
+      workflows = [createWorkflow('triage', {})];
+      startWorkflowExecution.mockRejectedValueOnce(new Error('Database unavailable'));
+
+      await expect(dispatcher.dispatch(createEvent('issues', { action: 'labeled' }))).rejects.toThrow('Database unavailable');
+    });
+
+    test('only dispatches to the named workflow when one is given', async () => {
+      workflows = [
+        createWorkflow('triage', {}),
+        createWorkflow('notify', {}),
+        createWorkflow('opened-only', { event: 'issues.opened' })
+      ];
+      const event = createEvent('issues', { action: 'labeled' });
+
+      expect((await dispatcher.dispatch(event, { workflowName: 'notify' })).dispatched).toEqual([
+        { workflowName: 'notify', executionId: 'exec_notify' }
+      ]);
+      // The named workflow still has to match the event
+      expect((await dispatcher.dispatch(event, { workflowName: 'opened-only' })).dispatched).toEqual([]);
+      expect(startWorkflowExecution).toHaveBeenCalledTimes(1);
+    });
+  });
+});
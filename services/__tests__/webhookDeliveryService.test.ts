@@ -0,0 +1,124 @@
+/**
+ * Tests for WebhookDeliveryService - the delivery log and re-running deliveries
+ */
+
+import { WebhookDeliveryService } from '../webhookDeliveryService';
+import { QueuedEvent } from '../eventQueue';
+import prisma from '../../config/database';
+
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: {
+    webhookDelivery: {
+      create: jest.fn(),
+      findUnique: jest.fn()
+    },
+    webhookDispatch: {
+      createMany: jest.fn(),
+      findMany: jest.fn()
+    },
+    queuedEvent: {
+      findUnique: jest.fn()
+    }
+  }
+}));
+
+jest.mock('../triggerDispatcher', () => ({ triggerDispatcher: {} }));
+jest.mock('../eventQueue', () => ({}));
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+const mockPrisma = prisma as any;
+
+const payload = {
+  action: 'opened',
+  installation: { id: 42 },
+  repository: { name: 'api', full_name: 'acme/api', owner: { login: 'acme' } }
+};
+
+const storedDelivery = {
+  id: 'evt_1',
+  deliveryId: 'delivery-1',
+  eventType: 'issues',
+  action: 'opened',
+  repository: 'acme/api',
+  installationId: 42,
+  headers: { 'x-github-event': 'issues' },
+  payload,
+  receivedAt: new Date('2026-10-01T12:00:00Z')
+};
+
+describe('WebhookDeliveryService', () => {
+  let dispatch: jest.Mock;
+  let service: WebhookDeliveryService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    dispatch = jest.fn(async (event: QueuedEvent) => ({
+      deliveryId: event.deliveryId,
+      events: ['issues.opened', 'issues'],
+      dispatched: [{ workflowName: 'triage', executionId: 'exec_2' }]
+    }));
+    service = new WebhookDeliveryService({ dispatch } as any);
+  });
+
+  test('records the delivery under the queued event ID', async () => {
+    await service.recordDelivery({
+      id: 'evt_1',
+      eventType: 'issues',
+      payload,
+      headers: { 'x-github-event': 'issues' },
+      deliveryId: 'delivery-1',
+      timestamp: storedDelivery.receivedAt.getTime(),
+      retryCount: 0,
+      maxRetries: 3
+    });
+
+    expect(mockPrisma.webhookDelivery.create).toHaveBeenCalledWith({ data: storedDelivery });
+  });
+
+  test('does not fail processing when dispatches cannot be recorded', async () => {
+    mockPrisma.webhookDispatch.createMany.mockRejectedValueOnce(new Error('database unavailable'));
+
+    await expect(service.recordDispatches('evt_1', [{ workflowName: 'triage', executionId: 'exec_1' }])).resolves.toBeUndefined();
+  });
+
+  test('reports the delivery with its executions and queue status', async () => {
+    mockPrisma.webhookDelivery.findUnique.mockResolvedValueOnce(storedDelivery);
+    mockPrisma.queuedEvent.findUnique.mockResolvedValueOnce(null);
+    mockPrisma.webhookDispatch.findMany.mockResolvedValueOnce([
+      { webhookDeliveryId: 'evt_1', workflowName: 'triage', executionId: 'exec_1', rerun: false, createdAt: new Date('2026-10-01T12:00:01Z') }
+    ]);
+
+    expect(await service.getDelivery('evt_1')).toEqual({
+      ...storedDelivery,
+      queueStatus: 'processed',
+      dispatches: [{ workflowName: 'triage', executionId: 'exec_1', rerun: false, dispatchedAt: new Date('2026-10-01T12:00:01Z') }]
+    });
+  });
+
+  test('re-runs a delivery through trigger matching and records the new executions', async () => {
+    mockPrisma.webhookDelivery.findUnique.mockResolvedValueOnce(storedDelivery);
+
+    const result = await service.rerunDelivery('evt_1', 'triage');
+
+    expect(dispatch).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'evt_1', eventType: 'issues', deliveryId: 'delivery-1', payload }),
+      { workflowName: 'triage', rerun: true }
+    );
+    expect(result?.dispatched).toEqual([{ workflowName: 'triage', executionId: 'exec_2' }]);
+    expect(mockPrisma.webhookDispatch.createMany).toHaveBeenCalledWith({
+      data: [{ webhookDeliveryId: 'evt_1', workflowName: 'triage', executionId: 'exec_2', rerun: true }],
+      skipDuplicates: true
+    });
+  });
+
+  test('returns null when re-running an unknown delivery', async () => {
+    mockPrisma.webhookDelivery.findUnique.mockResolvedValueOnce(null);
+
+    expect(await service.rerunDelivery('missing')).toBeNull();
+    expect(dispatch).not.toHaveBeenCalled();
+  });
+});
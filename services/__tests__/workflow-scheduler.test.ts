@@ -0,0 +1,202 @@
+/**
+ * Tests for WorkflowScheduler - firing, persistence and catch-up of scheduled workflows
+ */
+
+import { WorkflowScheduler } from '../workflow-scheduler';
+import { WorkflowDefinition, CatchUpPolicy } from '../../types/workflow-schema';
+
+interface StoredSchedule {
+  workflowId: string;
+  cron: string;
+  timezone: string;
+  lastRunAt: Date | null;
+  nextRunAt: Date | null;
+}
+
+const mockRows = new Map<string, StoredSchedule>();
+
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: {
+    workflowSchedule: {
+      findUnique: jest.fn(async ({ where }) => {
+        const row = mockRows.get(where.workflowId);
+        return row ? { ...row } : null;
+      }),
+      upsert: jest.fn(async ({ where, update, create }) => {
+        const existing = mockRows.get(where.workflowId);
+        const row = existing ? { ...existing, ...update } : { lastRunAt: null, ...create };
+        mockRows.set(where.workflowId, row);
+        return row;
+      }),
+      updateMany: jest.fn(async ({ where, data }) => {
+        const row = mockRows.get(where.workflowId);
+        const matches = row && (!('nextRunAt' in where) || row.nextRunAt?.getTime() === where.nextRunAt?.getTime());
+        if (!row || !matches) {
+          return { count: 0 };
+        }
+        mockRows.set(where.workflowId, { ...row, ...data });
+        return { count: 1 };
+      })
+    }
+  }
+}));
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+const createWorkflow = (cron: string, catchUp?: CatchUpPolicy): WorkflowDefinition => ({
+  name: 'hourly-report',
+  trigger: {
+    type: 'schedule',
+    event: 'schedule.weekly',
+    schedule: { cron, timezone: 'UTC', ...(catchUp && { catchUp }) }
+  },
+  actions: [{ type: 'delay', parameters: { duration: 1 } }]
+});
+
+describe('WorkflowScheduler', () => {
+  let fired: string[];
+  let scheduler: WorkflowScheduler;
+
+  const createScheduler = () => new WorkflowScheduler(async (_workflow, scheduledAt) => {
+    fired.push(scheduledAt.toISOString());
+  }, { tickInterval: 15000, maxCatchUpRuns: 3 });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-01T10:30:00Z'));
+    mockRows.clear();
+    fired = [];
+    scheduler = createScheduler();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('schedules the next fire time and persists it', async () => {
+    await scheduler.schedule(createWorkflow('0 * * * *'));
+
+    expect(scheduler.getScheduledWorkflows()[0]?.nextRunAt.toISOString()).toBe('2024-01-01T11:00:00.000Z');
+    expect(mockRows.get('hourly-report')?.nextRunAt?.toISOString()).toBe('2024-01-01T11:00:00.000Z');
+  });
+
+  test('fires due workflows once and advances the cursor', async () => {
+    await scheduler.schedule(createWorkflow('0 * * * *'));
+
+    await scheduler.tick(new Date('2024-01-01T10:59:00Z'));
+    expect(fired).toEqual([]);
+
+    await scheduler.tick(new Date('2024-01-01T11:00:05Z'));
+    await scheduler.tick(new Date('2024-01-01T11:00:20Z'));
+
+    expect(fired).toEqual(['2024-01-01T11:00:00.000Z']);
+    expect(mockRows.get('hourly-report')).toMatchObject({
+      lastRunAt: new Date('2024-01-01T11:00:00Z'),
+      nextRunAt: new Date('2024-01-01T12:00:00Z')
+    });
+  });
+
+  test('does not double-fire a slot after a restart', async () => {
+    await scheduler.schedule(createWorkflow('0 * * * *'));
+    await scheduler.tick(new Date('2024-01-01T11:00:05Z'));
+
+    const restarted = createScheduler();
+    await restarted.schedule(createWorkflow('0 * * * *'));
+    await restarted.tick(new Date('2024-01-01T11:00:20Z'));
+
+    expect(fired).toEqual(['2024-01-01T11:00:00.000Z']);
+  });
+
+  test('skips slots already claimed by another instance', async () => {
+    const other = createScheduler();
+    await scheduler.schedule(createWorkflow('0 * * * *'));
+    await other.schedule(createWorkflow('0 * * * *'));
+
+    await other.tick(new Date('2024-01-01T11:00:05Z'));
+    await scheduler.tick(new Date('2024-01-01T11:00:06Z'));
+
+    expect(fired).toEqual(['2024-01-01T11:00:00.000Z']);
+    expect(scheduler.getScheduledWorkflows()[0]?.nextRunAt.toISOString()).toBe('2024-01-01T12:00:00.000Z');
+  });
+
+  test('keeps the slot when its run fails to start and retries it on the next tick', async () => {
+    let failures = 1;
+    const flaky = new WorkflowScheduler(async (_workflow, scheduledAt) => {
+      if (failures-- > 0) {
+        throw new Error('Database unavailable');
+      }
+      fired.push(scheduledAt.toISOString());
+    }, { tickInterval: 15000 });
+    await flaky.schedule(createWorkflow('0 * * * *'));
+
+    await flaky.tick(new Date('2024-01-01T11:00:05Z'));
+    expect(fired).toEqual([]);
+    expect(mockRows.get('hourly-report')?.nextRunAt).toEqual(new Date('2024-01-01T11:00:00Z'));
+
+    await flaky.tick(new Date('2024-01-01T11:00:20Z'));
+    expect(fired).toEqual(['2024-01-01T11:00:00.000Z']);
+    expect(mockRows.get('hourly-report')?.nextRunAt).toEqual(new Date('2024-01-01T12:00:00Z'));
+  });
+
+  describe('catch-up after downtime', () => {
+    const restartAfterOutage = async (catchUp: CatchUpPolicy) => {
+      await scheduler.schedule(createWorkflow('0 * * * *', catchUp));
+
+      // Service comes back at 15:10 after missing 11:00 through 15:00
+      jest.setSystemTime(new Date('2024-01-01T15:10:00Z'));
+      const restarted = createScheduler();
+      await restarted.schedule(createWorkflow('0 * * * *', catchUp));
+      await restarted.tick(new Date('2024-01-01T15:10:00Z'));
+
+      return restarted;
+    };
+
+    test('run_once runs a single catch-up for the latest missed slot', async () => {
+      const restarted = await restartAfterOutage('run_once');
+
+      expect(fired).toEqual(['2024-01-01T15:00:00.000Z']);
+      expect(restarted.getScheduledWorkflows()[0]?.nextRunAt.toISOString()).toBe('2024-01-01T16:00:00.000Z');
+    });
+
+    test('run_all runs every missed slot up to the cap', async () => {
+      await restartAfterOutage('run_all');
+
+      expect(fired).toEqual([
+        '2024-01-01T13:00:00.000Z',
+        '2024-01-01T14:00:00.000Z',
+        '2024-01-01T15:00:00.000Z'
+      ]);
+    });
+
+    test('skip drops missed slots and waits for the next one', async () => {
+      const restarted = await restartAfterOutage('skip');
+
+      expect(fired).toEqual([]);
+      expect(restarted.getScheduledWorkflows()[0]?.nextRunAt.toISOString()).toBe('2024-01-01T16:00:00.000Z');
+    });
+  });
+
+  test('does not catch up runs missed while the workflow was disabled', async () => {
+    const workflow = createWorkflow('0 * * * *');
+    await scheduler.schedule(workflow);
+    await scheduler.schedule({ ...workflow, enabled: false });
+
+    jest.setSystemTime(new Date('2024-01-01T15:10:00Z'));
+    await scheduler.schedule(workflow);
+    await scheduler.tick(new Date('2024-01-01T15:10:00Z'));
+
+    expect(fired).toEqual([]);
+    expect(scheduler.getScheduledWorkflows()[0]?.nextRunAt.toISOString()).toBe('2024-01-01T16:00:00.000Z');
+  });
+
+  test('recomputes the next run when the cron expression changes', async () => {
+    await scheduler.schedule(createWorkflow('0 * * * *'));
+    await scheduler.schedule(createWorkflow('45 10 * * *'));
+
+    expect(scheduler.getScheduledWorkflows()[0]?.nextRunAt.toISOString()).toBe('2024-01-01T10:45:00.000Z');
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Tests for WorkflowSyncService - syncing workflow definitions from repository files
+ */
+
+import { WorkflowSyncService } from '../workflowSyncService';
+import { WorkflowService, WorkflowSource } from '../workflow-service';
+import { GitHubAuthService } from '../githubAuth';
+import { WorkflowDefinition } from '../../types/workflow-schema';
+
+jest.mock('../workflow-service', () => ({ workflowService: {} }));
+jest.mock('../githubFactory', () => ({ GitHubServiceFactory: { getGitHubAuthService: () => null } }));
+// Only checks that there are actions; the real rules are covered with the validator
+jest.mock('../../utils/workflow-validator', () => ({
+  workflowValidator: {
+    validate: (workflow: WorkflowDefinition) => workflow.actions?.length > 0
+      ? { valid: true, errors: [], warnings: [] }
+      : { valid: false, errors: [{ path: 'actions', message: 'must have at least one action', code: 'minItems' }], warnings: [] }
+  }
+}));
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+const REPOSITORY = 'acme/api';
+const SHA = 'abc123';
+
+const definition = (name: string, overrides: Partial<WorkflowDefinition> = {}): WorkflowDefinition => ({
+  name,
+  trigger: { type: 'webhook', event: 'issues.opened' },
+  actions: [{ id: 'label', type: 'github_issue_label', parameters: { labels: ['triage'] } }],
+  ...overrides
+});
+
+/**
+ * Just enough of WorkflowService for syncing
+ */
+class FakeWorkflowService {
+  public workflows = new Map<string, WorkflowDefinition>();
+  public sources = new Map<string, WorkflowSource>();
+
+  getWorkflow = (name: string) => this.workflows.get(name) ?? null;
+  getWorkflowSource = (name: string) => this.sources.get(name) ?? null;
+  listRepositoryWorkflows = (repository: string) => Array.from(this.sources.entries())
+    .filter(([, source]) => source.repository === repository)
+    .map(([name]) => this.workflows.get(name)!);
+
+  registerWorkflow = jest.fn(async (workflow: WorkflowDefinition, _author: string, source?: WorkflowSource) => {
+    this.workflows.set(workflow.name, workflow);
+    if (source) this.sources.set(workflow.name, source);
+  });
+  updateWorkflow = this.registerWorkflow;
+  deleteWorkflow = jest.fn(async (name: string) => {
+    this.workflows.delete(name);
+    this.sources.delete(name);
+    return true;
+  });
+}
+
+describe('WorkflowSyncService', () => {
+  let files: Record<string, string>;
+  let workflows: FakeWorkflowService;
+  let octokit: any;
+  let sync: WorkflowSyncService;
+
+  beforeEach(() => {
+    files = {};
+    workflows = new FakeWorkflowService();
+
+    const notFound = Object.assign(new Error('Not Found'), { status: 404 });
+    octokit = {
+      rest: {
+        repos: {
+          getContent: jest.fn(async ({ path }: { path: string }) => {
+            if (path === '.github/automation') {
+              const entries = Object.keys(files).map(file => ({ type: 'file', path: file }));
+              if (entries.length === 0) throw notFound;
+              return { data: entries };
+            }
+            if (!(path in files)) throw notFound;
+            return { data: { type: 'file', content: Buffer.from(files[path]!).toString('base64') } };
+          })
+        },
+        checks: { create: jest.fn() }
+      }
+    };
+
+    const authService = { getInstallationOctokit: () => octokit } as unknown as GitHubAuthService;
+    sync = new WorkflowSyncService(
+      workflows as unknown as WorkflowService,
+      { enabled: true, path: '.github/automation' },
+      () => authService
+    );
+  });
+
+  test('registers workflows from files scoped to their repository', async () => {
+    files['.github/automation/triage.json'] = JSON.stringify(definition('triage'));
+    files['.github/automation/README.md'] = '# not a workflow';
+
+    const result = await sync.syncRepository(1, REPOSITORY, { sha: SHA, author: 'octocat' });
+
+    expect(result.created).toEqual(['triage']);
+    expect(workflows.registerWorkflow).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'triage', trigger: expect.objectContaining({ repository: REPOSITORY }) }),
+      'octocat',
+      { repository: REPOSITORY, path: '.github/automation/triage.json', sha: SHA }
+    );
+    expect(octokit.rest.checks.create).toHaveBeenCalledWith(expect.objectContaining({
+      head_sha: SHA,
+      conclusion: 'success'
+    }));
+  });
+
+  test('updates changed workflows, skips unchanged ones and deletes removed ones', async () => {
+    files['.github/automation/a.json'] = JSON.stringify(definition('a'));
+    files['.github/automation/b.json'] = JSON.stringify(definition('b'));
+    files['.github/automation/c.json'] = JSON.stringify(definition('c'));
+    await sync.syncRepository(1, REPOSITORY, { sha: SHA });
+
+    files['.github/automation/b.json'] = JSON.stringify(definition('b', { description: 'Changed' }));
+    delete files['.github/automation/c.json'];
+    const result = await sync.syncRepository(1, REPOSITORY, { sha: 'def456' });
+
+    expect(result).toMatchObject({ created: [], updated: ['b'], unchanged: ['a'], deleted: ['c'], errors: [] });
+  });
+
+  test('reports invalid files and keeps their last good version', async () => {
+    files['.github/automation/triage.json'] = JSON.stringify(definition('triage'));
+    await sync.syncRepository(1, REPOSITORY, { sha: SHA });
+
+    files['.github/automation/triage.json'] = '{ "name": "triage", ';
+    files['.github/automation/other.json'] = JSON.stringify(definition('other', { actions: [] }));
+    const result = await sync.syncRepository(1, REPOSITORY, { sha: 'def456' });
+
+    expect(result.errors.map(error => error.path)).toEqual([
+      '.github/automation/other.json',
+      '.github/automation/triage.json'
+    ]);
+    expect(result.deleted).toEqual([]);
+    expect(workflows.getWorkflow('triage')).not.toBeNull();
+    expect(octokit.rest.checks.create).toHaveBeenLastCalledWith(expect.objectContaining({
+      head_sha: 'def456',
+      conclusion: 'failure',
+      output: expect.objectContaining({
+        annotations: [
+          expect.objectContaining({ path: '.github/automation/other.json', annotation_level: 'failure' }),
+          expect.objectContaining({ path: '.github/automation/triage.json', annotation_level: 'failure' })
+        ]
+      })
+    }));
+  });
+
+  test('reads YAML files and annotates their errors on the offending line', async () => {
+    files['.github/automation/triage.yml'] = [
+      'name: triage',
+      'trigger: { type: webhook, event: issues.opened }',
+      'actions:',
+      '  - id: label',
+      '    type: github_issue_label',
+      '    parameters: { labels: [triage] }'
+    ].join('\n');
+    files['.github/automation/empty.yaml'] = 'name: empty\ntrigger: { type: webhook, event: issues.opened }\nactions: []\n';
+    files['.github/automation/broken.yaml'] = 'name: broken\nname: again\n';
+
+    const result = await sync.syncRepository(1, REPOSITORY, { sha: SHA });
+
+    expect(result.created).toEqual(['triage']);
+    expect(workflows.getWorkflow('triage')).toEqual(definition('triage', {
+      trigger: { type: 'webhook', event: 'issues.opened', repository: REPOSITORY }
+    }));
+    expect(result.errors).toEqual([
+      { path: '.github/automation/broken.yaml', message: expect.stringContaining('Duplicate key "name"'), line: 2 },
+      { path: '.github/automation/empty.yaml', message: 'actions: must have at least one action', line: 3 }
+    ]);
+  });
+
+  test('rejects workflows for other repositories and names already in use', async () => {
+    workflows.workflows.set('existing', definition('existing'));
+    files['.github/automation/existing.json'] = JSON.stringify(definition('existing'));
+    files['.github/automation/elsewhere.json'] = JSON.stringify(definition('elsewhere', {
+      trigger: { type: 'webhook', event: 'issues.opened', repository: 'acme/web' }
+    }));
+
+    const result = await sync.syncRepository(1, REPOSITORY, { sha: SHA });
+
+    expect(result.created).toEqual([]);
+    expect(result.errors).toEqual([
+      { path: '.github/automation/elsewhere.json', message: 'trigger.repository must be acme/api or left out' },
+      { path: '.github/automation/existing.json', message: expect.stringContaining('managed through the API') }
+    ]);
+  });
+
+  test('syncs on pushes to the default branch that touch workflow files', async () => {
+    files['.github/automation/triage.json'] = JSON.stringify(definition('triage'));
+    const push = (ref: string, modified: string[]) => ({
+      ref,
+      after: SHA,
+      repository: { full_name: REPOSITORY, default_branch: 'main' },
+      installation: { id: 1 },
+      pusher: { name: 'octocat' },
+      commits: [{ added: [], modified, removed: [] }]
+    });
+
+    expect(await sync.handlePush(push('refs/heads/main', ['src/index.ts']))).toBeNull();
+    expect(await sync.handlePush(push('refs/heads/feature', ['.github/automation/triage.json']))).toBeNull();
+
+    const result = await sync.handlePush(push('refs/heads/main', ['.github/automation/triage.json']));
+    expect(result?.created).toEqual(['triage']);
+  });
+});
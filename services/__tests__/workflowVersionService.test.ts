@@ -0,0 +1,130 @@
+/**
+ * Tests for WorkflowVersionService - immutable version numbering, re-activation and the audit trail
+ */
+
+import { WorkflowVersionService } from '../workflowVersionService';
+import { WorkflowDefinition } from '../../types/workflow-schema';
+import prisma from '../../config/database';
+
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: {
+    $transaction: jest.fn(),
+    workflow: {
+      findUnique: jest.fn(),
+      update: jest.fn()
+    },
+    workflowVersion: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn()
+    },
+    auditLog: {
+      create: jest.fn()
+    }
+  }
+}));
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+const mockPrisma = prisma as any;
+
+const workflow = (version: string): WorkflowDefinition => ({
+  name: 'triage',
+  version,
+  trigger: { type: 'webhook', event: 'issues.opened' },
+  actions: [{ id: 'label', type: 'github_issue_label', parameters: { labels: ['bug'] } }]
+});
+
+describe('WorkflowVersionService', () => {
+  let service: WorkflowVersionService;
+  let versions: any[];
+  let activeVersion: number | null;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new WorkflowVersionService();
+    versions = [];
+    activeVersion = null;
+
+    mockPrisma.$transaction.mockImplementation(async (run: (tx: any) => Promise<unknown>) => run(mockPrisma));
+    mockPrisma.workflow.findUnique.mockImplementation(async () => ({ activeVersion }));
+    mockPrisma.workflow.update.mockImplementation(async ({ data }: any) => {
+      activeVersion = data.activeVersion;
+    });
+    mockPrisma.workflowVersion.findFirst.mockImplementation(async () =>
+      versions.length > 0 ? versions[versions.length - 1] : null);
+    mockPrisma.workflowVersion.findMany.mockImplementation(async () => [...versions].reverse());
+    mockPrisma.workflowVersion.findUnique.mockImplementation(async ({ where }: any) =>
+      versions.find(row => row.version === where.workflowId_version.version) ?? null);
+    mockPrisma.workflowVersion.create.mockImplementation(async ({ data }: any) => {
+      const row = { ...data, createdAt: new Date() };
+      versions.push(row);
+      return row;
+    });
+  });
+
+  test('numbers versions per workflow and activates the newest', async () => {
+    expect(await service.recordVersion(workflow('1.0.0'), 'alice', 'CREATED')).toBe(1);
+    expect(await service.recordVersion(workflow('1.1.0'), 'bob', 'UPDATED')).toBe(2);
+
+    expect(await service.listVersions('triage')).toEqual([
+      { version: 2, label: '1.1.0', createdBy: 'bob', createdAt: expect.any(Date), active: true },
+      { version: 1, label: '1.0.0', createdBy: 'alice', createdAt: expect.any(Date), active: false }
+    ]);
+    expect((await service.getVersion('triage', 1))?.definition).toEqual(workflow('1.0.0'));
+  });
+
+  test('retries when a concurrent update took the version number', async () => {
+    await service.recordVersion(workflow('1.0.0'), 'alice', 'CREATED');
+    mockPrisma.workflowVersion.create.mockImplementationOnce(async () => {
+      // The other update stores version 2 first
+      versions.push({ ...versions[0], version: 2, label: '1.0.1' });
+      throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+    });
+
+    expect(await service.recordVersion(workflow('1.1.0'), 'bob', 'UPDATED')).toBe(3);
+    expect(activeVersion).toBe(3);
+    expect(mockPrisma.$transaction).toHaveBeenCalledTimes(3);
+  });
+
+  test('records each change with its author', async () => {
+    await service.recordVersion(workflow('1.0.0'), 'alice', 'CREATED');
+    await service.recordVersion(workflow('1.1.0'), 'bob', 'UPDATED');
+    await service.activateVersion('triage', 1, 'carol', 2);
+
+    expect(activeVersion).toBe(1);
+    expect(mockPrisma.auditLog.create.mock.calls.map(([{ data }]: any) => data)).toEqual([
+      expect.objectContaining({
+        entityType: 'WORKFLOW', action: 'CREATED', userId: 'alice', changes: { version: 1, previousVersion: null }
+      }),
+      expect.objectContaining({ action: 'UPDATED', userId: 'bob', changes: { version: 2, previousVersion: 1 } }),
+      expect.objectContaining({ action: 'ROLLED_BACK', userId: 'carol', changes: { version: 1, previousVersion: 2 } })
+    ]);
+  });
+
+  test('references a deleted workflow from its audit entry, as its row is kept', async () => {
+    await service.recordChange('triage', 'DELETED', 'alice');
+
+    expect(mockPrisma.auditLog.create).toHaveBeenCalledWith({
+      data: { entityType: 'WORKFLOW', entityId: 'triage', action: 'DELETED', userId: 'alice', changes: {}, workflowId: 'triage' }
+    });
+  });
+
+  test('records restoring a deleted workflow', async () => {
+    await service.recordVersion(workflow('1.0.0'), 'alice', 'CREATED');
+    await service.activateVersion('triage', 1, 'bob', null, 'RESTORED');
+
+    expect(mockPrisma.auditLog.create).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({ action: 'RESTORED', userId: 'bob', changes: { version: 1, previousVersion: null } })
+    });
+  });
+
+  test('returns null for unknown versions', async () => {
+    expect(await service.getVersion('triage', 7)).toBeNull();
+  });
+});
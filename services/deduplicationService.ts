@@ -67,14 +67,17 @@ export class DeduplicationService {
       }
     }
 
-    // Store new entry
+    return false;
+  }
+
+  // Record a delivery once it has been accepted, so that redeliveries are ignored
+  public markSeen(payload: string, deliveryId: string): void {
+    const hash = this.createHash(payload, deliveryId);
     this.cache.set(hash, {
       hash,
       timestamp: Date.now(),
       deliveryId
     });
-
-    return false;
   }
 
   public getStats(): { size: number; maxEntries: number; ttlMs: number } {
@@ -1,4 +1,10 @@
 import { EventEmitter } from 'events';
+import os from 'os';
+import { TriggerDispatcher, triggerDispatcher } from './triggerDispatcher';
+import { WebhookDeliveryService, webhookDeliveryService } from './webhookDeliveryService';
+import { WorkflowSyncService, workflowSyncService } from './workflowSyncService';
+import environment from '../config/environment';
+import prisma from '../config/database';
 import logger from '../utils/logger';
 
 export interface QueuedEvent {
@@ -16,191 +22,636 @@ export interface EventProcessor {
   process(event: QueuedEvent): Promise<void>;
 }
 
+export interface EventQueueOptions {
+  maxQueueSize?: number; // Upper bound on events waiting or being processed
+  maxRetries?: number; // Default retries after the first failed attempt
+  pollInterval?: number; // ms between checks for due events
+  visibilityTimeout?: number; // ms a claimed event stays hidden from other workers
+  batchSize?: number; // Events claimed per query
+}
+
+export interface EventQueueStats {
+  size: number;
+  maxSize: number;
+  pending: number;
+  inFlight: number;
+  processing: boolean;
+  processorCount: number;
+}
+
+export type DeadLetterReason = 'retries_exhausted' | 'no_processor';
+
+export const DEAD_LETTER_REASONS: DeadLetterReason[] = ['retries_exhausted', 'no_processor'];
+
+/**
+ * One failed processing attempt, kept so dead-lettered events can be diagnosed
+ */
+export interface EventAttempt {
+  attempt: number;
+  error: string;
+  workerId: string | null;
+  failedAt: string;
+}
+
+export interface DeadLetterEvent {
+  id: string;
+  eventType: string;
+  deliveryId: string;
+  payload: any;
+  headers: Record<string, string>;
+  reason: DeadLetterReason;
+  lastError: string | null;
+  attempts: EventAttempt[];
+  replayCount: number;
+  receivedAt: Date;
+  deadLetteredAt: Date;
+}
+
+export type DeadLetterSummary = Omit<DeadLetterEvent, 'payload' | 'headers'>;
+
+export interface DeadLetterFilter {
+  ids?: string[];
+  eventType?: string;
+  reason?: DeadLetterReason;
+  before?: Date; // Dead-lettered before this time
+}
+
+export interface DeadLetterQuery extends DeadLetterFilter {
+  limit: number;
+  offset: number;
+}
+
+export interface DeadLetterStats {
+  size: number;
+  byReason: Record<DeadLetterReason, number>;
+  oldestDeadLetteredAt: string | null;
+  oldestAgeMs: number | null;
+}
+
+/**
+ * The queue cannot take more events until some are processed
+ */
+export class QueueFullError extends Error {
+  constructor(public readonly maxSize: number) {
+    super(`Queue is full (${maxSize} events)`);
+    this.name = 'QueueFullError';
+  }
+}
+
+type QueuedEventStatus = 'pending' | 'processing' | 'dead_letter';
+
+// A claimed event along with the failures of its earlier attempts
+interface ClaimedEvent extends QueuedEvent {
+  attempts: EventAttempt[];
+}
+
+interface ClaimedEventRow {
+  id: string;
+  event_type: string;
+  delivery_id: string;
+  payload: any;
+  headers: Record<string, string>;
+  retry_count: number;
+  max_retries: number;
+  attempts: EventAttempt[];
+  created_at: Date;
+}
+
+const LEASE_EXPIRED_ERROR = 'Event processing did not finish within the visibility timeout';
+
+/**
+ * Webhook events waiting to be processed, stored in the event_queue table so
+ * that accepted deliveries survive a restart.
+ *
+ * Workers claim due events with `FOR UPDATE SKIP LOCKED`, so several processes
+ * can share the queue without handing the same event to two of them. A claim
+ * hides the event for the visibility timeout; if the worker dies before it
+ * finishes, the event becomes due again and is counted as a failed attempt.
+ * Retries are scheduled by moving `available_at` forward rather than with timers.
+ *
+ * Events that run out of retries, or that no processor handles, move to the
+ * dead-letter queue: they stay in the table with status `dead_letter`, their
+ * reason and attempt history until they are replayed or purged.
+ */
 export class EventQueue extends EventEmitter {
-  private queue: QueuedEvent[] = [];
-  private processing = false;
   private processors = new Map<string, EventProcessor>();
-  private readonly maxQueueSize: number;
-  private readonly defaultMaxRetries: number;
+  private options: Required<EventQueueOptions>;
+  private readonly workerId: string;
+  private timer: NodeJS.Timeout | null = null;
+  private polling: Promise<void> | null = null;
 
-  constructor(maxQueueSize: number = 1000, defaultMaxRetries: number = 3) {
+  constructor(options: EventQueueOptions = {}) {
     super();
-    this.maxQueueSize = maxQueueSize;
-    this.defaultMaxRetries = defaultMaxRetries;
+
+    this.options = {
+      maxQueueSize: 1000,
+      maxRetries: 3,
+      pollInterval: 1000,
+      visibilityTimeout: 300000,
+      batchSize: 10,
+      ...options
+    };
+    this.workerId = `${os.hostname()}:${process.pid}:${Math.random().toString(36).slice(2, 8)}`;
   }
 
   public registerProcessor(eventType: string, processor: EventProcessor): void {
     this.processors.set(eventType, processor);
   }
 
+  /**
+   * Start claiming and processing due events
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.poll(), this.options.pollInterval);
+    this.poll();
+
+    logger.info('Event queue started', {
+      workerId: this.workerId,
+      pollInterval: this.options.pollInterval,
+      visibilityTimeout: this.options.visibilityTimeout
+    });
+  }
+
+  /**
+   * Stop claiming events and wait for the claimed ones to finish
+   */
+  public async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    await this.polling;
+  }
+
   public async enqueue(
     eventType: string,
     payload: any,
     headers: Record<string, string>,
     deliveryId: string,
     maxRetries?: number
-  ): Promise<void> {
-    if (this.queue.length >= this.maxQueueSize) {
-      throw new Error(`Queue is full (${this.maxQueueSize} events)`);
+  ): Promise<QueuedEvent> {
+    const size = await prisma.queuedEvent.count({
+      where: { status: { in: ['pending', 'processing'] } }
+    });
+    if (size >= this.options.maxQueueSize) {
+      throw new QueueFullError(this.options.maxQueueSize);
     }
 
+    const row = await prisma.queuedEvent.create({
+      data: {
+        eventType,
+        deliveryId,
+        payload,
+        headers,
+        maxRetries: maxRetries ?? this.options.maxRetries
+      }
+    });
+
     const event: QueuedEvent = {
-      id: this.generateEventId(),
+      id: row.id,
       eventType,
       payload,
       headers,
       deliveryId,
-      timestamp: Date.now(),
+      timestamp: row.createdAt.getTime(),
       retryCount: 0,
-      maxRetries: maxRetries ?? this.defaultMaxRetries
+      maxRetries: row.maxRetries
     };
 
-    this.queue.push(event);
     this.emit('eventQueued', event);
 
-    // Start processing if not already running
-    if (!this.processing) {
-      setImmediate(() => this.processQueue());
+    // Pick it up right away rather than on the next poll
+    if (this.timer) {
+      setImmediate(() => this.poll());
     }
-  }
 
-  private generateEventId(): string {
-    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    return event;
   }
 
-  private async processQueue(): Promise<void> {
-    if (this.processing || this.queue.length === 0) {
+  /**
+   * Process due events until none are left, unless a poll is already doing so
+   */
+  private poll(): void {
+    if (this.polling) {
       return;
     }
 
-    this.processing = true;
+    this.polling = this.processDueEvents()
+      .catch((error) => {
+        logger.error('Event queue poll failed', {
+          workerId: this.workerId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        this.emit('processingError', error);
+      })
+      .finally(() => {
+        this.polling = null;
+      });
+  }
 
-    try {
-      while (this.queue.length > 0) {
-        const event = this.queue.shift()!;
+  private async processDueEvents(): Promise<void> {
+    while (this.timer) {
+      const events = await this.claimDueEvents();
+      if (events.length === 0) {
+        return;
+      }
+
+      for (const event of events) {
         await this.processEvent(event);
       }
-    } catch (error) {
-      this.emit('processingError', error);
-    } finally {
-      this.processing = false;
     }
   }
 
-  private async processEvent(event: QueuedEvent): Promise<void> {
+  /**
+   * Lease a batch of due events to this worker. Rows locked by another worker's
+   * claim are skipped rather than waited for. Events whose lease expired were
+   * being processed by a worker that never finished, which counts as a failed attempt.
+   */
+  private async claimDueEvents(): Promise<ClaimedEvent[]> {
+    const rows: ClaimedEventRow[] = await prisma.$queryRaw`
+      UPDATE event_queue
+      SET status = 'processing',
+          retry_count = CASE WHEN status = 'processing' THEN retry_count + 1 ELSE retry_count END,
+          attempts = CASE WHEN status = 'processing'
+            THEN attempts || jsonb_build_array(jsonb_build_object(
+              'attempt', retry_count + 1,
+              'error', ${LEASE_EXPIRED_ERROR}::text,
+              'workerId', locked_by,
+              'failedAt', now()
+            ))
+            ELSE attempts
+          END,
+          locked_by = ${this.workerId},
+          locked_at = now(),
+          available_at = now() + ${this.options.visibilityTimeout}::int * interval '1 millisecond',
+          updated_at = now()
+      WHERE id IN (
+        SELECT id FROM event_queue
+        WHERE status IN ('pending', 'processing') AND available_at <= now()
+        ORDER BY available_at, created_at
+        LIMIT ${this.options.batchSize}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id, event_type, delivery_id, payload, headers, retry_count, max_retries, attempts, created_at
+    `;
+
+    return rows
+      .map(row => ({
+        id: row.id,
+        eventType: row.event_type,
+        payload: row.payload,
+        headers: row.headers,
+        deliveryId: row.delivery_id,
+        timestamp: new Date(row.created_at).getTime(),
+        retryCount: row.retry_count,
+        maxRetries: row.max_retries,
+        attempts: row.attempts
+      }))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  private async processEvent(event: ClaimedEvent): Promise<void> {
+    // The lease of an earlier attempt ran out without the event finishing;
+    // the claim already recorded that attempt
+    if (event.retryCount > event.maxRetries) {
+      const error = new Error(LEASE_EXPIRED_ERROR);
+      await this.deadLetter(event, 'retries_exhausted', error.message);
+      this.emit('eventFailed', event, error);
+      return;
+    }
+
     const processor = this.processors.get(event.eventType);
     
     if (!processor) {
       this.emit('noProcessor', event);
+      await this.deadLetter(event, 'no_processor', `No processor registered for event type: ${event.eventType}`);
       return;
     }
 
     try {
       await processor.process(event);
+      await this.removeEvent(event);
       this.emit('eventProcessed', event);
     } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
       event.retryCount++;
+      event.attempts.push({
+        attempt: event.retryCount,
+        error: message,
+        workerId: this.workerId,
+        failedAt: new Date().toISOString()
+      });
       this.emit('eventProcessingFailed', event, error);
 
       if (event.retryCount <= event.maxRetries) {
-        // Re-queue for retry with exponential backoff
+        // Reschedule with exponential backoff
         const delay = Math.min(1000 * Math.pow(2, event.retryCount - 1), 30000); // Max 30s delay
-        setTimeout(() => {
-          this.queue.unshift(event); // Add to front of queue
-          if (!this.processing) {
-            setImmediate(() => this.processQueue());
-          }
-        }, delay);
+        await this.releaseEvent(event, {
+          status: 'pending',
+          lastError: message,
+          availableAt: new Date(Date.now() + delay)
+        });
         this.emit('eventRetrying', event, delay);
       } else {
+        await this.deadLetter(event, 'retries_exhausted', message);
         this.emit('eventFailed', event, error);
       }
     }
   }
 
-  public getQueueSize(): number {
-    return this.queue.length;
+  /**
+   * Park an event in the dead-letter queue until it is replayed or purged
+   */
+  private async deadLetter(event: ClaimedEvent, reason: DeadLetterReason, lastError: string): Promise<void> {
+    await this.releaseEvent(event, {
+      status: 'dead_letter',
+      lastError,
+      deadLetterReason: reason,
+      deadLetteredAt: new Date()
+    });
+
+    logger.warn('Webhook event moved to the dead-letter queue', {
+      id: event.id,
+      deliveryId: event.deliveryId,
+      eventType: event.eventType,
+      reason,
+      attempts: event.attempts.length,
+      error: lastError
+    });
+    this.emit('eventDeadLettered', event, reason);
   }
 
-  public getQueueStats(): {
-    size: number;
-    maxSize: number;
-    processing: boolean;
-    processorCount: number;
-  } {
+  /**
+   * Hand a claimed event back with a new status. Only applies while this worker
+   * still holds the lease, so an event reclaimed after a timeout is left alone.
+   */
+  private async releaseEvent(
+    event: ClaimedEvent,
+    data: {
+      status: QueuedEventStatus;
+      lastError: string;
+      availableAt?: Date;
+      deadLetterReason?: DeadLetterReason;
+      deadLetteredAt?: Date;
+    }
+  ): Promise<void> {
+    await prisma.queuedEvent.updateMany({
+      where: { id: event.id, lockedBy: this.workerId },
+      data: {
+        availableAt: new Date(),
+        ...data,
+        retryCount: event.retryCount,
+        attempts: event.attempts,
+        lockedBy: null,
+        lockedAt: null
+      }
+    });
+  }
+
+  private async removeEvent(event: QueuedEvent): Promise<void> {
+    await prisma.queuedEvent.deleteMany({
+      where: { id: event.id, lockedBy: this.workerId }
+    });
+  }
+
+  /**
+   * Number of events waiting or being processed
+   */
+  public async getQueueSize(): Promise<number> {
+    return prisma.queuedEvent.count({
+      where: { status: { in: ['pending', 'processing'] } }
+    });
+  }
+
+  public async getQueueStats(): Promise<EventQueueStats> {
+    const counts = await prisma.queuedEvent.groupBy({
+      by: ['status'],
+      _count: { _all: true }
+    });
+    const countOf = (status: QueuedEventStatus): number =>
+      counts.find((row: { status: string; _count: { _all: number } }) => row.status === status)?._count._all ?? 0;
+
+    const pending = countOf('pending');
+    const inFlight = countOf('processing');
+
     return {
-      size: this.queue.length,
-      maxSize: this.maxQueueSize,
-      processing: this.processing,
+      size: pending + inFlight,
+      maxSize: this.options.maxQueueSize,
+      pending,
+      inFlight,
+      processing: this.polling !== null,
       processorCount: this.processors.size
     };
   }
 
-  public clear(): void {
-    this.queue = [];
-    this.processing = false;
+  /**
+   * Dead-lettered events, most recently dead-lettered first, without their payloads
+   */
+  public async listDeadLetters(query: DeadLetterQuery): Promise<{ events: DeadLetterSummary[]; total: number }> {
+    const where = this.deadLetterWhere(query);
+    const [rows, total] = await Promise.all([
+      prisma.queuedEvent.findMany({
+        where,
+        orderBy: { deadLetteredAt: 'desc' },
+        skip: query.offset,
+        take: query.limit,
+        select: {
+          id: true,
+          eventType: true,
+          deliveryId: true,
+          deadLetterReason: true,
+          lastError: true,
+          attempts: true,
+          replayCount: true,
+          createdAt: true,
+          deadLetteredAt: true
+        }
+      }),
+      prisma.queuedEvent.count({ where })
+    ]);
+
+    return {
+      events: rows.map((row: any) => this.toDeadLetterSummary(row)),
+      total
+    };
   }
-}
 
-// Default event processor for GitHub webhooks
-export class GitHubEventProcessor implements EventProcessor {
-  async process(event: QueuedEvent): Promise<void> {
-    // Default implementation - log the event
-    logger.info(`Processing GitHub webhook: ${event.eventType}`, {
-      deliveryId: event.deliveryId,
-      timestamp: new Date(event.timestamp).toISOString(),
-      retryCount: event.retryCount
+  public async getDeadLetter(id: string): Promise<DeadLetterEvent | null> {
+    const row = await prisma.queuedEvent.findFirst({
+      where: { id, status: 'dead_letter' }
     });
+    if (!row) {
+      return null;
+    }
 
-    // Add your specific event processing logic here
-    // For example, you might want to:
-    // - Store the event in a database
-    // - Trigger specific workflows based on event type
-    // - Send notifications
-    // - Update external systems
-    
-    await this.handleSpecificEvent(event);
-  }
-
-  private async handleSpecificEvent(event: QueuedEvent): Promise<void> {
-    switch (event.eventType) {
-      case 'push':
-        await this.handlePushEvent(event);
-        break;
-      case 'pull_request':
-        await this.handlePullRequestEvent(event);
-        break;
-      case 'issues':
-        await this.handleIssuesEvent(event);
-        break;
-      case 'release':
-        await this.handleReleaseEvent(event);
-        break;
-      default:
-        logger.info(`No specific handler for event type: ${event.eventType}`);
+    return {
+      ...this.toDeadLetterSummary(row),
+      payload: row.payload,
+      headers: row.headers
+    };
+  }
+
+  /**
+   * Put matching dead-lettered events back in the queue with a fresh set of
+   * retries. Their attempt history is kept. Returns the number replayed.
+   */
+  public async replayDeadLetters(filter: DeadLetterFilter): Promise<number> {
+    const where = this.deadLetterWhere(filter);
+    const [size, matching] = await Promise.all([
+      this.getQueueSize(),
+      prisma.queuedEvent.count({ where })
+    ]);
+    if (matching === 0) {
+      return 0;
     }
+    if (size + matching > this.options.maxQueueSize) {
+      throw new QueueFullError(this.options.maxQueueSize);
+    }
+
+    const { count } = await prisma.queuedEvent.updateMany({
+      where,
+      data: {
+        status: 'pending',
+        retryCount: 0,
+        availableAt: new Date(),
+        deadLetterReason: null,
+        deadLetteredAt: null,
+        replayCount: { increment: 1 }
+      }
+    });
+
+    logger.info('Replayed dead-lettered webhook events', { count, filter });
+    this.emit('deadLettersReplayed', count);
+
+    if (this.timer && count > 0) {
+      setImmediate(() => this.poll());
+    }
+
+    return count;
   }
 
-  private async handlePushEvent(event: QueuedEvent): Promise<void> {
-    logger.info('Handling push event:', event.payload.ref);
+  /**
+   * Delete matching dead-lettered events. Returns the number deleted.
+   */
+  public async purgeDeadLetters(filter: DeadLetterFilter): Promise<number> {
+    const { count } = await prisma.queuedEvent.deleteMany({
+      where: this.deadLetterWhere(filter)
+    });
+
+    logger.info('Purged dead-lettered webhook events', { count, filter });
+    return count;
   }
 
-  private async handlePullRequestEvent(event: QueuedEvent): Promise<void> {
-    logger.info('Handling pull request event:', event.payload.action);
+  public async getDeadLetterStats(): Promise<DeadLetterStats> {
+    const [counts, oldest] = await Promise.all([
+      prisma.queuedEvent.groupBy({
+        by: ['deadLetterReason'],
+        where: { status: 'dead_letter' },
+        _count: { _all: true }
+      }),
+      prisma.queuedEvent.aggregate({
+        where: { status: 'dead_letter' },
+        _min: { deadLetteredAt: true }
+      })
+    ]);
+
+    const byReason = Object.fromEntries(DEAD_LETTER_REASONS.map(reason => [
+      reason,
+      counts.find((row: { deadLetterReason: string; _count: { _all: number } }) => row.deadLetterReason === reason)?._count._all ?? 0
+    ])) as Record<DeadLetterReason, number>;
+    const oldestAt: Date | null = oldest._min.deadLetteredAt;
+
+    return {
+      size: Object.values(byReason).reduce((sum, count) => sum + count, 0),
+      byReason,
+      oldestDeadLetteredAt: oldestAt ? oldestAt.toISOString() : null,
+      oldestAgeMs: oldestAt ? Date.now() - oldestAt.getTime() : null
+    };
   }
 
-  private async handleIssuesEvent(event: QueuedEvent): Promise<void> {
-    logger.info('Handling issues event:', event.payload.action);
+  private deadLetterWhere(filter: DeadLetterFilter): Record<string, any> {
+    return {
+      status: 'dead_letter',
+      ...(filter.ids && { id: { in: filter.ids } }),
+      ...(filter.eventType && { eventType: filter.eventType }),
+      ...(filter.reason && { deadLetterReason: filter.reason }),
+      ...(filter.before && { deadLetteredAt: { lt: filter.before } })
+    };
   }
 
-  private async handleReleaseEvent(event: QueuedEvent): Promise<void> {
-    logger.info('Handling release event:', event.payload.action);
+  private toDeadLetterSummary(row: any): DeadLetterSummary {
+    return {
+      id: row.id,
+      eventType: row.eventType,
+      deliveryId: row.deliveryId,
+      reason: row.deadLetterReason,
+      lastError: row.lastError,
+      attempts: row.attempts,
+      replayCount: row.replayCount,
+      receivedAt: row.createdAt,
+      deadLetteredAt: row.deadLetteredAt
+    };
+  }
+
+  /**
+   * Drop every queued event, including dead-lettered ones
+   */
+  public async clear(): Promise<void> {
+    await prisma.queuedEvent.deleteMany({});
+  }
+}
+
+// Default event processor for GitHub webhooks
+export class GitHubEventProcessor implements EventProcessor {
+  constructor(
+    private readonly dispatcher: TriggerDispatcher,
+    private readonly deliveries: WebhookDeliveryService,
+    private readonly workflowSync: WorkflowSyncService
+  ) {}
+
+  async process(event: QueuedEvent): Promise<void> {
+    logger.info(`Processing GitHub webhook: ${event.eventType}`, {
+      deliveryId: event.deliveryId,
+      timestamp: new Date(event.timestamp).toISOString(),
+      retryCount: event.retryCount
+    });
+
+    // Start every workflow whose trigger matches this event
+    const result = await this.dispatcher.dispatch(event);
+    await this.deliveries.recordDispatches(event.id, result.dispatched);
+
+    // Pick up workflow file changes. Failing here must not retry the event,
+    // which would start its workflows again.
+    if (event.eventType === 'push') {
+      await this.workflowSync.handlePush(event.payload).catch(error => {
+        logger.error('Failed to sync workflows after push', {
+          deliveryId: event.deliveryId,
+          repository: event.payload?.repository?.full_name,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    }
   }
 }
 
 // Singleton instances
-export const eventQueue = new EventQueue();
-export const gitHubEventProcessor = new GitHubEventProcessor();
+export const eventQueue = new EventQueue({
+  maxQueueSize: environment.WEBHOOK_QUEUE_MAX_SIZE,
+  maxRetries: environment.WEBHOOK_QUEUE_MAX_RETRIES,
+  pollInterval: environment.WEBHOOK_QUEUE_POLL_INTERVAL,
+  visibilityTimeout: environment.WEBHOOK_QUEUE_VISIBILITY_TIMEOUT,
+  batchSize: environment.WEBHOOK_QUEUE_BATCH_SIZE
+});
+export const gitHubEventProcessor = new GitHubEventProcessor(
+  triggerDispatcher,
+  webhookDeliveryService,
+  workflowSyncService
+);
 
 // Register the default processor for all GitHub events
 eventQueue.registerProcessor('push', gitHubEventProcessor);
@@ -211,4 +662,9 @@ eventQueue.registerProcessor('create', gitHubEventProcessor);
 eventQueue.registerProcessor('delete', gitHubEventProcessor);
 eventQueue.registerProcessor('fork', gitHubEventProcessor);
 eventQueue.registerProcessor('watch', gitHubEventProcessor);
-eventQueue.registerProcessor('star', gitHubEventProcessor);
\ No newline at end of file
+eventQueue.registerProcessor('star', gitHubEventProcessor);
+eventQueue.registerProcessor('workflow_run', gitHubEventProcessor);
+eventQueue.registerProcessor('check_suite', gitHubEventProcessor);
+eventQueue.registerProcessor('deployment_status', gitHubEventProcessor);
+eventQueue.registerProcessor('repository', gitHubEventProcessor);
+eventQueue.registerProcessor('repository_vulnerability_alert', gitHubEventProcessor);
\ No newline at end of file
@@ -18,6 +18,7 @@ export class GitHubAuthService {
   private readonly rateLimitTracker: RateLimitTracker;
   private readonly config: GitHubAppConfig;
   private readonly octokit: Octokit;
+  private readonly installationClients = new Map<number, Octokit>();
 
   constructor(config: GitHubAppConfig) {
     this.config = config;
@@ -27,6 +28,7 @@ export class GitHubAuthService {
 
     // Initialize Octokit with app authentication
     this.octokit = new Octokit({
+      ...(config.baseUrl && { baseUrl: config.baseUrl }),
       authStrategy: createAppAuth,
       auth: {
         appId: config.appId,
@@ -134,12 +136,14 @@ export class GitHubAuthService {
         installation_id: installationId,
       });
 
+      const account = response.data.account;
+
       return {
         id: response.data.id,
         account: {
-          login: ('login' in response.data.account) ? response.data.account.login : response.data.account.name || '',
-          id: response.data.account?.id || 0,
-          type: ('type' in response.data.account) ? (response.data.account.type as 'User' | 'Organization') : 'Organization',
+          login: !account ? '' : ('login' in account) ? account.login : account.name || '',
+          id: account?.id || 0,
+          type: account && ('type' in account) ? (account.type as 'User' | 'Organization') : 'Organization',
         },
         repositorySelection: response.data.repository_selection as 'all' | 'selected',
         permissions: response.data.permissions,
@@ -180,12 +184,27 @@ export class GitHubAuthService {
   }
 
   createInstallationClient(installationId: number): Octokit {
-    return new Octokit({
-      auth: async () => {
-        const token = await this.getInstallationToken(installationId);
-        return token.token;
-      },
+    const client = new Octokit({
+      ...(this.config.baseUrl && { baseUrl: this.config.baseUrl }),
+    });
+
+    // Authenticate every request with the (cached) installation token
+    client.hook.before('request', async (options) => {
+      const token = await this.getInstallationToken(installationId);
+      options.headers.authorization = `token ${token.token}`;
     });
+
+    return client;
+  }
+
+  // Reuses one client per installation; tokens are still refreshed through the token cache
+  getInstallationOctokit(installationId: number): Octokit {
+    let client = this.installationClients.get(installationId);
+    if (!client) {
+      client = this.createInstallationClient(installationId);
+      this.installationClients.set(installationId, client);
+    }
+    return client;
   }
 
   async revokeInstallationToken(installationId: number): Promise<void> {
@@ -293,6 +312,7 @@ export class GitHubAuthService {
   async cleanup(): Promise<void> {
     logger.info('Cleaning up GitHub Auth Service');
     this.tokenCache.clear();
+    this.installationClients.clear();
     this.rateLimitTracker.clearExpiredRateLimits();
   }
 }
\ No newline at end of file
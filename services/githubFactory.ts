@@ -2,6 +2,7 @@ import { GitHubAuthService } from './githubAuth';
 import { GitHubAuthMiddleware } from '../middleware/githubAuth';
 import { GitHubAppConfig } from '../types/github';
 import environment from '../config/environment';
+import { webhookSignatureVerifier } from '../utils/webhookSecurity';
 import logger from '../utils/logger';
 
 export class GitHubServiceFactory {
@@ -55,7 +56,7 @@ export class GitHubServiceFactory {
     try {
       this.authMiddleware = new GitHubAuthMiddleware(
         authService,
-        environment.GITHUB_WEBHOOK_SECRET
+        webhookSignatureVerifier
       );
 
       logger.info('GitHub Auth Middleware initialized successfully');
@@ -118,6 +119,7 @@ export class GitHubServiceFactory {
       webhookSecret: environment.GITHUB_WEBHOOK_SECRET,
       clientId: environment.GITHUB_CLIENT_ID,
       clientSecret: environment.GITHUB_CLIENT_SECRET,
+      baseUrl: environment.GITHUB_API_URL,
     };
   }
 
@@ -170,7 +172,7 @@ export class GitHubServiceFactory {
     const { 
       GITHUB_APP_ID, 
       GITHUB_PRIVATE_KEY, 
-      GITHUB_WEBHOOK_SECRET,
+      GITHUB_WEBHOOK_SECRETS,
       GITHUB_CLIENT_ID,
       GITHUB_CLIENT_SECRET 
     } = environment;
@@ -187,7 +189,7 @@ export class GitHubServiceFactory {
     }
 
     // Optional but recommended
-    if (!GITHUB_WEBHOOK_SECRET) {
+    if (GITHUB_WEBHOOK_SECRETS.length === 0) {
       warnings.push('GITHUB_WEBHOOK_SECRET is recommended for webhook security');
     }
 
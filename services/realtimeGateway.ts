@@ -0,0 +1,205 @@
+import { EventEmitter } from 'events';
+import { Server as HttpServer } from 'http';
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import { AdminAuthMiddleware, adminAuth } from '../middleware/adminAuth';
+import environment from '../config/environment';
+import { secretRedactor } from '../utils/redaction';
+import logger from '../utils/logger';
+import { workflowService } from './workflow-service';
+
+export interface RealtimeGatewayOptions {
+  corsOrigin?: string | undefined; // Defaults to CORS_ORIGIN
+  path?: string | undefined;
+}
+
+export interface SubscriptionRequest {
+  workflow?: string; // Workflow name
+  execution?: string; // Execution ID
+}
+
+export type SubscriptionAck = (response: { success: boolean; rooms?: string[]; error?: string }) => void;
+
+// Execution events forwarded from the workflow service to subscribed clients
+export const REALTIME_EVENTS = [
+  'execution:started',
+  'execution:progress',
+  'execution:completed',
+  'execution:failed',
+  'execution:timeout',
+  'execution:cancelled'
+] as const;
+
+const ALL_EXECUTIONS_ROOM = 'executions';
+
+/**
+ * Streams workflow execution events to Socket.IO clients. Clients connect with
+ * an admin token in the handshake's `auth.token`.
+ *
+ * Clients join rooms with `subscribe`:
+ * - `{ workflow: 'name' }` - every execution of one workflow
+ * - `{ execution: 'id' }` - a single execution
+ * - `{}` - every execution
+ * and leave them again with `unsubscribe` and the same payload.
+ */
+export class RealtimeGateway {
+  private io: SocketIOServer | null = null;
+  private listeners: Map<string, (data: any) => void> = new Map();
+
+  constructor(private readonly source: EventEmitter, private readonly auth: AdminAuthMiddleware) {}
+
+  /**
+   * Start accepting Socket.IO connections on an HTTP server
+   */
+  public attach(server: HttpServer, options: RealtimeGatewayOptions = {}): SocketIOServer {
+    if (this.io) {
+      return this.io;
+    }
+
+    // Browsers refuse credentials for a wildcard origin
+    const corsOrigin = options.corsOrigin || environment.CORS_ORIGIN;
+    this.io = new SocketIOServer(server, {
+      path: options.path || '/socket.io',
+      cors: {
+        origin: corsOrigin,
+        credentials: corsOrigin !== '*'
+      }
+    });
+
+    this.io.use((socket, next) => this.authenticate(socket, next));
+    this.io.on('connection', (socket) => this.handleConnection(socket));
+
+    for (const event of REALTIME_EVENTS) {
+      const listener = (data: any) => this.broadcast(event, data);
+      this.listeners.set(event, listener);
+      this.source.on(event, listener);
+    }
+
+    logger.info('Realtime gateway attached', { path: options.path || '/socket.io' });
+    return this.io;
+  }
+
+  /**
+   * Stop forwarding events and disconnect all clients
+   */
+  public close(): void {
+    for (const [event, listener] of this.listeners) {
+      this.source.off(event, listener);
+    }
+    this.listeners.clear();
+
+    if (this.io) {
+      const io = this.io;
+      this.io = null;
+      // Disconnect clients without closing the HTTP server, which the caller owns
+      io.disconnectSockets(true);
+      io.removeAllListeners();
+    }
+  }
+
+  /**
+   * Number of connected clients
+   */
+  public getConnectionCount(): number {
+    return this.io ? this.io.of('/').sockets.size : 0;
+  }
+
+  private authenticate(socket: Socket, next: (error?: Error) => void): void {
+    if (!this.auth.enabled) {
+      return next(new Error('Realtime updates are not configured'));
+    }
+
+    const token: unknown = socket.handshake.auth?.token;
+    const principal = typeof token === 'string' && token ? this.auth.authenticate(token) : undefined;
+    if (!principal) {
+      logger.warn('Rejected realtime client with an invalid token', { socketId: socket.id, address: socket.handshake.address });
+      return next(new Error('Invalid token'));
+    }
+
+    socket.data.principal = principal;
+    next();
+  }
+
+  private handleConnection(socket: Socket): void {
+    logger.debug('Realtime client connected', { socketId: socket.id, principal: socket.data.principal });
+
+    socket.on('subscribe', (request: SubscriptionRequest, ack?: SubscriptionAck) => {
+      this.updateSubscription(socket, request, 'join', ack);
+    });
+
+    socket.on('unsubscribe', (request: SubscriptionRequest, ack?: SubscriptionAck) => {
+      this.updateSubscription(socket, request, 'leave', ack);
+    });
+
+    socket.on('disconnect', (reason) => {
+      logger.debug('Realtime client disconnected', { socketId: socket.id, reason });
+    });
+  }
+
+  private updateSubscription(
+    socket: Socket,
+    request: SubscriptionRequest,
+    mode: 'join' | 'leave',
+    ack?: SubscriptionAck
+  ): void {
+    const reply = typeof ack === 'function' ? ack : () => undefined;
+    const { workflow, execution } = request || {};
+
+    if ((workflow !== undefined && typeof workflow !== 'string') ||
+        (execution !== undefined && typeof execution !== 'string')) {
+      reply({ success: false, error: 'workflow and execution must be strings' });
+      return;
+    }
+
+    const rooms = this.roomsFor(workflow, execution);
+    if (rooms.length === 0) {
+      rooms.push(ALL_EXECUTIONS_ROOM);
+    }
+
+    for (const room of rooms) {
+      if (mode === 'join') {
+        void socket.join(room);
+      } else {
+        void socket.leave(room);
+      }
+    }
+
+    logger.debug(`Realtime client ${mode === 'join' ? 'subscribed' : 'unsubscribed'}`, {
+      socketId: socket.id,
+      rooms
+    });
+
+    reply({ success: true, rooms });
+  }
+
+  /**
+   * Send an event to everyone watching all executions, the workflow or the execution
+   */
+  private broadcast(event: string, data: any): void {
+    if (!this.io) {
+      return;
+    }
+
+    const executionId: string | undefined = data?.executionId;
+    const workflowName: string | undefined = data?.workflow ?? data?.workflowId;
+
+    // Action results and errors can contain resolved secrets
+    this.io
+      .to([ALL_EXECUTIONS_ROOM, ...this.roomsFor(workflowName, executionId)])
+      .emit(event, secretRedactor.redact({
+        ...data,
+        executionId,
+        workflowName,
+        timestamp: new Date().toISOString()
+      }));
+  }
+
+  private roomsFor(workflowName?: string, executionId?: string): string[] {
+    return [
+      ...(workflowName ? [`workflow:${workflowName}`] : []),
+      ...(executionId ? [`execution:${executionId}`] : [])
+    ];
+  }
+}
+
+// Create singleton instance
+export const realtimeGateway = new RealtimeGateway(workflowService, adminAuth);
@@ -0,0 +1,286 @@
+import crypto from 'crypto';
+import environment from '../config/environment';
+import prisma from '../config/database';
+import { secretRedactor } from '../utils/redaction';
+import logger from '../utils/logger';
+
+export type SecretScope = 'global' | 'repository' | 'workflow';
+
+export const SECRET_SCOPES: SecretScope[] = ['global', 'repository', 'workflow'];
+
+// Names have to work as template paths: {{secrets.NAME}}
+export const SECRET_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export interface SecretRef {
+  scope: SecretScope;
+  target?: string; // Repository full name or workflow name
+  name: string;
+}
+
+export interface SecretMetadata {
+  name: string;
+  scope: SecretScope;
+  target: string | null;
+  description: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SecretQuery {
+  scope?: SecretScope;
+  target?: string;
+}
+
+const ENCRYPTION_VERSION = 'v1';
+
+/**
+ * Parse a 32-byte master key given as base64 or hex
+ */
+export function parseMasterKey(value: string): Buffer {
+  const key = /^[0-9a-fA-F]{64}$/.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+  if (key.length !== 32) {
+    throw new Error('SECRETS_MASTER_KEY must be 32 bytes, base64 or hex encoded');
+  }
+  return key;
+}
+
+/**
+ * Encrypt with AES-256-GCM. The secret's identity is authenticated with it,
+ * so a stored value cannot be moved to another name or scope.
+ */
+export function encryptSecret(plaintext: string, key: Buffer, identity: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(identity));
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [ENCRYPTION_VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map(part => typeof part === 'string' ? part : part.toString('base64'))
+    .join(':');
+}
+
+export function decryptSecret(encrypted: string, key: Buffer, identity: string): string {
+  const [version, iv, authTag, ciphertext] = encrypted.split(':');
+  if (version !== ENCRYPTION_VERSION || !iv || !authTag || ciphertext === undefined) {
+    throw new Error('Unrecognized secret encryption format');
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
+  decipher.setAAD(Buffer.from(identity));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Secrets encrypted at rest under the master key and made available to
+ * workflows as {{secrets.NAME}}. Values are only decrypted to run a workflow;
+ * nothing here returns them to API callers.
+ */
+export class SecretsService {
+  private readonly masterKey: Buffer | null;
+
+  constructor(masterKey?: string) {
+    this.masterKey = null;
+
+    if (!masterKey) {
+      logger.warn('SECRETS_MASTER_KEY is not configured. Stored secrets are unavailable.');
+      return;
+    }
+
+    try {
+      this.masterKey = parseMasterKey(masterKey);
+    } catch (error) {
+      logger.error('Invalid secrets master key. Stored secrets are unavailable.', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  public get enabled(): boolean {
+    return this.masterKey !== null;
+  }
+
+  public async listSecrets(query: SecretQuery = {}): Promise<SecretMetadata[]> {
+    const rows = await prisma.secret.findMany({
+      where: {
+        ...(query.scope && { scope: query.scope }),
+        ...(query.target && { scopeTarget: query.target })
+      },
+      orderBy: [{ scope: 'asc' }, { scopeTarget: 'asc' }, { name: 'asc' }]
+    });
+
+    return rows.map((row: any) => this.toMetadata(row));
+  }
+
+  /**
+   * Create or replace a secret
+   */
+  public async setSecret(
+    ref: SecretRef,
+    value: string,
+    description?: string
+  ): Promise<{ secret: SecretMetadata; created: boolean }> {
+    const key = this.requireKey();
+    const scopeTarget = this.scopeTarget(ref);
+    const where = { scope_scopeTarget_name: { scope: ref.scope, scopeTarget, name: ref.name } };
+    const encryptedValue = encryptSecret(value, key, this.identity(ref));
+
+    const existing = await prisma.secret.findUnique({ where, select: { id: true } });
+    const row = await prisma.secret.upsert({
+      where,
+      create: {
+        name: ref.name,
+        scope: ref.scope,
+        scopeTarget,
+        encryptedValue,
+        description: description ?? null
+      },
+      update: {
+        encryptedValue,
+        ...(description !== undefined && { description })
+      }
+    });
+
+    await this.refreshRedaction();
+    await this.audit(row.id, existing ? 'UPDATED' : 'CREATED', ref);
+
+    logger.info(`Secret ${existing ? 'updated' : 'created'}`, { name: ref.name, scope: ref.scope, target: ref.target });
+
+    return { secret: this.toMetadata(row), created: !existing };
+  }
+
+  public async deleteSecret(ref: SecretRef): Promise<boolean> {
+    const row = await prisma.secret.findUnique({
+      where: { scope_scopeTarget_name: { scope: ref.scope, scopeTarget: this.scopeTarget(ref), name: ref.name } },
+      select: { id: true }
+    });
+    if (!row) {
+      return false;
+    }
+
+    await prisma.secret.delete({ where: { id: row.id } });
+    await this.refreshRedaction();
+    await this.audit(row.id, 'DELETED', ref);
+
+    logger.info('Secret deleted', { name: ref.name, scope: ref.scope, target: ref.target });
+    return true;
+  }
+
+  /**
+   * Decrypt the secrets visible to a workflow run. Repository secrets override
+   * global ones of the same name, and workflow secrets override both.
+   */
+  public async resolveSecrets(workflowName: string, repository?: string): Promise<Record<string, string>> {
+    if (!this.masterKey) {
+      return {};
+    }
+
+    const rows = await prisma.secret.findMany({
+      where: {
+        OR: [
+          { scope: 'global' },
+          ...(repository ? [{ scope: 'repository', scopeTarget: repository }] : []),
+          { scope: 'workflow', scopeTarget: workflowName }
+        ]
+      }
+    });
+
+    const secrets: Record<string, string> = {};
+    for (const scope of SECRET_SCOPES) {
+      for (const row of rows.filter((r: { scope: string }) => r.scope === scope)) {
+        const value = this.decryptRow(row, { workflowName });
+        if (value !== undefined) {
+          secrets[row.name] = value;
+        }
+      }
+    }
+
+    return secrets;
+  }
+
+  /**
+   * Rebuild the redacted stored values from the stored secrets, so values that
+   * were replaced or deleted are dropped instead of piling up. Runs register
+   * the values they use themselves.
+   */
+  public async refreshRedaction(): Promise<void> {
+    if (!this.masterKey) {
+      return;
+    }
+
+    try {
+      const rows = await prisma.secret.findMany();
+      const values = rows
+        .map((row: any) => this.decryptRow(row))
+        .filter((value: string | undefined): value is string => value !== undefined);
+      secretRedactor.replaceStored(values);
+    } catch (error) {
+      logger.error('Failed to refresh secret redaction', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  private decryptRow(row: any, context: Record<string, unknown> = {}): string | undefined {
+    const ref: SecretRef = { scope: row.scope, name: row.name, ...(row.scopeTarget && { target: row.scopeTarget }) };
+    try {
+      return decryptSecret(row.encryptedValue, this.requireKey(), this.identity(ref));
+    } catch (error) {
+      logger.error('Failed to decrypt secret', {
+        name: row.name,
+        scope: row.scope,
+        target: ref.target,
+        ...context,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return undefined;
+    }
+  }
+
+  private requireKey(): Buffer {
+    if (!this.masterKey) {
+      throw new Error('Secrets are unavailable: SECRETS_MASTER_KEY is not configured');
+    }
+    return this.masterKey;
+  }
+
+  private scopeTarget(ref: SecretRef): string {
+    return ref.scope === 'global' ? '' : ref.target ?? '';
+  }
+
+  private identity(ref: SecretRef): string {
+    return `${ref.scope}:${this.scopeTarget(ref)}:${ref.name}`;
+  }
+
+  private async audit(secretId: string, action: 'CREATED' | 'UPDATED' | 'DELETED', ref: SecretRef): Promise<void> {
+    try {
+      await prisma.auditLog.create({
+        data: {
+          entityType: 'SECRET',
+          entityId: secretId,
+          action,
+          changes: { name: ref.name, scope: ref.scope, target: ref.target ?? null }
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to write secret audit log', {
+        name: ref.name,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  private toMetadata(row: any): SecretMetadata {
+    return {
+      name: row.name,
+      scope: row.scope,
+      target: row.scopeTarget || null,
+      description: row.description,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt
+    };
+  }
+}
+
+// Singleton instance
+export const secretsService = new SecretsService(environment.SECRETS_MASTER_KEY);
@@ -0,0 +1,225 @@
+import crypto from 'crypto';
+import { QueuedEvent } from './eventQueue';
+import { WorkflowService, workflowService } from './workflow-service';
+import { WorkflowDefinition, TriggerConfig, FilterRule } from '../types/workflow-schema';
+import { ConditionEvaluator } from '../utils/condition-evaluator';
+import logger from '../utils/logger';
+
+export interface DispatchedWorkflow {
+  workflowName: string;
+  executionId: string;
+}
+
+export interface DispatchResult {
+  deliveryId: string;
+  events: string[];
+  dispatched: DispatchedWorkflow[];
+}
+
+export interface DispatchOptions {
+  workflowName?: string; // Only consider this workflow
+  rerun?: boolean; // Start new executions, even for workflows the event already started
+}
+
+/**
+ * Routes queued GitHub webhook events to the registered workflows whose
+ * trigger configuration matches the event
+ */
+export class TriggerDispatcher {
+  constructor(private readonly workflowService: WorkflowService) {}
+
+  /**
+   * Find every workflow triggered by the event and start it. Resolves once
+   * every execution has started, so the event is not acknowledged while a
+   * restart could still lose one of its runs. Each workflow's execution ID is
+   * derived from the event, so a retried event skips the executions it already
+   * started.
+   */
+  public async dispatch(event: QueuedEvent, options: DispatchOptions = {}): Promise<DispatchResult> {
+    const events = this.resolveEventNames(event.eventType, event.payload);
+    const workflows = this.findMatchingWorkflows(events, event.payload)
+      .filter(workflow => !options.workflowName || workflow.name === options.workflowName);
+
+    if (workflows.length === 0) {
+      logger.debug('No workflows matched webhook event', {
+        deliveryId: event.deliveryId,
+        events
+      });
+      return { deliveryId: event.deliveryId, events, dispatched: [] };
+    }
+
+    const dispatched: DispatchedWorkflow[] = [];
+
+    for (const workflow of workflows) {
+      const eventExecutionId = options.rerun ? undefined : this.createExecutionId(event, workflow.name);
+      if (eventExecutionId && await this.workflowService.getExecution(eventExecutionId)) {
+        logger.info('Skipping workflow already started for webhook event', {
+          deliveryId: event.deliveryId,
+          workflowName: workflow.name,
+          executionId: eventExecutionId
+        });
+        dispatched.push({ workflowName: workflow.name, executionId: eventExecutionId });
+        continue;
+      }
+
+      const executionId = await this.workflowService.startWorkflowExecution({
+        workflowName: workflow.name,
+        triggerEvent: this.createTriggerEvent(workflow.trigger.event, event),
+        ...(eventExecutionId && { executionId: eventExecutionId })
+      });
+      dispatched.push({ workflowName: workflow.name, executionId });
+    }
+
+    logger.info('Webhook event dispatched to workflows', {
+      deliveryId: event.deliveryId,
+      events,
+      workflows: dispatched.map(d => d.workflowName)
+    });
+
+    return { deliveryId: event.deliveryId, events, dispatched };
+  }
+
+  /**
+   * Combine the x-github-event header with payload.action into the
+   * GitHubEvent names the event can be matched as, most specific first
+   */
+  public resolveEventNames(eventType: string, payload: any): string[] {
+    const events: string[] = [];
+    const action = payload?.action;
+
+    if (typeof action === 'string' && action) {
+      // GitHub reports merges as a closed pull request with merged = true
+      if (eventType === 'pull_request' && action === 'closed' && payload.pull_request?.merged) {
+        events.push('pull_request.merged');
+      }
+      events.push(`${eventType}.${action}`);
+    }
+
+    events.push(eventType);
+    return events;
+  }
+
+  /**
+   * Find all enabled webhook workflows whose trigger matches the event
+   */
+  public findMatchingWorkflows(events: string[], payload: any): WorkflowDefinition[] {
+    return this.workflowService.listWorkflows().filter(workflow =>
+      workflow.enabled !== false &&
+      workflow.trigger.type === 'webhook' &&
+      this.matchesTrigger(workflow.trigger, events, payload)
+    );
+  }
+
+  /**
+   * Check a trigger against the event names, repository, branch and filters
+   */
+  public matchesTrigger(trigger: TriggerConfig, events: string[], payload: any): boolean {
+    if (!events.includes(trigger.event)) {
+      return false;
+    }
+
+    if (trigger.repository) {
+      const fullName = payload?.repository?.full_name;
+      if (typeof fullName !== 'string' || !this.matchesPattern(trigger.repository, fullName)) {
+        return false;
+      }
+    }
+
+    if (trigger.branch) {
+      const branch = this.extractBranch(payload);
+      if (!branch || !this.matchesPattern(trigger.branch, branch)) {
+        return false;
+      }
+    }
+
+    if (trigger.filters && trigger.filters.length > 0) {
+      return this.matchesFilters(trigger.filters, payload);
+    }
+
+    return true;
+  }
+
+  /**
+   * Evaluate trigger filters against the webhook payload
+   */
+  private matchesFilters(filters: FilterRule[], payload: any): boolean {
+    try {
+      return ConditionEvaluator.evaluate({ operator: 'AND', rules: filters }, payload || {});
+    } catch (error) {
+      logger.warn('Failed to evaluate trigger filters', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Extract the branch an event refers to
+   */
+  private extractBranch(payload: any): string | undefined {
+    if (payload?.pull_request?.base?.ref) {
+      return payload.pull_request.base.ref;
+    }
+
+    if (payload?.workflow_run?.head_branch) {
+      return payload.workflow_run.head_branch;
+    }
+
+    if (payload?.check_suite?.head_branch) {
+      return payload.check_suite.head_branch;
+    }
+
+    if (typeof payload?.ref === 'string') {
+      // create/delete events carry a bare ref plus ref_type
+      if (payload.ref_type) {
+        return payload.ref_type === 'branch' ? payload.ref : undefined;
+      }
+      if (payload.ref.startsWith('refs/heads/')) {
+        return payload.ref.slice('refs/heads/'.length);
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Match a value against a pattern where '*' is a wildcard
+   */
+  private matchesPattern(pattern: string, value: string): boolean {
+    const regex = new RegExp(
+      '^' + pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$'
+    );
+    return regex.test(value);
+  }
+
+  /**
+   * Execution ID for the run of a workflow started by a queued event
+   */
+  private createExecutionId(event: QueuedEvent, workflowName: string): string {
+    const hash = crypto.createHash('sha256').update(`${event.id}:${workflowName}`).digest('hex');
+    return `exec_evt_${hash.slice(0, 24)}`;
+  }
+
+  /**
+   * Build the trigger context handed to the workflow engine
+   */
+  private createTriggerEvent(eventName: string, event: QueuedEvent): Record<string, any> {
+    const payload = event.payload || {};
+    const repository = payload.repository;
+
+    return {
+      event: eventName,
+      payload,
+      deliveryId: event.deliveryId,
+      repository: repository ? {
+        name: repository.name,
+        owner: repository.owner?.login,
+        fullName: repository.full_name
+      } : undefined,
+      installation: payload.installation?.id ? { id: payload.installation.id } : undefined
+    };
+  }
+}
+
+// Singleton instance
+export const triggerDispatcher = new TriggerDispatcher(workflowService);
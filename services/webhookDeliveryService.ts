@@ -0,0 +1,237 @@
+import { QueuedEvent } from './eventQueue';
+import { TriggerDispatcher, DispatchResult, DispatchedWorkflow, triggerDispatcher } from './triggerDispatcher';
+import prisma from '../config/database';
+import logger from '../utils/logger';
+
+export interface WebhookDispatchRecord {
+  workflowName: string;
+  executionId: string;
+  rerun: boolean;
+  dispatchedAt: Date;
+}
+
+export interface WebhookDeliveryRecord {
+  id: string;
+  deliveryId: string; // GitHub's X-GitHub-Delivery, repeated on redeliveries
+  eventType: string;
+  action: string | null;
+  repository: string | null;
+  installationId: number | null;
+  receivedAt: Date;
+  dispatches: WebhookDispatchRecord[];
+}
+
+export interface WebhookDeliveryDetail extends WebhookDeliveryRecord {
+  headers: Record<string, string>;
+  payload: any;
+  queueStatus: 'pending' | 'processing' | 'dead_letter' | 'processed';
+}
+
+export interface WebhookDeliveryQuery {
+  repository?: string;
+  eventType?: string;
+  action?: string;
+  installationId?: number;
+  deliveryId?: string;
+  receivedRange?: { from: Date; to: Date };
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Keeps a record of every accepted webhook delivery and the executions it
+ * started, and dispatches recorded deliveries again on request
+ */
+export class WebhookDeliveryService {
+  constructor(private readonly dispatcher: TriggerDispatcher) {}
+
+  /**
+   * Record a delivery once it is queued. The record shares the queued event's ID.
+   * Failures are logged rather than thrown; the delivery is still processed.
+   */
+  public async recordDelivery(event: QueuedEvent): Promise<void> {
+    const payload = event.payload || {};
+
+    try {
+      await prisma.webhookDelivery.create({
+        data: {
+          id: event.id,
+          deliveryId: event.deliveryId,
+          eventType: event.eventType,
+          action: typeof payload.action === 'string' ? payload.action : null,
+          repository: payload.repository?.full_name ?? null,
+          installationId: payload.installation?.id ?? null,
+          headers: event.headers,
+          payload,
+          receivedAt: new Date(event.timestamp)
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to record webhook delivery', {
+        id: event.id,
+        deliveryId: event.deliveryId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Link a delivery to the executions it started. Executions already linked by
+   * an earlier attempt are skipped. Failures are logged rather than thrown, so
+   * a processed delivery is not retried.
+   */
+  public async recordDispatches(
+    webhookDeliveryId: string,
+    dispatched: DispatchedWorkflow[],
+    rerun: boolean = false
+  ): Promise<void> {
+    if (dispatched.length === 0) {
+      return;
+    }
+
+    try {
+      await prisma.webhookDispatch.createMany({
+        data: dispatched.map(({ workflowName, executionId }) => ({
+          webhookDeliveryId,
+          workflowName,
+          executionId,
+          rerun
+        })),
+        skipDuplicates: true
+      });
+    } catch (error) {
+      logger.error('Failed to record webhook dispatches', {
+        id: webhookDeliveryId,
+        executions: dispatched.map(d => d.executionId),
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Deliveries matching the query, newest first, without headers and payloads
+   */
+  public async listDeliveries(query: WebhookDeliveryQuery): Promise<{ deliveries: WebhookDeliveryRecord[]; total: number }> {
+    const where = {
+      ...(query.repository && { repository: query.repository }),
+      ...(query.eventType && { eventType: query.eventType }),
+      ...(query.action && { action: query.action }),
+      ...(query.installationId !== undefined && { installationId: query.installationId }),
+      ...(query.deliveryId && { deliveryId: query.deliveryId }),
+      ...(query.receivedRange && { receivedAt: { gte: query.receivedRange.from, lte: query.receivedRange.to } })
+    };
+
+    const [rows, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        orderBy: { receivedAt: 'desc' },
+        skip: query.offset,
+        take: query.limit,
+        select: {
+          id: true,
+          deliveryId: true,
+          eventType: true,
+          action: true,
+          repository: true,
+          installationId: true,
+          receivedAt: true
+        }
+      }),
+      prisma.webhookDelivery.count({ where })
+    ]);
+
+    const dispatches = await this.getDispatches(rows.map((row: { id: string }) => row.id));
+
+    return {
+      deliveries: rows.map((row: any) => ({ ...row, dispatches: dispatches.get(row.id) ?? [] })),
+      total
+    };
+  }
+
+  /**
+   * A delivery with its headers, payload, executions and where it is in the queue
+   */
+  public async getDelivery(id: string): Promise<WebhookDeliveryDetail | null> {
+    const [row, queued, dispatches] = await Promise.all([
+      prisma.webhookDelivery.findUnique({ where: { id } }),
+      prisma.queuedEvent.findUnique({ where: { id }, select: { status: true } }),
+      this.getDispatches([id])
+    ]);
+    if (!row) {
+      return null;
+    }
+
+    return {
+      id: row.id,
+      deliveryId: row.deliveryId,
+      eventType: row.eventType,
+      action: row.action,
+      repository: row.repository,
+      installationId: row.installationId,
+      receivedAt: row.receivedAt,
+      headers: row.headers,
+      payload: row.payload,
+      // Events leave the queue once they are processed
+      queueStatus: queued?.status ?? 'processed',
+      dispatches: dispatches.get(id) ?? []
+    };
+  }
+
+  /**
+   * Match a recorded delivery against the current workflows and start them
+   * again, optionally only the named workflow. Returns null if there is no
+   * such delivery.
+   */
+  public async rerunDelivery(id: string, workflowName?: string): Promise<DispatchResult | null> {
+    const row = await prisma.webhookDelivery.findUnique({ where: { id } });
+    if (!row) {
+      return null;
+    }
+
+    const event: QueuedEvent = {
+      id: row.id,
+      eventType: row.eventType,
+      payload: row.payload,
+      headers: row.headers,
+      deliveryId: row.deliveryId,
+      timestamp: row.receivedAt.getTime(),
+      retryCount: 0,
+      maxRetries: 0
+    };
+
+    const result = await this.dispatcher.dispatch(event, { ...(workflowName && { workflowName }), rerun: true });
+    await this.recordDispatches(id, result.dispatched, true);
+
+    logger.info('Webhook delivery re-run', {
+      id,
+      deliveryId: row.deliveryId,
+      workflowName,
+      executions: result.dispatched.map(d => d.executionId)
+    });
+
+    return result;
+  }
+
+  private async getDispatches(webhookDeliveryIds: string[]): Promise<Map<string, WebhookDispatchRecord[]>> {
+    const rows = await prisma.webhookDispatch.findMany({
+      where: { webhookDeliveryId: { in: webhookDeliveryIds } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const dispatches = new Map<string, WebhookDispatchRecord[]>();
+    for (const row of rows) {
+      const list = dispatches.get(row.webhookDeliveryId) ?? [];
+      list.push({
+        workflowName: row.workflowName,
+        executionId: row.executionId,
+        rerun: row.rerun,
+        dispatchedAt: row.createdAt
+      });
+      dispatches.set(row.webhookDeliveryId, list);
+    }
+    return dispatches;
+  }
+}
+
+// Singleton instance
+export const webhookDeliveryService = new WebhookDeliveryService(triggerDispatcher);
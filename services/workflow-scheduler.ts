@@ -0,0 +1,316 @@
+import { EventEmitter } from 'events';
+import { WorkflowDefinition, CatchUpPolicy } from '../types/workflow-schema';
+import { CronExpression } from '../utils/cron-parser';
+import prisma from '../config/database';
+import logger from '../utils/logger';
+
+export interface WorkflowSchedulerOptions {
+  tickInterval?: number; // ms between due checks
+  catchUpPolicy?: CatchUpPolicy; // Default when a workflow does not set schedule.catchUp
+  maxCatchUpRuns?: number; // Upper bound for 'run_all'
+}
+
+export interface ScheduledWorkflowInfo {
+  workflowName: string;
+  cron: string;
+  timezone: string;
+  catchUp: CatchUpPolicy;
+  lastRunAt: Date | null;
+  nextRunAt: Date;
+}
+
+// Starts the run for a slot. Resolves once the run is stored, and must not start
+// a slot's run again when called for it a second time.
+export type ScheduledRunHandler = (workflow: WorkflowDefinition, scheduledAt: Date) => Promise<void>;
+
+interface ScheduleEntry {
+  workflow: WorkflowDefinition;
+  cron: CronExpression;
+  catchUp: CatchUpPolicy;
+  lastRunAt: Date | null;
+  nextRunAt: Date;
+}
+
+/**
+ * Fires `schedule` trigger workflows on their cron expressions.
+ *
+ * The `nextRunAt` column of each workflow_schedules row is the durable cursor.
+ * A slot's run is started first and the slot is then claimed by moving the
+ * cursor forward with a conditional update, so a restart in between starts the
+ * run again instead of losing it (the run handler skips runs it already started),
+ * and a run that fails to start is retried on the next tick. A second instance
+ * skips slots whose cursor has already moved, and slots that passed while the
+ * service was down are still seen and handled according to the catch-up policy.
+ */
+export class WorkflowScheduler extends EventEmitter {
+  private schedules: Map<string, ScheduleEntry> = new Map();
+  private options: Required<WorkflowSchedulerOptions>;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(private readonly runHandler: ScheduledRunHandler, options: WorkflowSchedulerOptions = {}) {
+    super();
+
+    this.options = {
+      tickInterval: 15000,
+      catchUpPolicy: 'run_once',
+      maxCatchUpRuns: 10,
+      ...options
+    };
+  }
+
+  /**
+   * Start checking for due workflows
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => {
+        logger.error('Scheduler tick failed', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    }, this.options.tickInterval);
+
+    logger.info('Workflow scheduler started', { tickInterval: this.options.tickInterval });
+  }
+
+  /**
+   * Stop checking for due workflows
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Add, update or remove the schedule for a workflow
+   */
+  public async schedule(workflow: WorkflowDefinition): Promise<void> {
+    const schedule = workflow.trigger.schedule;
+
+    if (workflow.trigger.type !== 'schedule' || !schedule || workflow.enabled === false) {
+      await this.unschedule(workflow.name);
+      return;
+    }
+
+    const timezone = schedule.timezone || 'UTC';
+    const cron = new CronExpression(schedule.cron, timezone);
+    const stored = await prisma.workflowSchedule.findUnique({
+      where: { workflowId: workflow.name }
+    });
+
+    // Keep the stored cursor unless the schedule itself changed, so missed runs survive restarts
+    const unchanged = stored && stored.nextRunAt && stored.cron === cron.expression && stored.timezone === timezone;
+    const nextRunAt: Date = unchanged ? stored.nextRunAt : cron.next(new Date());
+
+    await prisma.workflowSchedule.upsert({
+      where: { workflowId: workflow.name },
+      update: { cron: cron.expression, timezone, nextRunAt },
+      create: { workflowId: workflow.name, cron: cron.expression, timezone, nextRunAt }
+    });
+
+    this.schedules.set(workflow.name, {
+      workflow,
+      cron,
+      catchUp: schedule.catchUp || this.options.catchUpPolicy,
+      lastRunAt: stored?.lastRunAt ?? null,
+      nextRunAt
+    });
+
+    logger.info('Workflow scheduled', {
+      workflowName: workflow.name,
+      cron: cron.expression,
+      timezone,
+      nextRunAt: nextRunAt.toISOString()
+    });
+  }
+
+  /**
+   * Stop scheduling a workflow. Clearing the cursor means runs missed while it
+   * was disabled are not caught up when it is enabled again.
+   */
+  public async unschedule(workflowName: string): Promise<void> {
+    const wasScheduled = this.schedules.delete(workflowName);
+
+    await prisma.workflowSchedule.updateMany({
+      where: { workflowId: workflowName },
+      data: { nextRunAt: null }
+    });
+
+    if (wasScheduled) {
+      logger.info('Workflow unscheduled', { workflowName });
+    }
+  }
+
+  /**
+   * Forget a workflow without touching its stored state (e.g. after it was deleted)
+   */
+  public remove(workflowName: string): void {
+    this.schedules.delete(workflowName);
+  }
+
+  public getScheduledWorkflows(): ScheduledWorkflowInfo[] {
+    return Array.from(this.schedules.values()).map(entry => ({
+      workflowName: entry.workflow.name,
+      cron: entry.cron.expression,
+      timezone: entry.cron.timezone,
+      catchUp: entry.catchUp,
+      lastRunAt: entry.lastRunAt,
+      nextRunAt: entry.nextRunAt
+    }));
+  }
+
+  /**
+   * Run every workflow whose next fire time has passed
+   */
+  public async tick(now: Date = new Date()): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+
+    this.ticking = true;
+
+    try {
+      for (const entry of Array.from(this.schedules.values())) {
+        if (entry.nextRunAt.getTime() > now.getTime()) {
+          continue;
+        }
+
+        try {
+          await this.runDue(entry, now);
+        } catch (error) {
+          // The cursor was not moved, so the slot is retried on the next tick
+          logger.error('Failed to run scheduled workflow', {
+            workflowName: entry.workflow.name,
+            scheduledAt: entry.nextRunAt.toISOString(),
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async runDue(entry: ScheduleEntry, now: Date): Promise<void> {
+    const workflowName = entry.workflow.name;
+    if (!(await this.isUnclaimed(entry))) {
+      this.skipClaimed(entry);
+      await this.refreshFromDatabase(entry);
+      return;
+    }
+
+    const { due, total, next } = this.collectDueRuns(entry, now);
+    const runs = this.applyCatchUpPolicy(entry.catchUp, due, now);
+    const lastRunAt = runs.length > 0 ? runs[runs.length - 1]! : entry.lastRunAt;
+
+    // A run that fails to start leaves the slots unclaimed for the next tick
+    for (const scheduledAt of runs) {
+      await this.runHandler(entry.workflow, scheduledAt);
+      this.emit('schedule:fired', { workflowName, scheduledAt });
+    }
+
+    // Claim the slots by moving the cursor; if another instance already did, skip them
+    const claim = await prisma.workflowSchedule.updateMany({
+      where: { workflowId: workflowName, nextRunAt: entry.nextRunAt },
+      data: { nextRunAt: next, lastRunAt }
+    });
+
+    if (claim.count === 0) {
+      this.skipClaimed(entry);
+      await this.refreshFromDatabase(entry);
+      return;
+    }
+
+    entry.nextRunAt = next;
+    entry.lastRunAt = lastRunAt;
+
+    if (total > runs.length) {
+      logger.warn('Skipped missed scheduled runs', {
+        workflowName,
+        catchUp: entry.catchUp,
+        missed: total,
+        running: runs.length
+      });
+      this.emit('schedule:skipped', { workflowName, skipped: total - runs.length });
+    }
+  }
+
+  /**
+   * Whether the stored cursor is still at the entry's slot, i.e. no other
+   * instance has run it yet
+   */
+  private async isUnclaimed(entry: ScheduleEntry): Promise<boolean> {
+    const stored = await prisma.workflowSchedule.findUnique({
+      where: { workflowId: entry.workflow.name }
+    });
+    return stored?.nextRunAt?.getTime() === entry.nextRunAt.getTime();
+  }
+
+  private skipClaimed(entry: ScheduleEntry): void {
+    logger.warn('Scheduled run already claimed, skipping', {
+      workflowName: entry.workflow.name,
+      scheduledAt: entry.nextRunAt.toISOString()
+    });
+  }
+
+  /**
+   * Collect the fire times up to now (keeping only the most recent ones for
+   * very long outages) and the first fire time after now
+   */
+  private collectDueRuns(entry: ScheduleEntry, now: Date): { due: Date[]; total: number; next: Date } {
+    const due: Date[] = [entry.nextRunAt];
+    let total = 1;
+    let next = entry.cron.next(entry.nextRunAt);
+
+    while (next.getTime() <= now.getTime()) {
+      due.push(next);
+      total++;
+      if (due.length > this.options.maxCatchUpRuns) {
+        due.shift();
+      }
+      next = entry.cron.next(next);
+    }
+
+    return { due, total, next };
+  }
+
+  private applyCatchUpPolicy(policy: CatchUpPolicy, due: Date[], now: Date): Date[] {
+    const latest = due[due.length - 1];
+    if (!latest) {
+      return [];
+    }
+
+    switch (policy) {
+      case 'run_all':
+        return due;
+      case 'skip': {
+        // Only the slot that is due right now runs; anything older was missed
+        const onTime = now.getTime() - latest.getTime() <= this.options.tickInterval * 2;
+        return onTime ? [latest] : [];
+      }
+      case 'run_once':
+      default:
+        return [latest];
+    }
+  }
+
+  private async refreshFromDatabase(entry: ScheduleEntry): Promise<void> {
+    const stored = await prisma.workflowSchedule.findUnique({
+      where: { workflowId: entry.workflow.name }
+    });
+
+    if (stored?.nextRunAt) {
+      entry.nextRunAt = stored.nextRunAt;
+      entry.lastRunAt = stored.lastRunAt ?? null;
+    } else {
+      this.schedules.delete(entry.workflow.name);
+    }
+  }
+}
@@ -1,10 +1,27 @@
-import { WorkflowDefinition, ExecutionContext } from '../types/workflow-schema';
-import { WorkflowEngine, ExecutionResult, WorkflowExecutionOptions } from '../engine/workflow-engine';
-import { ExecutionHistory, ExecutionQuery, ExecutionAggregation } from '../engine/execution-history';
+import { WorkflowDefinition, ActionConfig, NESTED_ACTION_PARAMETERS } from '../types/workflow-schema';
+import {
+  WorkflowEngine,
+  ExecutionResult,
+  WorkflowExecutionOptions,
+  ChainedWorkflowRequest,
+  ExecutionResume
+} from '../engine/workflow-engine';
+import { ExecutionHistory, ExecutionQuery, ExecutionAggregation, ExecutionSnapshot } from '../engine/execution-history';
+import { ExecutionPlan, buildExecutionPlan } from '../engine/execution-plan';
 import { workflowValidator } from '../utils/workflow-validator';
+import { WorkflowFormat, serializeWorkflows } from '../utils/workflow-yaml';
+import { WorkflowScheduler, ScheduledWorkflowInfo } from './workflow-scheduler';
+import { secretsService } from './secretsService';
+import { workflowVersionService } from './workflowVersionService';
+import environment from '../config/environment';
 import prisma from '../config/database';
+import { secretRedactor } from '../utils/redaction';
 import logger from '../utils/logger';
 import { EventEmitter } from 'events';
+import crypto from 'crypto';
+
+// Author of the versions saved by onSuccess.updateMetadata
+const METADATA_AUTHOR = 'workflow-engine';
 
 export interface WorkflowServiceOptions {
   enableMetrics?: boolean;
@@ -13,12 +30,29 @@ export interface WorkflowServiceOptions {
   retentionDays?: number;
 }
 
+// Where a workflow synced from a repository file came from
+export interface WorkflowSource {
+  repository: string; // owner/name
+  path: string;
+  sha: string; // Commit the definition was read at
+}
+
 export interface WorkflowExecutionRequest {
   workflowName: string;
   triggerEvent: any;
   variables?: Record<string, any>;
   secrets?: Record<string, string>;
   options?: WorkflowExecutionOptions;
+  executionId?: string;
+  parentExecutionId?: string; // Set when started by another workflow's onSuccess.triggerWorkflow
+  chainDepth?: number;
+  resume?: ExecutionResume; // Continue a failed execution from its checkpoint
+  workflowVersion?: number; // Run this stored version instead of the active one
+}
+
+interface PendingStart {
+  resolve: (executionId: string) => void;
+  reject: (error: unknown) => void;
 }
 
 export interface WorkflowStatus {
@@ -33,10 +67,15 @@ export interface WorkflowStatus {
 
 export class WorkflowService extends EventEmitter {
   private workflowEngine: WorkflowEngine;
+  private planningEngine: WorkflowEngine; // Runs dry runs, which are not stored or streamed
+  private scheduler: WorkflowScheduler;
   private workflows: Map<string, WorkflowDefinition> = new Map();
+  private activeVersions: Map<string, number> = new Map(); // Stored version each workflow runs
+  private sources: Map<string, WorkflowSource> = new Map();
   private options: WorkflowServiceOptions;
   private executionQueue: WorkflowExecutionRequest[] = [];
-  private processing = false;
+  private runningFromQueue = 0; // Queued executions that are running now
+  private pendingStarts: Map<string, PendingStart> = new Map(); // Callers waiting for a queued execution to start
 
   constructor(options: WorkflowServiceOptions = {}) {
     super();
@@ -49,36 +88,66 @@ export class WorkflowService extends EventEmitter {
       ...options
     };
 
-    this.workflowEngine = new WorkflowEngine({
+    const engineOptions: WorkflowExecutionOptions = {
       maxConcurrency: this.options.maxConcurrentExecutions,
       defaultTimeout: this.options.defaultTimeout,
-      enableMetrics: this.options.enableMetrics
+      enableMetrics: this.options.enableMetrics,
+      maxChainDepth: environment.WORKFLOW_MAX_CHAIN_DEPTH,
+      executionUrlBase: `${environment.PUBLIC_URL}/api/v1/executions`
+    };
+
+    this.workflowEngine = new WorkflowEngine(engineOptions, {
+      triggerWorkflow: (request) => this.queueChainedExecution(request),
+      updateMetadata: (workflowName, changes) => this.updateWorkflowMetadata(workflowName, changes)
     });
 
+    // Dry runs skip onSuccess follow-ups, so this engine needs no hooks
+    this.planningEngine = new WorkflowEngine({ ...engineOptions, dryRun: true, persistHistory: false });
+
+    this.scheduler = new WorkflowScheduler(
+      (workflow, scheduledAt) => this.startScheduledExecution(workflow, scheduledAt),
+      {
+        tickInterval: environment.SCHEDULER_TICK_INTERVAL,
+        catchUpPolicy: environment.SCHEDULER_CATCH_UP_POLICY,
+        maxCatchUpRuns: environment.SCHEDULER_MAX_CATCH_UP_RUNS
+      }
+    );
+
     this.setupEventHandlers();
     this.startQueueProcessor();
+
+    if (environment.SCHEDULER_ENABLED) {
+      this.scheduler.start();
+    }
   }
 
   /**
    * Register a workflow definition
    */
-  public async registerWorkflow(workflow: WorkflowDefinition): Promise<void> {
+  public async registerWorkflow(workflow: WorkflowDefinition, author = 'system', source?: WorkflowSource): Promise<void> {
     try {
       // Validate workflow definition
       const validation = workflowValidator.validate(workflow);
       if (!validation.valid) {
         throw new Error(`Workflow validation failed: ${validation.errors.map(e => e.message).join(', ')}`);
       }
+      this.assertNoChainCycle(workflow);
 
-      // Store in memory
-      this.workflows.set(workflow.name, workflow);
+      // Importing can register a name that already exists
+      const change = this.workflows.has(workflow.name) ? 'UPDATED' : 'CREATED';
 
-      // Store in database
-      await this.saveWorkflowToDatabase(workflow);
+      // Store in database, then in memory, so a failed save leaves the running workflow alone
+      await this.saveWorkflowToDatabase(workflow, author, source ?? null);
+      const version = await workflowVersionService.recordVersion(workflow, author, change);
+      this.workflows.set(workflow.name, workflow);
+      this.setSource(workflow.name, source);
+      this.activeVersions.set(workflow.name, version);
+      await this.scheduler.schedule(workflow);
 
       logger.info(`Workflow registered successfully`, {
         workflowName: workflow.name,
         version: workflow.version,
+        storedVersion: version,
         actionsCount: workflow.actions.length
       });
 
@@ -94,33 +163,34 @@ export class WorkflowService extends EventEmitter {
   }
 
   /**
-   * Execute a workflow
+   * Execute a workflow. Dry runs may plan disabled workflows and don't count
+   * towards the workflow's statistics.
    */
   public async executeWorkflow(request: WorkflowExecutionRequest): Promise<ExecutionResult> {
-    const workflow = this.workflows.get(request.workflowName);
+    const workflow = await this.getWorkflowDefinition(request.workflowName, request.workflowVersion);
     if (!workflow) {
       throw new Error(`Workflow not found: ${request.workflowName}`);
     }
 
-    if (!workflow.enabled) {
+    const dryRun = request.options?.dryRun === true;
+    if (workflow.enabled === false && !dryRun) {
       throw new Error(`Workflow is disabled: ${request.workflowName}`);
     }
 
     try {
-      // Create execution context
-      const context = this.createExecutionContext(workflow, request);
-
-      // Execute workflow
-      const result = await this.workflowEngine.executeWorkflow(workflow, request.triggerEvent);
+      const result = await this.runWorkflow(workflow, request, dryRun);
 
       // Update workflow statistics
-      await this.updateWorkflowStats(workflow.name, result);
+      if (!dryRun) {
+        await this.updateWorkflowStats(workflow.name, result);
+      }
 
       logger.info(`Workflow execution completed`, {
         workflowName: request.workflowName,
         executionId: result.executionId,
         status: result.status,
-        duration: `${result.duration}ms`
+        duration: `${result.duration}ms`,
+        ...(dryRun && { dryRun })
       });
 
       this.emit('workflow:executed', result);
@@ -135,13 +205,82 @@ export class WorkflowService extends EventEmitter {
     }
   }
 
+  /**
+   * Dry run a workflow definition, which need not be registered, and report the
+   * calls its actions would make. Plans are not stored as executions. Stored
+   * secrets are only resolved with `useStoredSecrets`, for registered workflows:
+   * an ad-hoc definition could otherwise copy them into its planned calls.
+   *
+   * Nothing is changed, but GitHub actions still send their reads (GET and HEAD)
+   * to GitHub with the installation's token: planning needs network access to
+   * GitHub, uses up the installation's rate limit, and fails those actions when
+   * GitHub cannot be reached.
+   */
+  public async planWorkflow(
+    workflow: WorkflowDefinition,
+    request: Omit<WorkflowExecutionRequest, 'workflowName' | 'options'>,
+    useStoredSecrets = false
+  ): Promise<ExecutionPlan> {
+    const validation = workflowValidator.validate(workflow);
+    if (!validation.valid) {
+      throw new Error(`Workflow validation failed: ${validation.errors.map(e => e.message).join(', ')}`);
+    }
+
+    const result = await this.runWorkflow(workflow, { ...request, workflowName: workflow.name }, true, useStoredSecrets);
+
+    logger.info(`Workflow dry run completed`, {
+      workflowName: workflow.name,
+      executionId: result.executionId,
+      status: result.status
+    });
+
+    // Bodies can contain resolved secrets, including the ones passed in, which
+    // are no longer registered once the run has ended
+    const passedSecrets = { ...request.triggerEvent?.secrets, ...request.secrets };
+    return secretRedactor.redactWith(Object.values(passedSecrets), buildExecutionPlan(result));
+  }
+
+  /**
+   * Build the trigger context for a request and run the workflow on the engine
+   */
+  private async runWorkflow(
+    workflow: WorkflowDefinition,
+    request: WorkflowExecutionRequest,
+    dryRun: boolean,
+    useStoredSecrets = true
+  ): Promise<ExecutionResult> {
+    const storedSecrets = useStoredSecrets
+      ? await secretsService.resolveSecrets(workflow.name, request.triggerEvent?.repository?.fullName)
+      : {};
+
+    const version = request.workflowVersion ?? this.activeVersions.get(workflow.name);
+
+    // Caller-supplied variables and secrets take precedence over the trigger's,
+    // which take precedence over stored secrets
+    const triggerContext = {
+      ...request.triggerEvent,
+      ...(request.variables && { variables: { ...request.triggerEvent?.variables, ...request.variables } }),
+      secrets: { ...storedSecrets, ...request.triggerEvent?.secrets, ...request.secrets },
+      ...(request.parentExecutionId && {
+        chain: { parentExecutionId: request.parentExecutionId, chainDepth: request.chainDepth ?? 1 }
+      }),
+      ...(version !== undefined && { workflowVersion: version })
+    };
+
+    const engine = dryRun ? this.planningEngine : this.workflowEngine;
+    return engine.executeWorkflow(workflow, triggerContext, request.executionId, {
+      dryRun,
+      resume: request.resume
+    });
+  }
+
   /**
    * Queue workflow execution for async processing
    */
   public async queueWorkflowExecution(request: WorkflowExecutionRequest): Promise<string> {
-    const executionId = this.generateExecutionId();
+    const executionId = request.executionId || this.generateExecutionId();
     
-    this.executionQueue.push(request);
+    this.executionQueue.push({ ...request, executionId });
     
     logger.info(`Workflow execution queued`, {
       workflowName: request.workflowName,
@@ -155,6 +294,21 @@ export class WorkflowService extends EventEmitter {
     return executionId;
   }
 
+  /**
+   * Queue a workflow execution without waiting for it to finish. Resolves with
+   * the execution ID once the engine has recorded the execution with its
+   * trigger, from where it can be resumed after a restart, and rejects if the
+   * execution could not start.
+   */
+  public startWorkflowExecution(request: WorkflowExecutionRequest): Promise<string> {
+    const executionId = request.executionId || this.generateExecutionId();
+
+    return new Promise((resolve, reject) => {
+      this.pendingStarts.set(executionId, { resolve, reject });
+      void this.queueWorkflowExecution({ ...request, executionId });
+    });
+  }
+
   /**
    * Get workflow definition
    */
@@ -169,6 +323,13 @@ export class WorkflowService extends EventEmitter {
     return Array.from(this.workflows.values());
   }
 
+  /**
+   * List workflows with a schedule trigger and their next fire time
+   */
+  public getScheduledWorkflows(): ScheduledWorkflowInfo[] {
+    return this.scheduler.getScheduledWorkflows();
+  }
+
   /**
    * Get workflow status and statistics
    */
@@ -183,7 +344,7 @@ export class WorkflowService extends EventEmitter {
       
       return {
         name: workflow.name,
-        enabled: workflow.enabled || true,
+        enabled: workflow.enabled !== false,
         version: workflow.version || '1.0.0',
         lastExecuted: stats.lastExecuted,
         totalExecutions: stats.totalExecutions,
@@ -203,23 +364,27 @@ export class WorkflowService extends EventEmitter {
   /**
    * Update workflow definition
    */
-  public async updateWorkflow(workflow: WorkflowDefinition): Promise<void> {
+  public async updateWorkflow(workflow: WorkflowDefinition, author = 'system', source?: WorkflowSource): Promise<void> {
     try {
       // Validate updated workflow
       const validation = workflowValidator.validate(workflow);
       if (!validation.valid) {
         throw new Error(`Workflow validation failed: ${validation.errors.map(e => e.message).join(', ')}`);
       }
+      this.assertNoChainCycle(workflow);
 
-      // Update in memory
+      // Update in database, then in memory
+      await this.saveWorkflowToDatabase(workflow, author, source ?? null);
+      const version = await workflowVersionService.recordVersion(workflow, author, 'UPDATED');
       this.workflows.set(workflow.name, workflow);
-
-      // Update in database
-      await this.saveWorkflowToDatabase(workflow);
+      this.setSource(workflow.name, source);
+      this.activeVersions.set(workflow.name, version);
+      await this.scheduler.schedule(workflow);
 
       logger.info(`Workflow updated successfully`, {
         workflowName: workflow.name,
-        version: workflow.version
+        version: workflow.version,
+        storedVersion: version
       });
 
       this.emit('workflow:updated', { workflowName: workflow.name });
@@ -233,10 +398,89 @@ export class WorkflowService extends EventEmitter {
     }
   }
 
+  /**
+   * Re-activate a stored version of a workflow. The workflow keeps its current
+   * enabled state; everything else comes from the stored definition. A deleted
+   * workflow is restored with the version as stored.
+   * Returns null if the version does not exist.
+   */
+  public async rollbackWorkflow(name: string, version: number, author = 'system'): Promise<WorkflowDefinition | null> {
+    const current = this.workflows.get(name);
+
+    const stored = await workflowVersionService.getVersion(name, version);
+    if (!stored) {
+      return null;
+    }
+
+    const workflow: WorkflowDefinition = {
+      ...stored.definition,
+      name,
+      ...(current?.enabled !== undefined && { enabled: current.enabled })
+    };
+
+    try {
+      // Validation rules and other workflows may have changed since the version was stored
+      const validation = workflowValidator.validate(workflow);
+      if (!validation.valid) {
+        throw new Error(`Workflow validation failed: ${validation.errors.map(e => e.message).join(', ')}`);
+      }
+      this.assertNoChainCycle(workflow);
+
+      const previousVersion = this.activeVersions.get(name) ?? null;
+
+      await this.saveWorkflowToDatabase(workflow, author);
+      await workflowVersionService.activateVersion(name, version, author, previousVersion, current ? 'ROLLED_BACK' : 'RESTORED');
+      this.workflows.set(name, workflow);
+      this.activeVersions.set(name, version);
+      await this.scheduler.schedule(workflow);
+
+      logger.info(current ? `Workflow rolled back` : `Workflow restored`, {
+        workflowName: name,
+        storedVersion: version,
+        previousVersion
+      });
+
+      this.emit(current ? 'workflow:updated' : 'workflow:registered', { workflowName: name });
+      return workflow;
+
+    } catch (error) {
+      logger.error(`Failed to roll back workflow`, {
+        workflowName: name,
+        storedVersion: version,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * The repository file a workflow is synced from, if it is not managed through the API
+   */
+  public getWorkflowSource(name: string): WorkflowSource | null {
+    return this.sources.get(name) ?? null;
+  }
+
+  /**
+   * Workflows synced from files in a repository
+   */
+  public listRepositoryWorkflows(repository: string): WorkflowDefinition[] {
+    return Array.from(this.sources.entries())
+      .filter(([, source]) => source.repository === repository)
+      .map(([name]) => this.workflows.get(name))
+      .filter(Boolean) as WorkflowDefinition[];
+  }
+
+  /**
+   * Stored version a workflow currently runs, if it has one
+   */
+  public getActiveVersion(name: string): number | null {
+    return this.activeVersions.get(name) ?? null;
+  }
+
   /**
    * Delete workflow
    */
-  public async deleteWorkflow(name: string): Promise<boolean> {
+  public async deleteWorkflow(name: string, author = 'system'): Promise<boolean> {
     try {
       const workflow = this.workflows.get(name);
       if (!workflow) {
@@ -245,11 +489,19 @@ export class WorkflowService extends EventEmitter {
 
       // Remove from memory
       this.workflows.delete(name);
-
-      // Remove from database
-      await prisma.workflow.delete({
-        where: { id: name }
+      this.activeVersions.delete(name);
+      this.sources.delete(name);
+      this.scheduler.remove(name);
+
+      // Only marked as deleted, so its versions stay available to restore and diff
+      await prisma.workflow.update({
+        where: { id: name },
+        data: { deletedAt: new Date() }
       });
+      await prisma.workflowSchedule.deleteMany({
+        where: { workflowId: name }
+      });
+      await workflowVersionService.recordChange(name, 'DELETED', author);
 
       logger.info(`Workflow deleted successfully`, { workflowName: name });
       this.emit('workflow:deleted', { workflowName: name });
@@ -268,15 +520,17 @@ export class WorkflowService extends EventEmitter {
   /**
    * Enable/disable workflow
    */
-  public async setWorkflowEnabled(name: string, enabled: boolean): Promise<boolean> {
+  public async setWorkflowEnabled(name: string, enabled: boolean, author = 'system'): Promise<boolean> {
     try {
       const workflow = this.workflows.get(name);
       if (!workflow) {
         return false;
       }
 
+      await this.saveWorkflowToDatabase({ ...workflow, enabled }, author);
+      await workflowVersionService.recordChange(name, enabled ? 'ENABLED' : 'DISABLED', author);
       workflow.enabled = enabled;
-      await this.saveWorkflowToDatabase(workflow);
+      await this.scheduler.schedule(workflow);
 
       logger.info(`Workflow ${enabled ? 'enabled' : 'disabled'}`, { workflowName: name });
       this.emit('workflow:toggled', { workflowName: name, enabled });
@@ -299,6 +553,88 @@ export class WorkflowService extends EventEmitter {
     return this.workflowEngine.getExecutionHistory().queryExecutions(query);
   }
 
+  /**
+   * Count executions matching a query, for paging
+   */
+  public async countExecutions(query: ExecutionQuery = {}): Promise<number> {
+    return this.workflowEngine.getExecutionHistory().countExecutions(query);
+  }
+
+  /**
+   * Get a single execution with its action results
+   */
+  public async getExecution(executionId: string): Promise<ExecutionSnapshot | null> {
+    return this.workflowEngine.getExecutionHistory().findExecution(executionId);
+  }
+
+  /**
+   * The definition of a registered workflow as of a stored version, e.g. the one an
+   * execution ran; the active definition without a version. The workflow's current
+   * enabled state applies to every version.
+   */
+  public async getWorkflowDefinition(name: string, version?: number): Promise<WorkflowDefinition | null> {
+    const workflow = this.workflows.get(name);
+    if (!workflow || version === undefined || version === this.activeVersions.get(name)) {
+      return workflow ?? null;
+    }
+
+    const stored = await workflowVersionService.getVersion(name, version);
+    if (!stored) {
+      return null;
+    }
+
+    return {
+      ...stored.definition,
+      name,
+      ...(workflow.enabled !== undefined && { enabled: workflow.enabled })
+    };
+  }
+
+  /**
+   * Build the request that resumes an execution from its checkpoint, or with
+   * `actionId` retries just that action. The run uses the workflow version the
+   * execution ran, its original trigger and variables, and stays in its chain;
+   * secrets are resolved again, as only their names were stored.
+   * Returns null if the execution's trigger is not stored.
+   */
+  public async createResumeRequest(execution: ExecutionSnapshot, actionId?: string): Promise<WorkflowExecutionRequest | null> {
+    // The snapshot's context is redacted, so the trigger comes from what the execution was started with
+    const stored = await this.workflowEngine.getExecutionHistory().findExecutionTrigger(execution.executionId);
+    if (!stored) {
+      return null;
+    }
+
+    return {
+      workflowName: execution.workflowName,
+      triggerEvent: {
+        event: stored.trigger.event,
+        payload: stored.trigger.payload,
+        repository: stored.repository ?? execution.context.repository,
+        ...((stored.installation ?? execution.context.installation) && {
+          installation: stored.installation ?? execution.context.installation
+        }),
+        ...(stored.variables && { variables: stored.variables })
+      },
+      ...(stored.parentExecutionId && {
+        parentExecutionId: stored.parentExecutionId,
+        chainDepth: stored.chainDepth ?? 1
+      }),
+      resume: {
+        executionId: execution.executionId,
+        checkpoint: execution.checkpoint || [],
+        ...(actionId && { actionId })
+      },
+      ...(execution.workflowVersion !== undefined && { workflowVersion: execution.workflowVersion })
+    };
+  }
+
+  /**
+   * Export execution history as JSON or CSV
+   */
+  public async exportExecutions(query: ExecutionQuery, format: 'json' | 'csv' = 'json'): Promise<string> {
+    return this.workflowEngine.getExecutionHistory().exportExecutions(query, format);
+  }
+
   /**
    * Get execution aggregation/statistics
    */
@@ -313,9 +649,31 @@ export class WorkflowService extends EventEmitter {
    * Cancel running execution
    */
   public async cancelExecution(executionId: string): Promise<boolean> {
+    // Executions that have not started yet are simply dropped from the queue
+    const queuedIndex = this.executionQueue.findIndex(request => request.executionId === executionId);
+    if (queuedIndex >= 0) {
+      const [request] = this.executionQueue.splice(queuedIndex, 1);
+
+      logger.info(`Queued workflow execution cancelled`, {
+        workflowName: request?.workflowName,
+        executionId
+      });
+
+      this.emit('execution:cancelled', { executionId, workflow: request?.workflowName });
+      this.settleStart(executionId);
+      return true;
+    }
+
     return this.workflowEngine.cancelExecution(executionId);
   }
 
+  /**
+   * Get an execution request that is still waiting in the queue
+   */
+  public getQueuedExecution(executionId: string): WorkflowExecutionRequest | null {
+    return this.executionQueue.find(request => request.executionId === executionId) || null;
+  }
+
   /**
    * Get active executions
    */
@@ -323,6 +681,13 @@ export class WorkflowService extends EventEmitter {
     return this.workflowEngine.getActiveExecutions();
   }
 
+  /**
+   * Mark executions cut off by the last shutdown as failed, so they can be resumed
+   */
+  public async markInterruptedExecutions(): Promise<number> {
+    return this.workflowEngine.getExecutionHistory().markInterruptedExecutions();
+  }
+
   /**
    * Clean up old execution data
    */
@@ -341,17 +706,31 @@ export class WorkflowService extends EventEmitter {
     return this.listWorkflows();
   }
 
+  /**
+   * Export workflows as a single JSON or YAML file
+   */
+  public async exportWorkflowBundle(names: string[] | undefined, format: WorkflowFormat): Promise<string> {
+    return serializeWorkflows(await this.exportWorkflows(names), format);
+  }
+
   /**
    * Import workflows
    */
-  public async importWorkflows(workflows: WorkflowDefinition[]): Promise<{ success: number; failed: number; errors: string[] }> {
+  public async importWorkflows(
+    workflows: WorkflowDefinition[],
+    author = 'system'
+  ): Promise<{ success: number; failed: number; errors: string[] }> {
     let success = 0;
     let failed = 0;
     const errors: string[] = [];
 
     for (const workflow of workflows) {
       try {
-        await this.registerWorkflow(workflow);
+        const source = this.sources.get(workflow.name);
+        if (source) {
+          throw new Error(`Workflow is managed in ${source.repository} (${source.path}) and cannot be replaced by an import`);
+        }
+        await this.registerWorkflow(workflow, author);
         success++;
       } catch (error) {
         failed++;
@@ -365,18 +744,30 @@ export class WorkflowService extends EventEmitter {
   }
 
   /**
-   * Load workflows from database on startup
+   * Load workflows from database on startup. Disabled workflows are loaded too,
+   * so they can be listed and enabled again; they are not scheduled or triggered.
    */
   public async loadWorkflowsFromDatabase(): Promise<void> {
     try {
       const workflows = await prisma.workflow.findMany({
-        where: { enabled: true }
+        where: { deletedAt: null }
       });
 
       for (const dbWorkflow of workflows) {
         try {
           const workflowDef = this.parseWorkflowFromDatabase(dbWorkflow);
           this.workflows.set(workflowDef.name, workflowDef);
+          if (dbWorkflow.activeVersion) {
+            this.activeVersions.set(workflowDef.name, dbWorkflow.activeVersion);
+          }
+          if (dbWorkflow.sourceRepository) {
+            this.sources.set(workflowDef.name, {
+              repository: dbWorkflow.sourceRepository,
+              path: dbWorkflow.sourcePath,
+              sha: dbWorkflow.sourceSha
+            });
+          }
+          await this.scheduler.schedule(workflowDef);
           
           logger.debug(`Loaded workflow from database`, {
             workflowName: workflowDef.name,
@@ -418,6 +809,7 @@ export class WorkflowService extends EventEmitter {
           workflowCount,
           activeExecutions: activeExecutions.length,
           queueLength,
+          scheduledWorkflows: this.scheduler.getScheduledWorkflows().length,
           memoryUsage: process.memoryUsage(),
           uptime: process.uptime()
         }
@@ -434,38 +826,150 @@ export class WorkflowService extends EventEmitter {
   }
 
   /**
-   * Create execution context
+   * Start a run of a schedule trigger workflow. The execution ID is derived from
+   * the slot, so a slot whose run was started before a restart is not started again.
    */
-  private createExecutionContext(
-    workflow: WorkflowDefinition,
-    request: WorkflowExecutionRequest
-  ): ExecutionContext {
-    return {
-      workflow: {
-        id: workflow.name,
-        name: workflow.name,
-        version: workflow.version || '1.0.0'
-      },
-      trigger: {
-        event: request.triggerEvent.event || 'manual',
-        timestamp: new Date().toISOString(),
-        payload: request.triggerEvent
-      },
-      repository: request.triggerEvent.repository,
-      variables: request.variables || {},
-      secrets: request.secrets || {},
-      execution: {
-        id: this.generateExecutionId(),
-        startTime: new Date().toISOString(),
-        previousActions: []
+  private async startScheduledExecution(workflow: WorkflowDefinition, scheduledAt: Date): Promise<void> {
+    const repository = workflow.trigger.repository;
+    const [owner, name] = repository && !repository.includes('*') ? repository.split('/') : [];
+    const hash = crypto.createHash('sha256').update(`${workflow.name}:${scheduledAt.toISOString()}`).digest('hex');
+    const executionId = `exec_sched_${hash.slice(0, 24)}`;
+
+    if (await this.getExecution(executionId) || this.getQueuedExecution(executionId)) {
+      logger.info(`Scheduled run already started`, {
+        workflowName: workflow.name,
+        executionId,
+        scheduledAt: scheduledAt.toISOString()
+      });
+      return;
+    }
+
+    await this.startWorkflowExecution({
+      executionId,
+      workflowName: workflow.name,
+      triggerEvent: {
+        event: workflow.trigger.event,
+        payload: {
+          schedule: {
+            cron: workflow.trigger.schedule?.cron,
+            timezone: workflow.trigger.schedule?.timezone || 'UTC',
+            scheduledAt: scheduledAt.toISOString()
+          }
+        },
+        ...(owner && name && { repository: { name, owner, fullName: repository } })
+      }
+    });
+  }
+
+  /**
+   * Queue a run started by another workflow's onSuccess.triggerWorkflow
+   */
+  private async queueChainedExecution(request: ChainedWorkflowRequest): Promise<string> {
+    const workflow = this.workflows.get(request.workflowName);
+    if (!workflow) {
+      throw new Error(`Workflow not found: ${request.workflowName}`);
+    }
+
+    if (workflow.enabled === false) {
+      throw new Error(`Workflow is disabled: ${request.workflowName}`);
+    }
+
+    return this.queueWorkflowExecution({
+      workflowName: request.workflowName,
+      triggerEvent: request.triggerEvent,
+      parentExecutionId: request.parentExecutionId,
+      chainDepth: request.chainDepth
+    });
+  }
+
+  /**
+   * Merge changes into a workflow's metadata and save them as a new version
+   */
+  private async updateWorkflowMetadata(workflowName: string, changes: Record<string, any>): Promise<void> {
+    const workflow = this.workflows.get(workflowName);
+    if (!workflow) {
+      throw new Error(`Workflow not found: ${workflowName}`);
+    }
+
+    await this.updateWorkflow(
+      { ...workflow, metadata: { ...workflow.metadata, ...changes } },
+      METADATA_AUTHOR,
+      this.sources.get(workflowName)
+    );
+
+    logger.info(`Workflow metadata updated`, {
+      workflowName,
+      keys: Object.keys(changes)
+    });
+  }
+
+  /**
+   * Reject a workflow whose onSuccess.triggerWorkflow chain leads back to itself,
+   * taking the other registered workflows into account
+   */
+  private assertNoChainCycle(workflow: WorkflowDefinition): void {
+    const workflows = new Map(this.workflows).set(workflow.name, workflow);
+    const path: string[] = [];
+    const cleared = new Set<string>();
+
+    const findCycle = (name: string): string[] | null => {
+      const index = path.indexOf(name);
+      if (index >= 0) {
+        return [...path.slice(index), name];
+      }
+
+      const current = workflows.get(name);
+      if (!current || cleared.has(name)) {
+        return null;
+      }
+
+      path.push(name);
+      for (const target of this.getChainedWorkflowNames(current.actions)) {
+        const cycle = findCycle(target);
+        if (cycle) {
+          return cycle;
+        }
       }
+      path.pop();
+      cleared.add(name);
+
+      return null;
     };
+
+    const cycle = findCycle(workflow.name);
+    if (cycle) {
+      throw new Error(`Workflow chain cycle detected: ${cycle.join(' -> ')}`);
+    }
+  }
+
+  /**
+   * Workflows triggered by onSuccess of these actions or any actions nested in them
+   */
+  private getChainedWorkflowNames(actions: ActionConfig[]): string[] {
+    return actions.flatMap(action => [
+      ...(action.onSuccess?.triggerWorkflow ? [action.onSuccess.triggerWorkflow] : []),
+      ...(NESTED_ACTION_PARAMETERS[action.type] || [])
+        .filter(key => Array.isArray(action.parameters?.[key]))
+        .flatMap(key => this.getChainedWorkflowNames(action.parameters[key]))
+    ]);
+  }
+
+  private setSource(name: string, source: WorkflowSource | undefined): void {
+    if (source) {
+      this.sources.set(name, source);
+    } else {
+      this.sources.delete(name);
+    }
   }
 
   /**
-   * Save workflow to database
+   * Save workflow to database, with the repository file it is synced from
    */
-  private async saveWorkflowToDatabase(workflow: WorkflowDefinition): Promise<void> {
+  private async saveWorkflowToDatabase(
+    workflow: WorkflowDefinition,
+    author = 'system',
+    source: WorkflowSource | null = this.sources.get(workflow.name) ?? null
+  ): Promise<void> {
     await prisma.workflow.upsert({
       where: { id: workflow.name },
       update: {
@@ -482,6 +986,10 @@ export class WorkflowService extends EventEmitter {
           ...(workflow.retryPolicy && { retryPolicy: workflow.retryPolicy }),
           ...(workflow.metadata || {})
         },
+        sourceRepository: source?.repository ?? null,
+        sourcePath: source?.path ?? null,
+        sourceSha: source?.sha ?? null,
+        deletedAt: null, // Registering a deleted workflow's name again restores it
         updatedAt: new Date()
       },
       create: {
@@ -499,7 +1007,10 @@ export class WorkflowService extends EventEmitter {
           ...(workflow.retryPolicy && { retryPolicy: workflow.retryPolicy }),
           ...(workflow.metadata || {})
         },
-        createdBy: 'system', // Would be actual user in production
+        sourceRepository: source?.repository ?? null,
+        sourcePath: source?.path ?? null,
+        sourceSha: source?.sha ?? null,
+        createdBy: author,
         createdAt: new Date(),
         updatedAt: new Date()
       }
@@ -583,30 +1094,48 @@ export class WorkflowService extends EventEmitter {
   }
 
   /**
-   * Process execution queue
+   * Process execution queue, running at most maxConcurrentExecutions at once
    */
-  private async processQueue(): Promise<void> {
-    if (this.processing || this.executionQueue.length === 0) {
-      return;
+  private processQueue(): void {
+    while (this.executionQueue.length > 0 && this.runningFromQueue < this.options.maxConcurrentExecutions!) {
+      const request = this.executionQueue.shift()!;
+      const executionId = request.executionId!;
+      this.runningFromQueue++;
+
+      this.executeWorkflow(request)
+        .then(
+          () => this.settleStart(executionId),
+          (error) => {
+            logger.error(`Queued workflow execution failed`, {
+              workflowName: request.workflowName,
+              executionId,
+              error: error instanceof Error ? error.message : 'Unknown error'
+            });
+            this.settleStart(executionId, error);
+          }
+        )
+        .finally(() => {
+          this.runningFromQueue--;
+          this.processQueue();
+        });
     }
+  }
 
-    this.processing = true;
+  /**
+   * Settle the promise of a caller waiting for a queued execution to start. An
+   * execution that fails after it started has already been settled.
+   */
+  private settleStart(executionId: string, error?: unknown): void {
+    const pending = this.pendingStarts.get(executionId);
+    if (!pending) {
+      return;
+    }
 
-    try {
-      while (this.executionQueue.length > 0) {
-        const request = this.executionQueue.shift()!;
-        
-        try {
-          await this.executeWorkflow(request);
-        } catch (error) {
-          logger.error(`Queued workflow execution failed`, {
-            workflowName: request.workflowName,
-            error: error instanceof Error ? error.message : 'Unknown error'
-          });
-        }
-      }
-    } finally {
-      this.processing = false;
+    this.pendingStarts.delete(executionId);
+    if (error) {
+      pending.reject(error);
+    } else {
+      pending.resolve(executionId);
     }
   }
 
@@ -624,6 +1153,7 @@ export class WorkflowService extends EventEmitter {
    */
   private setupEventHandlers(): void {
     this.workflowEngine.on('execution:started', (data) => {
+      this.settleStart(data.executionId);
       this.emit('execution:started', data);
     });
 
@@ -638,6 +1168,14 @@ export class WorkflowService extends EventEmitter {
     this.workflowEngine.on('execution:cancelled', (data) => {
       this.emit('execution:cancelled', data);
     });
+
+    this.workflowEngine.on('execution:timeout', (data) => {
+      this.emit('execution:timeout', data);
+    });
+
+    this.workflowEngine.on('execution:progress', (data) => {
+      this.emit('execution:progress', data);
+    });
   }
 
   /**
@@ -646,4 +1184,7 @@ export class WorkflowService extends EventEmitter {
   private generateExecutionId(): string {
     return `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
-}
\ No newline at end of file
+}
+
+// Singleton instance
+export const workflowService = new WorkflowService();
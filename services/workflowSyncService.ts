@@ -0,0 +1,381 @@
+import path from 'path';
+import { Octokit } from '@octokit/rest';
+import { WorkflowService, WorkflowSource, workflowService } from './workflow-service';
+import { GitHubServiceFactory } from './githubFactory';
+import { GitHubAuthService } from './githubAuth';
+import { WorkflowDefinition } from '../types/workflow-schema';
+import { workflowValidator } from '../utils/workflow-validator';
+import { diffWorkflows } from '../utils/workflow-diff';
+import { YamlDocument, YamlSyntaxError, parseYaml } from '../utils/workflow-yaml';
+import environment from '../config/environment';
+import logger from '../utils/logger';
+
+export interface WorkflowSyncOptions {
+  enabled: boolean;
+  path: string; // Directory in each repository holding workflow files
+}
+
+export interface SyncFileError {
+  path: string;
+  message: string;
+  line?: number; // 1-based, when the error can be located in the file
+}
+
+export interface SyncResult {
+  repository: string;
+  sha: string;
+  created: string[];
+  updated: string[];
+  deleted: string[];
+  unchanged: string[];
+  errors: SyncFileError[];
+}
+
+// Parsers by file extension. YAML keeps source positions, so its errors are annotated on their line.
+export const WORKFLOW_FILE_PARSERS: Record<string, (content: string) => YamlDocument> = {
+  '.json': content => ({ value: JSON.parse(content), locate: () => null }),
+  '.yml': parseYaml,
+  '.yaml': parseYaml
+};
+
+/**
+ * A workflow file that cannot be synced, with each problem located in the file where possible
+ */
+export class WorkflowFileError extends Error {
+  constructor(public readonly problems: Array<{ message: string; line?: number }>) {
+    super(problems.map(problem => problem.message).join('; '));
+    this.name = 'WorkflowFileError';
+  }
+}
+
+const CHECK_RUN_NAME = 'Workflow sync';
+const MAX_ANNOTATIONS = 50; // GitHub's limit per check run request
+const SYNC_AUTHOR = 'workflow-sync';
+
+/**
+ * Keeps workflows defined in repository files in step with the files on the
+ * default branch. Each file holds one WorkflowDefinition; the workflow only
+ * reacts to events from its own repository and can only be changed there.
+ */
+export class WorkflowSyncService {
+  constructor(
+    private readonly workflows: WorkflowService,
+    private readonly options: WorkflowSyncOptions,
+    private readonly authServiceProvider: () => GitHubAuthService | null = () => GitHubServiceFactory.getGitHubAuthService()
+  ) {}
+
+  public get enabled(): boolean {
+    return this.options.enabled;
+  }
+
+  /**
+   * Re-sync a repository when a push to its default branch touches the workflow directory
+   */
+  public async handlePush(payload: any): Promise<SyncResult | null> {
+    const repository: string | undefined = payload?.repository?.full_name;
+    const installationId: number | undefined = payload?.installation?.id;
+    const defaultBranch: string | undefined = payload?.repository?.default_branch;
+
+    if (!this.options.enabled || !repository || !installationId || !defaultBranch) {
+      return null;
+    }
+    if (payload.ref !== `refs/heads/${defaultBranch}` || payload.deleted) {
+      return null;
+    }
+
+    // GitHub lists at most 20 commits per push; sync whenever the list may be incomplete
+    const commits: any[] = payload.commits || [];
+    const touched = commits.length >= 20 || commits.some(commit =>
+      [...(commit.added || []), ...(commit.modified || []), ...(commit.removed || [])]
+        .some((file: string) => this.isWorkflowFile(file)));
+
+    if (!touched) {
+      return null;
+    }
+
+    return this.syncRepository(installationId, repository, {
+      sha: payload.after,
+      author: payload.pusher?.name || payload.sender?.login || SYNC_AUTHOR
+    });
+  }
+
+  /**
+   * Sync every repository of every installation, e.g. on startup
+   */
+  public async syncAll(): Promise<SyncResult[]> {
+    const authService = this.authServiceProvider();
+    if (!this.options.enabled || !authService) {
+      return [];
+    }
+
+    const results: SyncResult[] = [];
+
+    for (const installation of await authService.getAllInstallations()) {
+      try {
+        const octokit = authService.getInstallationOctokit(installation.id);
+        const repositories = await octokit.paginate(octokit.rest.apps.listReposAccessibleToInstallation);
+
+        for (const repo of repositories) {
+          try {
+            results.push(await this.syncRepository(installation.id, repo.full_name));
+          } catch (error) {
+            logger.error('Failed to sync workflows from repository', {
+              repository: repo.full_name,
+              error: error instanceof Error ? error.message : 'Unknown error'
+            });
+          }
+        }
+      } catch (error) {
+        logger.error('Failed to list repositories for workflow sync', {
+          installationId: installation.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Register, update and delete the repository's workflows to match its files
+   * at `sha` (the head of the default branch if not given), then report the
+   * outcome as a check run on that commit
+   */
+  public async syncRepository(
+    installationId: number,
+    repository: string,
+    options: { sha?: string; author?: string } = {}
+  ): Promise<SyncResult> {
+    const authService = this.authServiceProvider();
+    if (!authService) {
+      throw new Error('GitHub integration is not configured');
+    }
+
+    const octokit = authService.getInstallationOctokit(installationId);
+    const [owner, repo] = repository.split('/') as [string, string];
+    const sha = options.sha ?? await this.getDefaultBranchSha(octokit, owner, repo);
+    const author = options.author ?? SYNC_AUTHOR;
+
+    const result: SyncResult = { repository, sha, created: [], updated: [], deleted: [], unchanged: [], errors: [] };
+    const files = await this.listWorkflowFiles(octokit, owner, repo, sha);
+    const seenNames = new Map<string, string>();
+    const failedPaths = new Set<string>();
+
+    for (const filePath of files) {
+      const source: WorkflowSource = { repository, path: filePath, sha };
+
+      let workflow: WorkflowDefinition;
+      try {
+        const content = await this.readFile(octokit, owner, repo, filePath, sha);
+        workflow = this.parseWorkflowFile(filePath, content, repository);
+      } catch (error) {
+        if (error instanceof WorkflowFileError) {
+          result.errors.push(...error.problems.map(problem => ({ path: filePath, ...problem })));
+        } else {
+          result.errors.push({ path: filePath, message: error instanceof Error ? error.message : 'Unknown error' });
+        }
+        failedPaths.add(filePath);
+        continue;
+      }
+
+      const conflict = seenNames.get(workflow.name);
+      if (conflict) {
+        result.errors.push({ path: filePath, message: `Workflow name "${workflow.name}" is also used by ${conflict}` });
+        failedPaths.add(filePath);
+        continue;
+      }
+      seenNames.set(workflow.name, filePath);
+
+      try {
+        await this.applyWorkflow(workflow, source, author, result);
+      } catch (error) {
+        result.errors.push({ path: filePath, message: error instanceof Error ? error.message : 'Unknown error' });
+        failedPaths.add(filePath);
+      }
+    }
+
+    // Workflows whose file is gone or now defines another name. One whose file
+    // could not be synced keeps running its last good version.
+    const synced = new Set([...result.created, ...result.updated, ...result.unchanged]);
+    for (const workflow of this.workflows.listRepositoryWorkflows(repository)) {
+      const source = this.workflows.getWorkflowSource(workflow.name);
+      if (source && !synced.has(workflow.name) && !failedPaths.has(source.path)) {
+        await this.workflows.deleteWorkflow(workflow.name, author);
+        result.deleted.push(workflow.name);
+      }
+    }
+
+    logger.info('Repository workflows synced', {
+      repository,
+      sha,
+      created: result.created.length,
+      updated: result.updated.length,
+      deleted: result.deleted.length,
+      errors: result.errors.length
+    });
+
+    await this.reportResult(octokit, owner, repo, result);
+    return result;
+  }
+
+  /**
+   * Parse and validate a workflow file. The workflow is scoped to the
+   * repository: its trigger defaults to the repository and may not name another.
+   */
+  public parseWorkflowFile(filePath: string, content: string, repository: string): WorkflowDefinition {
+    const parse = WORKFLOW_FILE_PARSERS[path.extname(filePath).toLowerCase()];
+    if (!parse) {
+      throw new Error(`Unsupported workflow file type: ${filePath}`);
+    }
+
+    let document: YamlDocument;
+    try {
+      document = parse(content);
+    } catch (error) {
+      throw new WorkflowFileError([{
+        message: `Invalid file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        ...(error instanceof YamlSyntaxError && { line: error.line })
+      }]);
+    }
+
+    const workflow = document.value as WorkflowDefinition;
+    const problem = (message: string, fieldPath: string) => {
+      const position = document.locate(fieldPath);
+      return { message, ...(position && { line: position.line }) };
+    };
+
+    if (!workflow || typeof workflow !== 'object' || Array.isArray(workflow)) {
+      throw new WorkflowFileError([problem('A workflow file must contain a single workflow definition', 'root')]);
+    }
+
+    if (workflow.trigger && typeof workflow.trigger === 'object') {
+      if (workflow.trigger.repository && workflow.trigger.repository !== repository) {
+        throw new WorkflowFileError([
+          problem(`trigger.repository must be ${repository} or left out`, 'trigger.repository')
+        ]);
+      }
+      workflow.trigger = { ...workflow.trigger, repository };
+    }
+
+    const validation = workflowValidator.validate(workflow);
+    if (!validation.valid) {
+      throw new WorkflowFileError(validation.errors.map(e => problem(`${e.path}: ${e.message}`, e.path)));
+    }
+
+    return workflow;
+  }
+
+  private async applyWorkflow(
+    workflow: WorkflowDefinition,
+    source: WorkflowSource,
+    author: string,
+    result: SyncResult
+  ): Promise<void> {
+    const existing = this.workflows.getWorkflow(workflow.name);
+    if (!existing) {
+      await this.workflows.registerWorkflow(workflow, author, source);
+      result.created.push(workflow.name);
+      return;
+    }
+
+    const currentSource = this.workflows.getWorkflowSource(workflow.name);
+    if (!currentSource || currentSource.repository !== source.repository) {
+      throw new Error(`Workflow name "${workflow.name}" is already used by ${currentSource
+        ? `${currentSource.repository} (${currentSource.path})`
+        : 'a workflow managed through the API'}`);
+    }
+
+    if (currentSource.path === source.path && diffWorkflows(existing, workflow).identical) {
+      result.unchanged.push(workflow.name);
+      return;
+    }
+
+    await this.workflows.updateWorkflow(workflow, author, source);
+    result.updated.push(workflow.name);
+  }
+
+  private isWorkflowFile(filePath: string): boolean {
+    return path.posix.dirname(filePath) === this.options.path &&
+      path.extname(filePath).toLowerCase() in WORKFLOW_FILE_PARSERS;
+  }
+
+  private async getDefaultBranchSha(octokit: Octokit, owner: string, repo: string): Promise<string> {
+    const { data: repository } = await octokit.rest.repos.get({ owner, repo });
+    const { data: branch } = await octokit.rest.repos.getBranch({ owner, repo, branch: repository.default_branch });
+    return branch.commit.sha;
+  }
+
+  private async listWorkflowFiles(octokit: Octokit, owner: string, repo: string, ref: string): Promise<string[]> {
+    try {
+      const { data } = await octokit.rest.repos.getContent({ owner, repo, path: this.options.path, ref });
+      if (!Array.isArray(data)) {
+        return [];
+      }
+      return data
+        .filter(entry => entry.type === 'file' && this.isWorkflowFile(entry.path))
+        .map(entry => entry.path)
+        .sort();
+    } catch (error: any) {
+      // No workflow directory: the repository defines no workflows
+      if (error?.status === 404) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private async readFile(octokit: Octokit, owner: string, repo: string, filePath: string, ref: string): Promise<string> {
+    const { data } = await octokit.rest.repos.getContent({ owner, repo, path: filePath, ref });
+    if (Array.isArray(data) || data.type !== 'file' || !('content' in data)) {
+      throw new Error('Not a file');
+    }
+    return Buffer.from(data.content, 'base64').toString('utf8');
+  }
+
+  /**
+   * Report the outcome on the synced commit. Failing to report does not fail the sync.
+   */
+  private async reportResult(octokit: Octokit, owner: string, repo: string, result: SyncResult): Promise<void> {
+    const applied = [
+      ...result.created.map(name => `- Created \`${name}\``),
+      ...result.updated.map(name => `- Updated \`${name}\``),
+      ...result.deleted.map(name => `- Deleted \`${name}\``)
+    ];
+
+    try {
+      await octokit.rest.checks.create({
+        owner,
+        repo,
+        name: CHECK_RUN_NAME,
+        head_sha: result.sha,
+        status: 'completed',
+        conclusion: result.errors.length > 0 ? 'failure' : 'success',
+        output: {
+          title: result.errors.length > 0
+            ? `${result.errors.length} workflow file(s) could not be synced`
+            : 'Workflows synced',
+          summary: applied.length > 0 ? applied.join('\n') : 'No workflow changes.',
+          annotations: result.errors.slice(0, MAX_ANNOTATIONS).map(error => ({
+            path: error.path,
+            start_line: error.line ?? 1,
+            end_line: error.line ?? 1,
+            annotation_level: 'failure' as const,
+            message: error.message
+          }))
+        }
+      });
+    } catch (error) {
+      logger.warn('Failed to report workflow sync result', {
+        repository: result.repository,
+        sha: result.sha,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
+
+// Singleton instance
+export const workflowSyncService = new WorkflowSyncService(workflowService, {
+  enabled: environment.WORKFLOW_SYNC_ENABLED,
+  path: environment.WORKFLOW_SYNC_PATH
+});
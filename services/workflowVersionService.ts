@@ -0,0 +1,192 @@
+import { WorkflowDefinition } from '../types/workflow-schema';
+import prisma from '../config/database';
+import logger from '../utils/logger';
+
+// Concurrent updates of a workflow can claim the same version number; the loser retries
+const MAX_VERSION_ATTEMPTS = 3;
+
+export type WorkflowChange = 'CREATED' | 'UPDATED' | 'ROLLED_BACK' | 'RESTORED' | 'ENABLED' | 'DISABLED' | 'DELETED';
+
+export interface WorkflowVersionSummary {
+  version: number;
+  label: string | null; // The definition's own "version" string
+  createdBy: string;
+  createdAt: Date;
+  active: boolean;
+}
+
+export interface WorkflowVersion extends WorkflowVersionSummary {
+  definition: WorkflowDefinition;
+}
+
+/**
+ * Immutable history of workflow definitions, plus the audit trail of who
+ * changed which workflow. Every registered or updated definition gets the
+ * next version number; rolling back re-activates an existing version.
+ * Versions outlive their workflow, which is only marked as deleted.
+ */
+export class WorkflowVersionService {
+  /**
+   * Store a definition as the workflow's next version and make it the active one.
+   * Numbering, storing and activating the version happen in one transaction.
+   */
+  public async recordVersion(
+    workflow: WorkflowDefinition,
+    author: string,
+    change: 'CREATED' | 'UPDATED'
+  ): Promise<number> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const { version, previousVersion } = await prisma.$transaction(
+          (tx: any) => this.storeNextVersion(tx, workflow, author)
+        );
+
+        await this.recordChange(workflow.name, change, author, { version, previousVersion });
+        return version;
+      } catch (error) {
+        if (attempt >= MAX_VERSION_ATTEMPTS || (error as { code?: string })?.code !== 'P2002') {
+          throw error;
+        }
+        logger.warn('Workflow version number taken by a concurrent update, retrying', {
+          workflowName: workflow.name,
+          attempt
+        });
+      }
+    }
+  }
+
+  /**
+   * Make an existing version the active one again, restoring the workflow if it was deleted
+   */
+  public async activateVersion(
+    workflowName: string,
+    version: number,
+    author: string,
+    previousVersion: number | null,
+    change: 'ROLLED_BACK' | 'RESTORED' = 'ROLLED_BACK'
+  ): Promise<void> {
+    await prisma.workflow.update({
+      where: { id: workflowName },
+      data: { activeVersion: version }
+    });
+
+    await this.recordChange(workflowName, change, author, { version, previousVersion });
+  }
+
+  public async listVersions(workflowName: string): Promise<WorkflowVersionSummary[]> {
+    const [versions, activeVersion] = await Promise.all([
+      prisma.workflowVersion.findMany({
+        where: { workflowId: workflowName },
+        orderBy: { version: 'desc' },
+        select: { version: true, label: true, createdBy: true, createdAt: true }
+      }),
+      this.getActiveVersion(workflowName)
+    ]);
+
+    return versions.map((row: any) => this.toSummary(row, activeVersion));
+  }
+
+  public async getVersion(workflowName: string, version: number): Promise<WorkflowVersion | null> {
+    const [row, activeVersion] = await Promise.all([
+      prisma.workflowVersion.findUnique({
+        where: { workflowId_version: { workflowId: workflowName, version } }
+      }),
+      this.getActiveVersion(workflowName)
+    ]);
+    if (!row) {
+      return null;
+    }
+
+    return {
+      ...this.toSummary(row, activeVersion),
+      definition: row.definition as WorkflowDefinition
+    };
+  }
+
+  public async getActiveVersion(workflowName: string): Promise<number | null> {
+    const workflow = await prisma.workflow.findUnique({
+      where: { id: workflowName },
+      select: { activeVersion: true }
+    });
+    return workflow?.activeVersion ?? null;
+  }
+
+  /**
+   * Add an audit log entry for a change to a workflow. Failing to write it is
+   * logged rather than failing a change that has already been made.
+   */
+  public async recordChange(
+    workflowName: string,
+    change: WorkflowChange,
+    author: string,
+    details: Record<string, unknown> = {}
+  ): Promise<void> {
+    try {
+      await prisma.auditLog.create({
+        data: {
+          entityType: 'WORKFLOW',
+          entityId: workflowName,
+          action: change,
+          userId: author,
+          changes: details,
+          workflowId: workflowName
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to write workflow audit log', {
+        workflowName,
+        change,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  private async storeNextVersion(
+    tx: any,
+    workflow: WorkflowDefinition,
+    author: string
+  ): Promise<{ version: number; previousVersion: number | null }> {
+    const [latest, current] = await Promise.all([
+      tx.workflowVersion.findFirst({
+        where: { workflowId: workflow.name },
+        orderBy: { version: 'desc' },
+        select: { version: true }
+      }),
+      tx.workflow.findUnique({
+        where: { id: workflow.name },
+        select: { activeVersion: true }
+      })
+    ]);
+    const version = (latest?.version ?? 0) + 1;
+
+    // Fails on the (workflowId, version) unique index if a concurrent update took the number
+    await tx.workflowVersion.create({
+      data: {
+        workflowId: workflow.name,
+        version,
+        label: workflow.version ?? null,
+        definition: workflow,
+        createdBy: author
+      }
+    });
+    await tx.workflow.update({
+      where: { id: workflow.name },
+      data: { activeVersion: version }
+    });
+
+    return { version, previousVersion: current?.activeVersion ?? null };
+  }
+
+  private toSummary(row: any, activeVersion: number | null): WorkflowVersionSummary {
+    return {
+      version: row.version,
+      label: row.label,
+      createdBy: row.createdBy,
+      createdAt: row.createdAt,
+      active: row.version === activeVersion
+    };
+  }
+}
+
+// Singleton instance
+export const workflowVersionService = new WorkflowVersionService();
@@ -4,6 +4,7 @@ export interface GitHubAppConfig {
   webhookSecret?: string | undefined;
   clientId?: string | undefined;
   clientSecret?: string | undefined;
+  baseUrl?: string | undefined; // GitHub Enterprise Server API URL
 }
 
 export interface InstallationToken {
@@ -38,9 +38,12 @@ export type GitHubEvent =
 
 export interface ScheduleConfig {
   cron: string;
-  timezone?: string;
+  timezone?: string; // IANA timezone, defaults to UTC
+  catchUp?: CatchUpPolicy; // What to do with runs missed while the service was down
 }
 
+export type CatchUpPolicy = 'skip' | 'run_once' | 'run_all';
+
 // Filter and Condition System
 export interface FilterRule {
   field: string; // JSONPath-like field selector
@@ -76,6 +79,8 @@ export interface ActionConfig {
   onSuccess?: SuccessAction;
   runAsync?: boolean; // Whether to run asynchronously
   dependsOn?: string[]; // IDs of actions this depends on
+  outputs?: Record<string, string>; // Variable name -> field path into the action's ActionReference
+  compensation?: ActionConfig; // Undoes this action when a later action fails with onError 'rollback'
 }
 
 export type ActionType = 
@@ -123,7 +128,7 @@ export type BackoffStrategy = 'fixed' | 'exponential' | 'linear';
 export interface SuccessAction {
   notify?: NotificationConfig;
   triggerWorkflow?: string; // Workflow ID to trigger
-  updateMetadata?: Record<string, any>;
+  updateMetadata?: Record<string, any>; // Merged into the workflow's metadata; values may use templates
 }
 
 export interface NotificationConfig {
@@ -144,6 +149,7 @@ export interface ExecutionContext {
     id: string;
     name: string;
     version: string;
+    versionNumber?: number; // Stored version being run, see GET /workflows/:name/versions
   };
   trigger: {
     event: GitHubEvent;
@@ -155,24 +161,67 @@ export interface ExecutionContext {
     owner: string;
     fullName: string;
   };
+  installation?: {
+    id: number;
+  };
   variables: Record<string, any>;
   secrets: Record<string, string>;
   execution: {
     id: string;
     startTime: string;
     previousActions: ActionResult[];
+    parentExecutionId?: string; // Execution whose onSuccess.triggerWorkflow started this one
+    chainDepth?: number; // Number of chained runs above this one; 0 or unset for direct runs
+    resumedFromExecutionId?: string; // Execution whose checkpoint this run continues
   };
+  signal?: AbortSignal; // Aborted when the execution is cancelled or times out
+  dryRun?: boolean; // Actions report the calls they would make instead of making them
+  plannedEffects?: PlannedEffect[]; // Where the running action records those calls in a dry run
+  actions?: Record<string, ActionReference>; // Finished actions by ID, exposed as `actions.<id>`
+  error?: ErrorDetails; // Set while rendering error notifications, exposed as `error`
+}
+
+// What error notification templates and channel conditions can see of a failure
+export interface ErrorDetails {
+  reason: 'failure' | 'escalation'; // Execution failed, or an action with onError 'escalate' failed
+  message: string;
+  status?: 'completed' | 'failed' | 'cancelled' | 'timeout'; // Execution status, for failures
+  actionId?: string; // The failed action
+  actionType?: ActionType;
+  executionUrl?: string;
+}
+
+// What templates and conditions can see of a finished action
+export interface ActionReference {
+  status: ActionResult['status'];
+  result?: any;
+  error?: string;
+  output: Record<string, any>; // Values of the action's declared outputs
 }
 
 export interface ActionResult {
   actionId: string;
   actionType: ActionType;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped' | 'cancelled';
   startTime: string;
   endTime?: string;
   result?: any;
   error?: string;
   retryCount: number;
+  children?: ActionResult[]; // Results of nested actions (e.g. a conditional's branch)
+  triggeredExecutionId?: string; // Execution started by onSuccess.triggerWorkflow
+  compensates?: string; // Set on compensation results: the ID of the action being undone
+  effects?: PlannedEffect[]; // Calls the action would have made, in a dry run
+  reusedFrom?: string; // Set on results taken over from the execution being resumed: its ID
+}
+
+// A call an action would make, reported in its place during a dry run
+export interface PlannedEffect {
+  service: 'github' | 'slack' | 'email' | 'http';
+  method: string; // HTTP method, or SEND for email
+  url: string; // Request URL, or mailto: with the recipients for email
+  headers?: Record<string, string>;
+  body?: any;
 }
 
 // Validation and Schema
@@ -210,6 +259,80 @@ export interface GitHubIssueCommentParams {
   update?: boolean; // Update existing comment if found
 }
 
+export interface GitHubIssueUnassignParams {
+  assignee: string | string[];
+  repository?: string;
+}
+
+export interface GitHubIssueCloseParams {
+  reason?: 'completed' | 'not_planned';
+  comment?: string; // Posted before closing
+  repository?: string;
+}
+
+export interface GitHubIssueReopenParams {
+  comment?: string; // Posted after reopening
+  repository?: string;
+}
+
+export interface GitHubPRAssignParams {
+  assignee: string | string[];
+  repository?: string;
+}
+
+export interface GitHubPRMergeParams {
+  merge_method?: 'merge' | 'squash' | 'rebase';
+  commit_title?: string;
+  commit_message?: string;
+  sha?: string; // Only merge if the head still matches
+  repository?: string;
+}
+
+export interface GitHubPRCommentParams {
+  body: string; // Supports template variables
+  repository?: string;
+}
+
+export interface GitHubPRApproveParams {
+  body?: string; // Review comment
+  repository?: string;
+}
+
+export interface GitHubPRCloseParams {
+  comment?: string; // Posted before closing
+  repository?: string;
+}
+
+export interface GitHubPRLabelParams {
+  labels: string[];
+  mode: 'add' | 'remove' | 'set';
+  repository?: string;
+}
+
+export interface GitHubCreateBranchParams {
+  name: string;
+  from?: string; // Branch name or commit SHA, defaults to the default branch
+  repository?: string;
+}
+
+export interface GitHubCreatePRParams {
+  title: string;
+  head: string;
+  base?: string; // Defaults to the default branch
+  body?: string;
+  draft?: boolean;
+  repository?: string;
+}
+
+export interface GitHubCreateIssueParams {
+  title: string;
+  body?: string;
+  labels?: string[];
+  assignees?: string[];
+  milestone?: number;
+  repository?: string;
+}
+
 export interface SlackMessageParams {
   channel: string;
   message: string;
@@ -233,10 +356,27 @@ export interface ConditionalParams {
 }
 
 export interface LoopParams {
-  items: string; // JSONPath to array
+  items: string | any[]; // Field path (optionally in {{ }}) to an array, or the array itself
   itemVariable: string; // Variable name for current item
   actions: ActionConfig[];
-  maxIterations?: number;
+  maxIterations?: number; // Default 100, at most MAX_LOOP_ITERATIONS
+  concurrency?: number; // Iterations run at once; default 1, at most MAX_LOOP_CONCURRENCY
+}
+
+// Parameters holding nested actions, which the engine runs itself
+export const NESTED_ACTION_PARAMETERS: Partial<Record<ActionType, string[]>> = {
+  conditional: ['onTrue', 'onFalse'],
+  loop: ['actions']
+};
+
+export const MAX_LOOP_ITERATIONS = 1000;
+export const MAX_LOOP_CONCURRENCY = 20;
+
+export interface LoopIterationResult {
+  index: number;
+  item: any;
+  status: 'completed' | 'failed';
+  results: Record<string, any>; // Body action results keyed by action ID
 }
 
 // Template system for dynamic values
@@ -284,7 +424,8 @@ export const WORKFLOW_JSON_SCHEMA = {
           required: ["cron"],
           properties: {
             cron: { type: "string" },
-            timezone: { type: "string" }
+            timezone: { type: "string" },
+            catchUp: { enum: ["skip", "run_once", "run_all"] }
           }
         }
       }
@@ -314,6 +455,14 @@ export const WORKFLOW_JSON_SCHEMA = {
           dependsOn: {
             type: "array",
             items: { type: "string" }
+          },
+          outputs: {
+            type: "object",
+            additionalProperties: { type: "string" }
+          },
+          compensation: {
+            type: "object",
+            required: ["type", "parameters"]
           }
         }
       }
@@ -84,6 +84,16 @@ describe('ConditionEvaluator', () => {
       expect(ConditionEvaluator.evaluate(condition, { status: 'closed' })).toBe(false);
     });
 
+    test('in operator with values array', () => {
+      const condition: ConditionGroup = {
+        operator: 'AND',
+        rules: [{ field: 'association', operator: 'in', values: ['FIRST_TIME_CONTRIBUTOR', 'CONTRIBUTOR'] }],
+      };
+
+      expect(ConditionEvaluator.evaluate(condition, { association: 'CONTRIBUTOR' })).toBe(true);
+      expect(ConditionEvaluator.evaluate(condition, { association: 'MEMBER' })).toBe(false);
+    });
+
     test('greater_than operator', () => {
       const condition: ConditionGroup = {
         operator: 'AND',
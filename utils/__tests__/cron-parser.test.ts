@@ -0,0 +1,102 @@
+/**
+ * Tests for CronExpression - parsing and next fire time calculation
+ */
+
+import { CronExpression } from '../cron-parser';
+
+describe('CronExpression', () => {
+  describe('parsing', () => {
+    test('accepts standard expressions', () => {
+      expect(CronExpression.isValid('0 9 * * 1')).toBe(true);
+      expect(CronExpression.isValid('*/15 * * * *')).toBe(true);
+      expect(CronExpression.isValid('0 0 1,15 * *')).toBe(true);
+      expect(CronExpression.isValid('30 8-18/2 * JAN-JUN MON-FRI')).toBe(true);
+      expect(CronExpression.isValid('@weekly')).toBe(true);
+    });
+
+    test('rejects malformed expressions', () => {
+      expect(CronExpression.isValid('0 9 * *')).toBe(false);
+      expect(CronExpression.isValid('60 * * * *')).toBe(false);
+      expect(CronExpression.isValid('0 24 * * *')).toBe(false);
+      expect(CronExpression.isValid('0 0 0 * *')).toBe(false);
+      expect(CronExpression.isValid('*/0 * * * *')).toBe(false);
+      expect(CronExpression.isValid('5-1 * * * *')).toBe(false);
+      expect(CronExpression.isValid('a b c d e')).toBe(false);
+    });
+
+    test('rejects unknown timezones', () => {
+      expect(CronExpression.isValid('0 9 * * 1', 'Mars/Olympus')).toBe(false);
+      expect(() => new CronExpression('0 9 * * 1', 'Mars/Olympus')).toThrow('Invalid timezone');
+    });
+  });
+
+  describe('next', () => {
+    test('finds the next weekly fire time in UTC', () => {
+      const cron = new CronExpression('0 9 * * 1');
+
+      // Wednesday 2024-01-03 -> Monday 2024-01-08 09:00
+      expect(cron.next(new Date('2024-01-03T12:00:00Z')).toISOString()).toBe('2024-01-08T09:00:00.000Z');
+    });
+
+    test('is strictly after the reference time', () => {
+      const cron = new CronExpression('0 9 * * 1');
+
+      expect(cron.next(new Date('2024-01-08T09:00:00Z')).toISOString()).toBe('2024-01-15T09:00:00.000Z');
+    });
+
+    test('supports steps and ranges', () => {
+      const cron = new CronExpression('*/20 10-11 * * *');
+
+      expect(cron.next(new Date('2024-01-01T10:45:00Z')).toISOString()).toBe('2024-01-01T11:00:00.000Z');
+      expect(cron.next(new Date('2024-01-01T11:40:00Z')).toISOString()).toBe('2024-01-02T10:00:00.000Z');
+    });
+
+    test('matches either day field when both are restricted', () => {
+      const cron = new CronExpression('0 0 13 * 5');
+
+      // Friday 2024-01-05 comes before the 13th
+      expect(cron.next(new Date('2024-01-01T00:00:00Z')).toISOString()).toBe('2024-01-05T00:00:00.000Z');
+      expect(cron.next(new Date('2024-01-12T00:00:00Z')).toISOString()).toBe('2024-01-13T00:00:00.000Z');
+    });
+
+    test('finds leap days', () => {
+      const cron = new CronExpression('0 0 29 2 *');
+
+      expect(cron.next(new Date('2024-03-01T00:00:00Z')).toISOString()).toBe('2028-02-29T00:00:00.000Z');
+    });
+
+    test('evaluates in the configured timezone', () => {
+      const cron = new CronExpression('0 9 * * *', 'America/New_York');
+
+      // 09:00 EST is 14:00 UTC in winter, 09:00 EDT is 13:00 UTC in summer
+      expect(cron.next(new Date('2024-01-10T00:00:00Z')).toISOString()).toBe('2024-01-10T14:00:00.000Z');
+      expect(cron.next(new Date('2024-07-10T00:00:00Z')).toISOString()).toBe('2024-07-10T13:00:00.000Z');
+    });
+
+    test('does not skip local midnight after a DST change', () => {
+      const cron = new CronExpression('0 0 * * 1', 'America/New_York');
+
+      // Clocks go forward on Sunday 2024-03-10, so Monday's midnight is 04:00 UTC
+      expect(cron.next(new Date('2024-03-10T05:30:00Z')).toISOString()).toBe('2024-03-11T04:00:00.000Z');
+    });
+  });
+
+  describe('between', () => {
+    test('lists fire times inside the window', () => {
+      const cron = new CronExpression('0 * * * *');
+      const fireTimes = cron.between(new Date('2024-01-01T00:30:00Z'), new Date('2024-01-01T03:00:00Z'));
+
+      expect(fireTimes.map(date => date.toISOString())).toEqual([
+        '2024-01-01T01:00:00.000Z',
+        '2024-01-01T02:00:00.000Z',
+        '2024-01-01T03:00:00.000Z'
+      ]);
+    });
+
+    test('caps the number of results', () => {
+      const cron = new CronExpression('* * * * *');
+
+      expect(cron.between(new Date('2024-01-01T00:00:00Z'), new Date('2024-01-02T00:00:00Z'), 5)).toHaveLength(5);
+    });
+  });
+});
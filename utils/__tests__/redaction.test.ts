@@ -0,0 +1,87 @@
+/**
+ * Tests for SecretRedactor - removing secret values from logged and persisted data
+ */
+
+import { REDACTED, SecretRedactor, maskSecrets } from '../redaction';
+
+describe('SecretRedactor', () => {
+  test('replaces secrets in nested objects without modifying the original', () => {
+    const redactor = new SecretRedactor();
+    redactor.register(['hunter2-token']);
+
+    const original = {
+      headers: { authorization: 'Bearer hunter2-token' },
+      items: ['hunter2-token', 42, null],
+      at: new Date('2026-10-01T00:00:00Z')
+    };
+    const redacted = redactor.redact(original);
+
+    expect(redacted).toEqual({
+      headers: { authorization: `Bearer ${REDACTED}` },
+      items: [REDACTED, 42, null],
+      at: original.at
+    });
+    expect(original.headers.authorization).toBe('Bearer hunter2-token');
+  });
+
+  test('replaces the longest secret first', () => {
+    const redactor = new SecretRedactor();
+    redactor.register(['abcd', 'abcd-efgh']);
+
+    expect(redactor.redactString('abcd-efgh and abcd')).toBe(`${REDACTED} and ${REDACTED}`);
+  });
+
+  test('replacing the stored values drops old ones and keeps registered ones', () => {
+    const redactor = new SecretRedactor();
+    redactor.replaceStored(['old-token', 'kept-token']);
+    redactor.register(['run-token']);
+    redactor.replaceStored(['kept-token', 'new-token', 'a']);
+
+    expect(redactor.redactString('old-token kept-token new-token run-token a'))
+      .toBe(`old-token ${REDACTED} ${REDACTED} ${REDACTED} a`);
+  });
+
+  test('registered values are redacted until every registration is released', () => {
+    const redactor = new SecretRedactor();
+    const releaseFirst = redactor.register(['run-token']);
+    const releaseSecond = redactor.register(['run-token', 'other-token']);
+
+    releaseFirst();
+    releaseFirst();
+    expect(redactor.redactString('run-token other-token')).toBe(`${REDACTED} ${REDACTED}`);
+
+    releaseSecond();
+    expect(redactor.redactString('run-token other-token')).toBe('run-token other-token');
+  });
+
+  test('redacts with extra values without keeping them', () => {
+    const redactor = new SecretRedactor();
+
+    expect(redactor.redactWith(['passed-token'], { error: 'passed-token' })).toEqual({ error: REDACTED });
+    expect(redactor.redactString('passed-token')).toBe('passed-token');
+  });
+
+  test('ignores values too short to redact safely', () => {
+    const redactor = new SecretRedactor();
+    redactor.register(['a', '']);
+
+    expect(redactor.redactString('a value')).toBe('a value');
+  });
+
+  test('redacts error messages', () => {
+    const redactor = new SecretRedactor();
+    redactor.register(['hunter2-token']);
+
+    const redacted = redactor.redact(new Error('401 for hunter2-token'));
+
+    expect(redacted).toBeInstanceOf(Error);
+    expect(redacted.message).toBe(`401 for ${REDACTED}`);
+  });
+});
+
+describe('maskSecrets', () => {
+  test('keeps names and hides values', () => {
+    expect(maskSecrets({ TOKEN: 'value' })).toEqual({ TOKEN: REDACTED });
+    expect(maskSecrets()).toEqual({});
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Tests for webhook signature verification over raw bodies with rotating secrets
+ */
+
+import crypto from 'crypto';
+import { WebhookSignatureVerifier, getSecretFingerprint, validateWebhookSignature } from '../webhookSecurity';
+
+jest.mock('../logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+const sign = (body: Buffer, secret: string): string =>
+  'sha256=' + crypto.createHmac('sha256', secret).update(body).digest('hex');
+
+// Formatted the way GitHub sends it; JSON.stringify of the parsed body differs
+const rawBody = Buffer.from('{\n  "action": "opened",\n  "title": "caf\u00e9 \\u2603"\n}');
+
+describe('WebhookSignatureVerifier', () => {
+  const verifier = new WebhookSignatureVerifier(['current-secret', 'previous-secret']);
+
+  test('verifies the signature over the raw bytes', () => {
+    const signature = sign(rawBody, 'current-secret');
+
+    expect(verifier.verify(rawBody, signature)).toEqual({
+      valid: true,
+      keyId: getSecretFingerprint('current-secret'),
+      primary: true
+    });
+    expect(verifier.verify(Buffer.from(JSON.stringify(JSON.parse(rawBody.toString()))), signature)).toMatchObject({
+      valid: false,
+      reason: 'no_match'
+    });
+  });
+
+  test('accepts deliveries signed with a previous secret during rotation', () => {
+    expect(verifier.verify(rawBody, sign(rawBody, 'previous-secret'))).toEqual({
+      valid: true,
+      keyId: getSecretFingerprint('previous-secret'),
+      primary: false
+    });
+    expect(verifier.verify(rawBody, sign(rawBody, 'retired-secret')).valid).toBe(false);
+  });
+
+  test('reports why a signature was rejected', () => {
+    expect(verifier.verify(rawBody, undefined).reason).toBe('missing_signature');
+    expect(verifier.verify(rawBody, 'sha1=abc').reason).toBe('malformed_signature');
+    expect(verifier.verify(undefined, sign(rawBody, 'current-secret')).reason).toBe('missing_raw_body');
+    expect(verifier.verify(rawBody, 'sha256=short').reason).toBe('no_match');
+  });
+
+  test('counts verifications per key and rejections per reason', () => {
+    const counted = new WebhookSignatureVerifier(['current-secret', 'previous-secret']);
+    counted.verify(rawBody, sign(rawBody, 'current-secret'));
+    counted.verify(rawBody, sign(rawBody, 'current-secret'));
+    counted.verify(rawBody, sign(rawBody, 'retired-secret'));
+
+    const stats = counted.getStats();
+    expect(stats.enabled).toBe(true);
+    expect(stats.keys).toEqual([
+      { id: getSecretFingerprint('current-secret'), primary: true, verified: 2, lastVerifiedAt: expect.any(String) },
+      { id: getSecretFingerprint('previous-secret'), primary: false, verified: 0, lastVerifiedAt: null }
+    ]);
+    expect(stats.rejected).toEqual({ missing_signature: 0, malformed_signature: 0, missing_raw_body: 0, no_match: 1 });
+  });
+
+  test('is disabled without secrets', () => {
+    expect(new WebhookSignatureVerifier(['', '']).enabled).toBe(false);
+  });
+});
+
+describe('validateWebhookSignature', () => {
+  test('rejects signatures of the wrong length instead of throwing', () => {
+    expect(validateWebhookSignature(rawBody, 'sha256=00', 'current-secret')).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Tests for the structural diff between workflow definitions
+ */
+
+import { diffWorkflows } from '../workflow-diff';
+import { WorkflowDefinition } from '../../types/workflow-schema';
+
+const base: WorkflowDefinition = {
+  name: 'triage',
+  version: '1.0.0',
+  trigger: { type: 'webhook', event: 'issues.opened', repository: 'acme/*' },
+  conditions: {
+    operator: 'AND',
+    rules: [{ field: 'issue.title', operator: 'contains', value: 'bug' }]
+  },
+  actions: [
+    { id: 'label', type: 'github_issue_label', parameters: { labels: ['bug'] } },
+    { id: 'notify', type: 'slack_message', parameters: { channel: '#triage', message: 'New bug' } }
+  ]
+};
+
+describe('diffWorkflows', () => {
+  test('reports identical definitions', () => {
+    const diff = diffWorkflows(base, JSON.parse(JSON.stringify(base)));
+
+    expect(diff).toEqual({ identical: true, trigger: [], conditions: [], actions: [], settings: [] });
+  });
+
+  test('reports changed trigger, condition and setting fields by path', () => {
+    const diff = diffWorkflows(base, {
+      ...base,
+      version: '1.1.0',
+      timeout: 60,
+      trigger: { ...base.trigger, repository: 'acme/api' },
+      conditions: {
+        operator: 'AND',
+        rules: [{ field: 'issue.title', operator: 'contains', value: 'crash' }]
+      }
+    });
+
+    expect(diff.identical).toBe(false);
+    expect(diff.trigger).toEqual([{ path: 'repository', type: 'changed', from: 'acme/*', to: 'acme/api' }]);
+    expect(diff.conditions).toEqual([{ path: 'rules[0].value', type: 'changed', from: 'bug', to: 'crash' }]);
+    expect(diff.settings).toEqual([
+      { path: 'timeout', type: 'added', to: 60 },
+      { path: 'version', type: 'changed', from: '1.0.0', to: '1.1.0' }
+    ]);
+  });
+
+  test('matches actions by ID', () => {
+    const diff = diffWorkflows(base, {
+      ...base,
+      actions: [
+        { id: 'notify', type: 'slack_message', parameters: { channel: '#bugs', message: 'New bug' } },
+        { id: 'assign', type: 'github_issue_assign', parameters: { assignees: ['octocat'] } }
+      ]
+    });
+
+    expect(diff.actions).toEqual([
+      { id: 'label', type: 'removed', from: 0 },
+      {
+        id: 'notify',
+        type: 'changed',
+        from: 1,
+        to: 0,
+        changes: [{ path: 'parameters.channel', type: 'changed', from: '#triage', to: '#bugs' }]
+      },
+      { id: 'assign', type: 'added', to: 1 }
+    ]);
+  });
+
+  test('reports reordered actions as moved', () => {
+    const diff = diffWorkflows(base, { ...base, actions: [base.actions[1]!, base.actions[0]!] });
+
+    expect(diff.actions).toEqual([
+      { id: 'label', type: 'moved', from: 0, to: 1 },
+      { id: 'notify', type: 'moved', from: 1, to: 0 }
+    ]);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Tests for reading and writing workflow definitions as YAML
+ */
+
+import {
+  parseYaml,
+  stringifyYaml,
+  locateValidationErrors,
+  documentAt,
+  serializeWorkflows,
+  YamlSyntaxError
+} from '../workflow-yaml';
+import { WorkflowDefinition } from '../../types/workflow-schema';
+
+const workflow: WorkflowDefinition = {
+  name: 'triage',
+  description: 'Label new issues: bugs go to #triage',
+  version: '1.0.0',
+  trigger: { type: 'webhook', event: 'issues.opened', repository: 'acme/*' },
+  conditions: {
+    operator: 'AND',
+    rules: [
+      { field: 'issue.title', operator: 'contains', value: 'bug' },
+      { field: 'issue.number', operator: 'greater_than', value: 10 }
+    ]
+  },
+  actions: [
+    { id: 'label', type: 'github_issue_label', parameters: { labels: ['bug', 'needs-triage'] } },
+    {
+      id: 'notify',
+      type: 'slack_message',
+      parameters: { channel: '#triage', message: 'New bug:\n{{issue.title}}\n' },
+      runAsync: true
+    }
+  ],
+  metadata: { empty: {}, none: null, list: [], yes: 'yes', number: '42' },
+  timeout: 300
+};
+
+describe('workflow YAML', () => {
+  test('round-trips a workflow definition', () => {
+    const yaml = stringifyYaml(workflow);
+
+    expect(parseYaml(yaml).value).toEqual(workflow);
+    expect(yaml).toContain('      message: |\n        New bug:\n        {{issue.title}}\n');
+    expect(yaml).toContain('"yes": "yes"');
+  });
+
+  test('round-trips awkward strings', () => {
+    const values = ['', ' padded ', '- dash', 'a: b', 'x #y', 'null', '1.5', 'tab\there', 'quote "it"',
+      'no newline\nat end', 'two\n\n', '  indented\nblock', 'ünïcode'];
+
+    expect(parseYaml(stringifyYaml({ values })).value).toEqual({ values });
+  });
+
+  test('reads common hand-written YAML', () => {
+    const document = parseYaml([
+      '# Triage workflow',
+      '---',
+      'name: triage   # inline comment',
+      "description: 'It''s # not a comment'",
+      'trigger: {type: webhook, event: issues.opened}',
+      'actions:',
+      '- id: label',
+      '  type: github_issue_label',
+      '  parameters:',
+      '    labels: [bug,',
+      '      triage]',
+      '- id: comment',
+      '  type: github_issue_comment',
+      '  parameters:',
+      '    body: >-',
+      '      Thanks for',
+      '      reporting!',
+      '',
+      '      We will look soon.',
+      'enabled: True',
+      'timeout: 0x10',
+      'retries: ~'
+    ].join('\n'));
+
+    expect(document.value).toEqual({
+      name: 'triage',
+      description: "It's # not a comment",
+      trigger: { type: 'webhook', event: 'issues.opened' },
+      actions: [
+        { id: 'label', type: 'github_issue_label', parameters: { labels: ['bug', 'triage'] } },
+        { id: 'comment', type: 'github_issue_comment', parameters: { body: 'Thanks for reporting!\nWe will look soon.' } }
+      ],
+      enabled: true,
+      timeout: 16,
+      retries: null
+    });
+  });
+
+  test('locates values and falls back to the closest parent', () => {
+    const document = parseYaml([
+      'name: triage',
+      'trigger: {type: webhook,',
+      '  event: issues.opened}',
+      'actions:',
+      '  - id: label',
+      '    parameters:',
+      '      labels: [bug]'
+    ].join('\n'));
+
+    expect(document.locate('name')).toEqual({ line: 1, column: 1 });
+    expect(document.locate('trigger.event')).toEqual({ line: 3, column: 3 });
+    expect(document.locate('actions[0]')).toEqual({ line: 5, column: 3 });
+    expect(document.locate('actions[0].id')).toEqual({ line: 5, column: 5 });
+    expect(document.locate('actions[0].parameters.labels[0]')).toEqual({ line: 7, column: 16 });
+    expect(document.locate('actions[0].type')).toEqual({ line: 5, column: 3 });
+    expect(document.locate('root')).toEqual({ line: 1, column: 1 });
+
+    expect(locateValidationErrors(
+      [{ path: '.actions[0].parameters', message: 'should be object', code: 'type' }],
+      document
+    )).toEqual([{ path: '.actions[0].parameters', message: 'should be object', code: 'type', line: 6, column: 5 }]);
+  });
+
+  test('locates paths relative to a top-level key', () => {
+    const document = documentAt(parseYaml([
+      'event: issues.opened',
+      'workflow:',
+      '  name: triage',
+      '  actions: []'
+    ].join('\n')), 'workflow');
+
+    expect(document.value).toEqual({ name: 'triage', actions: [] });
+    expect(document.locate('actions')).toEqual({ line: 4, column: 3 });
+    expect(document.locate('root')).toEqual({ line: 2, column: 1 });
+  });
+
+  test.each([
+    ['name: a\nname: b', 'Duplicate key "name"', 2],
+    ['name: a\n  nested: b', 'Unexpected indentation', 2],
+    ['base: &base 1', 'Anchors, aliases', 1],
+    ['actions:\n\t- a', 'Tabs cannot be used for indentation', 2],
+    ['name: "unterminated', 'Unterminated quoted string', 1],
+    ['labels: [a, b', 'Unterminated flow collection', 1],
+    ['a: 1\n---\nb: 2', 'Multiple documents are not supported', 2]
+  ])('rejects %j', (source, message, line) => {
+    expect(() => parseYaml(source)).toThrow(YamlSyntaxError);
+    try {
+      parseYaml(source);
+    } catch (error) {
+      expect((error as YamlSyntaxError).message).toContain(message);
+      expect((error as YamlSyntaxError).line).toBe(line);
+    }
+  });
+
+  test('serializes bundles that parse back in either format', () => {
+    const yaml = serializeWorkflows([workflow], 'yaml');
+    const json = serializeWorkflows([workflow], 'json');
+
+    expect(yaml.startsWith('workflows:\n  - name: triage\n')).toBe(true);
+    expect(parseYaml(yaml).value).toEqual({ workflows: [workflow] });
+    expect(JSON.parse(json)).toEqual({ workflows: [workflow] });
+  });
+});
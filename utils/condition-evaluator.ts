@@ -129,7 +129,12 @@ export class ConditionEvaluator {
       return operatorFn(fieldValue);
     }
 
-    return operatorFn(fieldValue, filterRule.value);
+    // List operators may carry their operands in `values` instead of `value`
+    const expected = filterRule.value === undefined && filterRule.values !== undefined
+      ? filterRule.values
+      : filterRule.value;
+
+    return operatorFn(fieldValue, expected);
   }
 
   /**
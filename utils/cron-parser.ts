@@ -0,0 +1,295 @@
+/**
+ * Cron expression parser for scheduled workflow triggers
+ * Supports standard 5-field expressions (minute hour day-of-month month day-of-week),
+ * lists, ranges, steps, month/weekday names, @-macros and IANA timezones
+ */
+
+interface CronField {
+  values: Set<number>;
+  wildcard: boolean;
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Upper bound on search steps; a leap-day schedule needs at most ~4 years of day steps
+const MAX_SEARCH_STEPS = 100000;
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const WEEKDAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const FIELD_SPECS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: 'day of week', min: 0, max: 7, names: WEEKDAY_NAMES, nameOffset: 0 }
+] as const;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export class CronExpression {
+  public readonly expression: string;
+  public readonly timezone: string;
+
+  private readonly minutes: CronField;
+  private readonly hours: CronField;
+  private readonly daysOfMonth: CronField;
+  private readonly months: CronField;
+  private readonly daysOfWeek: CronField;
+
+  constructor(expression: string, timezone: string = 'UTC') {
+    this.expression = expression.trim();
+    this.timezone = timezone;
+
+    if (!CronExpression.isValidTimezone(timezone)) {
+      throw new Error(`Invalid timezone: ${timezone}`);
+    }
+
+    const source = MACROS[this.expression.toLowerCase()] ?? this.expression;
+    const parts = source.split(/\s+/);
+
+    if (parts.length !== 5) {
+      throw new Error(`Cron expression must have 5 fields, got ${parts.length}: "${expression}"`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+      CronExpression.parseField(part, index)
+    ) as [CronField, CronField, CronField, CronField, CronField];
+
+    // 7 is an alias for Sunday
+    if (daysOfWeek.values.delete(7)) {
+      daysOfWeek.values.add(0);
+    }
+
+    this.minutes = minutes;
+    this.hours = hours;
+    this.daysOfMonth = daysOfMonth;
+    this.months = months;
+    this.daysOfWeek = daysOfWeek;
+  }
+
+  /**
+   * Check whether an expression (and optional timezone) can be parsed
+   */
+  public static isValid(expression: string, timezone?: string): boolean {
+    try {
+      new CronExpression(expression, timezone);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  public static isValidTimezone(timezone: string): boolean {
+    try {
+      CronExpression.getFormatter(timezone);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Get the first fire time strictly after the given date
+   */
+  public next(after: Date = new Date()): Date {
+    // Start at the beginning of the following minute
+    let candidate = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+
+    for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+      const parts = this.getZonedParts(candidate);
+
+      // Skip ahead by the largest unit that cannot match. Steps are taken in
+      // absolute minutes so DST transitions are handled by the timezone lookup.
+      if (!this.months.values.has(parts.month) || !this.matchesDay(parts)) {
+        candidate = this.startOfNextDay(candidate, parts);
+        continue;
+      }
+
+      if (!this.hours.values.has(parts.hour)) {
+        candidate += (60 - parts.minute) * MINUTE_MS;
+        continue;
+      }
+
+      if (!this.minutes.values.has(parts.minute)) {
+        candidate += MINUTE_MS;
+        continue;
+      }
+
+      return new Date(candidate);
+    }
+
+    throw new Error(`No fire time found for cron expression "${this.expression}"`);
+  }
+
+  /**
+   * Get all fire times after `from` up to and including `to`, capped at `limit`
+   */
+  public between(from: Date, to: Date, limit: number = 100): Date[] {
+    const fireTimes: Date[] = [];
+    let cursor = from;
+
+    while (fireTimes.length < limit) {
+      const next = this.next(cursor);
+      if (next.getTime() > to.getTime()) {
+        break;
+      }
+      fireTimes.push(next);
+      cursor = next;
+    }
+
+    return fireTimes;
+  }
+
+  /**
+   * Standard cron semantics: when both day fields are restricted, either may match
+   */
+  private matchesDay(parts: ZonedParts): boolean {
+    const dayOfMonth = this.daysOfMonth.values.has(parts.day);
+    const dayOfWeek = this.daysOfWeek.values.has(parts.weekday);
+
+    if (this.daysOfMonth.wildcard || this.daysOfWeek.wildcard) {
+      return dayOfMonth && dayOfWeek;
+    }
+    return dayOfMonth || dayOfWeek;
+  }
+
+  /**
+   * Advance to local midnight of the following day, correcting for days that
+   * are shorter or longer than 24 hours around DST changes
+   */
+  private startOfNextDay(timestamp: number, parts: ZonedParts): number {
+    let next = timestamp + ((23 - parts.hour) * 60 + (60 - parts.minute)) * MINUTE_MS;
+    const landed = this.getZonedParts(next);
+
+    if (landed.day !== parts.day && (landed.hour !== 0 || landed.minute !== 0)) {
+      const corrected = next - (landed.hour * 60 + landed.minute) * MINUTE_MS;
+      // Where midnight itself is skipped the day starts later, so keep the landed time
+      if (corrected > timestamp && this.getZonedParts(corrected).day === landed.day) {
+        next = corrected;
+      }
+    }
+
+    return next;
+  }
+
+  private getZonedParts(timestamp: number): ZonedParts {
+    const values: Record<string, string> = {};
+    for (const part of CronExpression.getFormatter(this.timezone).formatToParts(new Date(timestamp))) {
+      values[part.type] = part.value;
+    }
+
+    return {
+      year: Number(values.year),
+      month: Number(values.month),
+      day: Number(values.day),
+      hour: Number(values.hour),
+      minute: Number(values.minute),
+      weekday: WEEKDAY_NAMES.indexOf((values.weekday || '').toUpperCase())
+    };
+  }
+
+  private static getFormatter(timezone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timezone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        weekday: 'short'
+      });
+      formatters.set(timezone, formatter);
+    }
+    return formatter;
+  }
+
+  private static parseField(field: string, index: number): CronField {
+    const spec = FIELD_SPECS[index]!;
+    const values = new Set<number>();
+    const wildcard = field === '*' || field === '?';
+
+    for (const item of field.split(',')) {
+      const [rangePart, stepPart, ...rest] = item.split('/');
+      if (rest.length > 0 || !rangePart) {
+        throw new Error(`Invalid ${spec.name} field: "${field}"`);
+      }
+
+      const step = stepPart === undefined ? 1 : CronExpression.parseNumber(stepPart, spec.name);
+      if (step < 1) {
+        throw new Error(`Invalid step in ${spec.name} field: "${field}"`);
+      }
+
+      let start: number;
+      let end: number;
+
+      if (rangePart === '*' || rangePart === '?') {
+        start = spec.min;
+        end = spec.max;
+      } else if (rangePart.includes('-')) {
+        const [from, to] = rangePart.split('-');
+        start = CronExpression.parseValue(from || '', spec);
+        end = CronExpression.parseValue(to || '', spec);
+      } else {
+        start = CronExpression.parseValue(rangePart, spec);
+        // "5/15" means every 15 starting at 5
+        end = stepPart === undefined ? start : spec.max;
+      }
+
+      if (start > end) {
+        throw new Error(`Invalid range in ${spec.name} field: "${item}"`);
+      }
+
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    }
+
+    return { values, wildcard };
+  }
+
+  private static parseValue(value: string, spec: typeof FIELD_SPECS[number]): number {
+    const upper = value.toUpperCase();
+    if ('names' in spec) {
+      const nameIndex = (spec.names as readonly string[]).indexOf(upper);
+      if (nameIndex !== -1) {
+        return nameIndex + spec.nameOffset;
+      }
+    }
+
+    const parsed = CronExpression.parseNumber(value, spec.name);
+    if (parsed < spec.min || parsed > spec.max) {
+      throw new Error(`${spec.name} value ${parsed} is out of range (${spec.min}-${spec.max})`);
+    }
+    return parsed;
+  }
+
+  private static parseNumber(value: string, fieldName: string): number {
+    if (!/^\d+$/.test(value)) {
+      throw new Error(`Invalid ${fieldName} value: "${value}"`);
+    }
+    return parseInt(value, 10);
+  }
+}
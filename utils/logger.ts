@@ -1,11 +1,21 @@
 import winston from 'winston';
 import path from 'path';
+import { secretRedactor } from './redaction';
 
 const logDir = 'logs';
 
+// Mask secret values in the message and metadata before any transport sees them
+const redactSecrets = winston.format((info) => {
+  for (const key of Object.keys(info)) {
+    info[key] = secretRedactor.redact(info[key]);
+  }
+  return info;
+});
+
 const logger = winston.createLogger({
   level: process.env.LOG_LEVEL || 'info',
   format: winston.format.combine(
+    redactSecrets(),
     winston.format.timestamp({
       format: 'YYYY-MM-DD HH:mm:ss',
     }),
@@ -0,0 +1,145 @@
+export const REDACTED = '[REDACTED]';
+
+// Shorter values would redact unrelated text
+const MIN_REDACTED_LENGTH = 4;
+const MAX_DEPTH = 20;
+
+/**
+ * Replaces known secret values wherever they appear in strings, so they do not
+ * end up in logs or persisted execution data. Two sets of values are redacted:
+ * the stored secrets, replaced whenever they change, and values registered for
+ * as long as the execution using them runs.
+ */
+export class SecretRedactor {
+  private stored = new Set<string>();
+  private registered = new Map<string, number>(); // Value -> registrations not yet released
+  private ordered: string[] = [];
+
+  /**
+   * Redact values until the returned function is called. A value registered
+   * more than once stays redacted until every registration is released.
+   */
+  public register(values: Iterable<string>): () => void {
+    const added = Array.from(new Set(values)).filter(value => this.isRedactable(value));
+    for (const value of added) {
+      this.registered.set(value, (this.registered.get(value) ?? 0) + 1);
+    }
+    this.sort();
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+
+      for (const value of added) {
+        const remaining = (this.registered.get(value) ?? 1) - 1;
+        if (remaining > 0) {
+          this.registered.set(value, remaining);
+        } else {
+          this.registered.delete(value);
+        }
+      }
+      this.sort();
+    };
+  }
+
+  /**
+   * Redact exactly these stored secret values from now on, dropping stored
+   * values that were replaced or deleted. Registered values are kept.
+   */
+  public replaceStored(values: Iterable<string>): void {
+    this.stored = new Set(Array.from(values).filter(value => this.isRedactable(value)));
+    this.sort();
+  }
+
+  /**
+   * A copy of the value redacted as by redact, also replacing the given values,
+   * e.g. the secrets passed to an execution that has ended
+   */
+  public redactWith<T>(values: Iterable<string>, value: T): T {
+    const release = this.register(values);
+    try {
+      return this.redact(value);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * A copy of the value with every registered secret replaced. Plain objects
+   * and arrays are copied; the value passed in is not modified.
+   */
+  public redact<T>(value: T): T {
+    if (this.ordered.length === 0) {
+      return value;
+    }
+    return this.redactValue(value, 0) as T;
+  }
+
+  public redactString(value: string): string {
+    let redacted = value;
+    for (const secret of this.ordered) {
+      if (redacted.includes(secret)) {
+        redacted = redacted.split(secret).join(REDACTED);
+      }
+    }
+    return redacted;
+  }
+
+  private isRedactable(value: unknown): value is string {
+    return typeof value === 'string' && value.length >= MIN_REDACTED_LENGTH;
+  }
+
+  // Longest first, so a secret containing another is replaced whole
+  private sort(): void {
+    this.ordered = Array.from(new Set([...this.stored, ...this.registered.keys()]))
+      .sort((a, b) => b.length - a.length);
+  }
+
+  private redactValue(value: unknown, depth: number): unknown {
+    if (typeof value === 'string') {
+      return this.redactString(value);
+    }
+
+    if (depth >= MAX_DEPTH || value === null || typeof value !== 'object') {
+      return value;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item, depth + 1));
+    }
+
+    if (value instanceof Error) {
+      const error = new Error(this.redactString(value.message));
+      error.name = value.name;
+      if (value.stack) {
+        error.stack = this.redactString(value.stack);
+      }
+      return error;
+    }
+
+    // Dates, buffers and other class instances are left as they are
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype !== Object.prototype && prototype !== null) {
+      return value;
+    }
+
+    const copy: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = this.redactValue(item, depth + 1);
+    }
+    return copy;
+  }
+}
+
+/**
+ * The secret names with their values masked, for storing or returning a context
+ */
+export function maskSecrets(secrets: Record<string, string> = {}): Record<string, string> {
+  return Object.fromEntries(Object.keys(secrets).map(name => [name, REDACTED]));
+}
+
+// Singleton instance shared by the logger and everything that persists execution data
+export const secretRedactor = new SecretRedactor();
@@ -1,7 +1,36 @@
 import crypto from 'crypto';
+import environment from '../config/environment';
+import logger from './logger';
+
+export type SignatureRejection = 'missing_signature' | 'malformed_signature' | 'missing_raw_body' | 'no_match';
+
+export interface SignatureVerification {
+  valid: boolean;
+  keyId?: string; // Fingerprint of the secret that matched
+  primary?: boolean; // Whether that secret is the first (current) one
+  reason?: SignatureRejection;
+}
+
+export interface WebhookSignatureStats {
+  enabled: boolean;
+  keys: Array<{
+    id: string;
+    primary: boolean;
+    verified: number;
+    lastVerifiedAt: string | null;
+  }>;
+  rejected: Record<SignatureRejection, number>;
+}
+
+interface WebhookKey {
+  id: string;
+  secret: string;
+  verified: number;
+  lastVerifiedAt: Date | null;
+}
 
 export function validateWebhookSignature(
-  payload: string,
+  payload: string | Buffer,
   signature: string,
   secret: string
 ): boolean {
@@ -10,12 +39,11 @@ export function validateWebhookSignature(
   }
 
   const hmac = crypto.createHmac('sha256', secret);
-  const digest = 'sha256=' + hmac.update(payload).digest('hex');
-  
-  return crypto.timingSafeEqual(
-    Buffer.from(signature),
-    Buffer.from(digest)
-  );
+  const digest = Buffer.from('sha256=' + hmac.update(payload).digest('hex'));
+  const received = Buffer.from(signature);
+
+  // timingSafeEqual throws on buffers of different lengths
+  return received.length === digest.length && crypto.timingSafeEqual(received, digest);
 }
 
 export function extractSignatureFromHeader(signatureHeader: string): string | null {
@@ -25,19 +53,99 @@ export function extractSignatureFromHeader(signatureHeader: string): string | nu
   return signatureHeader;
 }
 
-export function isSignatureValid(
-  body: string,
-  signatureHeader: string | undefined,
-  webhookSecret: string
-): boolean {
-  if (!signatureHeader) {
-    return false;
+/**
+ * Identifies a secret in logs and stats without revealing it: the first
+ * 8 hex characters of its SHA-256
+ */
+export function getSecretFingerprint(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex').slice(0, 8);
+}
+
+/**
+ * Verifies X-Hub-Signature-256 over the raw request body against every active
+ * webhook secret. The first secret is the current one; the others are accepted
+ * while GitHub is switched over to it, so secrets can be rotated without
+ * rejecting deliveries.
+ */
+export class WebhookSignatureVerifier {
+  private readonly keys: WebhookKey[];
+  private rejected: Record<SignatureRejection, number> = {
+    missing_signature: 0,
+    malformed_signature: 0,
+    missing_raw_body: 0,
+    no_match: 0
+  };
+
+  constructor(secrets: string[]) {
+    this.keys = Array.from(new Set(secrets.filter(Boolean))).map(secret => ({
+      id: getSecretFingerprint(secret),
+      secret,
+      verified: 0,
+      lastVerifiedAt: null
+    }));
+
+    if (this.keys.length === 0) {
+      logger.warn('No webhook secret configured. Webhook signatures will not be verified.');
+    }
   }
 
-  const signature = extractSignatureFromHeader(signatureHeader);
-  if (!signature) {
-    return false;
+  /**
+   * Without secrets there is nothing to verify against, and signatures are not checked
+   */
+  public get enabled(): boolean {
+    return this.keys.length > 0;
+  }
+
+  public verify(rawBody: Buffer | undefined, signatureHeader: string | undefined): SignatureVerification {
+    if (!signatureHeader) {
+      return this.reject('missing_signature');
+    }
+
+    const signature = extractSignatureFromHeader(signatureHeader);
+    if (!signature) {
+      return this.reject('malformed_signature');
+    }
+
+    // Re-serializing the parsed body does not reproduce the bytes GitHub signed
+    if (!rawBody) {
+      logger.error('Raw request body was not captured; cannot verify webhook signature');
+      return this.reject('missing_raw_body');
+    }
+
+    const key = this.keys.find(candidate => validateWebhookSignature(rawBody, signature, candidate.secret));
+    if (!key) {
+      return this.reject('no_match');
+    }
+
+    key.verified++;
+    key.lastVerifiedAt = new Date();
+
+    const primary = key === this.keys[0];
+    if (!primary) {
+      logger.info('Webhook signature matched a previous secret', { keyId: key.id });
+    }
+
+    return { valid: true, keyId: key.id, primary };
+  }
+
+  public getStats(): WebhookSignatureStats {
+    return {
+      enabled: this.enabled,
+      keys: this.keys.map((key, index) => ({
+        id: key.id,
+        primary: index === 0,
+        verified: key.verified,
+        lastVerifiedAt: key.lastVerifiedAt ? key.lastVerifiedAt.toISOString() : null
+      })),
+      rejected: { ...this.rejected }
+    };
   }
 
-  return validateWebhookSignature(body, signature, webhookSecret);
-}
\ No newline at end of file
+  private reject(reason: SignatureRejection): SignatureVerification {
+    this.rejected[reason]++;
+    return { valid: false, reason };
+  }
+}
+
+// Singleton instance shared by every webhook endpoint
+export const webhookSignatureVerifier = new WebhookSignatureVerifier(environment.GITHUB_WEBHOOK_SECRETS);
@@ -0,0 +1,130 @@
+/**
+ * Structural diff between two workflow definitions
+ * Actions are matched by ID, so reordering or editing one action does not show up as changes to the others
+ */
+
+import { WorkflowDefinition, ActionConfig } from '../types/workflow-schema';
+
+export interface FieldChange {
+  path: string; // Dot path within the compared section, e.g. "rules[0].value"
+  type: 'added' | 'removed' | 'changed';
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface ActionChange {
+  id: string; // Action ID, or "#<position>" for actions without one
+  type: 'added' | 'removed' | 'changed' | 'moved';
+  from?: number; // Position before, for removed, changed and moved actions
+  to?: number; // Position after, for added, changed and moved actions
+  changes?: FieldChange[]; // For changed actions
+}
+
+export interface WorkflowDiff {
+  identical: boolean;
+  trigger: FieldChange[];
+  conditions: FieldChange[];
+  actions: ActionChange[];
+  settings: FieldChange[]; // Everything else: description, version, timeout, error handling...
+}
+
+/**
+ * Describe what changed going from one definition to another
+ */
+export function diffWorkflows(from: WorkflowDefinition, to: WorkflowDefinition): WorkflowDiff {
+  const trigger = diffValues(from.trigger, to.trigger);
+  const conditions = diffValues(from.conditions, to.conditions);
+  const actions = diffActions(from.actions || [], to.actions || []);
+  const settings = diffValues(settingsOf(from), settingsOf(to));
+
+  return {
+    identical: trigger.length + conditions.length + actions.length + settings.length === 0,
+    trigger,
+    conditions,
+    actions,
+    settings
+  };
+}
+
+function settingsOf(workflow: WorkflowDefinition): Record<string, unknown> {
+  return {
+    description: workflow.description,
+    version: workflow.version,
+    enabled: workflow.enabled,
+    errorHandling: workflow.errorHandling,
+    timeout: workflow.timeout,
+    retryPolicy: workflow.retryPolicy,
+    metadata: workflow.metadata
+  };
+}
+
+function diffActions(from: ActionConfig[], to: ActionConfig[]): ActionChange[] {
+  const changes: ActionChange[] = [];
+  const fromIds = from.map(actionKey);
+  const toIds = to.map(actionKey);
+
+  fromIds.forEach((id, index) => {
+    const newIndex = toIds.indexOf(id);
+    if (newIndex < 0) {
+      changes.push({ id, type: 'removed', from: index });
+      return;
+    }
+
+    const fieldChanges = diffValues(from[index], to[newIndex]);
+    if (fieldChanges.length > 0) {
+      changes.push({ id, type: 'changed', from: index, to: newIndex, changes: fieldChanges });
+    } else if (newIndex !== index) {
+      changes.push({ id, type: 'moved', from: index, to: newIndex });
+    }
+  });
+
+  toIds.forEach((id, index) => {
+    if (!fromIds.includes(id)) {
+      changes.push({ id, type: 'added', to: index });
+    }
+  });
+
+  return changes;
+}
+
+function actionKey(action: ActionConfig, index: number): string {
+  return action.id ?? `#${index}`;
+}
+
+function diffValues(from: unknown, to: unknown, path = '', changes: FieldChange[] = []): FieldChange[] {
+  if (from === undefined && to === undefined) {
+    return changes;
+  }
+  if (from === undefined) {
+    changes.push({ path, type: 'added', to });
+    return changes;
+  }
+  if (to === undefined) {
+    changes.push({ path, type: 'removed', from });
+    return changes;
+  }
+
+  if (Array.isArray(from) && Array.isArray(to)) {
+    for (let i = 0; i < Math.max(from.length, to.length); i++) {
+      diffValues(from[i], to[i], `${path}[${i}]`, changes);
+    }
+    return changes;
+  }
+
+  if (isPlainObject(from) && isPlainObject(to)) {
+    const keys = new Set([...Object.keys(from), ...Object.keys(to)]);
+    for (const key of Array.from(keys).sort()) {
+      diffValues(from[key], to[key], path ? `${path}.${key}` : key, changes);
+    }
+    return changes;
+  }
+
+  if (from !== to) {
+    changes.push({ path, type: 'changed', from, to });
+  }
+  return changes;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
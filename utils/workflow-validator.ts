@@ -8,8 +8,12 @@ import {
   WORKFLOW_JSON_SCHEMA,
   ActionType,
   GitHubEvent,
-  FilterOperator
+  FilterOperator,
+  MAX_LOOP_CONCURRENCY,
+  MAX_LOOP_ITERATIONS,
+  NESTED_ACTION_PARAMETERS
 } from '../types/workflow-schema';
+import { CronExpression } from './cron-parser';
 
 export class WorkflowValidator {
   private ajv: InstanceType<typeof Ajv>;
@@ -32,14 +36,19 @@ export class WorkflowValidator {
     const isValid = this.validateSchema(workflow);
     if (!isValid && this.validateSchema.errors) {
       errors.push(...this.validateSchema.errors.map((err) => ({
-        path: err.schemaPath || 'root',
+        // Path of the offending value (".actions[0].type"), so it can be located in the source
+        path: (err.dataPath || '').replace(/^\./, '') || 'root',
         message: err.message || 'Schema validation failed',
         code: err.keyword || 'SCHEMA_ERROR'
       })));
     }
 
-    // Business logic validation
-    this.validateBusinessRules(workflow, errors, warnings);
+    // Business logic validation needs the basic structure to be present
+    const hasStructure = !!workflow && typeof workflow === 'object' &&
+      !!workflow.trigger && typeof workflow.trigger === 'object' && Array.isArray(workflow.actions);
+    if (hasStructure) {
+      this.validateBusinessRules(workflow, errors, warnings);
+    }
 
     return {
       valid: errors.length === 0,
@@ -66,6 +75,10 @@ export class WorkflowValidator {
 
     // Validate dependencies
     this.validateActionDependencies(workflow, errors, warnings);
+    this.validateActionReferences(workflow.actions, new Set(), 'actions', errors);
+
+    // Validate error notifications
+    this.validateErrorNotifications(workflow, errors, warnings);
 
     // Validate timeouts
     this.validateTimeouts(workflow, errors, warnings);
@@ -101,6 +114,14 @@ export class WorkflowValidator {
     }
 
     // Validate schedule format
+    if (trigger.type === 'schedule' && !trigger.schedule) {
+      errors.push({
+        path: 'trigger.schedule',
+        message: 'Schedule triggers require a schedule with a cron expression',
+        code: 'MISSING_SCHEDULE'
+      });
+    }
+
     if (trigger.type === 'schedule' && trigger.schedule) {
       if (!this.isValidCronExpression(trigger.schedule.cron)) {
         errors.push({
@@ -109,6 +130,14 @@ export class WorkflowValidator {
           code: 'INVALID_CRON'
         });
       }
+
+      if (trigger.schedule.timezone && !CronExpression.isValidTimezone(trigger.schedule.timezone)) {
+        errors.push({
+          path: 'trigger.schedule.timezone',
+          message: `Unknown timezone: ${trigger.schedule.timezone}`,
+          code: 'INVALID_TIMEZONE'
+        });
+      }
     }
 
     // Validate repository patterns
@@ -178,7 +207,7 @@ export class WorkflowValidator {
       'github_issue_assign', 'github_issue_unassign', 'github_issue_label',
       'github_issue_comment', 'github_issue_close', 'github_issue_reopen',
       'github_pr_assign', 'github_pr_request_review', 'github_pr_merge',
-      'github_pr_comment', 'github_pr_approve', 'github_pr_close',
+      'github_pr_comment', 'github_pr_approve', 'github_pr_close', 'github_pr_label',
       'github_create_branch', 'github_create_pr', 'github_create_issue',
       'slack_message', 'slack_dm', 'email_send', 'teams_message',
       'discord_message', 'webhook_call',
@@ -214,6 +243,72 @@ export class WorkflowValidator {
         code: 'INVALID_TIMEOUT'
       });
     }
+
+    // Validate success follow-ups
+    if (action.onSuccess) {
+      const { triggerWorkflow, updateMetadata } = action.onSuccess;
+
+      if (triggerWorkflow !== undefined && (typeof triggerWorkflow !== 'string' || !triggerWorkflow.trim())) {
+        errors.push({
+          path: `${path}.onSuccess.triggerWorkflow`,
+          message: 'triggerWorkflow must be the name of a workflow',
+          code: 'INVALID_TRIGGER_WORKFLOW'
+        });
+      }
+
+      if (updateMetadata !== undefined &&
+          (typeof updateMetadata !== 'object' || updateMetadata === null || Array.isArray(updateMetadata))) {
+        errors.push({
+          path: `${path}.onSuccess.updateMetadata`,
+          message: 'updateMetadata must be an object',
+          code: 'INVALID_METADATA_UPDATE'
+        });
+      }
+    }
+
+    // Validate the compensation that undoes this action on rollback
+    if (action.compensation !== undefined) {
+      if (typeof action.compensation !== 'object' || action.compensation === null || Array.isArray(action.compensation)) {
+        errors.push({
+          path: `${path}.compensation`,
+          message: 'Compensation must be an action',
+          code: 'INVALID_COMPENSATION'
+        });
+      } else {
+        this.validateAction(action.compensation, `${path}.compensation`, errors, warnings);
+      }
+    }
+  }
+
+  /**
+   * Validate actions nested inside another action (e.g. a conditional branch)
+   */
+  private validateNestedActions(
+    actions: any,
+    path: string,
+    errors: ValidationError[],
+    warnings: ValidationWarning[]
+  ): void {
+    if (!Array.isArray(actions)) {
+      errors.push({
+        path,
+        message: 'Nested actions must be an array',
+        code: 'INVALID_NESTED_ACTIONS'
+      });
+      return;
+    }
+
+    actions.forEach((action, index) => {
+      this.validateAction(action, `${path}[${index}]`, errors, warnings);
+
+      if (action?.compensation) {
+        warnings.push({
+          path: `${path}[${index}].compensation`,
+          message: 'Compensations of nested actions are not run on rollback',
+          suggestion: 'Declare the compensation on the top-level action instead'
+        });
+      }
+    });
   }
 
   private validateActionParameters(
@@ -236,15 +331,103 @@ export class WorkflowValidator {
     // Validate specific action types
     switch (type) {
       case 'github_issue_assign':
+      case 'github_issue_unassign':
+      case 'github_pr_assign':
         if (!parameters.assignee) {
           errors.push({
             path: `${path}.parameters.assignee`,
-            message: 'Assignee is required for github_issue_assign',
+            message: `Assignee is required for ${type}`,
             code: 'MISSING_ASSIGNEE'
           });
         }
         break;
 
+      case 'github_issue_label':
+      case 'github_pr_label':
+        if (!parameters.labels) {
+          errors.push({
+            path: `${path}.parameters.labels`,
+            message: `Labels are required for ${type}`,
+            code: 'MISSING_LABELS'
+          });
+        }
+        if (parameters.mode && !['add', 'remove', 'set'].includes(parameters.mode)) {
+          errors.push({
+            path: `${path}.parameters.mode`,
+            message: 'Label mode must be add, remove, or set',
+            code: 'INVALID_LABEL_MODE'
+          });
+        }
+        break;
+
+      case 'github_issue_comment':
+      case 'github_pr_comment':
+        if (!parameters.body) {
+          errors.push({
+            path: `${path}.parameters.body`,
+            message: `Body is required for ${type}`,
+            code: 'MISSING_BODY'
+          });
+        }
+        break;
+
+      case 'github_issue_close':
+        if (parameters.reason && !['completed', 'not_planned'].includes(parameters.reason)) {
+          errors.push({
+            path: `${path}.parameters.reason`,
+            message: 'Close reason must be completed or not_planned',
+            code: 'INVALID_CLOSE_REASON'
+          });
+        }
+        break;
+
+      case 'github_pr_merge':
+        if (parameters.merge_method && !['merge', 'squash', 'rebase'].includes(parameters.merge_method)) {
+          errors.push({
+            path: `${path}.parameters.merge_method`,
+            message: 'Merge method must be merge, squash, or rebase',
+            code: 'INVALID_MERGE_METHOD'
+          });
+        }
+        break;
+
+      case 'github_create_branch':
+        if (!parameters.name) {
+          errors.push({
+            path: `${path}.parameters.name`,
+            message: 'Branch name is required for github_create_branch',
+            code: 'MISSING_BRANCH_NAME'
+          });
+        }
+        break;
+
+      case 'github_create_pr':
+        if (!parameters.title) {
+          errors.push({
+            path: `${path}.parameters.title`,
+            message: 'Title is required for github_create_pr',
+            code: 'MISSING_TITLE'
+          });
+        }
+        if (!parameters.head) {
+          errors.push({
+            path: `${path}.parameters.head`,
+            message: 'Head branch is required for github_create_pr',
+            code: 'MISSING_HEAD'
+          });
+        }
+        break;
+
+      case 'github_create_issue':
+        if (!parameters.title) {
+          errors.push({
+            path: `${path}.parameters.title`,
+            message: 'Title is required for github_create_issue',
+            code: 'MISSING_TITLE'
+          });
+        }
+        break;
+
       case 'slack_message':
         if (!parameters.channel) {
           errors.push({
@@ -262,6 +445,34 @@ export class WorkflowValidator {
         }
         break;
 
+      case 'teams_message':
+      case 'discord_message':
+        if (!parameters.webhookUrl) {
+          errors.push({
+            path: `${path}.parameters.webhookUrl`,
+            message: `Webhook URL is required for ${type}`,
+            code: 'MISSING_WEBHOOK_URL'
+          });
+        }
+        if (!parameters.message) {
+          errors.push({
+            path: `${path}.parameters.message`,
+            message: `Message is required for ${type}`,
+            code: 'MISSING_MESSAGE'
+          });
+        }
+        break;
+
+      case 'webhook_call':
+        if (!parameters.url) {
+          errors.push({
+            path: `${path}.parameters.url`,
+            message: 'URL is required for webhook_call',
+            code: 'MISSING_URL'
+          });
+        }
+        break;
+
       case 'http_request':
         if (!parameters.url) {
           errors.push({
@@ -296,6 +507,8 @@ export class WorkflowValidator {
             message: 'Condition is required for conditional action',
             code: 'MISSING_CONDITION'
           });
+        } else {
+          this.validateConditionGroup(parameters.condition, `${path}.parameters.condition`, errors, warnings);
         }
         if (!parameters.onTrue) {
           errors.push({
@@ -303,6 +516,11 @@ export class WorkflowValidator {
             message: 'onTrue actions are required for conditional action',
             code: 'MISSING_ON_TRUE'
           });
+        } else {
+          this.validateNestedActions(parameters.onTrue, `${path}.parameters.onTrue`, errors, warnings);
+        }
+        if (parameters.onFalse !== undefined) {
+          this.validateNestedActions(parameters.onFalse, `${path}.parameters.onFalse`, errors, warnings);
         }
         break;
 
@@ -320,6 +538,26 @@ export class WorkflowValidator {
             message: 'Actions array is required for loop action',
             code: 'MISSING_LOOP_ACTIONS'
           });
+        } else {
+          this.validateNestedActions(parameters.actions, `${path}.parameters.actions`, errors, warnings);
+        }
+        if (parameters.maxIterations !== undefined &&
+            (!Number.isInteger(parameters.maxIterations) ||
+             parameters.maxIterations < 1 || parameters.maxIterations > MAX_LOOP_ITERATIONS)) {
+          errors.push({
+            path: `${path}.parameters.maxIterations`,
+            message: `maxIterations must be an integer between 1 and ${MAX_LOOP_ITERATIONS}`,
+            code: 'INVALID_MAX_ITERATIONS'
+          });
+        }
+        if (parameters.concurrency !== undefined &&
+            (!Number.isInteger(parameters.concurrency) ||
+             parameters.concurrency < 1 || parameters.concurrency > MAX_LOOP_CONCURRENCY)) {
+          errors.push({
+            path: `${path}.parameters.concurrency`,
+            message: `concurrency must be an integer between 1 and ${MAX_LOOP_CONCURRENCY}`,
+            code: 'INVALID_CONCURRENCY'
+          });
         }
         break;
     }
@@ -516,10 +754,61 @@ export class WorkflowValidator {
     }
   }
 
+  private validateErrorNotifications(
+    workflow: WorkflowDefinition,
+    errors: ValidationError[],
+    warnings: ValidationWarning[]
+  ): void {
+    const notifyOnError = workflow.errorHandling?.notifyOnError;
+
+    if (!notifyOnError) {
+      if (workflow.actions.some(action => action.onError === 'escalate')) {
+        warnings.push({
+          path: 'errorHandling.notifyOnError',
+          message: 'Actions escalate on error but no notification channels are configured',
+          suggestion: 'Add errorHandling.notifyOnError to be notified of escalations'
+        });
+      }
+      return;
+    }
+
+    if (!Array.isArray(notifyOnError.channels) || notifyOnError.channels.length === 0) {
+      errors.push({
+        path: 'errorHandling.notifyOnError.channels',
+        message: 'Error notifications need at least one channel',
+        code: 'MISSING_NOTIFICATION_CHANNELS'
+      });
+      return;
+    }
+
+    const channelTypes = ['slack', 'email', 'teams', 'discord', 'webhook'];
+    notifyOnError.channels.forEach((channel, index) => {
+      const path = `errorHandling.notifyOnError.channels[${index}]`;
+
+      if (!channelTypes.includes(channel?.type)) {
+        errors.push({
+          path: `${path}.type`,
+          message: `Invalid notification channel type: ${channel?.type}`,
+          code: 'INVALID_NOTIFICATION_CHANNEL'
+        });
+      }
+
+      if (typeof channel?.target !== 'string' || !channel.target.trim()) {
+        errors.push({
+          path: `${path}.target`,
+          message: 'Notification channel target is required',
+          code: 'MISSING_NOTIFICATION_TARGET'
+        });
+      }
+
+      if (channel?.condition) {
+        this.validateConditionGroup(channel.condition, `${path}.condition`, errors, warnings);
+      }
+    });
+  }
+
   private isValidCronExpression(cron: string): boolean {
-    // Basic cron validation (5 or 6 fields)
-    const parts = cron.trim().split(/\s+/);
-    return parts.length === 5 || parts.length === 6;
+    return typeof cron === 'string' && CronExpression.isValid(cron);
   }
 
   private isValidRepositoryPattern(pattern: string): boolean {
@@ -527,6 +816,114 @@ export class WorkflowValidator {
     return /^[a-zA-Z0-9_.-]+\/[a-zA-Z0-9_.*-]+$/.test(pattern);
   }
 
+  /**
+   * Check that `actions.<id>` references in templates and conditions only point
+   * at actions that are certain to have finished, i.e. upstream through dependsOn
+   */
+  private validateActionReferences(
+    actions: any[],
+    inheritedUpstream: Set<string>,
+    path: string,
+    errors: ValidationError[],
+    siblingsAddressable: boolean = true
+  ): void {
+    if (!Array.isArray(actions)) {
+      return;
+    }
+
+    const actionsById = new Map<string, any>(
+      actions.filter(action => action?.id).map(action => [action.id, action])
+    );
+
+    actions.forEach((action, index) => {
+      if (!action || typeof action !== 'object') {
+        return;
+      }
+
+      const actionPath = `${path}[${index}]`;
+      const upstream = siblingsAddressable
+        ? new Set([...inheritedUpstream, ...this.collectUpstream(action, actionsById)])
+        : inheritedUpstream;
+      const nestedKeys = NESTED_ACTION_PARAMETERS[action.type as ActionType] || [];
+      const parameters = { ...action.parameters };
+      nestedKeys.forEach(key => delete parameters[key]);
+
+      const references = new Set<string>();
+      this.collectTemplateReferences(parameters, references);
+      if (action.condition) {
+        this.collectConditionReferences(action.condition, references);
+      }
+
+      for (const reference of references) {
+        if (!upstream.has(reference)) {
+          errors.push({
+            path: actionPath,
+            message: `Action references '${reference}', which is not an upstream dependency`,
+            code: 'INVALID_ACTION_REFERENCE'
+          });
+        }
+      }
+
+      // Branch actions may reference earlier branch actions; loop body actions
+      // get per-iteration IDs, so only what is upstream of the loop itself
+      for (const key of nestedKeys) {
+        this.validateActionReferences(
+          action.parameters?.[key],
+          upstream,
+          `${actionPath}.parameters.${key}`,
+          errors,
+          action.type !== 'loop'
+        );
+      }
+    });
+  }
+
+  /**
+   * IDs of all actions an action depends on, directly or transitively
+   */
+  private collectUpstream(action: any, actionsById: Map<string, any>): Set<string> {
+    const upstream = new Set<string>();
+    const pending: string[] = [...(action.dependsOn || [])];
+
+    while (pending.length > 0) {
+      const id = pending.pop()!;
+      if (upstream.has(id) || !actionsById.has(id)) {
+        continue;
+      }
+      upstream.add(id);
+      pending.push(...(actionsById.get(id).dependsOn || []));
+    }
+
+    return upstream;
+  }
+
+  private collectTemplateReferences(value: any, references: Set<string>): void {
+    if (typeof value === 'string') {
+      for (const [, expression] of value.matchAll(/\{\{([^}]+)\}\}/g)) {
+        for (const [, id] of expression!.matchAll(/(?:^|[^\w.])actions\.([\w-]+)/g)) {
+          references.add(id!);
+        }
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach(item => this.collectTemplateReferences(item, references));
+    } else if (value && typeof value === 'object') {
+      Object.values(value).forEach(item => this.collectTemplateReferences(item, references));
+    }
+  }
+
+  private collectConditionReferences(condition: any, references: Set<string>): void {
+    for (const rule of condition?.rules || []) {
+      if (rule?.rules) {
+        this.collectConditionReferences(rule, references);
+      } else if (typeof rule?.field === 'string') {
+        const match = rule.field.match(/^actions\.([\w-]+)/);
+        if (match) {
+          references.add(match[1]);
+        }
+      }
+    }
+  }
+
   private hasCircularDependencies(actions: any[]): boolean {
     const graph = new Map<string, string[]>();
     const visited = new Set<string>();
@@ -0,0 +1,925 @@
+/**
+ * YAML reading and writing for workflow definitions
+ * Covers the YAML written by hand for workflows: block mappings and sequences, flow collections,
+ * plain and quoted scalars, literal and folded block scalars, and comments. Anchors, aliases,
+ * tags and multiple documents are rejected. Parsing records where every value came from, so
+ * validation errors can be reported with a line and column.
+ */
+
+import { WorkflowDefinition, ValidationError } from '../types/workflow-schema';
+
+export type WorkflowFormat = 'json' | 'yaml';
+
+export const WORKFLOW_FORMATS: WorkflowFormat[] = ['json', 'yaml'];
+
+export const YAML_CONTENT_TYPES = ['application/yaml', 'application/x-yaml', 'text/yaml', 'text/x-yaml'];
+
+export interface SourcePosition {
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+export interface YamlDocument {
+  value: unknown;
+  /**
+   * Where the value at a validation path such as "actions[0].parameters.title"
+   * is written, or its closest parent if it is missing
+   */
+  locate(path: string): SourcePosition | null;
+}
+
+export type LocatedValidationError = ValidationError & Partial<SourcePosition>;
+
+export class YamlSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly line: number,
+    public readonly column: number
+  ) {
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = 'YamlSyntaxError';
+  }
+}
+
+/**
+ * Parse a single YAML document
+ */
+export function parseYaml(source: string): YamlDocument {
+  const parser = new YamlParser(source);
+  const value = parser.parse();
+  const positions = parser.positions;
+
+  return {
+    value,
+    locate(path: string): SourcePosition | null {
+      let current = normalizePath(path);
+      for (;;) {
+        const position = positions.get(current);
+        if (position) {
+          return position;
+        }
+        if (current === '') {
+          return null;
+        }
+        current = current.replace(/(\.[^.[]*|\[\d+\])$/, '').replace(/^[^.[]*$/, '');
+      }
+    }
+  };
+}
+
+/**
+ * Render a value as a YAML document
+ */
+export function stringifyYaml(value: unknown): string {
+  return renderBlock(value, 0).join('\n') + '\n';
+}
+
+/**
+ * Attach the line and column of each error's path in the document
+ */
+export function locateValidationErrors(errors: ValidationError[], document: YamlDocument): LocatedValidationError[] {
+  return errors.map(error => ({ ...error, ...document.locate(error.path) }));
+}
+
+/**
+ * The part of a document under a top-level key, e.g. the workflow in a plan request,
+ * locating paths relative to that key
+ */
+export function documentAt(document: YamlDocument, key: string): YamlDocument {
+  return {
+    value: (document.value as Record<string, unknown> | null)?.[key],
+    locate(path: string): SourcePosition | null {
+      const relative = normalizePath(path);
+      return document.locate(relative ? `${key}.${relative}` : key);
+    }
+  };
+}
+
+/**
+ * Several workflows in one file, as `{ workflows: [...] }`
+ */
+export function serializeWorkflows(workflows: WorkflowDefinition[], format: WorkflowFormat): string {
+  const bundle = { workflows };
+  return format === 'yaml' ? stringifyYaml(bundle) : JSON.stringify(bundle, null, 2);
+}
+
+// Validation paths look like "actions[0].parameters.title"; schema errors may use "['odd key']" or a leading "."
+function normalizePath(path: string): string {
+  if (path === 'root') {
+    return '';
+  }
+  return path
+    .replace(/\['((?:[^'\\]|\\.)*)'\]/g, (_match, key: string) => `.${key}`)
+    .replace(/^\./, '');
+}
+
+function joinKey(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+// Parsing
+
+interface ContentLine {
+  number: number; // 1-based
+  indent: number;
+  text: string; // Without indentation, comment or trailing whitespace
+}
+
+interface FlowSegment {
+  offset: number; // Start of the line in the joined flow source
+  line: number;
+  column: number; // Column of the segment's first character
+}
+
+class YamlParser {
+  public readonly positions = new Map<string, SourcePosition>();
+  private readonly lines: string[];
+  private index = 0;
+
+  constructor(source: string) {
+    this.lines = source.replace(/^\uFEFF/, '').split(/\r?\n/);
+  }
+
+  public parse(): unknown {
+    this.skipBlank();
+    if (this.index < this.lines.length && /^---(\s|$)/.test(this.lines[this.index]!)) {
+      const line = this.current();
+      if (line.text.slice(3).trim()) {
+        throw new YamlSyntaxError('Content after "---" is not supported', line.number, 4);
+      }
+      this.index++;
+      this.skipBlank();
+    }
+
+    if (this.index >= this.lines.length) {
+      this.positions.set('', { line: 1, column: 1 });
+      return null;
+    }
+
+    const first = this.current();
+    if (first.text.startsWith('%')) {
+      throw new YamlSyntaxError('Directives are not supported', first.number, first.indent + 1);
+    }
+    this.positions.set('', { line: first.number, column: first.indent + 1 });
+    const value = this.parseBlock('');
+
+    this.skipBlank();
+    if (this.index < this.lines.length && /^\.\.\.(\s|$)/.test(this.lines[this.index]!)) {
+      this.index++;
+      this.skipBlank();
+    }
+    if (this.index < this.lines.length) {
+      const line = this.current();
+      throw new YamlSyntaxError(
+        line.text.startsWith('---') ? 'Multiple documents are not supported' : 'Unexpected content',
+        line.number,
+        line.indent + 1
+      );
+    }
+
+    return value;
+  }
+
+  private current(): ContentLine {
+    const raw = this.lines[this.index]!;
+    const indent = raw.length - raw.replace(/^ */, '').length;
+    if (raw[indent] === '\t') {
+      throw new YamlSyntaxError('Tabs cannot be used for indentation', this.index + 1, indent + 1);
+    }
+    return { number: this.index + 1, indent, text: stripComment(raw.slice(indent)).trimEnd() };
+  }
+
+  private skipBlank(): void {
+    while (this.index < this.lines.length && stripComment(this.lines[this.index]!).trim() === '') {
+      this.index++;
+    }
+  }
+
+  /**
+   * A node starting on the current line, which is indented at the node's level
+   */
+  private parseBlock(path: string): unknown {
+    const line = this.current();
+
+    if (isSequenceItem(line.text)) {
+      return this.parseSequence(line.indent, path);
+    }
+    if (line.text.startsWith('? ')) {
+      throw new YamlSyntaxError('Complex mapping keys are not supported', line.number, line.indent + 1);
+    }
+    if (findMappingColon(line.text) >= 0) {
+      return this.parseMapping(line.indent, path);
+    }
+
+    this.index++;
+    if (/^[|>]/.test(line.text)) {
+      return this.parseBlockScalar(line.text, line, line.indent - 1);
+    }
+    return this.parseInline(line.text, line.number, line.indent + 1, path);
+  }
+
+  private parseMapping(indent: number, path: string): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    for (;;) {
+      this.skipBlank();
+      if (this.index >= this.lines.length) {
+        break;
+      }
+
+      const line = this.current();
+      if (line.indent < indent || isSequenceItem(line.text) || isDocumentMarker(line)) {
+        break;
+      }
+      if (line.indent > indent) {
+        throw new YamlSyntaxError('Unexpected indentation', line.number, line.indent + 1);
+      }
+
+      const colon = findMappingColon(line.text);
+      if (colon < 0) {
+        throw new YamlSyntaxError('Expected a "key: value" entry', line.number, line.indent + 1);
+      }
+
+      const key = this.parseKey(line.text.slice(0, colon).trim(), line);
+      if (Object.prototype.hasOwnProperty.call(result, key)) {
+        throw new YamlSyntaxError(`Duplicate key "${key}"`, line.number, line.indent + 1);
+      }
+
+      const keyPath = joinKey(path, key);
+      this.positions.set(keyPath, { line: line.number, column: line.indent + 1 });
+
+      const afterColon = line.text.slice(colon + 1);
+      const rest = afterColon.trim();
+      const restColumn = line.indent + colon + 2 + (afterColon.length - afterColon.trimStart().length);
+
+      this.index++;
+      // Defined rather than assigned, so a "__proto__" key is an ordinary key
+      Object.defineProperty(result, key, {
+        value: this.parseValue(rest, line, restColumn, keyPath, indent, true),
+        enumerable: true,
+        writable: true,
+        configurable: true
+      });
+    }
+
+    return result;
+  }
+
+  private parseSequence(indent: number, path: string): unknown[] {
+    const result: unknown[] = [];
+
+    for (;;) {
+      this.skipBlank();
+      if (this.index >= this.lines.length) {
+        break;
+      }
+
+      const line = this.current();
+      if (line.indent < indent || isDocumentMarker(line)) {
+        break;
+      }
+      if (line.indent > indent) {
+        throw new YamlSyntaxError('Unexpected indentation', line.number, line.indent + 1);
+      }
+      if (!isSequenceItem(line.text)) {
+        break;
+      }
+
+      const itemPath = `${path}[${result.length}]`;
+      this.positions.set(itemPath, { line: line.number, column: line.indent + 1 });
+
+      const rest = line.text.slice(1).trimStart();
+      const restIndent = line.indent + line.text.length - rest.length;
+
+      if (rest !== '' && (isSequenceItem(rest) || findMappingColon(rest) >= 0)) {
+        // "- key: value" or "- - item": read the rest of the line as a block at its own indentation
+        this.lines[this.index] = ' '.repeat(restIndent) + rest;
+        result.push(this.parseBlock(itemPath));
+        continue;
+      }
+
+      this.index++;
+      result.push(this.parseValue(rest, line, restIndent + 1, itemPath, indent, false));
+    }
+
+    return result;
+  }
+
+  /**
+   * The value after "key:" or "-": inline, a block scalar, or a block on the following lines
+   */
+  private parseValue(
+    rest: string,
+    line: ContentLine,
+    column: number,
+    path: string,
+    parentIndent: number,
+    allowSameIndentSequence: boolean
+  ): unknown {
+    if (rest === '') {
+      this.skipBlank();
+      if (this.index >= this.lines.length) {
+        return null;
+      }
+
+      const next = this.current();
+      if (next.indent > parentIndent) {
+        return this.parseBlock(path);
+      }
+      // A sequence may be indented at the same level as the key it belongs to
+      if (allowSameIndentSequence && next.indent === parentIndent && isSequenceItem(next.text)) {
+        return this.parseSequence(next.indent, path);
+      }
+      return null;
+    }
+
+    if (/^[|>]/.test(rest)) {
+      return this.parseBlockScalar(rest, line, parentIndent);
+    }
+
+    return this.parseInline(rest, line.number, column, path);
+  }
+
+  private parseKey(text: string, line: ContentLine): string {
+    if (text === '') {
+      throw new YamlSyntaxError('Empty mapping key', line.number, line.indent + 1);
+    }
+    if (/^[&*!?]/.test(text)) {
+      throw new YamlSyntaxError('Anchors, aliases, tags and complex keys are not supported', line.number, line.indent + 1);
+    }
+    if (text.startsWith('"') || text.startsWith("'")) {
+      return String(parseScalar(text, line.number, line.indent + 1));
+    }
+    return text;
+  }
+
+  /**
+   * A literal (|) or folded (>) block scalar whose header is `header`
+   */
+  private parseBlockScalar(header: string, line: ContentLine, parentIndent: number): string {
+    const match = /^([|>])([+-]?)([1-9]?)([+-]?)$/.exec(header);
+    if (!match) {
+      throw new YamlSyntaxError('Invalid block scalar header', line.number, line.indent + 1);
+    }
+    const [, style, chompBefore, indentIndicator, chompAfter] = match;
+    const chomping = chompBefore || chompAfter;
+
+    let contentIndent = indentIndicator ? Math.max(parentIndent, 0) + parseInt(indentIndicator, 10) : 0;
+    const content: string[] = [];
+
+    while (this.index < this.lines.length) {
+      const raw = this.lines[this.index]!;
+      const indent = raw.length - raw.replace(/^ */, '').length;
+
+      if (raw.trim() === '') {
+        content.push(raw.slice(contentIndent || raw.length));
+        this.index++;
+        continue;
+      }
+      if (!contentIndent) {
+        if (indent <= parentIndent) {
+          break;
+        }
+        contentIndent = indent;
+      }
+      if (indent < contentIndent) {
+        break;
+      }
+
+      content.push(raw.slice(contentIndent));
+      this.index++;
+    }
+
+    let trailing = 0;
+    while (content.length > 0 && content[content.length - 1] === '') {
+      content.pop();
+      trailing++;
+    }
+
+    const body = style === '|' ? content.join('\n') : foldLines(content);
+    if (chomping === '-' || body === '') {
+      return chomping === '+' ? '\n'.repeat(trailing) : body;
+    }
+    return chomping === '+' ? body + '\n' + '\n'.repeat(trailing) : body + '\n';
+  }
+
+  /**
+   * A scalar or flow collection. Flow collections may continue on the following lines.
+   */
+  private parseInline(text: string, lineNumber: number, column: number, path: string): unknown {
+    if (!text.startsWith('[') && !text.startsWith('{')) {
+      this.positions.set(path, this.positions.get(path) ?? { line: lineNumber, column });
+      return parseScalar(text, lineNumber, column);
+    }
+
+    let source = text;
+    const segments: FlowSegment[] = [{ offset: 0, line: lineNumber, column }];
+
+    while (!isFlowClosed(source)) {
+      if (this.index >= this.lines.length) {
+        throw new YamlSyntaxError('Unterminated flow collection', lineNumber, column);
+      }
+      segments.push({ offset: source.length + 1, line: this.index + 1, column: 1 });
+      source += '\n' + stripComment(this.lines[this.index]!);
+      this.index++;
+    }
+
+    return new FlowParser(source, segments, this.positions).parse(path);
+  }
+}
+
+/**
+ * Parser for [..] and {..} collections, which may span lines
+ */
+class FlowParser {
+  private pos = 0;
+
+  constructor(
+    private readonly source: string,
+    private readonly segments: FlowSegment[],
+    private readonly positions: Map<string, SourcePosition>
+  ) {}
+
+  public parse(path: string): unknown {
+    const value = this.parseValue(path);
+    this.skipSpace();
+    if (this.pos < this.source.length) {
+      throw this.error('Unexpected content after flow collection');
+    }
+    return value;
+  }
+
+  private parseValue(path: string): unknown {
+    this.skipSpace();
+    const start = this.pos;
+    const ch = this.source[this.pos];
+
+    if (ch === '[') {
+      return this.parseSequence(path);
+    }
+    if (ch === '{') {
+      return this.parseMapping(path);
+    }
+    if (ch === '"' || ch === "'") {
+      const end = findQuoteEnd(this.source, this.pos);
+      if (end < 0) {
+        throw this.error('Unterminated quoted string');
+      }
+      this.pos = end + 1;
+      const { line, column } = this.position(start);
+      return parseScalar(this.source.slice(start, end + 1), line, column);
+    }
+
+    const text = this.readPlain();
+    if (text === '') {
+      throw this.error('Expected a value');
+    }
+    const { line, column } = this.position(start);
+    return parseScalar(text, line, column);
+  }
+
+  private parseSequence(path: string): unknown[] {
+    const result: unknown[] = [];
+    this.pos++;
+
+    for (;;) {
+      this.skipSpace();
+      if (this.source[this.pos] === ']') {
+        this.pos++;
+        return result;
+      }
+
+      const itemPath = `${path}[${result.length}]`;
+      this.positions.set(itemPath, this.position(this.pos));
+      result.push(this.parseValue(itemPath));
+
+      this.skipSpace();
+      const next = this.source[this.pos];
+      if (next === ',') {
+        this.pos++;
+      } else if (next === ']') {
+        this.pos++;
+        return result;
+      } else {
+        throw this.error(next === ':' ? 'Mappings inside flow sequences must use {..}' : 'Expected "," or "]"');
+      }
+    }
+  }
+
+  private parseMapping(path: string): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    this.pos++;
+
+    for (;;) {
+      this.skipSpace();
+      if (this.source[this.pos] === '}') {
+        this.pos++;
+        return result;
+      }
+
+      const keyStart = this.pos;
+      let key: string;
+      if (this.source[this.pos] === '"' || this.source[this.pos] === "'") {
+        const end = findQuoteEnd(this.source, this.pos);
+        if (end < 0) {
+          throw this.error('Unterminated quoted string');
+        }
+        const { line, column } = this.position(keyStart);
+        key = String(parseScalar(this.source.slice(keyStart, end + 1), line, column));
+        this.pos = end + 1;
+      } else {
+        key = this.readPlain();
+        if (key === '') {
+          throw this.error('Expected a mapping key');
+        }
+      }
+
+      if (Object.prototype.hasOwnProperty.call(result, key)) {
+        throw new YamlSyntaxError(`Duplicate key "${key}"`, this.position(keyStart).line, this.position(keyStart).column);
+      }
+
+      const keyPath = joinKey(path, key);
+      this.positions.set(keyPath, this.position(keyStart));
+
+      this.skipSpace();
+      let value: unknown = null;
+      if (this.source[this.pos] === ':') {
+        this.pos++;
+        this.skipSpace();
+        if (this.source[this.pos] !== ',' && this.source[this.pos] !== '}') {
+          value = this.parseValue(keyPath);
+        }
+      }
+      Object.defineProperty(result, key, { value, enumerable: true, writable: true, configurable: true });
+
+      this.skipSpace();
+      const next = this.source[this.pos];
+      if (next === ',') {
+        this.pos++;
+      } else if (next === '}') {
+        this.pos++;
+        return result;
+      } else {
+        throw this.error('Expected "," or "}"');
+      }
+    }
+  }
+
+  // Plain scalars end at flow indicators and at ": "
+  private readPlain(): string {
+    const start = this.pos;
+    while (this.pos < this.source.length) {
+      const ch = this.source[this.pos]!;
+      if (ch === ',' || ch === '[' || ch === ']' || ch === '{' || ch === '}') {
+        break;
+      }
+      if (ch === ':' && /[\s,[\]{}]/.test(this.source[this.pos + 1] ?? ' ')) {
+        break;
+      }
+      this.pos++;
+    }
+    return this.source.slice(start, this.pos).replace(/\s*\n\s*/g, ' ').trim();
+  }
+
+  private skipSpace(): void {
+    while (this.pos < this.source.length && /\s/.test(this.source[this.pos]!)) {
+      this.pos++;
+    }
+  }
+
+  private position(offset: number): SourcePosition {
+    let segment = this.segments[0]!;
+    for (const candidate of this.segments) {
+      if (candidate.offset <= offset) {
+        segment = candidate;
+      }
+    }
+    return { line: segment.line, column: segment.column + offset - segment.offset };
+  }
+
+  private error(message: string): YamlSyntaxError {
+    const { line, column } = this.position(Math.min(this.pos, this.source.length));
+    return new YamlSyntaxError(message, line, column);
+  }
+}
+
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = {
+  '0': '\0', a: '\x07', b: '\b', t: '\t', '\t': '\t', n: '\n', v: '\v', f: '\f', r: '\r', e: '\x1b',
+  ' ': ' ', '"': '"', '/': '/', '\\': '\\', N: '\u0085', _: '\u00a0', L: '\u2028', P: '\u2029'
+};
+
+const HEX_ESCAPE_LENGTHS: Record<string, number> = { x: 2, u: 4, U: 8 };
+
+function parseScalar(text: string, line: number, column: number): unknown {
+  if (text.startsWith('"')) {
+    const end = findQuoteEnd(text, 0);
+    if (end < 0) {
+      throw new YamlSyntaxError('Unterminated quoted string (multi-line quoted strings are not supported)', line, column);
+    }
+    if (end !== text.length - 1) {
+      throw new YamlSyntaxError('Unexpected content after quoted string', line, column + end + 1);
+    }
+    return unescapeDoubleQuoted(text.slice(1, -1), line, column);
+  }
+
+  if (text.startsWith("'")) {
+    const end = findQuoteEnd(text, 0);
+    if (end < 0) {
+      throw new YamlSyntaxError('Unterminated quoted string (multi-line quoted strings are not supported)', line, column);
+    }
+    if (end !== text.length - 1) {
+      throw new YamlSyntaxError('Unexpected content after quoted string', line, column + end + 1);
+    }
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+
+  if (/^[&*!%@`]/.test(text)) {
+    throw new YamlSyntaxError('Anchors, aliases, tags and reserved indicators are not supported', line, column);
+  }
+
+  return resolvePlain(text);
+}
+
+function unescapeDoubleQuoted(text: string, line: number, column: number): string {
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if (ch !== '\\') {
+      result += ch;
+      continue;
+    }
+
+    const escape = text[++i] ?? '';
+    const hexLength = HEX_ESCAPE_LENGTHS[escape];
+    if (hexLength) {
+      const hex = text.slice(i + 1, i + 1 + hexLength);
+      if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length !== hexLength) {
+        throw new YamlSyntaxError(`Invalid escape "\\${escape}${hex}"`, line, column + i);
+      }
+      result += String.fromCodePoint(parseInt(hex, 16));
+      i += hexLength;
+    } else if (escape in DOUBLE_QUOTE_ESCAPES) {
+      result += DOUBLE_QUOTE_ESCAPES[escape];
+    } else {
+      throw new YamlSyntaxError(`Invalid escape "\\${escape}"`, line, column + i);
+    }
+  }
+  return result;
+}
+
+// YAML 1.2 core schema
+function resolvePlain(text: string): unknown {
+  if (/^(~|null|Null|NULL)?$/.test(text)) {
+    return null;
+  }
+  if (/^(true|True|TRUE)$/.test(text)) {
+    return true;
+  }
+  if (/^(false|False|FALSE)$/.test(text)) {
+    return false;
+  }
+  if (/^[-+]?[0-9]+$/.test(text)) {
+    return parseInt(text, 10);
+  }
+  if (/^0o[0-7]+$/.test(text)) {
+    return parseInt(text.slice(2), 8);
+  }
+  if (/^0x[0-9a-fA-F]+$/.test(text)) {
+    return parseInt(text.slice(2), 16);
+  }
+  if (/^[-+]?(\.[0-9]+|[0-9]+(\.[0-9]*)?)([eE][-+]?[0-9]+)?$/.test(text)) {
+    return parseFloat(text);
+  }
+  if (/^[-+]?\.(inf|Inf|INF)$/.test(text)) {
+    return text.startsWith('-') ? -Infinity : Infinity;
+  }
+  if (/^\.(nan|NaN|NAN)$/.test(text)) {
+    return NaN;
+  }
+  return text;
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+function isDocumentMarker(line: ContentLine): boolean {
+  return line.indent === 0 && /^(---|\.\.\.)(\s|$)/.test(line.text);
+}
+
+/**
+ * Index of the ":" separating a block mapping key from its value, or -1
+ */
+function findMappingColon(text: string): number {
+  if (/^[[{]/.test(text)) {
+    return -1;
+  }
+
+  let start = 0;
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const end = findQuoteEnd(text, 0);
+    if (end < 0) {
+      return -1;
+    }
+    start = end + 1;
+    const colon = text.slice(start).search(/\S/);
+    return colon >= 0 && text[start + colon] === ':' && /^(\s|$)/.test(text.slice(start + colon + 1))
+      ? start + colon
+      : -1;
+  }
+
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === ':' && (i + 1 === text.length || /\s/.test(text[i + 1]!))) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Index of the quote closing the quoted scalar that starts at `start`, or -1
+ */
+function findQuoteEnd(text: string, start: number): number {
+  const quote = text[start];
+  for (let i = start + 1; i < text.length; i++) {
+    if (quote === '"' && text[i] === '\\') {
+      i++;
+    } else if (text[i] === quote) {
+      if (quote === "'" && text[i + 1] === "'") {
+        i++;
+      } else {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+function stripComment(text: string): string {
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if ((ch === '"' || ch === "'") && (i === 0 || /[\s[{,]/.test(text[i - 1]!))) {
+      const end = findQuoteEnd(text, i);
+      if (end < 0) {
+        return text;
+      }
+      i = end;
+    } else if (ch === '#' && (i === 0 || /\s/.test(text[i - 1]!))) {
+      return text.slice(0, i);
+    }
+  }
+  return text;
+}
+
+function isFlowClosed(text: string): boolean {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if (ch === '"' || ch === "'") {
+      const end = findQuoteEnd(text, i);
+      if (end < 0) {
+        return false;
+      }
+      i = end;
+    } else if (ch === '[' || ch === '{') {
+      depth++;
+    } else if (ch === ']' || ch === '}') {
+      depth--;
+      if (depth === 0) {
+        return true;
+      }
+    }
+  }
+  return depth <= 0;
+}
+
+// Line folding for ">" scalars: a single line break becomes a space, blank lines become line
+// breaks, and breaks next to more-indented lines are kept
+function foldLines(lines: string[]): string {
+  let result = '';
+  let previous: string | null = null;
+  let blanks = 0;
+
+  for (const line of lines) {
+    if (line === '') {
+      blanks++;
+      continue;
+    }
+
+    if (previous === null) {
+      result = '\n'.repeat(blanks) + line;
+    } else if (/^\s/.test(line) || /^\s/.test(previous)) {
+      result += '\n'.repeat(blanks + 1) + line;
+    } else {
+      result += blanks > 0 ? '\n'.repeat(blanks) + line : ' ' + line;
+    }
+
+    previous = line;
+    blanks = 0;
+  }
+
+  return result;
+}
+
+// Rendering
+
+function renderBlock(value: unknown, indent: number): string[] {
+  const pad = ' '.repeat(indent);
+
+  if (Array.isArray(value) && value.length > 0) {
+    return value.flatMap(item => {
+      if (isNonEmptyCollection(item)) {
+        const lines = renderBlock(item, indent + 2);
+        lines[0] = `${pad}- ${lines[0]!.slice(indent + 2)}`;
+        return lines;
+      }
+      return renderScalarLines(`${pad}- `, item, indent + 2);
+    });
+  }
+
+  if (isPlainObject(value) && Object.keys(value).length > 0) {
+    return Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .flatMap(([key, item]) => {
+        const prefix = `${pad}${renderString(key)}:`;
+        if (isNonEmptyCollection(item)) {
+          return [prefix, ...renderBlock(item, indent + 2)];
+        }
+        return renderScalarLines(`${prefix} `, item, indent + 2);
+      });
+  }
+
+  return renderScalarLines(pad, value, indent);
+}
+
+function renderScalarLines(prefix: string, value: unknown, contentIndent: number): string[] {
+  if (typeof value === 'string' && isLiteralBlockSafe(value)) {
+    const body = value.replace(/\n+$/, '');
+    const trailing = value.length - body.length;
+    const header = trailing === 0 ? '|-' : trailing === 1 ? '|' : '|+';
+    const pad = ' '.repeat(contentIndent);
+
+    return [
+      `${prefix}${header}`,
+      ...body.split('\n').map(line => line ? pad + line : ''),
+      ...Array<string>(Math.max(trailing - 1, 0)).fill('')
+    ];
+  }
+
+  return [prefix + renderScalar(value)];
+}
+
+function renderScalar(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return '[]';
+  }
+  if (isPlainObject(value)) {
+    return '{}';
+  }
+  if (typeof value === 'number') {
+    if (Number.isNaN(value)) {
+      return '.nan';
+    }
+    if (!Number.isFinite(value)) {
+      return value > 0 ? '.inf' : '-.inf';
+    }
+    return String(value);
+  }
+  if (typeof value === 'boolean') {
+    return String(value);
+  }
+  return renderString(value instanceof Date ? value.toISOString() : String(value));
+}
+
+// Plain when it reads back as the same string, double-quoted (JSON escapes are valid YAML) otherwise.
+// YAML 1.1 booleans such as "yes" are quoted too, since many tools still read them as booleans.
+function renderString(value: string): string {
+  const plain = value.length > 0 &&
+    value === value.trim() &&
+    !/^(y|Y|yes|Yes|YES|n|N|no|No|NO|on|On|ON|off|Off|OFF)$/.test(value) &&
+    !/^[-?:,[\]{}#&*!|>'"%@`]/.test(value) &&
+    !/[\x00-\x1f\x7f\u0085\u2028\u2029]/.test(value) &&
+    !/: |:$| #/.test(value) &&
+    typeof resolvePlain(value) === 'string';
+
+  return plain ? value : JSON.stringify(value);
+}
+
+function isLiteralBlockSafe(value: string): boolean {
+  const body = value.replace(/\n+$/, '');
+  return body.includes('\n') &&
+    !/^[ \t]/.test(body) &&
+    !/[\r\x00-\x08\x0b\x0c\x0e-\x1f\x7f]/.test(value) &&
+    !body.split('\n').some(line => line !== '' && line.trim() === '');
+}
+
+function isNonEmptyCollection(value: unknown): boolean {
+  return (Array.isArray(value) && value.length > 0) || (isPlainObject(value) && Object.keys(value).length > 0);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}